@@ -66,3 +66,91 @@ export async function post(url, data) {
 
   return json;
 }
+
+/**
+ * PUT JSON to endpoint
+ * @param {string} url - Endpoint URL
+ * @param {Object} data - Request body
+ * @returns {Promise<Object>} Response JSON
+ * @throws {ApiError} On HTTP error or parse failure
+ */
+export async function put(url, data) {
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  // Handle non-JSON responses (HTML error pages, empty responses)
+  let json;
+  try {
+    json = await response.json();
+  } catch (parseError) {
+    throw new ApiError('Invalid JSON response from server', response.status, 'PARSE_ERROR');
+  }
+
+  if (!response.ok) {
+    const message = json.error?.message || `Server error: HTTP ${response.status}`;
+    const code = json.error?.code || 'UNKNOWN';
+    throw new ApiError(message, response.status, code);
+  }
+
+  return json;
+}
+
+/**
+ * DELETE an endpoint
+ * @param {string} url - Endpoint URL
+ * @returns {Promise<Object>} Response JSON
+ * @throws {ApiError} On HTTP error or parse failure
+ */
+export async function del(url) {
+  const response = await fetch(url, { method: 'DELETE' });
+
+  // Handle non-JSON responses (HTML error pages, empty responses)
+  let json;
+  try {
+    json = await response.json();
+  } catch (parseError) {
+    throw new ApiError('Invalid JSON response from server', response.status, 'PARSE_ERROR');
+  }
+
+  if (!response.ok) {
+    const message = json.error?.message || `Server error: HTTP ${response.status}`;
+    const code = json.error?.code || 'UNKNOWN';
+    throw new ApiError(message, response.status, code);
+  }
+
+  return json;
+}
+
+/**
+ * POST a file as the raw request body
+ * @param {string} url - Endpoint URL
+ * @param {Blob} file - File or blob to send
+ * @returns {Promise<Object>} Response JSON
+ * @throws {ApiError} On HTTP error or parse failure
+ */
+export async function upload(url, file) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file,
+  });
+
+  // Handle non-JSON responses (HTML error pages, empty responses)
+  let json;
+  try {
+    json = await response.json();
+  } catch (parseError) {
+    throw new ApiError('Invalid JSON response from server', response.status, 'PARSE_ERROR');
+  }
+
+  if (!response.ok) {
+    const message = json.error?.message || `Server error: HTTP ${response.status}`;
+    const code = json.error?.code || 'UNKNOWN';
+    throw new ApiError(message, response.status, code);
+  }
+
+  return json;
+}
@@ -1,30 +1,62 @@
-import { get, ApiError } from "./client.js";
+import { get, upload, ApiError } from "./client.js";
+
+const SOURCE_PREFIXES = {
+  claude: "/api",
+  copilot: "/api/copilot",
+  codex: "/api/codex",
+  gemini: "/api/gemini",
+  cline: "/api/cline",
+  cursor: "/api/cursor",
+};
+
+function sourcePrefix(source) {
+  return SOURCE_PREFIXES[source] || SOURCE_PREFIXES.claude;
+}
 
 /**
  * Fetch list of available projects from specified source
- * @param {"claude" | "copilot"} source - Session source type
+ * @param {"claude" | "copilot" | "codex" | "gemini" | "cline" | "cursor"} source - Session source type
  * @returns {Promise<{projects: Array<{folder: string, path: string}>}>}
  * @throws {ApiError} On HTTP error or parse failure
  */
 export async function fetchProjects(source = "claude") {
-  const endpoint = source === "copilot"
-    ? "/api/copilot/projects"
-    : "/api/projects";
-  return get(endpoint);
+  return get(`${sourcePrefix(source)}/projects`);
 }
 
 /**
  * Fetch sessions for a specific project from specified source
- * @param {"claude" | "copilot"} source - Session source type
- * @param {string} folder - Folder identifier (encoded path for Claude, hash for Copilot)
+ * @param {"claude" | "copilot" | "codex" | "gemini" | "cline" | "cursor"} source - Session source type
+ * @param {string} folder - Folder identifier (encoded path for Claude/Codex/Cline, hash for Copilot/Gemini/Cursor)
  * @returns {Promise<{folder: string, path: string, sessions: Array}>}
  * @throws {ApiError} On HTTP error or parse failure
  */
 export async function fetchSessions(source, folder) {
-  const endpoint = source === "copilot"
-    ? `/api/copilot/projects/${encodeURIComponent(folder)}/sessions`
-    : `/api/projects/${encodeURIComponent(folder)}/sessions`;
-  return get(endpoint);
+  return get(`${sourcePrefix(source)}/projects/${encodeURIComponent(folder)}/sessions`);
+}
+
+/**
+ * Full-text search across Claude and Copilot sessions
+ * @param {string} query - Words or "quoted phrases"
+ * @param {{source?: string, project?: string, from?: string, to?: string, role?: "user" | "assistant" | "tool"}} [filters]
+ * @returns {Promise<{query: string, results: Array<{sessionId: string, source: string, projectPath: string, turnIndex: number, role: string, snippet: string, url: string}>}>}
+ * @throws {ApiError} On HTTP error or parse failure
+ */
+export async function searchSessions(query, filters = {}) {
+  const params = new URLSearchParams({ q: query });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  return get(`/api/search?${params}`);
+}
+
+/**
+ * Import sessions from a Claude .jsonl, a Copilot .json, or a .zip/.tar.gz of several
+ * @param {File} file - File picked by the user
+ * @returns {Promise<{imported: Array<{source: string, sessionId: string, projectPath: string, file: string, renamed: boolean, url: string}>, skipped: Array<{file: string, reason: string}>}>}
+ * @throws {ApiError} On HTTP error or parse failure
+ */
+export async function importSessions(file) {
+  return upload(`/api/import?filename=${encodeURIComponent(file.name)}`, file);
 }
 
 export { ApiError };
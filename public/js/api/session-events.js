@@ -0,0 +1,28 @@
+/** Sources whose session files are watched for changes */
+export const LIVE_SOURCES = ["claude", "copilot"];
+
+/**
+ * Subscribe to live session changes (Claude and Copilot).
+ * @param {{source?: "claude" | "copilot", folder?: string, sessionId?: string}} filters - Limit events to these sessions
+ * @param {(event: {type: "created" | "updated" | "deleted", source: string, sessionId: string, folder: string, session?: object}) => void} onEvent
+ * @returns {() => void} Function that closes the stream
+ */
+export function subscribeToSessionEvents(filters, onEvent) {
+  if (typeof EventSource === "undefined") return () => {};
+
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const stream = new EventSource(`/api/events?${params}`);
+  stream.addEventListener("session", (e) => {
+    try {
+      onEvent(JSON.parse(e.data));
+    } catch {
+      // Ignore malformed events
+    }
+  });
+
+  return () => stream.close();
+}
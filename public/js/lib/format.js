@@ -30,6 +30,17 @@ export function formatFileSize(bytes) {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
+/**
+ * Format a token count compactly (e.g., "850", "12.3k", "1.2M")
+ * @param {number} tokens
+ * @returns {string}
+ */
+export function formatTokenCount(tokens) {
+  if (tokens < 1000) return `${tokens}`;
+  if (tokens < 1000 * 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / (1000 * 1000)).toFixed(1)}M`;
+}
+
 /**
  * Escape HTML to prevent XSS
  * @param {string} text
@@ -42,3 +53,14 @@ export function escapeHtml(text) {
     .replace(/>/g, "&gt;")
     .replace(/"/g, "&quot;");
 }
+
+/**
+ * Escape a search snippet and highlight matches marked with [[ and ]]
+ * @param {string} snippet
+ * @returns {string}
+ */
+export function highlightSnippet(snippet) {
+  return escapeHtml(snippet)
+    .replace(/\[\[/g, '<mark class="bg-yellow-200">')
+    .replace(/\]\]/g, "</mark>");
+}
@@ -4,6 +4,7 @@ export const COLORS = {
   assistant: "#22C55E",
   thinking: "#A855F7",
   tool: "#F97316",
+  image: "#EC4899",
 };
 
 export const DEFAULT_WIDTH = 800;
@@ -49,3 +50,79 @@ export function validateTurnInput(value, max) {
   return Math.max(0, Math.min(max, num));
 }
 
+
+/**
+ * Build the turns endpoint for a session.
+ * Claude sessions use the original endpoint; other sources are namespaced.
+ * @param {string} sessionId - Session UUID
+ * @param {string} [source] - "claude" (default), "copilot" or "codex"
+ * @param {string} [workspace] - Copilot workspace hash
+ * @param {string} [leafUuid] - Branch to show, for Claude sessions
+ * @returns {string} Endpoint URL
+ */
+export function buildTurnsUrl(sessionId, source = "claude", workspace = "", leafUuid = "") {
+  const id = encodeURIComponent(sessionId);
+  if (!source || source === "claude") {
+    return leafUuid
+      ? `/api/session/${id}/turns?leafUuid=${encodeURIComponent(leafUuid)}`
+      : `/api/session/${id}/turns`;
+  }
+  const query = workspace ? `?workspace=${encodeURIComponent(workspace)}` : "";
+  return `/api/${encodeURIComponent(source)}/session/${id}/turns${query}`;
+}
+
+/**
+ * Build the subagent turns endpoint for a Claude session.
+ * @param {string} sessionId - Session UUID
+ * @param {string} agentId - Subagent ID from the subagents endpoint
+ * @returns {string} Endpoint URL
+ */
+export function buildSubagentTurnsUrl(sessionId, agentId) {
+  return `/api/session/${encodeURIComponent(sessionId)}/subagents/${encodeURIComponent(agentId)}/turns`;
+}
+
+/**
+ * Build the pinned turns endpoint for a session. Pins are numbered like
+ * the turns of the branch shown, so pass the same leaf as buildTurnsUrl.
+ * @param {string} sessionId - Session UUID
+ * @param {string} [leafUuid] - Branch shown, for Claude sessions
+ * @returns {string} Endpoint URL
+ */
+export function buildPinsUrl(sessionId, leafUuid = "") {
+  const url = `/api/session/${encodeURIComponent(sessionId)}/pins`;
+  return leafUuid ? `${url}?leafUuid=${encodeURIComponent(leafUuid)}` : url;
+}
+
+/**
+ * Pin a turn, or unpin it if it is already pinned.
+ * @param {number[]} pinnedTurns - Pinned turns, 0-based
+ * @param {number} turnIndex - Turn to toggle, 0-based
+ * @returns {number[]} New pinned turns, sorted
+ */
+export function togglePinnedTurn(pinnedTurns, turnIndex) {
+  const next = pinnedTurns.includes(turnIndex)
+    ? pinnedTurns.filter((t) => t !== turnIndex)
+    : [...pinnedTurns, turnIndex];
+  return next.sort((a, b) => a - b);
+}
+
+/**
+ * Label a subagent by its Task description and type.
+ * @param {{ agentId: string, description?: string, subagentType?: string }} subagent
+ * @returns {string} Display label
+ */
+export function formatSubagentLabel(subagent) {
+  const name = subagent.description || `Subagent ${subagent.agentId}`;
+  return subagent.subagentType ? `${name} (${subagent.subagentType})` : name;
+}
+
+/**
+ * Label a branch of a session for the branch picker.
+ * @param {{ active: boolean, totalTurns: number, forkTurnIndex: number|null, lastUserMessage: string }} branch
+ * @returns {string} Display label
+ */
+export function formatBranchLabel(branch) {
+  const origin = branch.active ? "Active branch" : `Branch from turn ${branch.forkTurnIndex + 1}`;
+  const label = `${origin} · ${branch.totalTurns} turns`;
+  return branch.lastUserMessage ? `${label} · ${branch.lastUserMessage}` : label;
+}
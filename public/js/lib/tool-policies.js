@@ -0,0 +1,36 @@
+/**
+ * Tools listed in the clone page's policy table, in display order
+ */
+export const POLICY_TOOLS = ['Read', 'Grep', 'Glob', 'Bash', 'Edit', 'Write', 'WebFetch', 'mcp__*'];
+
+/**
+ * Suggested policies: edit history is what the agent needs, file reads
+ * and searches are most of the bloat
+ */
+export const RECOMMENDED_TOOL_POLICIES = {
+  Read: { mode: 'remove', threshold: 100 },
+  Grep: { mode: 'remove', threshold: 100 },
+  Glob: { mode: 'remove', threshold: 100 },
+  Bash: { mode: 'truncate', threshold: 100 },
+  Edit: { mode: 'keep', threshold: 100 },
+  Write: { mode: 'keep', threshold: 100 },
+  WebFetch: { mode: 'summarize', threshold: 100 },
+};
+
+/**
+ * Builds the toolPolicies request field from the policy table rows
+ * @param {Array<{tool: string, mode: string, threshold: string}>} rows - Rows; mode "default" follows the global setting
+ * @returns {Object|undefined} Policies keyed by tool, or undefined when none are set
+ */
+export function buildToolPolicies(rows) {
+  const policies = {};
+  for (const row of rows) {
+    if (!row.mode || row.mode === 'default') continue;
+    const threshold = parseInt(row.threshold, 10);
+    policies[row.tool] = {
+      mode: row.mode,
+      threshold: Number.isNaN(threshold) ? 100 : Math.max(0, Math.min(100, threshold)),
+    };
+  }
+  return Object.keys(policies).length > 0 ? policies : undefined;
+}
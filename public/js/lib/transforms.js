@@ -28,6 +28,44 @@ export function formatStats(stats) {
 
   result.push({ label: 'Thinking blocks removed', value: stats.thinkingBlocksRemoved });
 
+  if (stats.imagesRemoved) {
+    result.push({ label: 'Images removed', value: stats.imagesRemoved });
+  }
+
+  if (stats.readDeduplication?.resultsReplaced) {
+    const { resultsReplaced, filesAffected, tokensRemoved } = stats.readDeduplication;
+    result.push({
+      label: 'Superseded file reads',
+      value: `${resultsReplaced} in ${filesAffected} files (~${tokensRemoved} tokens)`,
+    });
+  }
+
+  if (stats.pinnedTurns) {
+    result.push({ label: 'Pinned turns kept', value: stats.pinnedTurns });
+  }
+
+  if (stats.handoff) {
+    const { turnsSummarized, transcriptTokens, summaryTokens } = stats.handoff;
+    const size = summaryTokens === undefined ? `~${transcriptTokens} tokens` : `~${transcriptTokens} -> ~${summaryTokens} tokens`;
+    result.push({ label: 'Handoff summary', value: `${turnsSummarized} turns (${size})` });
+  }
+
+  if (stats.turnRange) {
+    result.push({ label: 'Turns kept', value: `${stats.turnRange.fromTurn + 1}-${stats.turnRange.toTurn + 1}` });
+  }
+
+  if (stats.subagentEntriesRemoved) {
+    result.push({ label: 'Subagent entries removed', value: stats.subagentEntriesRemoved });
+  }
+
+  if (stats.subagentCompression) {
+    result.push({ label: 'Subagent tokens removed', value: stats.subagentCompression.tokensRemoved });
+  }
+
+  if (stats.toolSummarization) {
+    result.push({ label: 'Tool results summarized', value: stats.toolSummarization.messagesCompressed });
+  }
+
   return result;
 }
 
@@ -61,3 +99,60 @@ export function formatCompressionStats(compression) {
     { label: 'Token reduction', value: `${reductionPercent}%` },
   ];
 }
+
+/**
+ * Formats the plan chosen for a token budget
+ * @param {Object} [plan] - Plan from a clone with targetTokens
+ * @returns {Array<{label: string, value: string}>} Formatted plan
+ */
+export function formatClonePlan(plan) {
+  if (!plan) {
+    return [];
+  }
+
+  // A written clone knows its real size; compression can land away from the projection
+  const budget = plan.actualTokens !== undefined
+    ? `${plan.actualTokens} of ${plan.targetTokens} (projected ~${plan.projectedTokens})`
+    : `~${plan.projectedTokens} of ${plan.targetTokens}`;
+
+  return [
+    { label: 'Token budget', value: budget },
+    { label: 'Planned steps', value: plan.steps.length > 0 ? plan.steps.join(', ') : 'None needed' },
+  ];
+}
+
+/**
+ * Formats the result of undoing a clone for display
+ * @param {Object} result - Response from DELETE /api/clones/:id
+ * @returns {string}
+ */
+export function formatCloneDeletion(result) {
+  const source = result.sourceIntact ? 'Source session untouched' : 'Source session not found';
+  const until = new Date(result.restorableUntil).toLocaleString();
+  return `Clone deleted. ${source}. Restorable until ${until}.`;
+}
+
+/**
+ * Formats a dry-run clone preview for display
+ * @param {Object|null} preview - Preview from a dryRun clone (result.preview)
+ * @returns {Array<{label: string, value: string|number}>}
+ */
+export function formatClonePreview(preview) {
+  if (!preview) {
+    return [];
+  }
+
+  const result = [
+    { label: 'Tokens before', value: preview.tokensBefore },
+    { label: 'Tokens after', value: preview.tokensAfter },
+    { label: 'Projected context', value: `${preview.projectedContextPercent}% of ${preview.contextWindow}` },
+    { label: 'Blocks removed', value: preview.removedBlockIds.length },
+  ];
+
+  if (preview.compression) {
+    result.push({ label: 'Compressions planned', value: preview.compression.tasksPlanned });
+    result.push({ label: 'Estimated tokens compressed away', value: preview.compression.estimatedTokensRemoved });
+  }
+
+  return result;
+}
@@ -10,6 +10,7 @@ export const COLORS = {
   assistant: '#22C55E', // Green
   tool: '#F97316',      // Orange
   thinking: '#A855F7',  // Purple
+  image: '#EC4899',     // Pink
 };
 
 /**
@@ -20,6 +21,7 @@ export const LABELS = {
   assistant: 'Assistant',
   tool: 'Tool',
   thinking: 'Thinking',
+  image: 'Image',
 };
 
 /**
@@ -52,7 +54,7 @@ export function calculateStripHeight(tokens, maxTokens) {
 
 /**
  * Get color for an entry type
- * @param {string} type - Entry type ('user' | 'assistant' | 'tool' | 'thinking')
+ * @param {string} type - Entry type ('user' | 'assistant' | 'tool' | 'thinking' | 'image')
  * @returns {string} Hex color code
  */
 export function getColor(type) {
@@ -91,6 +93,7 @@ export function calculateStats(structure) {
     assistant: { count: 0, tokens: 0 },
     tool: { count: 0, tokens: 0 },
     thinking: { count: 0, tokens: 0 },
+    image: { count: 0, tokens: 0 },
   };
 
   for (const entry of structure.entries) {
@@ -1,7 +1,8 @@
 import { validateUUID } from '../lib/validation.js';
-import { extractSessionId, formatStats, formatCompressionStats } from '../lib/transforms.js';
+import { extractSessionId, formatStats, formatCompressionStats, formatClonePreview, formatClonePlan, formatCloneDeletion } from '../lib/transforms.js';
 import { validateBands, buildCompressionBands, formatBandPreview } from '../lib/compression.js';
-import { post, ApiError } from '../api/client.js';
+import { POLICY_TOOLS, RECOMMENDED_TOOL_POLICIES, buildToolPolicies } from '../lib/tool-policies.js';
+import { post, del, ApiError } from '../api/client.js';
 import { showLoading, hideLoading, setSubmitDisabled } from '../ui/loading.js';
 import { hideAll, showSuccess, showError } from '../ui/notifications.js';
 
@@ -25,10 +26,20 @@ document.addEventListener('DOMContentLoaded', () => {
   const debugLogCheckbox = document.getElementById('debugLog');
   const toolHandlingModeSelect = document.getElementById('toolHandlingMode');
   const includeUserMessagesCheckbox = document.getElementById('includeUserMessages');
+  const subagentHandlingSelect = document.getElementById('subagentHandling');
   const compressionStatsDiv = document.getElementById('compression-stats');
   const compressionStatsList = document.getElementById('compression-stats-list');
   const debugLogLinkDiv = document.getElementById('debug-log-link');
   const debugLogAnchor = document.getElementById('debug-log-anchor');
+  const toolPoliciesBody = document.getElementById('tool-policies');
+  const recommendedPoliciesBtn = document.getElementById('recommended-policies-btn');
+  const previewDiv = document.getElementById('clone-preview');
+  const previewStatsList = document.getElementById('clone-preview-stats');
+  const previewTurnsList = document.getElementById('clone-preview-turns');
+  const previewStatus = document.getElementById('clone-preview-status');
+  const undoCloneBtn = document.getElementById('undo-clone-btn');
+  const restoreCloneBtn = document.getElementById('restore-clone-btn');
+  const undoCloneStatus = document.getElementById('undo-clone-status');
 
   // Verify required elements exist
   if (!form || !submitBtn || !containers.loading || !containers.success || !containers.error) {
@@ -39,9 +50,161 @@ document.addEventListener('DOMContentLoaded', () => {
   // Hide all results initially
   hideAll(containers);
 
+  // Prefill from links such as the session detail page's "Clone this branch"
+  const urlParams = new URLSearchParams(window.location.search);
+  const leafUuidInput = document.getElementById('leafUuid');
+  const branchNote = document.getElementById('branch-note');
+  if (urlParams.get('sessionId')) {
+    form.elements.sessionId.value = urlParams.get('sessionId');
+  }
+  if (leafUuidInput && urlParams.get('leafUuid')) {
+    leafUuidInput.value = urlParams.get('leafUuid');
+    branchNote.textContent = `Cloning only the branch ending at ${leafUuidInput.value}`;
+    branchNote.classList.remove('hidden');
+  }
+
   // Guard against double submission
   let isSubmitting = false;
 
+  // Session ID of the last clone, for undo and restore
+  let lastCloneId = null;
+
+  // Per-tool policy table
+  if (toolPoliciesBody) {
+    toolPoliciesBody.innerHTML = POLICY_TOOLS.map(tool => `
+      <tr data-tool="${tool}">
+        <td class="py-1 font-mono">${tool}</td>
+        <td class="py-1">
+          <select class="policy-mode border border-gray-300 rounded px-2 py-1">
+            <option value="default">Default</option>
+            <option value="keep">Keep</option>
+            <option value="remove">Remove</option>
+            <option value="truncate">Truncate</option>
+            <option value="summarize">Summarize</option>
+          </select>
+        </td>
+        <td class="py-1">
+          <input type="number" class="policy-threshold w-20 border border-gray-300 rounded px-2 py-1" min="0" max="100" placeholder="100" />
+        </td>
+      </tr>
+    `).join('');
+  }
+
+  recommendedPoliciesBtn?.addEventListener('click', () => {
+    toolPoliciesBody.querySelectorAll('tr').forEach(row => {
+      const policy = RECOMMENDED_TOOL_POLICIES[row.dataset.tool];
+      row.querySelector('.policy-mode').value = policy?.mode || 'default';
+      row.querySelector('.policy-threshold').value = policy ? policy.threshold : '';
+    });
+    schedulePreview();
+  });
+
+  /**
+   * Reads the per-tool policy table
+   */
+  function readToolPolicies() {
+    if (!toolPoliciesBody) return undefined;
+    return buildToolPolicies([...toolPoliciesBody.querySelectorAll('tr')].map(row => ({
+      tool: row.dataset.tool,
+      mode: row.querySelector('.policy-mode').value,
+      threshold: row.querySelector('.policy-threshold').value,
+    })));
+  }
+
+  // Live preview state: only the latest dry run is rendered
+  let previewTimer = null;
+  let previewRequest = 0;
+
+  /**
+   * Reads a 1-based turn number input as a 0-based turn index
+   */
+  function readTurn(name) {
+    const value = parseInt(form.elements[name]?.value, 10);
+    return value >= 1 ? value - 1 : undefined;
+  }
+
+  /**
+   * Reads the handoff summary options; only sent when turns are dropped
+   */
+  function readHandoffSummary(formData) {
+    if (formData.get('handoffSummary') !== 'on' || !readTurn('fromTurn')) return undefined;
+    const instructions = formData.get('handoffInstructions')?.trim();
+    return instructions ? { instructions } : {};
+  }
+
+  /**
+   * Builds the v2 clone request from the form
+   */
+  function buildCloneRequest(sessionId) {
+    const formData = new FormData(form);
+    return {
+      leafUuid: leafUuidInput?.value || undefined,
+      fromTurn: readTurn('fromTurn'),
+      toTurn: readTurn('toTurn'),
+      handoffSummary: readHandoffSummary(formData),
+      sessionId,
+      toolRemoval: parseInt(formData.get('toolRemoval'), 10) || 0,
+      toolHandlingMode: toolHandlingModeSelect?.value || 'remove',
+      toolPolicies: readToolPolicies(),
+      thinkingRemoval: 100, // Always remove all thinking blocks
+      imageRemoval: parseInt(formData.get('imageRemoval'), 10) || 0,
+      imageHandlingMode: formData.get('imageHandlingMode') || 'placeholder',
+      dedupeReads: formData.get('dedupeReads') === 'on',
+      compressionBands: buildCompressionBands(band1Input.value, band2Input.value),
+      includeUserMessages: includeUserMessagesCheckbox?.checked || false,
+      debugLog: debugLogCheckbox.checked,
+      subagentHandling: subagentHandlingSelect?.value || 'keep',
+      targetTokens: parseInt(formData.get('targetTokens'), 10) || undefined,
+    };
+  }
+
+  /**
+   * Renders a dry-run preview of the clone
+   */
+  function renderPreview(preview, plan) {
+    previewStatsList.innerHTML = [...formatClonePlan(plan), ...formatClonePreview(preview)]
+      .map(s => `<li>${s.label}: ${s.value}</li>`)
+      .join('');
+    previewTurnsList.innerHTML = preview.turns
+      .map(t => `<li>Turn ${t.turnIndex + 1}: ${t.before} → ${t.after}</li>`)
+      .join('');
+    previewStatus.textContent = '';
+    previewDiv.classList.remove('hidden');
+  }
+
+  /**
+   * Runs a dry-run clone with the current settings and shows the result
+   */
+  async function updatePreview() {
+    if (!previewDiv) return;
+    const sessionId = form.elements.sessionId.value.trim();
+    if (!validateUUID(sessionId) || !validateBands(band1Input.value, band2Input.value).valid) {
+      previewDiv.classList.add('hidden');
+      return;
+    }
+
+    const request = ++previewRequest;
+    previewStatus.textContent = 'Updating…';
+    try {
+      const result = await post('/api/v2/clone', { ...buildCloneRequest(sessionId), debugLog: false, dryRun: true });
+      if (request === previewRequest && result.preview) {
+        renderPreview(result.preview, result.plan);
+      }
+    } catch (err) {
+      if (request === previewRequest) {
+        previewStatus.textContent = err instanceof ApiError ? err.message : 'Preview unavailable';
+      }
+    }
+  }
+
+  /**
+   * Debounces preview updates while settings change
+   */
+  function schedulePreview() {
+    clearTimeout(previewTimer);
+    previewTimer = setTimeout(updatePreview, 300);
+  }
+
   /**
    * Updates band validation and preview in real-time
    */
@@ -68,6 +231,11 @@ document.addEventListener('DOMContentLoaded', () => {
 
   band1Input.addEventListener('input', updateBandValidation);
   band2Input.addEventListener('input', updateBandValidation);
+  form.addEventListener('input', schedulePreview);
+  form.addEventListener('change', schedulePreview);
+  if (form.elements.sessionId.value) {
+    schedulePreview();
+  }
 
   /**
    * Opens debug log in a new window with rendered markdown
@@ -111,8 +279,7 @@ document.addEventListener('DOMContentLoaded', () => {
     if (isSubmitting) return;
     isSubmitting = true;
 
-    const formData = new FormData(form);
-    const sessionId = formData.get('sessionId')?.trim() || '';
+    const sessionId = form.elements.sessionId.value.trim();
 
     // Client-side validation
     if (!validateUUID(sessionId)) {
@@ -129,21 +296,10 @@ document.addEventListener('DOMContentLoaded', () => {
 
     try {
       // Build request body with compression options
-      const compressionBands = buildCompressionBands(band1Input.value, band2Input.value);
-      const debugLog = debugLogCheckbox.checked;
-      const toolRemovalValue = formData.get('toolRemoval');
-      const toolHandlingMode = toolHandlingModeSelect?.value || 'remove';
-      const includeUserMessages = includeUserMessagesCheckbox?.checked || false;
-
-      const result = await post('/api/v2/clone', {
-        sessionId,
-        toolRemoval: parseInt(toolRemovalValue, 10) || 0,
-        toolHandlingMode,
-        thinkingRemoval: 100, // Always remove all thinking blocks
-        compressionBands,
-        includeUserMessages,
-        debugLog,
-      });
+      const body = buildCloneRequest(sessionId);
+      const debugLog = body.debugLog;
+
+      const result = await post('/api/v2/clone', body);
 
       if (!result.success) {
         throw new Error('Clone operation failed. Please try again.');
@@ -155,11 +311,16 @@ document.addEventListener('DOMContentLoaded', () => {
       const newSessionId = extractSessionId(result.outputPath);
       const command = `claude --dangerously-skip-permissions --resume ${newSessionId}`;
 
+      lastCloneId = newSessionId;
+      undoCloneBtn.classList.remove('hidden');
+      restoreCloneBtn.classList.add('hidden');
+      undoCloneStatus.textContent = '';
+
       hideLoading(containers.loading);
       showSuccess(containers.success, {
         sessionId: newSessionId,
         command,
-        stats: formatStats(result.stats),
+        stats: [...formatClonePlan(result.plan), ...formatStats(result.stats)],
       });
 
       // Display compression stats if present
@@ -210,6 +371,31 @@ document.addEventListener('DOMContentLoaded', () => {
     }
   }
 
+  /**
+   * Deletes the clone just made, or restores it from the trash
+   */
+  async function handleUndoClone(restore) {
+    if (!lastCloneId) return;
+    undoCloneBtn.disabled = true;
+    restoreCloneBtn.disabled = true;
+
+    try {
+      if (restore) {
+        await post(`/api/clones/${lastCloneId}/restore`, {});
+        undoCloneStatus.textContent = 'Clone restored.';
+      } else {
+        undoCloneStatus.textContent = formatCloneDeletion(await del(`/api/clones/${lastCloneId}`));
+      }
+      undoCloneBtn.classList.toggle('hidden', !restore);
+      restoreCloneBtn.classList.toggle('hidden', restore);
+    } catch (err) {
+      undoCloneStatus.textContent = err instanceof ApiError ? err.message : 'Request failed';
+    } finally {
+      undoCloneBtn.disabled = false;
+      restoreCloneBtn.disabled = false;
+    }
+  }
+
   /**
    * Handles copy to clipboard
    */
@@ -258,4 +444,6 @@ document.addEventListener('DOMContentLoaded', () => {
   if (copyBtn) {
     copyBtn.addEventListener('click', handleCopy);
   }
+  undoCloneBtn?.addEventListener('click', () => handleUndoClone(false));
+  restoreCloneBtn?.addEventListener('click', () => handleUndoClone(true));
 });
@@ -1,10 +1,23 @@
-import { fetchProjects, fetchSessions } from "../api/session-browser-client.js";
-import { formatRelativeTime, formatFileSize, escapeHtml } from "../lib/format.js";
+import { fetchProjects, fetchSessions, searchSessions, importSessions } from "../api/session-browser-client.js";
+import { subscribeToSessionEvents, LIVE_SOURCES } from "../api/session-events.js";
+import { formatRelativeTime, formatFileSize, formatTokenCount, escapeHtml, highlightSnippet } from "../lib/format.js";
 
 function getSourceBadge(source) {
   if (source === "copilot") {
     return '<span class="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">Copilot</span>';
   }
+  if (source === "codex") {
+    return '<span class="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-200 text-gray-800">Codex</span>';
+  }
+  if (source === "gemini") {
+    return '<span class="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-teal-100 text-teal-800">Gemini</span>';
+  }
+  if (source === "cline") {
+    return '<span class="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800">Cline</span>';
+  }
+  if (source === "cursor") {
+    return '<span class="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-slate-800 text-white">Cursor</span>';
+  }
   return '<span class="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">Claude</span>';
 }
 
@@ -19,17 +32,27 @@ class SessionBrowserController {
     this.retryBtn = document.getElementById("retry-btn");
     this.toast = document.getElementById("toast");
     this.sourceToggle = document.getElementById("source-toggle");
+    this.searchForm = document.getElementById("search-form");
+    this.searchInput = document.getElementById("search-input");
+    this.searchRole = document.getElementById("search-role");
+    this.searchResults = document.getElementById("search-results");
+    this.importForm = document.getElementById("import-form");
+    this.importFile = document.getElementById("import-file");
+    this.importResults = document.getElementById("import-results");
 
     this.currentSort = { field: "lastModifiedAt", order: "desc" };
     this.sessions = [];
     this.lastSelectedFolder = null;
     this.currentSource = "claude";
+    this.unsubscribeEvents = null;
 
     this.init();
   }
 
   async init() {
     this.initSourceToggle();
+    this.initSearch();
+    this.initImport();
     await this.loadProjects();
     this.setupEventListeners();
   }
@@ -52,6 +75,85 @@ class SessionBrowserController {
     });
   }
 
+  initSearch() {
+    if (!this.searchForm) return;
+
+    this.searchForm.addEventListener("submit", async (e) => {
+      e.preventDefault();
+      const query = this.searchInput.value.trim();
+      if (!query) {
+        this.searchResults.classList.add("hidden");
+        return;
+      }
+
+      try {
+        const { results } = await searchSessions(query, { role: this.searchRole.value });
+        this.renderSearchResults(results);
+      } catch (error) {
+        this.searchResults.innerHTML = `<li class="px-4 py-3 text-red-600">Search failed: ${escapeHtml(error.message)}</li>`;
+        this.searchResults.classList.remove("hidden");
+      }
+    });
+  }
+
+  initImport() {
+    if (!this.importForm) return;
+
+    this.importForm.addEventListener("submit", async (e) => {
+      e.preventDefault();
+      const file = this.importFile.files[0];
+      if (!file) return;
+
+      this.importResults.innerHTML = '<li class="px-4 py-3 text-gray-500">Importing...</li>';
+      this.importResults.classList.remove("hidden");
+      try {
+        const { imported, skipped } = await importSessions(file);
+        this.renderImportResults(imported, skipped);
+        this.importForm.reset();
+        await this.loadProjects();
+      } catch (error) {
+        this.importResults.innerHTML = `<li class="px-4 py-3 text-red-600">Import failed: ${escapeHtml(error.message)}</li>`;
+      }
+    });
+  }
+
+  renderImportResults(imported, skipped) {
+    this.importResults.innerHTML = [
+      ...imported.map(s => `
+        <li class="px-4 py-3 hover:bg-gray-50">
+          <a href="${escapeHtml(s.url)}" class="flex items-center gap-2 text-sm">
+            ${getSourceBadge(s.source)}
+            <span class="truncate">${escapeHtml(s.projectPath)}</span>
+            <span class="font-mono">${escapeHtml(s.sessionId.slice(0, 8))}...</span>
+            <span class="text-gray-500">${escapeHtml(s.file)}${s.renamed ? " (new ID, original already exists)" : ""}</span>
+          </a>
+        </li>
+      `),
+      ...skipped.map(s => `
+        <li class="px-4 py-3 text-sm text-gray-500">Skipped ${escapeHtml(s.file)}: ${escapeHtml(s.reason)}</li>
+      `),
+    ].join("");
+  }
+
+  renderSearchResults(results) {
+    this.searchResults.innerHTML = results.length === 0
+      ? '<li class="px-4 py-3 text-gray-500">No matching turns.</li>'
+      : results.map(r => `
+        <li class="px-4 py-3 hover:bg-gray-50">
+          <a href="${escapeHtml(r.url)}" class="block">
+            <div class="flex items-center gap-2 text-sm text-gray-600">
+              ${getSourceBadge(r.source)}
+              <span class="truncate">${escapeHtml(r.projectPath)}</span>
+              <span class="font-mono">${escapeHtml(r.sessionId.slice(0, 8))}...</span>
+              <span>turn ${r.turnIndex + 1} · ${escapeHtml(r.role)}</span>
+            </div>
+            <div class="mt-1 text-sm">${highlightSnippet(r.snippet)}</div>
+          </a>
+        </li>
+      `).join("");
+    this.searchResults.classList.remove("hidden");
+  }
+
   updateSourceToggleUI() {
     const buttons = document.querySelectorAll(".source-btn");
     buttons.forEach(btn => {
@@ -72,6 +174,7 @@ class SessionBrowserController {
   }
 
   clearSessionTable() {
+    this.stopLiveUpdates();
     this.hideTable();
     this.hideEmpty();
     this.hideError();
@@ -97,8 +200,11 @@ class SessionBrowserController {
   }
 
   renderProjectDropdown(projects) {
+    // Name the Claude root only when projects come from more than one
+    const roots = new Set(projects.map(p => p.root).filter(Boolean));
+    const origin = p => p.install || (roots.size > 1 ? p.root : "");
     const options = projects.map(p =>
-      `<option value="${escapeHtml(p.folder)}">${escapeHtml(p.path)}</option>`
+      `<option value="${escapeHtml(p.folder)}">${escapeHtml(origin(p) ? `${p.path} (${origin(p)})` : p.path)}</option>`
     );
     this.projectSelect.innerHTML = `<option value="">Select a project...</option>${options.join("")}`;
   }
@@ -116,6 +222,7 @@ class SessionBrowserController {
       sessions.forEach(s => s.source = this.currentSource);
       this.sessions = sessions;
       this.sortAndRender();
+      this.startLiveUpdates(folder);
     } catch (error) {
       this.showError("Failed to load sessions: " + error.message);
     } finally {
@@ -124,6 +231,44 @@ class SessionBrowserController {
     }
   }
 
+  startLiveUpdates(folder) {
+    this.stopLiveUpdates();
+    if (!LIVE_SOURCES.includes(this.currentSource)) return;
+
+    this.unsubscribeEvents = subscribeToSessionEvents(
+      { source: this.currentSource, folder },
+      (event) => this.applySessionEvent(event)
+    );
+  }
+
+  stopLiveUpdates() {
+    if (this.unsubscribeEvents) {
+      this.unsubscribeEvents();
+      this.unsubscribeEvents = null;
+    }
+  }
+
+  applySessionEvent(event) {
+    if (event.source !== this.currentSource || event.folder !== this.lastSelectedFolder) return;
+
+    const index = this.sessions.findIndex(s => s.sessionId === event.sessionId);
+    if (event.type === "deleted") {
+      if (index === -1) return;
+      this.sessions.splice(index, 1);
+    } else if (event.session) {
+      const session = { ...event.session, source: this.currentSource };
+      if (index === -1) {
+        this.sessions.push(session);
+      } else {
+        this.sessions[index] = session;
+      }
+    } else {
+      return;
+    }
+
+    this.sortAndRender();
+  }
+
   sortAndRender() {
     const { field, order } = this.currentSort;
     const sorted = [...this.sessions].sort((a, b) => {
@@ -135,6 +280,12 @@ class SessionBrowserController {
         bVal = new Date(bVal).getTime();
       }
 
+      // Sources without a metadata index have no context size
+      if (field === "contextTokens") {
+        aVal = aVal ?? -1;
+        bVal = bVal ?? -1;
+      }
+
       if (typeof aVal === "string") {
         return order === "asc" ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
       }
@@ -182,9 +333,12 @@ class SessionBrowserController {
         <td class="px-4 py-3 text-sm text-gray-600">
           ${s.turnCount}
         </td>
+        <td class="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+          ${s.contextTokens !== undefined ? formatTokenCount(s.contextTokens) : "-"}
+        </td>
         <td class="px-4 py-3 whitespace-nowrap">
-          <button class="clone-btn px-2 py-1 text-sm bg-blue-100 hover:bg-blue-200 rounded mr-1"
-                  title="Clone session">Clone</button>
+          ${["gemini", "cline", "cursor"].includes(s.source) ? "" : `<button class="clone-btn px-2 py-1 text-sm bg-blue-100 hover:bg-blue-200 rounded mr-1"
+                  title="Clone session">Clone</button>`}
           <button class="visualize-btn px-2 py-1 text-sm bg-purple-100 hover:bg-purple-200 rounded"
                   title="Visualize session">Details</button>
         </td>
@@ -197,6 +351,7 @@ class SessionBrowserController {
       if (e.target.value) {
         this.loadSessions(e.target.value);
       } else {
+        this.stopLiveUpdates();
         this.hideTable();
         this.hideEmpty();
       }
@@ -254,6 +409,16 @@ class SessionBrowserController {
       const folder = this.getCurrentFolder();
       return `/session-detail?sessionId=${encodeURIComponent(sessionId)}&source=copilot&workspace=${encodeURIComponent(folder)}`;
     }
+    if (source === "codex") {
+      return `/session-detail?sessionId=${encodeURIComponent(sessionId)}&source=codex`;
+    }
+    if (source === "gemini" || source === "cursor") {
+      const folder = this.getCurrentFolder();
+      return `/session-detail?sessionId=${encodeURIComponent(sessionId)}&source=${source}&workspace=${encodeURIComponent(folder)}`;
+    }
+    if (source === "cline") {
+      return `/session-detail?sessionId=${encodeURIComponent(sessionId)}&source=cline`;
+    }
     return `/session-detail?sessionId=${encodeURIComponent(sessionId)}&source=claude`;
   }
 
@@ -262,6 +427,9 @@ class SessionBrowserController {
       const folder = this.getCurrentFolder();
       return `/session-clone?sessionId=${encodeURIComponent(sessionId)}&source=copilot&workspace=${encodeURIComponent(folder)}`;
     }
+    if (source === "codex") {
+      return `/session-clone?sessionId=${encodeURIComponent(sessionId)}&source=codex`;
+    }
     return `/session-clone?sessionId=${encodeURIComponent(sessionId)}&source=claude`;
   }
 
@@ -1,4 +1,5 @@
-import { get } from "../api/client.js";
+import { get, put } from "../api/client.js";
+import { subscribeToSessionEvents, LIVE_SOURCES } from "../api/session-events.js";
 import {
   COLORS,
   DEFAULT_WIDTH,
@@ -9,6 +10,12 @@ import {
   exceedsScale,
   validateScaleInput,
   validateTurnInput,
+  buildTurnsUrl,
+  buildSubagentTurnsUrl,
+  formatSubagentLabel,
+  formatBranchLabel,
+  buildPinsUrl,
+  togglePinnedTurn,
 } from "../lib/session-detail.js";
 import {
   showLoading as showShimmer,
@@ -18,8 +25,19 @@ import {
 
 // State
 let sessionData = null;
+let subagents = [];
+let branches = [];
+let pinnedTurns = [];
+// Selected branch; null follows the active branch as the session grows
+let selectedLeaf = null;
 let currentTurn = 0;
 let currentScale = 200;
+let currentSource = "claude";
+let currentWorkspace = "";
+let requestedTurn = null;
+let unsubscribeEvents = null;
+let isRefreshing = false;
+let refreshPending = false;
 
 // DOM elements
 let sessionInput,
@@ -37,7 +55,10 @@ let sessionInput,
   visualizationContainer,
   tokenStats,
   detailCard,
-  turnRail;
+  turnRail,
+  branchPicker,
+  branchSelect,
+  cloneBranchLink;
 let isLoading = false;
 
 // Initialize on DOM ready
@@ -61,6 +82,9 @@ function init() {
   tokenStats = document.getElementById("tokenStats");
   detailCard = document.getElementById("detailCard");
   turnRail = document.getElementById("turnRail");
+  branchPicker = document.getElementById("branchPicker");
+  branchSelect = document.getElementById("branchSelect");
+  cloneBranchLink = document.getElementById("cloneBranchLink");
 
   // Attach event listeners
   loadButton.addEventListener("click", handleLoad);
@@ -69,10 +93,17 @@ function init() {
   turnInput.addEventListener("change", handleTurnInputChange);
   turnSlider.addEventListener("input", handleSliderChange);
   scaleInput.addEventListener("change", handleScaleInputChange);
+  branchSelect.addEventListener("change", handleBranchChange);
 
-  // Check for ?id= query parameter (AC-1b)
+  // Check for ?id= (or ?sessionId= from the session browser) query parameter (AC-1b)
   const urlParams = new URLSearchParams(window.location.search);
-  const sessionIdFromUrl = urlParams.get("id");
+  const sessionIdFromUrl = urlParams.get("id") || urlParams.get("sessionId");
+  currentSource = urlParams.get("source") || "claude";
+  currentWorkspace = urlParams.get("workspace") || "";
+  // 1-based turn to open at, e.g. from a search result
+  const turnParam = parseInt(urlParams.get("turn") || "", 10);
+  requestedTurn = Number.isNaN(turnParam) ? null : turnParam;
+  selectedLeaf = urlParams.get("leaf");
   if (sessionIdFromUrl) {
     sessionInput.value = sessionIdFromUrl;
     handleLoad();
@@ -92,9 +123,18 @@ async function handleLoad() {
   setLoading(true);
 
   try {
-    sessionData = await get(`/api/session/${sessionId}/turns`);
+    branches = await loadBranches(sessionId);
+    if (!branches.some((b) => b.leafUuid === selectedLeaf)) selectedLeaf = null;
+    sessionData = await get(buildTurnsUrl(sessionId, currentSource, currentWorkspace, branchLeaf()));
+    subagents = await loadSubagents(sessionId);
+    pinnedTurns = await loadPins(sessionId, branchLeaf());
     setLoading(false);
+    renderBranchPicker(sessionId);
     currentTurn = Math.max(0, sessionData.totalTurns - 1);
+    if (requestedTurn !== null) {
+      currentTurn = clampTurnDisplay(requestedTurn, sessionData.totalTurns) - 1;
+      requestedTurn = null;
+    }
 
     // Setup navigation bounds (1-based display)
     const maxTurnDisplay = Math.max(1, sessionData.totalTurns);
@@ -110,6 +150,7 @@ async function handleLoad() {
     renderVisualization();
     renderDetailCard();
     renderTurnRail();
+    startLiveUpdates(sessionId);
   } catch (error) {
     setLoading(false);
     clearVisualization();
@@ -117,6 +158,146 @@ async function handleLoad() {
   }
 }
 
+function startLiveUpdates(sessionId) {
+  if (unsubscribeEvents) {
+    unsubscribeEvents();
+    unsubscribeEvents = null;
+  }
+  if (!LIVE_SOURCES.includes(currentSource)) return;
+
+  unsubscribeEvents = subscribeToSessionEvents({ source: currentSource, sessionId }, (event) => {
+    if (event.sessionId !== sessionId) return;
+    if (event.type === "deleted") {
+      showError("This session was deleted.");
+      return;
+    }
+    refreshTurns(sessionId);
+  });
+}
+
+// Re-fetch turns while the agent keeps working; follow the newest turn
+// only if the user was already looking at it
+async function refreshTurns(sessionId) {
+  if (!sessionData) return;
+  if (isRefreshing) {
+    refreshPending = true;
+    return;
+  }
+  isRefreshing = true;
+
+  try {
+    const updatedBranches = await loadBranches(sessionId);
+    const leaf = branchLeaf(updatedBranches);
+    const updated = await get(buildTurnsUrl(sessionId, currentSource, currentWorkspace, leaf));
+    const updatedSubagents = await loadSubagents(sessionId);
+    // Pins are numbered like the branch's turns, which a rewind can change
+    const updatedPins = await loadPins(sessionId, leaf);
+    if (sessionInput.value.trim() !== sessionId) return;
+    branches = updatedBranches;
+    renderBranchPicker(sessionId);
+
+    const wasOnLastTurn = currentTurn >= sessionData.totalTurns - 1;
+    sessionData = updated;
+    subagents = updatedSubagents;
+    pinnedTurns = updatedPins;
+    if (wasOnLastTurn || currentTurn > sessionData.totalTurns - 1) {
+      currentTurn = Math.max(0, sessionData.totalTurns - 1);
+    }
+
+    const maxTurnDisplay = Math.max(1, sessionData.totalTurns);
+    turnSlider.max = maxTurnDisplay;
+    turnInput.max = maxTurnDisplay;
+
+    syncNavigation();
+    checkScaleWarning();
+    renderVisualization();
+    renderDetailCard();
+    renderTurnRail();
+  } catch {
+    // Keep showing the last good data; the next change retries
+  } finally {
+    isRefreshing = false;
+    if (refreshPending) {
+      refreshPending = false;
+      refreshTurns(sessionId);
+    }
+  }
+}
+
+// Branches (rewinds and edits) are only recorded by Claude Code
+async function loadBranches(sessionId) {
+  if (currentSource !== "claude") return [];
+  try {
+    const response = await get(`/api/session/${encodeURIComponent(sessionId)}/branches`);
+    return response.branches || [];
+  } catch {
+    return [];
+  }
+}
+
+// Leaf to request turns for; a session without rewinds needs none
+function branchLeaf(list = branches) {
+  if (list.length <= 1) return "";
+  return selectedLeaf ?? list.find((b) => b.active)?.leafUuid ?? "";
+}
+
+function renderBranchPicker(sessionId) {
+  if (branches.length <= 1) {
+    branchPicker.classList.add("hidden");
+    return;
+  }
+  const leaf = branchLeaf();
+  branchSelect.innerHTML = branches
+    .map((b) => `<option value="${escapeHtml(b.leafUuid)}"${b.leafUuid === leaf ? " selected" : ""}>${escapeHtml(formatBranchLabel(b))}</option>`)
+    .join("");
+  cloneBranchLink.href =
+    `/session-clone?sessionId=${encodeURIComponent(sessionId)}&source=claude&leafUuid=${encodeURIComponent(leaf)}`;
+  branchPicker.classList.remove("hidden");
+}
+
+async function handleBranchChange() {
+  const branch = branches.find((b) => b.leafUuid === branchSelect.value);
+  selectedLeaf = branch && !branch.active ? branch.leafUuid : null;
+  handleLoad();
+}
+
+// Pins are numbered like the turns of the branch shown
+async function loadPins(sessionId, leaf) {
+  if (currentSource !== "claude" && currentSource !== "copilot") return [];
+  try {
+    const response = await get(buildPinsUrl(sessionId, leaf));
+    return response.pinnedTurns || [];
+  } catch {
+    return [];
+  }
+}
+
+async function handlePinToggle(turnIndex) {
+  const sessionId = sessionInput.value.trim();
+  const previous = pinnedTurns;
+  pinnedTurns = togglePinnedTurn(pinnedTurns, turnIndex);
+  renderTurnRail();
+  try {
+    const response = await put(buildPinsUrl(sessionId, branchLeaf()), { pinnedTurns });
+    pinnedTurns = response.pinnedTurns;
+  } catch (error) {
+    pinnedTurns = previous;
+    renderTurnRail();
+    showError(error?.message || "Failed to save pinned turns");
+  }
+}
+
+// Subagent transcripts are only recorded by Claude Code
+async function loadSubagents(sessionId) {
+  if (currentSource !== "claude") return [];
+  try {
+    const response = await get(`/api/session/${encodeURIComponent(sessionId)}/subagents`);
+    return response.subagents || [];
+  } catch {
+    return [];
+  }
+}
+
 function handleLeftClick() {
   if (!sessionData) return;
   if (currentTurn > 0) {
@@ -204,13 +385,14 @@ function renderVisualization() {
       assistant: turn.cumulative.assistant,
       thinking: turn.cumulative.thinking,
       tool: turn.cumulative.tool,
+      image: turn.cumulative.image ?? 0,
     };
   });
 
   const xMax =
     data.length > 0 ? Math.max(data[data.length - 1].turn, 1) : Math.max(currentTurn, 1);
 
-  const stack = d3.stack().keys(["user", "assistant", "thinking", "tool"]);
+  const stack = d3.stack().keys(["user", "assistant", "thinking", "tool", "image"]);
   const series = stack(data);
 
   const xScale = d3.scaleLinear().domain([0, xMax]).range([0, innerWidth]);
@@ -273,6 +455,67 @@ ${toolText ? "### Tools\n" + toolText : ""}
 `.trim();
 
   detailCard.innerHTML = renderMarkdownSafe(md);
+  renderSubagents(turn.turnIndex ?? currentTurn);
+}
+
+// One collapsible section per Task subagent spawned in this turn; the
+// transcript is fetched the first time it is opened
+function renderSubagents(turnIndex) {
+  const spawned = subagents.filter((s) => s.turnIndex === turnIndex);
+  if (!spawned.length) return;
+
+  const heading = document.createElement("h3");
+  heading.textContent = "Subagents";
+  detailCard.appendChild(heading);
+
+  const sessionId = sessionInput.value.trim();
+  spawned.forEach((subagent) => {
+    const details = document.createElement("details");
+    details.className = "mb-2 border rounded p-2";
+
+    const summary = document.createElement("summary");
+    summary.className = "cursor-pointer text-sm";
+    const { tokens } = subagent;
+    summary.textContent =
+      `${formatSubagentLabel(subagent)} · ${subagent.totalTurns} turns · ` +
+      `${formatTokenCount(tokens.total)} tokens ` +
+      `(U ${formatTokenCount(tokens.user)}, A ${formatTokenCount(tokens.assistant)}, ` +
+      `R ${formatTokenCount(tokens.thinking)}, T ${formatTokenCount(tokens.tool)})`;
+    details.appendChild(summary);
+
+    const body = document.createElement("div");
+    body.className = "mt-2 text-sm";
+    details.appendChild(body);
+
+    details.addEventListener("toggle", async () => {
+      if (!details.open || details.dataset.loaded) return;
+      details.dataset.loaded = "true";
+      body.textContent = "Loading transcript...";
+      try {
+        const transcript = await get(buildSubagentTurnsUrl(sessionId, subagent.agentId));
+        body.innerHTML = transcript.turns.map((t) => renderSubagentTurn(t)).join("<hr>");
+      } catch (error) {
+        delete details.dataset.loaded;
+        body.textContent = error?.message || "Failed to load subagent transcript";
+      }
+    });
+
+    detailCard.appendChild(details);
+  });
+}
+
+function renderSubagentTurn(turn) {
+  const { userPrompt, assistantResponse, toolBlocks } = turn.content;
+  const tools = (toolBlocks || [])
+    .map((t) => `**Tool ${t.name}**\n${truncateToolContent(t.content, 3)}`)
+    .join("\n");
+  const md = `**Prompt** (${formatTokenCount(turn.cumulative.total)} tokens so far)
+${truncateToolContent(userPrompt, 6) || "_(no prompt)_"}
+
+**Response**
+${truncateToolContent(assistantResponse, 6) || "_(no response)_"}
+${tools ? "\n" + tools : ""}`;
+  return renderMarkdownSafe(md.trim());
 }
 
 function renderTurnRail() {
@@ -286,11 +529,27 @@ function renderTurnRail() {
     const turn = turns[i];
     if (!turn) continue;
     const card = document.createElement("div");
-    card.className = "mb-3 last:mb-0 p-2 rounded border border-gray-200 bg-gray-50 shadow-sm";
+    const pinned = pinnedTurns.includes(i);
+    card.className = `mb-3 last:mb-0 p-2 rounded border ${pinned ? "border-amber-400" : "border-gray-200"} bg-gray-50 shadow-sm`;
 
     const header = document.createElement("div");
-    header.className = "text-xs text-gray-600 mb-1";
-    header.textContent = `Turn ${i + 1}`;
+    header.className = "flex items-center justify-between text-xs text-gray-600 mb-1";
+    const title = document.createElement("span");
+    title.textContent = `Turn ${i + 1}`;
+    header.appendChild(title);
+    if (currentSource === "claude" || currentSource === "copilot") {
+      const pin = document.createElement("button");
+      pin.type = "button";
+      pin.className = pinned
+        ? "px-1 rounded text-amber-700 bg-amber-100 hover:bg-amber-200"
+        : "px-1 rounded text-gray-500 hover:bg-gray-200";
+      pin.textContent = pinned ? "📌 Pinned" : "Pin";
+      pin.title = pinned
+        ? "Unpin this turn"
+        : "Pin this turn: clones keep it intact through removals and compression";
+      pin.addEventListener("click", () => handlePinToggle(i));
+      header.appendChild(pin);
+    }
     card.appendChild(header);
 
     const content = turn.content || {};
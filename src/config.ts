@@ -13,6 +13,26 @@ export const config = {
   get lineageLogPath() {
     return path.join(this.claudeDir, "clone-lineage.log");
   },
+  /** Where deleted clones are kept until they can no longer be restored */
+  get cloneTrashDir() {
+    return process.env.CLONE_TRASH_DIR || path.join(this.claudeDir, "clone-trash");
+  },
+  get cloneTrashRetentionDays() {
+    return parseInt(process.env.CLONE_TRASH_RETENTION_DAYS || "7", 10);
+  },
+  get importDir() {
+    return process.env.IMPORT_DIR || path.join(this.claudeDir, "imports");
+  },
+  /** Context window that projected context percentages are measured against */
+  get contextWindowTokens() {
+    return parseInt(process.env.CONTEXT_WINDOW_TOKENS || "200000", 10);
+  },
+  get pinsPath() {
+    return process.env.PINS_PATH || path.join(this.claudeDir, "session-pins.json");
+  },
+  get sessionIndexPath() {
+    return process.env.SESSION_INDEX_PATH || path.join(this.claudeDir, "session-index.db");
+  },
 };
 
 /**
@@ -12,6 +12,69 @@ export class SessionNotFoundError extends Error {
   }
 }
 
+export class SubagentNotFoundError extends Error {
+  constructor(sessionId: string, agentId: string) {
+    super(`Subagent not found: ${agentId} in session ${sessionId}`);
+    this.name = "SubagentNotFoundError";
+  }
+}
+
+export class BranchNotFoundError extends Error {
+  constructor(sessionId: string, leafUuid: string) {
+    super(`Branch not found: ${leafUuid} in session ${sessionId}`);
+    this.name = "BranchNotFoundError";
+  }
+}
+
+export class InvalidTurnRangeError extends Error {
+  constructor(fromTurn: number, toTurn: number, turnCount: number) {
+    super(`Invalid turn range ${fromTurn}-${toTurn}: session has ${turnCount} turns`);
+    this.name = "InvalidTurnRangeError";
+  }
+}
+
+export class TargetUnreachableError extends Error {
+  constructor(targetTokens: number, projectedTokens: number) {
+    super(`Cannot fit the session into ${targetTokens} tokens: the smallest projected clone has ${projectedTokens}`);
+    this.name = "TargetUnreachableError";
+  }
+}
+
+export class CloneNotFoundError extends Error {
+  constructor(cloneId: string, reason: string) {
+    super(`Clone not found: ${cloneId} (${reason})`);
+    this.name = "CloneNotFoundError";
+  }
+}
+
+export class CloneConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CloneConflictError";
+  }
+}
+
+export class RelocateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RelocateError";
+  }
+}
+
+export class SessionExistsError extends Error {
+  constructor(sessionId: string, filePath: string) {
+    super(`Session ${sessionId} already exists at ${filePath}`);
+    this.name = "SessionExistsError";
+  }
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
 export class ConfigMissingError extends Error {
   constructor(configName: string) {
     super(`Required configuration missing: ${configName}`);
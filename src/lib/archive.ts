@@ -0,0 +1,177 @@
+import { gunzipSync, inflateRawSync } from "zlib";
+
+/**
+ * A regular file read from an archive.
+ */
+export interface ArchiveFile {
+  /** Path inside the archive */
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Whether a file name looks like a supported archive.
+ */
+export function isArchiveName(filename: string): boolean {
+  return /\.(zip|tar|tar\.gz|tgz)$/i.test(filename);
+}
+
+/**
+ * Read the regular files of a .zip, .tar, .tar.gz or .tgz archive.
+ * Only what session imports need: no encryption, no zip64, no links.
+ * @param maxBytes Limit on the total uncompressed size
+ * @throws Error for an unsupported or malformed archive
+ */
+export function readArchive(filename: string, data: Buffer, maxBytes = Infinity): ArchiveFile[] {
+  if (/\.zip$/i.test(filename)) return readZip(data, maxBytes);
+  if (/\.(tar\.gz|tgz)$/i.test(filename)) return readTar(gunzipSync(data, { maxOutputLength: clampLength(maxBytes) }), maxBytes);
+  if (/\.tar$/i.test(filename)) return readTar(data, maxBytes);
+  throw new Error(`Unsupported archive: ${filename}`);
+}
+
+function clampLength(maxBytes: number): number | undefined {
+  return Number.isFinite(maxBytes) ? maxBytes : undefined;
+}
+
+function checkSize(total: number, maxBytes: number): void {
+  if (total > maxBytes) {
+    throw new Error(`Archive contents exceed ${maxBytes} bytes`);
+  }
+}
+
+function readString(block: Buffer, start: number, length: number): string {
+  const raw = block.subarray(start, start + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString("utf-8");
+}
+
+/**
+ * Parse a tar stream (ustar, with GNU long names and pax paths).
+ */
+function readTar(data: Buffer, maxBytes: number): ArchiveFile[] {
+  const files: ArchiveFile[] = [];
+  let offset = 0;
+  let total = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    // Two zero blocks end the archive; one is enough to stop
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || "0", 8);
+    if (Number.isNaN(size)) {
+      throw new Error("Malformed tar header");
+    }
+    const type = String.fromCharCode(header[156] || 48);
+    const prefix = readString(header, 257, 6) === "ustar" ? readString(header, 345, 155) : "";
+    const name = longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    const body = data.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === "L") {
+      longName = readString(body, 0, body.length);
+      continue;
+    }
+    if (type === "x") {
+      const path = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(body.toString("utf-8"));
+      longName = path ? path[1] : null;
+      continue;
+    }
+    longName = null;
+
+    if (type === "0" || type === "7") {
+      total += size;
+      checkSize(total, maxBytes);
+      files.push({ name, data: Buffer.from(body) });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Inflate a deflated zip entry, stopping at its declared size. The sizes
+ * in the header come from the uploader, so without the cap a small entry
+ * could inflate to gigabytes; the declared size itself has already been
+ * counted against the archive limit.
+ */
+function inflateEntry(name: string, raw: Buffer, size: number): Buffer {
+  let data: Buffer;
+  try {
+    // maxOutputLength must be at least 1; an empty entry is checked below
+    data = inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(`Malformed zip: ${name} inflates past its declared ${size} bytes`);
+    }
+    throw error;
+  }
+  if (data.length !== size) {
+    throw new Error(`Malformed zip: ${name} inflates to ${data.length} bytes, not the declared ${size}`);
+  }
+  return data;
+}
+
+/**
+ * Parse a zip file through its central directory.
+ */
+function readZip(data: Buffer, maxBytes: number): ArchiveFile[] {
+  // The end of central directory record sits in the last 64 KiB + 22 bytes
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("Malformed zip: end of central directory not found");
+  }
+
+  const count = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  const files: ArchiveFile[] = [];
+  let total = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Malformed zip: bad central directory entry");
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.subarray(offset + 46, offset + 46 + nameLength).toString("utf-8");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (compressedSize === 0xffffffff || size === 0xffffffff) {
+      throw new Error("Zip64 archives are not supported");
+    }
+
+    total += size;
+    checkSize(total, maxBytes);
+
+    const localNameLength = data.readUInt16LE(localOffset + 26);
+    const localExtraLength = data.readUInt16LE(localOffset + 28);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const raw = data.subarray(start, start + compressedSize);
+
+    if (method === 0) {
+      if (raw.length !== size) {
+        throw new Error(`Malformed zip: ${name} holds ${raw.length} bytes, not the declared ${size}`);
+      }
+      files.push({ name, data: Buffer.from(raw) });
+    } else if (method === 8) {
+      files.push({ name, data: inflateEntry(name, raw, size) });
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+  }
+
+  return files;
+}
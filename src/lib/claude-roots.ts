@@ -0,0 +1,98 @@
+import { existsSync } from "fs";
+import { delimiter, join } from "path";
+import { config } from "../config.js";
+
+/**
+ * A Claude config directory (normally ~/.claude) to browse sessions from.
+ */
+export interface ClaudeRoot {
+  /** Stable name, used to qualify project folders, e.g. "devbox" */
+  name: string;
+  /** Absolute path to the Claude config directory */
+  dir: string;
+  /** Absolute path to its projects/ directory */
+  projectsDir: string;
+}
+
+/**
+ * List the Claude roots to browse.
+ *
+ * CLAUDE_ROOTS is a list separated by the platform path delimiter, each
+ * entry "name=path" or just "path", e.g. ~/.claude synced from several
+ * machines into separate folders. Without it, config.claudeDir is the only
+ * root. The first root is the primary one. Uploaded sessions are added as
+ * the "imports" root once anything has been imported.
+ */
+export function getClaudeRoots(): ClaudeRoot[] {
+  const roots: ClaudeRoot[] = [];
+  const entries = (process.env.CLAUDE_ROOTS || "").split(delimiter).filter((e) => e.trim());
+
+  entries.forEach((entry, index) => {
+    const separator = entry.indexOf("=");
+    const name = separator > 0 ? entry.slice(0, separator).trim() : `root-${index + 1}`;
+    const dir = separator > 0 ? entry.slice(separator + 1).trim() : entry.trim();
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || `root-${index + 1}`;
+    // The same directory listed twice would duplicate every project
+    if (roots.some((r) => r.dir === dir)) return;
+    roots.push({
+      name: roots.some((r) => r.name === slug) ? `${slug}-${index + 1}` : slug,
+      dir,
+      projectsDir: join(dir, "projects"),
+    });
+  });
+
+  if (roots.length === 0) {
+    roots.push({ name: "default", dir: config.claudeDir, projectsDir: config.projectsDir });
+  }
+
+  const imports = getImportClaudeRoot();
+  if (existsSync(imports.projectsDir) && !roots.some((r) => r.dir === imports.dir || r.name === imports.name)) {
+    roots.push(imports);
+  }
+  return roots;
+}
+
+/**
+ * The Claude root that holds imported sessions (see session-import).
+ */
+export function getImportClaudeRoot(): ClaudeRoot {
+  const dir = join(config.importDir, "claude");
+  return { name: "imports", dir, projectsDir: join(dir, "projects") };
+}
+
+/**
+ * Build the folder identifier for a project.
+ * Projects of the primary root keep their bare folder name; other roots
+ * are qualified as "<root>:<folder>" because the same project usually
+ * exists on several machines. Claude never puts ":" in folder names.
+ */
+export function claudeFolderId(root: ClaudeRoot, folder: string): string {
+  const primary = getClaudeRoots()[0];
+  return root.name === primary.name ? folder : `${root.name}:${folder}`;
+}
+
+/**
+ * Resolve a project folder identifier to its root and directory.
+ * A bare folder is looked up in each root in order, falling back to the
+ * primary root when no root has it.
+ * @throws ENOENT error for an unknown root name
+ */
+export function resolveClaudeFolder(folderId: string): { root: ClaudeRoot; folder: string; projectDir: string } {
+  const roots = getClaudeRoots();
+  const separator = folderId.indexOf(":");
+
+  if (separator > 0) {
+    const name = folderId.slice(0, separator);
+    const root = roots.find((r) => r.name === name);
+    if (!root) {
+      const error = new Error(`Unknown Claude root: ${name}`) as NodeJS.ErrnoException;
+      error.code = "ENOENT";
+      throw error;
+    }
+    const folder = folderId.slice(separator + 1);
+    return { root, folder, projectDir: join(root.projectsDir, folder) };
+  }
+
+  const root = roots.find((r) => existsSync(join(r.projectsDir, folderId))) ?? roots[0];
+  return { root, folder: folderId, projectDir: join(root.projectsDir, folderId) };
+}
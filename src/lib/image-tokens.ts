@@ -0,0 +1,121 @@
+/**
+ * Token accounting for image blocks.
+ *
+ * Claude content carries images as base64 blocks:
+ * { type: "image", source: { type: "base64", media_type: "image/png", data } }.
+ * Their text estimate is near zero, but the model is billed by pixel area:
+ * about width * height / 750 tokens after the image is scaled down to fit
+ * 1568px on the long edge and 1.15 megapixels.
+ */
+
+const MAX_EDGE = 1568;
+const MAX_PIXELS = 1_150_000;
+const PIXELS_PER_TOKEN = 750;
+
+/** Tokens assumed for an image whose dimensions can't be read */
+export const IMAGE_TOKENS_FALLBACK = Math.ceil(MAX_PIXELS / PIXELS_PER_TOKEN);
+
+export interface ImageInfo {
+  mediaType: string;
+  /** Size of the decoded image data */
+  bytes: number;
+  width?: number;
+  height?: number;
+}
+
+export function isImageBlock(block: unknown): boolean {
+  return typeof block === "object" && block !== null && (block as { type?: unknown }).type === "image";
+}
+
+/**
+ * Read the media type, size and dimensions of an image block.
+ * Dimensions are parsed from the PNG, JPEG, GIF or WebP header; URL and
+ * file sources have neither size nor dimensions.
+ */
+export function readImageInfo(block: unknown): ImageInfo {
+  const source = (block as { source?: { type?: string; media_type?: string; data?: unknown } }).source;
+  const mediaType = source?.media_type ?? "image";
+  if (source?.type !== "base64" || typeof source.data !== "string") {
+    return { mediaType, bytes: 0 };
+  }
+
+  const data = Buffer.from(source.data, "base64");
+  return { mediaType, bytes: data.length, ...readDimensions(data) };
+}
+
+function readDimensions(data: Buffer): { width: number; height: number } | undefined {
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (data.length >= 10 && data.toString("ascii", 0, 3) === "GIF") {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  if (data.length >= 30 && data.toString("ascii", 0, 4) === "RIFF" && data.toString("ascii", 8, 12) === "WEBP") {
+    const chunk = data.toString("ascii", 12, 16);
+    if (chunk === "VP8X") {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+    if (chunk === "VP8L") {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8 ") {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+  }
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    return readJpegDimensions(data);
+  }
+  return undefined;
+}
+
+function readJpegDimensions(data: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return undefined;
+    const marker = data[offset + 1];
+    // Start-of-frame markers, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+/**
+ * Estimate the tokens an image costs the model.
+ */
+export function estimateImageTokens(info: ImageInfo): number {
+  if (!info.width || !info.height) return IMAGE_TOKENS_FALLBACK;
+
+  let scale = Math.min(1, MAX_EDGE / Math.max(info.width, info.height));
+  scale = Math.min(scale, Math.sqrt(MAX_PIXELS / (info.width * info.height)));
+  return Math.ceil((info.width * scale * info.height * scale) / PIXELS_PER_TOKEN);
+}
+
+/**
+ * Tokens of every image in a content block: an image block itself, or the
+ * images inside a tool_result's content array.
+ */
+export function countImageTokens(block: unknown): number {
+  if (isImageBlock(block)) {
+    return estimateImageTokens(readImageInfo(block));
+  }
+  const content = (block as { type?: unknown; content?: unknown }).content;
+  if ((block as { type?: unknown }).type === "tool_result" && Array.isArray(content)) {
+    return content.reduce((sum: number, item) => sum + (isImageBlock(item) ? estimateImageTokens(readImageInfo(item)) : 0), 0);
+  }
+  return 0;
+}
+
+/**
+ * Describe an image for the placeholder a clone leaves in its place,
+ * e.g. "[Image removed: image/png, 1280x720, 245 KB]".
+ */
+export function describeImage(info: ImageInfo): string {
+  const parts = [info.mediaType];
+  if (info.width && info.height) parts.push(`${info.width}x${info.height}`);
+  if (info.bytes) parts.push(info.bytes >= 1024 ? `${Math.round(info.bytes / 1024)} KB` : `${info.bytes} B`);
+  return `[Image removed: ${parts.join(", ")}]`;
+}
@@ -0,0 +1,282 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import { config } from "../config.js";
+import type { SessionFileStats } from "./session-index.js";
+
+export type SearchRole = "user" | "assistant" | "tool";
+
+export type SearchableSourceType = "claude" | "copilot";
+
+/**
+ * A session file whose turns are indexed.
+ */
+export interface SearchFile {
+  path: string;
+  source: SearchableSourceType;
+  sessionId: string;
+  /** Project folder (Claude) or workspace folder identifier (Copilot) */
+  folder: string;
+  projectPath: string;
+}
+
+/**
+ * Text of one role within one turn.
+ */
+export interface SearchDocument {
+  turnIndex: number;
+  role: SearchRole;
+  /** Turn start time in Unix ms, when recorded */
+  timestamp: number | null;
+  text: string;
+}
+
+export interface SearchFilters {
+  source?: SearchableSourceType;
+  /** Project folder identifier or project path */
+  project?: string;
+  /** Unix ms, inclusive */
+  from?: number;
+  /** Unix ms, inclusive */
+  to?: number;
+  role?: SearchRole;
+  limit?: number;
+}
+
+export interface SearchHit {
+  source: SearchableSourceType;
+  sessionId: string;
+  folder: string;
+  projectPath: string;
+  turnIndex: number;
+  role: SearchRole;
+  timestamp: number | null;
+  /** Matching excerpt; matches are wrapped in [[ and ]] */
+  snippet: string;
+  /** BM25 rank, lower is better */
+  score: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS search_files (
+    path TEXT PRIMARY KEY,
+    mtime_ms REAL NOT NULL,
+    size INTEGER NOT NULL
+  );
+  CREATE VIRTUAL TABLE IF NOT EXISTS search_turns USING fts5(
+    text,
+    path UNINDEXED,
+    source UNINDEXED,
+    session_id UNINDEXED,
+    folder UNINDEXED,
+    project_path UNINDEXED,
+    turn_index UNINDEXED,
+    role UNINDEXED,
+    timestamp UNINDEXED,
+    tokenize = 'porter unicode61'
+  );
+`;
+
+/**
+ * Turn free text into an FTS5 query.
+ * Words are matched as terms (all must match) and "quoted phrases" as
+ * phrases, so punctuation in the input never reaches the FTS5 parser.
+ * @returns The query, or null if the input has no searchable words
+ */
+export function toFtsQuery(input: string): string | null {
+  const parts: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const words = (match[1] ?? match[2]).match(/[\p{L}\p{N}_]+/gu);
+    if (!words) continue;
+    parts.push(`"${words.join(" ")}"`);
+  }
+
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+/**
+ * SQLite FTS5 index of session turns, ranked with BM25.
+ * Files are re-indexed when their mtime or size changes.
+ */
+export class SessionSearchIndex {
+  private db: Database.Database | null = null;
+
+  constructor(private readonly dbPath: string) {}
+
+  /**
+   * Get the database file path.
+   */
+  getDbPath(): string {
+    return this.dbPath;
+  }
+
+  /**
+   * Whether a file is indexed at its current mtime and size.
+   */
+  isCurrent(filePath: string, stats: SessionFileStats): boolean {
+    const row = this.open()
+      .prepare("SELECT mtime_ms, size FROM search_files WHERE path = ?")
+      .get(filePath) as { mtime_ms: number; size: number } | undefined;
+    return row !== undefined && row.mtime_ms === stats.mtimeMs && row.size === stats.size;
+  }
+
+  /**
+   * Replace the indexed turns of a file.
+   */
+  indexFile(file: SearchFile, stats: SessionFileStats, documents: SearchDocument[]): void {
+    const db = this.open();
+    const insert = db.prepare(`
+      INSERT INTO search_turns
+        (text, path, source, session_id, folder, project_path, turn_index, role, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const indexed = db.prepare("SELECT 1 FROM search_files WHERE path = ?").get(file.path) !== undefined;
+
+    db.transaction(() => {
+      if (indexed) this.deleteFile(file.path);
+      db.prepare("INSERT INTO search_files (path, mtime_ms, size) VALUES (?, ?, ?)")
+        .run(file.path, stats.mtimeMs, stats.size);
+      for (const doc of documents) {
+        if (!doc.text.trim()) continue;
+        insert.run(
+          doc.text,
+          file.path,
+          file.source,
+          file.sessionId,
+          file.folder,
+          file.projectPath,
+          doc.turnIndex,
+          doc.role,
+          doc.timestamp
+        );
+      }
+    })();
+  }
+
+  /**
+   * Drop files that no longer exist.
+   * @param livePaths Paths of every session file currently on disk
+   */
+  removeMissing(livePaths: string[]): void {
+    const db = this.open();
+    const live = new Set(livePaths);
+    const indexed = db.prepare("SELECT path FROM search_files").all() as Array<{ path: string }>;
+
+    db.transaction(() => {
+      for (const { path } of indexed) {
+        if (!live.has(path)) this.deleteFile(path);
+      }
+    })();
+  }
+
+  /**
+   * Search indexed turns, best match first.
+   */
+  search(query: string, filters: SearchFilters = {}): SearchHit[] {
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return [];
+
+    const conditions = ["search_turns MATCH ?"];
+    const params: unknown[] = [ftsQuery];
+
+    if (filters.source) {
+      conditions.push("source = ?");
+      params.push(filters.source);
+    }
+    if (filters.project) {
+      conditions.push("(folder = ? OR project_path = ?)");
+      params.push(filters.project, filters.project);
+    }
+    if (filters.role) {
+      conditions.push("role = ?");
+      params.push(filters.role);
+    }
+    if (filters.from !== undefined) {
+      conditions.push("timestamp >= ?");
+      params.push(filters.from);
+    }
+    if (filters.to !== undefined) {
+      conditions.push("timestamp <= ?");
+      params.push(filters.to);
+    }
+    params.push(filters.limit ?? 50);
+
+    const rows = this.open().prepare(`
+      SELECT source, session_id, folder, project_path, turn_index, role, timestamp,
+        snippet(search_turns, 0, '[[', ']]', '…', 16) AS snippet,
+        bm25(search_turns) AS score
+      FROM search_turns
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY score
+      LIMIT ?
+    `).all(...params) as Array<{
+      source: SearchableSourceType;
+      session_id: string;
+      folder: string;
+      project_path: string;
+      turn_index: number;
+      role: SearchRole;
+      timestamp: number | null;
+      snippet: string;
+      score: number;
+    }>;
+
+    return rows.map((row) => ({
+      source: row.source,
+      sessionId: row.session_id,
+      folder: row.folder,
+      projectPath: row.project_path,
+      turnIndex: row.turn_index,
+      role: row.role,
+      timestamp: row.timestamp,
+      snippet: row.snippet,
+      score: row.score,
+    }));
+  }
+
+  /**
+   * Close the database. It is reopened on next use.
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private deleteFile(filePath: string): void {
+    const db = this.open();
+    db.prepare("DELETE FROM search_turns WHERE path = ?").run(filePath);
+    db.prepare("DELETE FROM search_files WHERE path = ?").run(filePath);
+  }
+
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    if (this.dbPath !== ":memory:") {
+      mkdirSync(dirname(this.dbPath), { recursive: true });
+    }
+    const db = new Database(this.dbPath);
+    db.pragma("journal_mode = WAL");
+    db.exec(SCHEMA);
+    this.db = db;
+    return db;
+  }
+}
+
+let sharedIndex: SessionSearchIndex | null = null;
+
+/**
+ * Get the shared search index. It lives in the session index database
+ * (SESSION_INDEX_PATH) and is reopened when that path changes.
+ */
+export function getSearchIndex(): SessionSearchIndex {
+  const dbPath = config.sessionIndexPath;
+  if (sharedIndex?.getDbPath() !== dbPath) {
+    sharedIndex?.close();
+    sharedIndex = new SessionSearchIndex(dbPath);
+  }
+  return sharedIndex;
+}
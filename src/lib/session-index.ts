@@ -0,0 +1,200 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname, sep } from "path";
+import { config } from "../config.js";
+import type { SessionSourceType } from "../types.js";
+
+/**
+ * Metadata derived from parsing a session file.
+ */
+export interface IndexedSessionMetadata {
+  firstMessage: string;
+  turnCount: number;
+  /** Creation time recorded inside the session, when the format has one */
+  createdAt: number | null;
+  /** Estimated tokens across all turns */
+  contextTokens: number;
+}
+
+/**
+ * File identity the cached metadata was derived from.
+ */
+export interface SessionFileStats {
+  mtimeMs: number;
+  size: number;
+}
+
+interface SessionRow {
+  mtime_ms: number;
+  size: number;
+  first_message: string;
+  turn_count: number;
+  created_at: number | null;
+  context_tokens: number;
+}
+
+/**
+ * Version of the metadata derived from session files, kept in the
+ * database's user_version. Bump it whenever the summarizer changes what it
+ * derives (e.g. skipping sidechains, counting image tokens); rows written
+ * under another version are dropped when the index opens.
+ */
+const METADATA_VERSION = 2;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS session_metadata (
+    path TEXT PRIMARY KEY,
+    source TEXT NOT NULL,
+    mtime_ms REAL NOT NULL,
+    size INTEGER NOT NULL,
+    first_message TEXT NOT NULL,
+    turn_count INTEGER NOT NULL,
+    created_at INTEGER,
+    context_tokens INTEGER NOT NULL
+  )
+`;
+
+/**
+ * Persistent cache of session list metadata, keyed by file path.
+ * A row is only used while the file's mtime and size still match, so
+ * changed files are re-parsed and everything else is served from SQLite.
+ * Rows derived by an older summarizer are cleared on open (METADATA_VERSION).
+ * The index is a cache: if the database cannot be opened, lookups miss
+ * and sources fall back to parsing every file.
+ */
+export class SessionMetadataIndex {
+  private db: Database.Database | null = null;
+  private failed = false;
+
+  constructor(private readonly dbPath: string) {}
+
+  /**
+   * Get the database file path.
+   */
+  getDbPath(): string {
+    return this.dbPath;
+  }
+
+  /**
+   * Get cached metadata for a file.
+   * @returns Metadata, or null if the file is not indexed or has changed
+   */
+  get(filePath: string, stats: SessionFileStats): IndexedSessionMetadata | null {
+    const db = this.open();
+    if (!db) return null;
+
+    const row = db
+      .prepare("SELECT * FROM session_metadata WHERE path = ?")
+      .get(filePath) as SessionRow | undefined;
+    if (!row || row.mtime_ms !== stats.mtimeMs || row.size !== stats.size) {
+      return null;
+    }
+
+    return {
+      firstMessage: row.first_message,
+      turnCount: row.turn_count,
+      createdAt: row.created_at,
+      contextTokens: row.context_tokens,
+    };
+  }
+
+  /**
+   * Store metadata for a file, replacing any stale row.
+   */
+  set(
+    filePath: string,
+    source: SessionSourceType,
+    stats: SessionFileStats,
+    metadata: IndexedSessionMetadata
+  ): void {
+    const db = this.open();
+    if (!db) return;
+
+    db.prepare(`
+      INSERT OR REPLACE INTO session_metadata
+        (path, source, mtime_ms, size, first_message, turn_count, created_at, context_tokens)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      filePath,
+      source,
+      stats.mtimeMs,
+      stats.size,
+      metadata.firstMessage,
+      metadata.turnCount,
+      metadata.createdAt,
+      metadata.contextTokens
+    );
+  }
+
+  /**
+   * Drop rows for files directly inside a directory that no longer exist.
+   * @param livePaths Paths of the files currently in the directory
+   */
+  prune(directory: string, livePaths: string[]): void {
+    const db = this.open();
+    if (!db) return;
+
+    const prefix = directory.endsWith(sep) ? directory : directory + sep;
+    const live = new Set(livePaths);
+    const rows = db
+      .prepare("SELECT path FROM session_metadata WHERE substr(path, 1, ?) = ?")
+      .all(prefix.length, prefix) as Array<{ path: string }>;
+
+    const remove = db.prepare("DELETE FROM session_metadata WHERE path = ?");
+    const removeAll = db.transaction((paths: string[]) => {
+      for (const path of paths) remove.run(path);
+    });
+    removeAll(
+      rows
+        .map((row) => row.path)
+        .filter((path) => !path.slice(prefix.length).includes(sep) && !live.has(path))
+    );
+  }
+
+  /**
+   * Close the database. It is reopened on next use.
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private open(): Database.Database | null {
+    if (this.db) return this.db;
+    if (this.failed) return null;
+
+    try {
+      if (this.dbPath !== ":memory:") {
+        mkdirSync(dirname(this.dbPath), { recursive: true });
+      }
+      const db = new Database(this.dbPath);
+      db.pragma("journal_mode = WAL");
+      db.exec(SCHEMA);
+      if (db.pragma("user_version", { simple: true }) !== METADATA_VERSION) {
+        db.exec("DELETE FROM session_metadata");
+        db.pragma(`user_version = ${METADATA_VERSION}`);
+      }
+      this.db = db;
+      return db;
+    } catch (error) {
+      console.warn(`[session-index] Index unavailable at ${this.dbPath}, parsing sessions directly:`, error);
+      this.failed = true;
+      return null;
+    }
+  }
+}
+
+let sharedIndex: SessionMetadataIndex | null = null;
+
+/**
+ * Get the shared index for the configured path (SESSION_INDEX_PATH).
+ * Reopens when the configured path changes.
+ */
+export function getSessionIndex(): SessionMetadataIndex {
+  const dbPath = config.sessionIndexPath;
+  if (sharedIndex?.getDbPath() !== dbPath) {
+    sharedIndex?.close();
+    sharedIndex = new SessionMetadataIndex(dbPath);
+  }
+  return sharedIndex;
+}
@@ -0,0 +1,12 @@
+/**
+ * Quote a value for a POSIX shell command line.
+ * Plain paths are left as they are; anything else is wrapped in single
+ * quotes, with embedded single quotes written as '\''.
+ *
+ * @param value - Argument to quote
+ * @returns The argument, safe to paste into a shell
+ */
+export function shellQuote(value: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(value)) return value;
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
@@ -1,14 +1,19 @@
 import { getSessionSource } from "../sources/index.js";
 import type { ClaudeSessionSource } from "../sources/claude-source.js";
 import type { CopilotSessionSource } from "../sources/copilot-source.js";
+import type { CodexSessionSource } from "../sources/codex-source.js";
+import type { GeminiSessionSource } from "../sources/gemini-source.js";
+import type { ClineSessionSource } from "../sources/cline-source.js";
+import type { CursorSessionSource } from "../sources/cursor-source.js";
+import type { SessionSourceType } from "../types.js";
 
 /**
  * Result of resolving a session ID to its source.
  */
 export interface ResolvedSession {
   sessionId: string;
-  source: "claude" | "copilot";
-  /** For Claude: encoded project path. For Copilot: workspace hash */
+  source: SessionSourceType;
+  /** For Claude: encoded project path. For Copilot: workspace hash. For Codex: encoded cwd. For Gemini: project hash. For Cline: encoded task workspace. For Cursor: workspace hash */
   location: string;
 }
 
@@ -23,7 +28,7 @@ export function isValidUuid(str: string): boolean {
 
 /**
  * Resolve a session ID to its source and location.
- * Searches Claude first (more common), then Copilot.
+ * Searches Claude first (more common), then Copilot, then Codex, then Gemini, then Cline / Roo Code, then Cursor.
  *
  * @param sessionId - UUID of the session
  * @returns Resolved session info or null if not found
@@ -60,5 +65,57 @@ export async function resolveSession(sessionId: string): Promise<ResolvedSession
     console.warn("Error searching Copilot source:", error);
   }
 
+  // Try Codex
+  try {
+    const codexSource = getSessionSource("codex") as CodexSessionSource;
+    if (await codexSource.isAvailable()) {
+      const location = await codexSource.findSession(sessionId);
+      if (location) {
+        return { sessionId, source: "codex", location };
+      }
+    }
+  } catch (error) {
+    console.warn("Error searching Codex source:", error);
+  }
+
+  // Try Gemini
+  try {
+    const geminiSource = getSessionSource("gemini") as GeminiSessionSource;
+    if (await geminiSource.isAvailable()) {
+      const location = await geminiSource.findSession(sessionId);
+      if (location) {
+        return { sessionId, source: "gemini", location };
+      }
+    }
+  } catch (error) {
+    console.warn("Error searching Gemini source:", error);
+  }
+
+  // Try Cline / Roo Code (Roo Code task IDs are UUIDs)
+  try {
+    const clineSource = getSessionSource("cline") as ClineSessionSource;
+    if (await clineSource.isAvailable()) {
+      const location = await clineSource.findSession(sessionId);
+      if (location) {
+        return { sessionId, source: "cline", location };
+      }
+    }
+  } catch (error) {
+    console.warn("Error searching Cline source:", error);
+  }
+
+  // Try Cursor
+  try {
+    const cursorSource = getSessionSource("cursor") as CursorSessionSource;
+    if (await cursorSource.isAvailable()) {
+      const location = await cursorSource.findSession(sessionId);
+      if (location) {
+        return { sessionId, source: "cursor", location };
+      }
+    }
+  } catch (error) {
+    console.warn("Error searching Cursor source:", error);
+  }
+
   return null;
 }
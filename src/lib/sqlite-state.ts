@@ -1,4 +1,5 @@
 import Database from "better-sqlite3";
+import { existsSync } from "fs";
 import { copyFile, unlink, readdir } from "fs/promises";
 import { join, dirname } from "path";
 
@@ -22,9 +23,24 @@ export interface ChatSessionIndex {
   entries: Record<string, ChatSessionIndexEntry>;
 }
 
+/**
+ * Parse a JSON value stored as TEXT or BLOB.
+ */
+function parseStoredJson<T>(value: unknown): T | null {
+  const text = Buffer.isBuffer(value) ? value.toString("utf-8") : value;
+  if (typeof text !== "string") return null;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Manages VS Code's state.vscdb SQLite database.
- * Used to add cloned sessions to the session index.
+ * Used to add cloned sessions to the session index, and to read chat
+ * history from forks that keep it in the same database (Cursor).
+ * Reads open the database read-only; writes must call backup() first.
  */
 export class VSCodeStateDb {
   private dbPath: string;
@@ -113,6 +129,76 @@ export class VSCodeStateDb {
     }
   }
 
+  /**
+   * Run a query against a read-only connection.
+   * A missing database file or table yields the fallback value, since
+   * not every state.vscdb has every table (cursorDiskKV is Cursor-only).
+   */
+  private readOnly<T>(fallback: T, query: (db: ReturnType<typeof Database>) => T): T {
+    if (!existsSync(this.dbPath)) {
+      return fallback;
+    }
+
+    let db: ReturnType<typeof Database> | null = null;
+
+    try {
+      db = new Database(this.dbPath, { readonly: true });
+      return query(db);
+    } catch (err: unknown) {
+      const error = err as { code?: string; message?: string };
+      if (error.code === "SQLITE_CANTOPEN" || error.message?.includes("no such table")) {
+        return fallback;
+      }
+      throw err;
+    } finally {
+      db?.close();
+    }
+  }
+
+  /**
+   * Read and parse a JSON value from ItemTable.
+   * @returns The parsed value, or null if the key is missing or not JSON
+   */
+  readItem<T>(key: string): T | null {
+    const row = this.readOnly(undefined, (db) =>
+      db.prepare("SELECT value FROM ItemTable WHERE key = ?").get(key) as { value: unknown } | undefined
+    );
+    return row ? parseStoredJson<T>(row.value) : null;
+  }
+
+  /**
+   * Read and parse a JSON value from Cursor's cursorDiskKV table.
+   * @returns The parsed value, or null if the key is missing or not JSON
+   */
+  readCursorValue<T>(key: string): T | null {
+    const row = this.readOnly(undefined, (db) =>
+      db.prepare("SELECT value FROM cursorDiskKV WHERE key = ?").get(key) as { value: unknown } | undefined
+    );
+    return row ? parseStoredJson<T>(row.value) : null;
+  }
+
+  /**
+   * Read every cursorDiskKV value whose key starts with a prefix,
+   * e.g. all bubbles of a composer ("bubbleId:<composerId>:").
+   * Values that are not JSON are skipped.
+   */
+  readCursorValues<T>(prefix: string): Array<{ key: string; value: T }> {
+    const pattern = prefix.replace(/[\\%_]/g, (c) => `\\${c}`) + "%";
+    const rows = this.readOnly([] as Array<{ key: string; value: unknown }>, (db) =>
+      db.prepare("SELECT key, value FROM cursorDiskKV WHERE key LIKE ? ESCAPE '\\'").all(pattern) as Array<{
+        key: string;
+        value: unknown;
+      }>
+    );
+
+    const values: Array<{ key: string; value: T }> = [];
+    for (const row of rows) {
+      const value = parseStoredJson<T>(row.value);
+      if (value !== null) values.push({ key: row.key, value });
+    }
+    return values;
+  }
+
   /**
    * Check if a session ID already exists in the index.
    * @param sessionId - Session UUID to check
@@ -1,9 +1,13 @@
 import { spawn } from "child_process";
 import type { LlmProvider } from "./types.js";
-import type { CompressionLevel } from "../types.js";
+import type { CompressionLevel, HandoffOptions, HandoffSummary } from "../types.js";
+import { buildHandoffPrompt, parseHandoffResponse } from "./handoff-prompt.js";
+
+const MODEL = "claude-haiku-4-5-20251001";
+const MODEL_LARGE = "claude-opus-4-5-20251101";
 
 /**
- * Claude CLI Provider for compression tasks.
+ * Claude CLI Provider for compression and handoff summary tasks.
  *
  * Uses `claude -p` (pipe/one-shot mode) with --model flag.
  * Leverages existing OAuth authentication from `claude` login.
@@ -71,12 +75,52 @@ CONTENT`;
     level: CompressionLevel,
     useLargeModel: boolean
   ): Promise<string> {
-    const model = useLargeModel
-      ? "claude-opus-4-5-20251101"
-      : "claude-haiku-4-5-20251001";
-    const prompt = this.buildPrompt(text, level);
+    const model = useLargeModel ? MODEL_LARGE : MODEL;
+    const llmResponse = await this.run(this.buildPrompt(text, level), model, useLargeModel);
+
+    try {
+      // Extract JSON from markdown code blocks if present
+      const jsonStr = this.extractJSON(llmResponse);
+
+      // LLM returns {"text": "..."} per our prompt - extract the text
+      const parsed = JSON.parse(jsonStr) as { text?: string };
+      // Fallback if no text field
+      return parsed.text || llmResponse;
+    } catch {
+      throw new Error(
+        `Failed to parse Claude CLI output: ${llmResponse.substring(0, 200)}`
+      );
+    }
+  }
+
+  /**
+   * Summarize removed turns into a handoff with opus.
+   *
+   * @param transcript - The removed turns as plain text
+   * @param options - Sections to write and extra instructions
+   * @returns Bullet points per requested section
+   */
+  async summarizeHandoff(
+    transcript: string,
+    options: HandoffOptions
+  ): Promise<HandoffSummary> {
+    const prompt = buildHandoffPrompt(transcript, options);
+    const llmResponse = await this.run(prompt, MODEL_LARGE, true);
+    try {
+      return parseHandoffResponse(llmResponse, options.sections);
+    } catch {
+      throw new Error(
+        `Failed to parse Claude CLI handoff summary: ${llmResponse.substring(0, 200)}`
+      );
+    }
+  }
+
+  /**
+   * Run a one-shot prompt through the CLI and return the LLM's reply.
+   */
+  private run(prompt: string, model: string, withThinking: boolean): Promise<string> {
     const env = { ...process.env };
-    if (useLargeModel) {
+    if (withThinking) {
       env.MAX_THINKING_TOKENS = "8000";
     } else {
       delete env.MAX_THINKING_TOKENS;
@@ -129,19 +173,7 @@ CONTENT`;
             result?: string;
             text?: string;
           };
-          const llmResponse = cliOutput.result ?? cliOutput.text ?? stdout;
-
-          // Extract JSON from markdown code blocks if present
-          const jsonStr = this.extractJSON(llmResponse);
-
-          // LLM returns {"text": "..."} per our prompt - extract the text
-          const parsed = JSON.parse(jsonStr) as { text?: string };
-          if (parsed.text) {
-            resolve(parsed.text);
-          } else {
-            // Fallback if no text field
-            resolve(llmResponse);
-          }
+          resolve(cliOutput.result ?? cliOutput.text ?? stdout);
         } catch {
           reject(
             new Error(
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import type { HandoffOptions, HandoffSection, HandoffSummary } from "../types.js";
+
+const SECTION_GUIDANCE: Record<HandoffSection, string> = {
+  goals: "what the user is trying to achieve overall",
+  decisions: "decisions made or agreed on, with the reason when one was given",
+  filesChanged: "files created, edited or deleted, each with what changed",
+  openTodos: "work still to do, promised or left unfinished",
+  pitfalls: "approaches that failed, errors hit and things to avoid",
+};
+
+const HandoffResponseSchema = z.object({
+  goals: z.array(z.string()).optional(),
+  decisions: z.array(z.string()).optional(),
+  filesChanged: z.array(z.string()).optional(),
+  openTodos: z.array(z.string()).optional(),
+  pitfalls: z.array(z.string()).optional(),
+});
+
+/**
+ * Build the prompt that summarizes the start of a conversation for the
+ * agent that continues it. Shared by all providers.
+ */
+export function buildHandoffPrompt(transcript: string, options: HandoffOptions): string {
+  const fields = options.sections
+    .map((section) => `- "${section}": ${SECTION_GUIDANCE[section]}`)
+    .join("\n");
+  const instructions = options.instructions ? `\nAdditional instructions:\n${options.instructions}\n` : "";
+
+  return `You are HandoffWriter. The transcript below is the start of a coding session between a user and an AI coding agent. It is being removed from the session to save context; the agent continues from the turns that follow it. Write a handoff summary so the agent can carry on without the transcript.
+
+Rules:
+- Each field is a list of short, self-contained bullet points
+- Be specific: keep file paths, function names, commands and error messages
+- Only include what is in the transcript; use an empty list when there is nothing
+- Do not include explanations or commentary outside the JSON
+${instructions}
+Fields:
+${fields}
+
+Return exactly one JSON object with these fields, e.g. {"${options.sections[0]}": ["..."]}
+
+Transcript:
+<<<CONTENT
+${transcript}
+CONTENT`;
+}
+
+/**
+ * Parse a handoff summary from raw LLM output, which may wrap the JSON in
+ * a markdown code block or surround it with text. Sections that were not
+ * asked for are dropped.
+ */
+export function parseHandoffResponse(raw: string, sections: HandoffSection[]): HandoffSummary {
+  const codeBlockMatch = raw.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  const jsonMatch = raw.match(/\{[\s\S]*\}/);
+  const json = codeBlockMatch ? codeBlockMatch[1].trim() : jsonMatch ? jsonMatch[0] : raw;
+  const parsed = HandoffResponseSchema.parse(JSON.parse(json));
+
+  const summary: HandoffSummary = {};
+  for (const section of sections) {
+    summary[section] = parsed[section] ?? [];
+  }
+  return summary;
+}
@@ -1,14 +1,15 @@
 import { z } from "zod";
 import type { LlmProvider } from "./types.js";
-import type { CompressionLevel } from "../types.js";
+import type { CompressionLevel, HandoffOptions, HandoffSummary } from "../types.js";
 import { ConfigMissingError } from "../errors.js";
+import { buildHandoffPrompt, parseHandoffResponse } from "./handoff-prompt.js";
 
 const CompressionResponseSchema = z.object({
   text: z.string(),
 });
 
 /**
- * OpenRouter Provider for compression tasks.
+ * OpenRouter Provider for compression and handoff summary tasks.
  *
  * Uses the OpenRouter chat completions API to compress text using
  * configurable models. Supports large model (Opus) for messages >1000 tokens.
@@ -104,13 +105,41 @@ CONTENT`;
       ? this.buildPromptLarge(text, level)
       : this.buildPrompt(text, level);
 
+    return this.validateResponse(await this.complete(prompt, model, useLargeModel));
+  }
+
+  /**
+   * Summarize removed turns into a handoff, using the large model with
+   * extended thinking: it is a single call whose quality matters.
+   *
+   * @param transcript - The removed turns as plain text
+   * @param options - Sections to write and extra instructions
+   * @returns Bullet points per requested section
+   */
+  async summarizeHandoff(
+    transcript: string,
+    options: HandoffOptions
+  ): Promise<HandoffSummary> {
+    const prompt = buildHandoffPrompt(transcript, options);
+    const content = await this.complete(prompt, this.modelLarge, true);
+    return parseHandoffResponse(content, options.sections);
+  }
+
+  /**
+   * Send a single-message chat completion and return the reply text.
+   */
+  private async complete(
+    prompt: string,
+    model: string,
+    withThinking: boolean
+  ): Promise<string> {
     // Build request body - add extended thinking for Opus
     const requestBody: Record<string, unknown> = {
       model,
       messages: [{ role: "user", content: prompt }],
     };
 
-    if (useLargeModel) {
+    if (withThinking) {
       // Enable extended thinking for Opus
       requestBody.reasoning = { effort: "high" };
     }
@@ -143,7 +172,7 @@ CONTENT`;
       throw new Error("Invalid response format from OpenRouter");
     }
 
-    return this.validateResponse(content);
+    return content;
   }
 
   /**
@@ -1,7 +1,7 @@
-import type { CompressionLevel } from "../types.js";
+import type { CompressionLevel, HandoffOptions, HandoffSummary } from "../types.js";
 
 /**
- * LLM Provider interface for compression tasks.
+ * LLM Provider interface for compression and handoff summary tasks.
  *
  * This interface matches the existing OpenRouterClient.compress() signature
  * so providers can be passed directly to processBatches() in compression-batch.ts.
@@ -20,6 +20,18 @@ export interface LlmProvider {
     level: CompressionLevel,
     useLargeModel: boolean
   ): Promise<string>;
+
+  /**
+   * Summarize the turns a clone removes into a structured handoff.
+   *
+   * @param transcript - The removed turns as plain text
+   * @param options - Sections to write and extra instructions
+   * @returns Bullet points per requested section
+   */
+  summarizeHandoff(
+    transcript: string,
+    options: HandoffOptions
+  ): Promise<HandoffSummary>;
 }
 
 export type ProviderType = "openrouter" | "cc-cli" | "claude-sdk";
@@ -0,0 +1,49 @@
+import { Router, type Response } from "express";
+import validate from "express-zod-safe";
+import { z } from "zod";
+import { clineStructureService } from "../services/cline-structure.js";
+
+export const clineVisualizationRouter = Router();
+
+const SessionParamsSchema = z.object({
+  sessionId: z.string().min(1, "Session ID required")
+});
+
+function handleError(res: Response, error: unknown, action: string) {
+  if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+    return res.status(404).json({ error: { message: "Session not found", code: "NOT_FOUND" } });
+  }
+  if (error instanceof Error && error.message.includes("path traversal")) {
+    return res.status(400).json({ error: { message: error.message, code: "INVALID_INPUT" } });
+  }
+  console.error(`Failed to get Cline task ${action}:`, error);
+  return res.status(500).json({ error: { message: `Failed to load session ${action}` } });
+}
+
+// GET /api/cline/session/:sessionId/structure
+clineVisualizationRouter.get(
+  "/api/cline/session/:sessionId/structure",
+  validate({ params: SessionParamsSchema }),
+  async (req, res) => {
+    try {
+      const structure = await clineStructureService.getStructure(req.params.sessionId);
+      res.json(structure);
+    } catch (error) {
+      handleError(res, error, "structure");
+    }
+  }
+);
+
+// GET /api/cline/session/:sessionId/turns
+clineVisualizationRouter.get(
+  "/api/cline/session/:sessionId/turns",
+  validate({ params: SessionParamsSchema }),
+  async (req, res) => {
+    try {
+      const turns = await clineStructureService.getTurns(req.params.sessionId);
+      res.json(turns);
+    } catch (error) {
+      handleError(res, error, "turns");
+    }
+  }
+);
@@ -2,7 +2,15 @@ import { Router } from "express";
 import validate from "express-zod-safe";
 import { CloneRequestSchemaV2 } from "../schemas/clone-v2.js";
 import { cloneSessionV2 } from "../services/session-clone.js";
-import { SessionNotFoundError, NotImplementedError, ConfigMissingError } from "../errors.js";
+import { cloneToTarget } from "../services/clone-planner.js";
+import {
+  SessionNotFoundError,
+  NotImplementedError,
+  ConfigMissingError,
+  InvalidTurnRangeError,
+  BranchNotFoundError,
+  TargetUnreachableError,
+} from "../errors.js";
 
 export const cloneRouterV2 = Router();
 
@@ -11,12 +19,21 @@ cloneRouterV2.post(
   validate({ body: CloneRequestSchemaV2 }),
   async (req, res) => {
     try {
-      const result = await cloneSessionV2(req.body);
+      const { targetTokens, targetContextPercent } = req.body;
+      const result = targetTokens !== undefined || targetContextPercent !== undefined
+        ? await cloneToTarget(req.body)
+        : await cloneSessionV2(req.body);
       res.json(result);
     } catch (err) {
-      if (err instanceof SessionNotFoundError) {
+      if (err instanceof SessionNotFoundError || err instanceof BranchNotFoundError) {
         return res.status(404).json({ error: { code: "NOT_FOUND", message: err.message } });
       }
+      if (err instanceof InvalidTurnRangeError) {
+        return res.status(400).json({ error: { code: "INVALID_INPUT", message: err.message } });
+      }
+      if (err instanceof TargetUnreachableError) {
+        return res.status(422).json({ error: { code: "TARGET_UNREACHABLE", message: err.message } });
+      }
       if (err instanceof NotImplementedError) {
         return res.status(501).json({ error: { code: "NOT_IMPLEMENTED", message: err.message } });
       }
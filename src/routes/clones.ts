@@ -0,0 +1,74 @@
+import { Router, type Response } from "express";
+import validate from "express-zod-safe";
+import { z } from "zod";
+import { cloneTrashService } from "../services/clone-trash.js";
+import { CloneConflictError, CloneNotFoundError } from "../errors.js";
+
+export const clonesRouter = Router();
+
+/**
+ * Schema for clone ID path parameter validation.
+ */
+const CloneIdParamsSchema = z.object({
+  id: z
+    .string()
+    .regex(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+      "Invalid clone ID format"
+    ),
+});
+
+function sendError(res: Response, err: unknown) {
+  if (err instanceof CloneNotFoundError) {
+    return res.status(404).json({
+      error: { code: "NOT_FOUND", message: err.message },
+    });
+  }
+
+  if (err instanceof CloneConflictError) {
+    return res.status(409).json({
+      error: { code: "CONFLICT", message: err.message },
+    });
+  }
+
+  const message = err instanceof Error ? err.message : "Internal server error";
+  console.error("[clones] Error:", err);
+  res.status(500).json({
+    error: { code: "SERVER_ERROR", message },
+  });
+}
+
+/**
+ * DELETE /api/clones/:id
+ *
+ * Undo a clone: move its file to the trash and mark its lineage record
+ * reverted. The source session is left untouched.
+ */
+clonesRouter.delete(
+  "/clones/:id",
+  validate({ params: CloneIdParamsSchema }),
+  async (req, res) => {
+    try {
+      res.json(await cloneTrashService.deleteClone(req.params.id));
+    } catch (err) {
+      sendError(res, err);
+    }
+  }
+);
+
+/**
+ * POST /api/clones/:id/restore
+ *
+ * Bring back a clone deleted within the trash retention window.
+ */
+clonesRouter.post(
+  "/clones/:id/restore",
+  validate({ params: CloneIdParamsSchema }),
+  async (req, res) => {
+    try {
+      res.json(await cloneTrashService.restoreClone(req.params.id));
+    } catch (err) {
+      sendError(res, err);
+    }
+  }
+);
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import validate from "express-zod-safe";
+import { CodexCloneRequestSchema } from "../schemas/codex-clone.js";
+import { codexCloneService } from "../services/codex-clone.js";
+import { ConfigMissingError } from "../errors.js";
+
+export const codexCloneRouter = Router();
+
+// POST /api/codex/clone
+codexCloneRouter.post(
+  "/api/codex/clone",
+  validate({ body: CodexCloneRequestSchema }),
+  async (req, res) => {
+    try {
+      const { sessionId, options = {} } = req.body;
+      const result = await codexCloneService.clone(sessionId, options);
+
+      res.json({
+        success: true,
+        sessionId: result.sessionId,
+        outputPath: result.outputPath,
+        writtenToDisk: result.writtenToDisk,
+        stats: result.stats,
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return res.status(404).json({ error: { message: "Session not found", code: "NOT_FOUND" } });
+      }
+      if (error instanceof ConfigMissingError) {
+        return res.status(500).json({ error: { message: error.message, code: "CONFIG_MISSING" } });
+      }
+      console.error("Codex clone failed:", error);
+      res.status(500).json({ error: { message: "Clone operation failed", code: "CLONE_ERROR" } });
+    }
+  }
+);
@@ -0,0 +1,46 @@
+import { Router } from "express";
+import validate from "express-zod-safe";
+import { z } from "zod";
+import { codexStructureService } from "../services/codex-structure.js";
+
+export const codexVisualizationRouter = Router();
+
+const SessionParamsSchema = z.object({
+  sessionId: z.string().min(1, "Session ID required")
+});
+
+// GET /api/codex/session/:sessionId/structure
+codexVisualizationRouter.get(
+  "/api/codex/session/:sessionId/structure",
+  validate({ params: SessionParamsSchema }),
+  async (req, res) => {
+    try {
+      const structure = await codexStructureService.getStructure(req.params.sessionId);
+      res.json(structure);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return res.status(404).json({ error: { message: "Session not found", code: "NOT_FOUND" } });
+      }
+      console.error("Failed to get Codex session structure:", error);
+      res.status(500).json({ error: { message: "Failed to load session structure" } });
+    }
+  }
+);
+
+// GET /api/codex/session/:sessionId/turns
+codexVisualizationRouter.get(
+  "/api/codex/session/:sessionId/turns",
+  validate({ params: SessionParamsSchema }),
+  async (req, res) => {
+    try {
+      const turns = await codexStructureService.getTurns(req.params.sessionId);
+      res.json(turns);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return res.status(404).json({ error: { message: "Session not found", code: "NOT_FOUND" } });
+      }
+      console.error("Failed to get Codex session turns:", error);
+      res.status(500).json({ error: { message: "Failed to load session turns" } });
+    }
+  }
+);
@@ -0,0 +1,56 @@
+import { Router, type Response } from "express";
+import validate from "express-zod-safe";
+import { z } from "zod";
+import { cursorStructureService } from "../services/cursor-structure.js";
+
+export const cursorVisualizationRouter = Router();
+
+const SessionParamsSchema = z.object({
+  sessionId: z.string().min(1, "Session ID required")
+});
+
+// Legacy chat tabs live in their workspace database, so the workspace hash may be passed along
+const WorkspaceQuerySchema = z.object({
+  workspace: z.string().optional()
+});
+
+function handleError(res: Response, error: unknown, action: string) {
+  if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+    return res.status(404).json({ error: { message: "Session not found", code: "NOT_FOUND" } });
+  }
+  if (error instanceof Error && error.message.includes("path traversal")) {
+    return res.status(400).json({ error: { message: error.message, code: "INVALID_INPUT" } });
+  }
+  console.error(`Failed to get Cursor conversation ${action}:`, error);
+  return res.status(500).json({ error: { message: `Failed to load session ${action}` } });
+}
+
+// GET /api/cursor/session/:sessionId/structure
+cursorVisualizationRouter.get(
+  "/api/cursor/session/:sessionId/structure",
+  validate({ params: SessionParamsSchema, query: WorkspaceQuerySchema }),
+  async (req, res) => {
+    try {
+      const { workspace } = req.query as { workspace?: string };
+      const structure = await cursorStructureService.getStructure(req.params.sessionId, workspace || undefined);
+      res.json(structure);
+    } catch (error) {
+      handleError(res, error, "structure");
+    }
+  }
+);
+
+// GET /api/cursor/session/:sessionId/turns
+cursorVisualizationRouter.get(
+  "/api/cursor/session/:sessionId/turns",
+  validate({ params: SessionParamsSchema, query: WorkspaceQuerySchema }),
+  async (req, res) => {
+    try {
+      const { workspace } = req.query as { workspace?: string };
+      const turns = await cursorStructureService.getTurns(req.params.sessionId, workspace || undefined);
+      res.json(turns);
+    } catch (error) {
+      handleError(res, error, "turns");
+    }
+  }
+);
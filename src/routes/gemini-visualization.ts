@@ -0,0 +1,56 @@
+import { Router, type Response } from "express";
+import validate from "express-zod-safe";
+import { z } from "zod";
+import { geminiStructureService } from "../services/gemini-structure.js";
+
+export const geminiVisualizationRouter = Router();
+
+const SessionParamsSchema = z.object({
+  sessionId: z.string().min(1, "Session ID required")
+});
+
+// Checkpoint IDs are only unique per project, so the project hash may be passed along
+const WorkspaceQuerySchema = z.object({
+  workspace: z.string().optional()
+});
+
+function handleError(res: Response, error: unknown, action: string) {
+  if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+    return res.status(404).json({ error: { message: "Session not found", code: "NOT_FOUND" } });
+  }
+  if (error instanceof Error && error.message.includes("path traversal")) {
+    return res.status(400).json({ error: { message: error.message, code: "INVALID_INPUT" } });
+  }
+  console.error(`Failed to get Gemini session ${action}:`, error);
+  return res.status(500).json({ error: { message: `Failed to load session ${action}` } });
+}
+
+// GET /api/gemini/session/:sessionId/structure
+geminiVisualizationRouter.get(
+  "/api/gemini/session/:sessionId/structure",
+  validate({ params: SessionParamsSchema, query: WorkspaceQuerySchema }),
+  async (req, res) => {
+    try {
+      const { workspace } = req.query as { workspace?: string };
+      const structure = await geminiStructureService.getStructure(req.params.sessionId, workspace || undefined);
+      res.json(structure);
+    } catch (error) {
+      handleError(res, error, "structure");
+    }
+  }
+);
+
+// GET /api/gemini/session/:sessionId/turns
+geminiVisualizationRouter.get(
+  "/api/gemini/session/:sessionId/turns",
+  validate({ params: SessionParamsSchema, query: WorkspaceQuerySchema }),
+  async (req, res) => {
+    try {
+      const { workspace } = req.query as { workspace?: string };
+      const turns = await geminiStructureService.getTurns(req.params.sessionId, workspace || undefined);
+      res.json(turns);
+    } catch (error) {
+      handleError(res, error, "turns");
+    }
+  }
+);
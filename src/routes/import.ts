@@ -0,0 +1,33 @@
+import express, { Router } from "express";
+import validate from "express-zod-safe";
+import { ImportQuerySchema } from "../schemas/import.js";
+import type { ImportQuery } from "../schemas/import.js";
+import { sessionImportService, IMPORT_MAX_BYTES } from "../services/session-import.js";
+import { ImportError } from "../errors.js";
+
+export const importRouter = Router();
+
+// POST /api/import?filename= - Import sessions from the raw request body
+importRouter.post(
+  "/api/import",
+  express.raw({ type: () => true, limit: IMPORT_MAX_BYTES }),
+  validate({ query: ImportQuerySchema }),
+  async (req, res) => {
+    try {
+      const { filename } = req.query as unknown as ImportQuery;
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: { code: "INVALID_INPUT", message: "Upload is empty" } });
+      }
+
+      const response = await sessionImportService.import(filename, req.body);
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ImportError) {
+        return res.status(400).json({ error: { code: "INVALID_INPUT", message: error.message } });
+      }
+      const message = error instanceof Error ? error.message : "Import failed";
+      console.error("[import] Import failed:", error);
+      res.status(500).json({ error: { code: "SERVER_ERROR", message } });
+    }
+  }
+);
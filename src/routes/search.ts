@@ -0,0 +1,24 @@
+import { Router } from "express";
+import validate from "express-zod-safe";
+import { SearchQuerySchema } from "../schemas/search.js";
+import type { SearchQuery } from "../schemas/search.js";
+import { sessionSearchService } from "../services/session-search.js";
+
+export const searchRouter = Router();
+
+// GET /api/search?q= - Full-text search across Claude and Copilot sessions
+searchRouter.get(
+  "/api/search",
+  validate({ query: SearchQuerySchema }),
+  async (req, res) => {
+    try {
+      const { q, ...filters } = req.query as unknown as SearchQuery;
+      const response = await sessionSearchService.search(q, filters);
+      res.json(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Search failed";
+      console.error("[search] Search failed:", error);
+      res.status(500).json({ error: { code: "SERVER_ERROR", message } });
+    }
+  }
+);
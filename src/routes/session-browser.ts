@@ -2,6 +2,7 @@ import { Router } from "express";
 import validate from "express-zod-safe";
 import { z } from "zod";
 import { getSessionSource, decodeFolderName } from "../sources/index.js";
+import { resolveClaudeFolder } from "../lib/claude-roots.js";
 
 export const sessionBrowserRouter = Router();
 
@@ -49,7 +50,12 @@ sessionBrowserRouter.get(
       const source = getSessionSource("claude");
       const sessions = await source.listSessions(folder);
 
-      res.json({ folder, path: decodeFolderName(folder), sessions });
+      // Sessions carry the path recovered from their entries
+      res.json({
+        folder,
+        path: sessions[0]?.projectPath ?? decodeFolderName(resolveClaudeFolder(folder).folder),
+        sessions,
+      });
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === "ENOENT") {
         return res.status(404).json({ error: { code: "NOT_FOUND", message: "Project folder not found" } });
@@ -110,3 +116,184 @@ sessionBrowserRouter.get(
     }
   }
 );
+
+// GET /api/codex/projects - List Codex projects (grouped by session cwd)
+sessionBrowserRouter.get("/api/codex/projects", async (req, res) => {
+  try {
+    const source = getSessionSource("codex");
+
+    if (!await source.isAvailable()) {
+      return res.status(503).json({
+        error: { code: "SOURCE_UNAVAILABLE", message: "Codex sessions directory not found" }
+      });
+    }
+
+    const projects = await source.listProjects();
+    res.json({ projects });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to list Codex projects";
+    console.error("Failed to list Codex projects:", error);
+    res.status(500).json({ error: { code: "SERVER_ERROR", message } });
+  }
+});
+
+// GET /api/codex/projects/:folder/sessions - List sessions for a Codex project
+sessionBrowserRouter.get(
+  "/api/codex/projects/:folder/sessions",
+  validate({ params: FolderParamsSchema }),
+  async (req, res) => {
+    try {
+      const { folder } = req.params;
+      const source = getSessionSource("codex");
+      const sessions = await source.listSessions(folder);
+      const projectPath = sessions.length > 0 ? sessions[0].projectPath : "";
+
+      res.json({ folder, path: projectPath, sessions });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return res.status(404).json({ error: { code: "NOT_FOUND", message: "Codex sessions directory not found" } });
+      }
+      if (error instanceof Error && error.message.includes("path traversal")) {
+        return res.status(400).json({ error: { code: "INVALID_INPUT", message: error.message } });
+      }
+      const message = error instanceof Error ? error.message : "Failed to list Codex sessions";
+      console.error("Failed to list Codex sessions:", error);
+      res.status(500).json({ error: { code: "SERVER_ERROR", message } });
+    }
+  }
+);
+
+// GET /api/gemini/projects - List Gemini projects (one per project hash)
+sessionBrowserRouter.get("/api/gemini/projects", async (req, res) => {
+  try {
+    const source = getSessionSource("gemini");
+
+    if (!await source.isAvailable()) {
+      return res.status(503).json({
+        error: { code: "SOURCE_UNAVAILABLE", message: "Gemini tmp directory not found" }
+      });
+    }
+
+    const projects = await source.listProjects();
+    res.json({ projects });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to list Gemini projects";
+    console.error("Failed to list Gemini projects:", error);
+    res.status(500).json({ error: { code: "SERVER_ERROR", message } });
+  }
+});
+
+// GET /api/gemini/projects/:folder/sessions - List sessions for a Gemini project
+sessionBrowserRouter.get(
+  "/api/gemini/projects/:folder/sessions",
+  validate({ params: FolderParamsSchema }),
+  async (req, res) => {
+    try {
+      const { folder } = req.params;
+      const source = getSessionSource("gemini");
+      const sessions = await source.listSessions(folder);
+      const projectPath = sessions.length > 0 ? sessions[0].projectPath : "";
+
+      res.json({ folder, path: projectPath, sessions });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return res.status(404).json({ error: { code: "NOT_FOUND", message: `Project not found: ${req.params.folder}` } });
+      }
+      if (error instanceof Error && error.message.includes("path traversal")) {
+        return res.status(400).json({ error: { code: "INVALID_INPUT", message: error.message } });
+      }
+      const message = error instanceof Error ? error.message : "Failed to list Gemini sessions";
+      console.error("Failed to list Gemini sessions:", error);
+      res.status(500).json({ error: { code: "SERVER_ERROR", message } });
+    }
+  }
+);
+
+// GET /api/cline/projects - List Cline / Roo Code projects (grouped by task workspace)
+sessionBrowserRouter.get("/api/cline/projects", async (req, res) => {
+  try {
+    const source = getSessionSource("cline");
+
+    if (!await source.isAvailable()) {
+      return res.status(503).json({
+        error: { code: "SOURCE_UNAVAILABLE", message: "No Cline or Roo Code task storage found" }
+      });
+    }
+
+    const projects = await source.listProjects();
+    res.json({ projects });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to list Cline projects";
+    console.error("Failed to list Cline projects:", error);
+    res.status(500).json({ error: { code: "SERVER_ERROR", message } });
+  }
+});
+
+// GET /api/cline/projects/:folder/sessions - List tasks for a Cline / Roo Code project
+sessionBrowserRouter.get(
+  "/api/cline/projects/:folder/sessions",
+  validate({ params: FolderParamsSchema }),
+  async (req, res) => {
+    try {
+      const { folder } = req.params;
+      const source = getSessionSource("cline");
+      const sessions = await source.listSessions(folder);
+      const projectPath = sessions.length > 0 ? sessions[0].projectPath : "";
+
+      res.json({ folder, path: projectPath, sessions });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("path traversal")) {
+        return res.status(400).json({ error: { code: "INVALID_INPUT", message: error.message } });
+      }
+      const message = error instanceof Error ? error.message : "Failed to list Cline tasks";
+      console.error("Failed to list Cline tasks:", error);
+      res.status(500).json({ error: { code: "SERVER_ERROR", message } });
+    }
+  }
+);
+
+// GET /api/cursor/projects - List Cursor workspaces with conversations
+sessionBrowserRouter.get("/api/cursor/projects", async (req, res) => {
+  try {
+    const source = getSessionSource("cursor");
+
+    if (!await source.isAvailable()) {
+      return res.status(503).json({
+        error: { code: "SOURCE_UNAVAILABLE", message: "Cursor workspace storage not found" }
+      });
+    }
+
+    const projects = await source.listProjects();
+    res.json({ projects });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to list Cursor projects";
+    console.error("Failed to list Cursor projects:", error);
+    res.status(500).json({ error: { code: "SERVER_ERROR", message } });
+  }
+});
+
+// GET /api/cursor/projects/:folder/sessions - List conversations for a Cursor workspace
+sessionBrowserRouter.get(
+  "/api/cursor/projects/:folder/sessions",
+  validate({ params: FolderParamsSchema }),
+  async (req, res) => {
+    try {
+      const { folder } = req.params;
+      const source = getSessionSource("cursor");
+      const sessions = await source.listSessions(folder);
+      const projectPath = sessions.length > 0 ? sessions[0].projectPath : "";
+
+      res.json({ folder, path: projectPath, sessions });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return res.status(404).json({ error: { code: "NOT_FOUND", message: `Workspace not found: ${req.params.folder}` } });
+      }
+      if (error instanceof Error && error.message.includes("path traversal")) {
+        return res.status(400).json({ error: { code: "INVALID_INPUT", message: error.message } });
+      }
+      const message = error instanceof Error ? error.message : "Failed to list Cursor conversations";
+      console.error("Failed to list Cursor conversations:", error);
+      res.status(500).json({ error: { code: "SERVER_ERROR", message } });
+    }
+  }
+);
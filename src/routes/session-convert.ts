@@ -0,0 +1,53 @@
+import { Router } from "express";
+import validate from "express-zod-safe";
+import { ClaudeToCopilotRequestSchema, CopilotToClaudeRequestSchema } from "../schemas/convert.js";
+import type { ClaudeToCopilotRequest, CopilotToClaudeRequest } from "../schemas/convert.js";
+import { sessionConvertService } from "../services/session-convert.js";
+import { SessionNotFoundError } from "../errors.js";
+
+export const sessionConvertRouter = Router();
+
+// POST /api/convert/claude-to-copilot - Write a Claude session into a Copilot workspace
+sessionConvertRouter.post(
+  "/api/convert/claude-to-copilot",
+  validate({ body: ClaudeToCopilotRequestSchema }),
+  async (req, res) => {
+    try {
+      const response = await sessionConvertService.claudeToCopilot(req.body as ClaudeToCopilotRequest);
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof SessionNotFoundError) {
+        return res.status(404).json({ error: { message: error.message, code: "NOT_FOUND" } });
+      }
+      const err = error as Error;
+      if (err.message?.includes("close VS Code") || err.message?.includes("SQLITE_BUSY")) {
+        return res.status(409).json({
+          error: {
+            message: "Cannot write to VS Code database - please close VS Code and try again",
+            code: "VSCODE_LOCKED"
+          }
+        });
+      }
+      console.error("Claude to Copilot conversion failed:", error);
+      res.status(500).json({ error: { message: "Conversion failed", code: "CONVERT_ERROR" } });
+    }
+  }
+);
+
+// POST /api/convert/copilot-to-claude - Write a Copilot session as a Claude session
+sessionConvertRouter.post(
+  "/api/convert/copilot-to-claude",
+  validate({ body: CopilotToClaudeRequestSchema }),
+  async (req, res) => {
+    try {
+      const response = await sessionConvertService.copilotToClaude(req.body as CopilotToClaudeRequest);
+      res.status(201).json(response);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return res.status(404).json({ error: { message: "Session not found", code: "NOT_FOUND" } });
+      }
+      console.error("Copilot to Claude conversion failed:", error);
+      res.status(500).json({ error: { message: "Conversion failed", code: "CONVERT_ERROR" } });
+    }
+  }
+);
@@ -0,0 +1,47 @@
+import { Router } from "express";
+import validate from "express-zod-safe";
+import { z } from "zod";
+import { sessionWatcher } from "../services/session-watcher.js";
+
+export const sessionEventsRouter = Router();
+
+// Optional filters so a page only receives the sessions it shows
+const EventsQuerySchema = z.object({
+  source: z.enum(["claude", "copilot"]).optional(),
+  folder: z.string().optional(),
+  sessionId: z.string().optional(),
+});
+
+const HEARTBEAT_MS = 25000;
+
+// GET /api/events - Server-Sent Events stream of session changes
+sessionEventsRouter.get(
+  "/api/events",
+  validate({ query: EventsQuerySchema }),
+  (req, res) => {
+    const { source, folder, sessionId } = req.query as z.infer<typeof EventsQuerySchema>;
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    const unsubscribe = sessionWatcher.subscribe((event) => {
+      if (source && event.source !== source) return;
+      if (folder && event.folder !== folder) return;
+      if (sessionId && event.sessionId !== sessionId) return;
+      res.write(`event: session\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    // Comments keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+);
@@ -0,0 +1,62 @@
+import { Router } from "express";
+import validate from "express-zod-safe";
+import { z } from "zod";
+import { RelocateRequestSchema } from "../schemas/relocate.js";
+import type { RelocateRequest } from "../schemas/relocate.js";
+import { sessionRelocateService } from "../services/session-relocate.js";
+import { RelocateError, SessionExistsError, SessionNotFoundError } from "../errors.js";
+
+export const sessionRelocateRouter = Router();
+
+/**
+ * Schema for session ID path parameter validation.
+ */
+const SessionIdParamsSchema = z.object({
+  id: z
+    .string()
+    .regex(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+      "Invalid session ID format"
+    ),
+});
+
+/**
+ * POST /api/session/:id/relocate
+ *
+ * Move or copy a Claude session into the project folder of another
+ * checkout and rewrite its cwd fields, so it can be resumed from there.
+ */
+sessionRelocateRouter.post(
+  "/session/:id/relocate",
+  validate({ params: SessionIdParamsSchema, body: RelocateRequestSchema }),
+  async (req, res) => {
+    try {
+      const response = await sessionRelocateService.relocate(req.params.id, req.body as RelocateRequest);
+      res.status(201).json(response);
+    } catch (err) {
+      if (err instanceof SessionNotFoundError) {
+        return res.status(404).json({
+          error: { code: "NOT_FOUND", message: err.message },
+        });
+      }
+
+      if (err instanceof RelocateError) {
+        return res.status(400).json({
+          error: { code: "INVALID_INPUT", message: err.message },
+        });
+      }
+
+      if (err instanceof SessionExistsError) {
+        return res.status(409).json({
+          error: { code: "CONFLICT", message: err.message },
+        });
+      }
+
+      const message = err instanceof Error ? err.message : "Internal server error";
+      console.error("[session-relocate] Error:", err);
+      res.status(500).json({
+        error: { code: "SERVER_ERROR", message },
+      });
+    }
+  }
+);
@@ -1,8 +1,10 @@
 import { Router } from "express";
 import validate from "express-zod-safe";
 import { z } from "zod";
-import { getSessionTurns } from "../services/session-turns.js";
-import { SessionNotFoundError } from "../errors.js";
+import { getSessionPins, getSessionTurns, setSessionPins } from "../services/session-turns.js";
+import { getSessionSubagents, getSubagentTurns } from "../services/subagents.js";
+import { getSessionBranches } from "../services/conversation-tree.js";
+import { BranchNotFoundError, SessionNotFoundError, SubagentNotFoundError } from "../errors.js";
 
 export const sessionTurnsRouter = Router();
 
@@ -18,21 +20,44 @@ const SessionIdParamsSchema = z.object({
     ),
 });
 
+/**
+ * Schema for subagent path parameter validation.
+ */
+const SubagentParamsSchema = SessionIdParamsSchema.extend({
+  agentId: z.string().regex(/^[\w-]+$/, "Invalid agent ID format"),
+});
+
+/**
+ * Schema for the branch query parameter.
+ */
+const BranchQuerySchema = z.object({
+  leafUuid: z.string().regex(/^[\w-]+$/, "Invalid leaf UUID format").optional(),
+});
+
+/**
+ * Schema for the pinned turns body.
+ */
+const SessionPinsBodySchema = z.object({
+  pinnedTurns: z.array(z.number().int().min(0)),
+});
+
 /**
  * GET /api/session/:id/turns
  *
- * Return turn-by-turn token statistics for a session.
+ * Return turn-by-turn token statistics for a session, or for one of its
+ * branches with ?leafUuid=.
  */
 sessionTurnsRouter.get(
   "/session/:id/turns",
-  validate({ params: SessionIdParamsSchema }),
+  validate({ params: SessionIdParamsSchema, query: BranchQuerySchema }),
   async (req, res) => {
     try {
       const { id } = req.params;
-      const response = await getSessionTurns(id);
+      const { leafUuid } = req.query as z.infer<typeof BranchQuerySchema>;
+      const response = await getSessionTurns(id, leafUuid);
       res.json(response);
     } catch (err) {
-      if (err instanceof SessionNotFoundError) {
+      if (err instanceof SessionNotFoundError || err instanceof BranchNotFoundError) {
         return res.status(404).json({
           error: { code: "NOT_FOUND", message: err.message },
         });
@@ -53,3 +78,144 @@ sessionTurnsRouter.get(
   }
 );
 
+
+/**
+ * GET /api/session/:id/branches
+ *
+ * List the branches of a session's parentUuid tree.
+ */
+sessionTurnsRouter.get(
+  "/session/:id/branches",
+  validate({ params: SessionIdParamsSchema }),
+  async (req, res) => {
+    try {
+      res.json(await getSessionBranches(req.params.id));
+    } catch (err) {
+      if (err instanceof SessionNotFoundError) {
+        return res.status(404).json({
+          error: { code: "NOT_FOUND", message: err.message },
+        });
+      }
+
+      const message = err instanceof Error ? err.message : "Internal server error";
+      console.error("[session-turns] Error:", err);
+      res.status(500).json({
+        error: { code: "SERVER_ERROR", message },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/session/:id/subagents
+ *
+ * List the Task subagents of a session with their own token totals.
+ */
+sessionTurnsRouter.get(
+  "/session/:id/subagents",
+  validate({ params: SessionIdParamsSchema }),
+  async (req, res) => {
+    try {
+      res.json(await getSessionSubagents(req.params.id));
+    } catch (err) {
+      if (err instanceof SessionNotFoundError) {
+        return res.status(404).json({
+          error: { code: "NOT_FOUND", message: err.message },
+        });
+      }
+
+      const message = err instanceof Error ? err.message : "Internal server error";
+      console.error("[session-turns] Error:", err);
+      res.status(500).json({
+        error: { code: "SERVER_ERROR", message },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/session/:id/subagents/:agentId/turns
+ *
+ * Return turn-by-turn token statistics for one subagent transcript.
+ */
+sessionTurnsRouter.get(
+  "/session/:id/subagents/:agentId/turns",
+  validate({ params: SubagentParamsSchema }),
+  async (req, res) => {
+    try {
+      const { id, agentId } = req.params;
+      res.json(await getSubagentTurns(id, agentId));
+    } catch (err) {
+      if (err instanceof SessionNotFoundError || err instanceof SubagentNotFoundError) {
+        return res.status(404).json({
+          error: { code: "NOT_FOUND", message: err.message },
+        });
+      }
+
+      const message = err instanceof Error ? err.message : "Internal server error";
+      console.error("[session-turns] Error:", err);
+      res.status(500).json({
+        error: { code: "SERVER_ERROR", message },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/session/:id/pins
+ *
+ * Return the turns pinned for a session, numbered like the turns of the
+ * branch given with ?leafUuid=.
+ */
+sessionTurnsRouter.get(
+  "/session/:id/pins",
+  validate({ params: SessionIdParamsSchema, query: BranchQuerySchema }),
+  async (req, res) => {
+    try {
+      const { leafUuid } = req.query as z.infer<typeof BranchQuerySchema>;
+      res.json(await getSessionPins(req.params.id, leafUuid));
+    } catch (err) {
+      if (err instanceof SessionNotFoundError || err instanceof BranchNotFoundError) {
+        return res.status(404).json({
+          error: { code: "NOT_FOUND", message: err.message },
+        });
+      }
+
+      const message = err instanceof Error ? err.message : "Internal server error";
+      console.error("[session-turns] Error:", err);
+      res.status(500).json({
+        error: { code: "SERVER_ERROR", message },
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/session/:id/pins
+ *
+ * Replace the turns pinned for a session. Pinned turns are left as they
+ * are by clone removals and compression. With ?leafUuid= the turns are
+ * numbered like that branch's turns, and only its pins are replaced.
+ */
+sessionTurnsRouter.put(
+  "/session/:id/pins",
+  validate({ params: SessionIdParamsSchema, query: BranchQuerySchema, body: SessionPinsBodySchema }),
+  async (req, res) => {
+    try {
+      const { leafUuid } = req.query as z.infer<typeof BranchQuerySchema>;
+      res.json(await setSessionPins(req.params.id, req.body.pinnedTurns, leafUuid));
+    } catch (err) {
+      if (err instanceof SessionNotFoundError || err instanceof BranchNotFoundError) {
+        return res.status(404).json({
+          error: { code: "NOT_FOUND", message: err.message },
+        });
+      }
+
+      const message = err instanceof Error ? err.message : "Internal server error";
+      console.error("[session-turns] Error:", err);
+      res.status(500).json({
+        error: { code: "SERVER_ERROR", message },
+      });
+    }
+  }
+);
@@ -15,15 +15,76 @@ function validateNonOverlappingBands(data: { compressionBands?: { start: number;
   return true;
 }
 
+export const ToolPolicySchema = z.object({
+  mode: z.enum(["keep", "remove", "truncate", "summarize"]),
+  threshold: z.number().min(0).max(100).default(100),
+});
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Fields left out keep the DEFAULT_TRUNCATION_STRATEGY values */
+export const TruncationStrategySchema = z.object({
+  headLines: z.number().int().min(0).optional(),
+  tailLines: z.number().int().min(0).optional(),
+  maxChars: z.number().int().min(1).optional(),
+  keepPatterns: z.array(z.string().max(200).refine(isValidPattern, "Invalid regular expression")).max(20).optional(),
+  trailer: z.string().max(200).optional(),
+});
+
+export const HandoffSummaryOptionsSchema = z.object({
+  sections: z
+    .array(z.enum(["goals", "decisions", "filesChanged", "openTodos", "pitfalls"]))
+    .min(1)
+    .default(["goals", "decisions", "filesChanged", "openTodos", "pitfalls"]),
+  instructions: z.string().max(2000).optional(),
+});
+
 export const CloneRequestSchemaV2 = z.object({
   sessionId: z.string().uuid(),
   toolRemoval: z.number().min(0).max(100).default(0),
   toolHandlingMode: z.enum(["remove", "truncate"]).default("remove"),
+  toolPolicies: z
+    .record(z.string().regex(/^[\w*.-]+$/, "Invalid tool name or pattern"), ToolPolicySchema)
+    .optional(),
+  truncation: TruncationStrategySchema.optional(),
   thinkingRemoval: z.number().min(0).max(100).default(0),
+  imageRemoval: z.number().min(0).max(100).default(0),
+  imageHandlingMode: z.enum(["remove", "placeholder"]).default("placeholder"),
+  dedupeReads: z.boolean().default(false),
   compressionBands: z.array(CompressionBandSchema).optional(),
   includeUserMessages: z.boolean().default(false),
   debugLog: z.boolean().optional().default(false),
-}).refine(validateNonOverlappingBands, "Compression bands must not overlap");
+  subagentHandling: z.enum(["keep", "remove", "compress", "heavy-compress"]).default("keep"),
+  dryRun: z.boolean().default(false),
+  fromTurn: z.number().int().min(0).optional(),
+  toTurn: z.number().int().min(0).optional(),
+  leafUuid: z.string().min(1).optional(),
+  // Summarize the turns before fromTurn into a handoff entry
+  handoffSummary: HandoffSummaryOptionsSchema.optional(),
+  // Token budget: the planner picks the removal and compression settings
+  targetTokens: z.number().int().min(1).optional(),
+  targetContextPercent: z.number().gt(0).max(100).optional(),
+})
+  .refine(validateNonOverlappingBands, "Compression bands must not overlap")
+  .refine(
+    data => data.fromTurn === undefined || data.toTurn === undefined || data.fromTurn <= data.toTurn,
+    "fromTurn must not be after toTurn"
+  )
+  .refine(
+    data => !data.handoffSummary || (data.fromTurn ?? 0) > 0,
+    "handoffSummary needs fromTurn to drop at least one turn"
+  )
+  .refine(
+    data => data.targetTokens === undefined || data.targetContextPercent === undefined,
+    "Use either targetTokens or targetContextPercent, not both"
+  );
 
 export const CompressionStatsSchema = z.object({
   messagesCompressed: z.number(),
@@ -35,8 +96,50 @@ export const CompressionStatsSchema = z.object({
   reductionPercent: z.number(),
 });
 
+export const TurnTokenPreviewSchema = z.object({
+  turnIndex: z.number(),
+  before: z.number(),
+  after: z.number(),
+});
+
+export const ClonePreviewSchema = z.object({
+  turns: z.array(TurnTokenPreviewSchema),
+  removedBlockIds: z.array(z.string()),
+  tokensBefore: z.number(),
+  tokensAfter: z.number(),
+  contextWindow: z.number(),
+  projectedContextPercent: z.number(),
+  compression: z.object({
+    tasksPlanned: z.number(),
+    tasksSkipped: z.number(),
+    estimatedTokensRemoved: z.number(),
+  }).optional(),
+});
+
+export const ClonePlanSchema = z.object({
+  targetTokens: z.number(),
+  // Dry-run projection for the chosen settings
+  projectedTokens: z.number(),
+  // Whether projectedTokens is an estimate: compression is only projected
+  // by a dry run, and the LLM can land above or below it
+  estimated: z.boolean(),
+  // Tokens in the written clone; left out of dry runs
+  actualTokens: z.number().optional(),
+  // Reductions applied, cheapest first
+  steps: z.array(z.string()),
+  settings: z.object({
+    thinkingRemoval: z.number(),
+    dedupeReads: z.boolean(),
+    imageRemoval: z.number(),
+    toolHandlingMode: z.enum(["remove", "truncate"]),
+    toolRemoval: z.number(),
+    compressionBands: z.array(CompressionBandSchema),
+  }),
+});
+
 export const CloneResponseSchemaV2 = z.object({
   success: z.boolean(),
+  // Empty for dry runs, which write nothing
   outputPath: z.string(),
   debugLogPath: z.string().optional(),
   stats: z.object({
@@ -45,8 +148,32 @@ export const CloneResponseSchemaV2 = z.object({
     toolCallsRemoved: z.number(),
     toolCallsTruncated: z.number().optional(),
     thinkingBlocksRemoved: z.number(),
+    imagesRemoved: z.number().optional(),
+    readDeduplication: z.object({
+      resultsReplaced: z.number(),
+      filesAffected: z.number(),
+      tokensRemoved: z.number(),
+    }).optional(),
+    // Pinned turns left untouched
+    pinnedTurns: z.number().optional(),
+    handoff: z.object({
+      turnsSummarized: z.number(),
+      transcriptTokens: z.number(),
+      // Left out of dry runs, which don't call the LLM
+      summaryTokens: z.number().optional(),
+    }).optional(),
     compression: CompressionStatsSchema.optional(),
+    subagentEntriesRemoved: z.number().optional(),
+    subagentCompression: CompressionStatsSchema.optional(),
+    toolSummarization: CompressionStatsSchema.optional(),
+    turnRange: z.object({ fromTurn: z.number(), toTurn: z.number() }).optional(),
+    // Tokens across the written clone's turns; dry runs report preview.tokensAfter instead
+    outputTokens: z.number().optional(),
   }),
+  dryRun: z.boolean().optional(),
+  preview: ClonePreviewSchema.optional(),
+  // Present when the request gave a token budget
+  plan: ClonePlanSchema.optional(),
 });
 
 export const CompressionResponseSchema = z.object({
@@ -56,3 +183,5 @@ export const CompressionResponseSchema = z.object({
 export type CloneRequestV2 = z.infer<typeof CloneRequestSchemaV2>;
 export type CloneResponseV2 = z.infer<typeof CloneResponseSchemaV2>;
 export type CompressionBand = z.infer<typeof CompressionBandSchema>;
+export type ClonePreview = z.infer<typeof ClonePreviewSchema>;
+export type ClonePlan = z.infer<typeof ClonePlanSchema>;
@@ -1,15 +1,18 @@
 import { z } from "zod";
+import { ClonePreviewSchema } from "./clone-v2.js";
 
 // Request
 export const CloneRequestSchema = z.object({
   sessionId: z.string().uuid(),
   toolRemoval: z.enum(["none", "50", "75", "100"]).default("none"),
   thinkingRemoval: z.enum(["none", "50", "75", "100"]).default("none"),
+  dryRun: z.boolean().default(false),
 });
 
 // Response
 export const CloneResponseSchema = z.object({
   success: z.boolean(),
+  // Empty for dry runs, which write nothing
   outputPath: z.string(),
   stats: z.object({
     originalTurnCount: z.number(),
@@ -17,6 +20,8 @@ export const CloneResponseSchema = z.object({
     toolCallsRemoved: z.number(),
     thinkingBlocksRemoved: z.number(),
   }),
+  dryRun: z.boolean().optional(),
+  preview: ClonePreviewSchema.optional(),
 });
 
 // Error response
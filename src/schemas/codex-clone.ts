@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+const CompressionBandSchema = z.object({
+  start: z.number().min(0).max(100),
+  end: z.number().min(0).max(100),
+  level: z.enum(["compress", "heavy-compress"]),
+});
+
+export const CodexCloneRequestSchema = z.object({
+  sessionId: z.string().uuid(),
+  options: z.object({
+    toolRemoval: z.number().min(0).max(100).default(0),
+    toolHandlingMode: z.enum(["remove", "truncate"]).default("remove"),
+    thinkingRemoval: z.number().min(0).max(100).default(0),
+    compressionBands: z.array(CompressionBandSchema).optional(),
+    includeUserMessages: z.boolean().default(false),
+    writeToDisk: z.boolean().default(true),
+  }).optional(),
+});
+
+export type CodexCloneRequest = z.infer<typeof CodexCloneRequestSchema>;
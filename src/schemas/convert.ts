@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+// Workspace folder identifier (hash, or "<installId>:<hash>"); it is joined
+// onto the storage path, so anything that could leave it is rejected
+const WorkspaceHashSchema = z
+  .string()
+  .min(1, "Workspace hash required")
+  .refine((hash) => !/[/\\]|\.\./.test(hash), "Invalid workspace hash: path traversal not allowed");
+
+export const ClaudeToCopilotRequestSchema = z.object({
+  sessionId: z.string().uuid(),
+  // Copilot workspace the converted session is written to
+  workspaceHash: WorkspaceHashSchema,
+});
+
+export const CopilotToClaudeRequestSchema = z.object({
+  sessionId: z.string().uuid(),
+  workspaceHash: WorkspaceHashSchema,
+  // Project the Claude session belongs to; defaults to the workspace folder
+  projectPath: z.string().trim().refine((p) => p.startsWith("/"), "Project path must be absolute").optional(),
+});
+
+export type ClaudeToCopilotRequest = z.infer<typeof ClaudeToCopilotRequestSchema>;
+export type CopilotToClaudeRequest = z.infer<typeof CopilotToClaudeRequestSchema>;
@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const ImportQuerySchema = z.object({
+  filename: z
+    .string()
+    .trim()
+    .min(1, "File name required")
+    .regex(/\.(jsonl|json|zip|tar|tar\.gz|tgz)$/i, "Expected a .jsonl, .json, .zip or .tar.gz file"),
+});
+
+export type ImportQuery = z.infer<typeof ImportQuerySchema>;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+export const RelocateRequestSchema = z.object({
+  // Absolute path of the checkout the session should belong to
+  targetPath: z
+    .string()
+    .trim()
+    .min(1, "Target path required")
+    .refine((p) => p.startsWith("/"), "Target path must be absolute")
+    .transform((p) => (p.length > 1 ? p.replace(/\/+$/, "") : p)),
+  // move keeps the session ID; copy writes a new session and leaves the original
+  mode: z.enum(["move", "copy"]).default("move"),
+  // Also rewrite absolute paths under the old project path inside tool inputs
+  rewriteToolPaths: z.boolean().default(false),
+});
+
+export type RelocateRequest = z.infer<typeof RelocateRequestSchema>;
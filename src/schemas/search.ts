@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Date filter: ISO date/time or Unix ms */
+function parseDateParam(value: string, ctx: z.RefinementCtx): number {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid date" });
+    return z.NEVER;
+  }
+  return time;
+}
+
+const DateParamSchema = z.string().transform(parseDateParam);
+
+// Upper bound: a bare date (YYYY-MM-DD) parses as midnight UTC, so it is
+// extended to the end of that day
+const EndDateParamSchema = z
+  .string()
+  .transform((value, ctx) => parseDateParam(value, ctx) + (/^\d{4}-\d{2}-\d{2}$/.test(value) ? DAY_MS - 1 : 0));
+
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query required"),
+  source: z.enum(["claude", "copilot"]).optional(),
+  project: z.string().optional(),
+  from: DateParamSchema.optional(),
+  to: EndDateParamSchema.optional(),
+  role: z.enum(["user", "assistant", "tool"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
@@ -8,10 +8,21 @@ import { cloneRouter } from "./routes/clone.js";
 import { cloneRouterV2 } from "./routes/clone-v2.js";
 import { sessionStructureRouter } from "./routes/session-structure.js";
 import { sessionTurnsRouter } from "./routes/session-turns.js";
+import { clonesRouter } from "./routes/clones.js";
+import { sessionRelocateRouter } from "./routes/session-relocate.js";
 import { sessionBrowserRouter } from "./routes/session-browser.js";
 import { sessionResolverRouter } from "./routes/session-resolver.js";
 import { copilotVisualizationRouter } from "./routes/copilot-visualization.js";
 import { copilotCloneRouter } from "./routes/copilot-clone.js";
+import { codexVisualizationRouter } from "./routes/codex-visualization.js";
+import { codexCloneRouter } from "./routes/codex-clone.js";
+import { geminiVisualizationRouter } from "./routes/gemini-visualization.js";
+import { clineVisualizationRouter } from "./routes/cline-visualization.js";
+import { cursorVisualizationRouter } from "./routes/cursor-visualization.js";
+import { sessionEventsRouter } from "./routes/session-events.js";
+import { searchRouter } from "./routes/search.js";
+import { importRouter } from "./routes/import.js";
+import { sessionConvertRouter } from "./routes/session-convert.js";
 import { config } from "./config.js";
 
 const app = express();
@@ -36,12 +47,23 @@ app.use("/api", cloneRouter);
 app.use("/api/v2", cloneRouterV2);
 app.use("/api", sessionStructureRouter);
 app.use("/api", sessionTurnsRouter);
+app.use("/api", clonesRouter);
+app.use("/api", sessionRelocateRouter);
 
-// New routes for session browser, resolver, and Copilot support
+// New routes for session browser, resolver, Copilot, Codex, Gemini, Cline and Cursor support
 app.use(sessionBrowserRouter);
 app.use(sessionResolverRouter);
 app.use(copilotVisualizationRouter);
 app.use(copilotCloneRouter);
+app.use(codexVisualizationRouter);
+app.use(codexCloneRouter);
+app.use(geminiVisualizationRouter);
+app.use(clineVisualizationRouter);
+app.use(cursorVisualizationRouter);
+app.use(sessionEventsRouter);
+app.use(searchRouter);
+app.use(importRouter);
+app.use(sessionConvertRouter);
 
 // Server-rendered pages (legacy routes still work)
 app.get("/visualize", (req, res) => {
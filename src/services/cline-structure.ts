@@ -0,0 +1,67 @@
+import { getSessionSource } from "../sources/index.js";
+import type { ClineSessionSource } from "../sources/cline-source.js";
+import { clineToEntries } from "../sources/cline-source.js";
+import type { TurnData } from "../types.js";
+import { identifyTurns } from "./session-clone.js";
+import { calculateCumulativeTokens, buildTurnsData } from "./session-turns.js";
+
+/**
+ * Summary of a Cline / Roo Code task for visualization.
+ */
+export interface ClineSessionStructure {
+  sessionId: string;
+  source: "cline";
+  /** Extension that recorded the task ("Cline" or "Roo Code") */
+  extension: string;
+  projectPath: string;
+  turnCount: number;
+  totalTokens: number;
+  createdAt: string | null;
+}
+
+/**
+ * Response payload for the Cline task turns endpoint.
+ * Turn data matches the Claude shape so session-detail renders it unchanged.
+ */
+export interface ClineSessionTurnsResponse {
+  sessionId: string;
+  source: "cline";
+  totalTurns: number;
+  turns: TurnData[];
+}
+
+export class ClineStructureService {
+  async getStructure(sessionId: string): Promise<ClineSessionStructure> {
+    const source = getSessionSource("cline") as ClineSessionSource;
+    const task = await source.loadSession(sessionId);
+    const entries = clineToEntries(task.taskId, task.apiHistory);
+    const turns = identifyTurns(entries);
+    const totals = calculateCumulativeTokens(entries, turns, turns.length - 1);
+    const firstTs = task.uiMessages[0]?.ts;
+
+    return {
+      sessionId: task.taskId,
+      source: "cline",
+      extension: task.extension.name,
+      projectPath: task.cwd ?? "(unknown)",
+      turnCount: turns.length,
+      totalTokens: totals.total,
+      createdAt: typeof firstTs === "number" ? new Date(firstTs).toISOString() : null,
+    };
+  }
+
+  async getTurns(sessionId: string): Promise<ClineSessionTurnsResponse> {
+    const source = getSessionSource("cline") as ClineSessionSource;
+    const task = await source.loadSession(sessionId);
+    const turnsData = buildTurnsData(clineToEntries(task.taskId, task.apiHistory));
+
+    return {
+      sessionId: task.taskId,
+      source: "cline",
+      totalTurns: turnsData.length,
+      turns: turnsData,
+    };
+  }
+}
+
+export const clineStructureService = new ClineStructureService();
@@ -0,0 +1,103 @@
+import type { CloneRequestV2, CloneResponseV2, ClonePlan } from "../schemas/clone-v2.js";
+import type { CompressionBand } from "../types.js";
+import { config } from "../config.js";
+import { TargetUnreachableError } from "../errors.js";
+import { cloneSessionV2 } from "./session-clone.js";
+
+/**
+ * Clone settings the planner chooses; the rest of the request is used as given.
+ */
+export type PlanSettings = ClonePlan["settings"];
+
+interface PlanStep {
+  label: string;
+  settings: Partial<PlanSettings>;
+}
+
+const NO_REMOVALS: PlanSettings = {
+  thinkingRemoval: 0,
+  dedupeReads: false,
+  imageRemoval: 0,
+  toolHandlingMode: "truncate",
+  toolRemoval: 0,
+  compressionBands: [],
+};
+
+const band = (start: number, end: number, level: CompressionBand["level"]): CompressionBand => ({ start, end, level });
+
+/**
+ * Reductions in the order the planner tries them, cheapest first: each
+ * step adds to the previous ones. Dropping thinking, stale reads and
+ * images costs the least context, tool output more, and compression comes
+ * last because it calls the LLM.
+ */
+export const PLAN_STEPS: PlanStep[] = [
+  { label: "Remove thinking blocks", settings: { thinkingRemoval: 100 } },
+  { label: "Stub out superseded file reads", settings: { dedupeReads: true } },
+  { label: "Replace images in the oldest half", settings: { imageRemoval: 50 } },
+  { label: "Replace all images", settings: { imageRemoval: 100 } },
+  { label: "Truncate tool calls in the oldest half", settings: { toolRemoval: 50 } },
+  { label: "Truncate all tool calls", settings: { toolRemoval: 100 } },
+  { label: "Remove all tool calls", settings: { toolHandlingMode: "remove" } },
+  { label: "Compress the oldest half", settings: { compressionBands: [band(0, 50, "compress")] } },
+  { label: "Compress the oldest 80%", settings: { compressionBands: [band(0, 80, "compress")] } },
+  {
+    label: "Heavily compress the oldest half",
+    settings: { compressionBands: [band(0, 50, "heavy-compress"), band(50, 80, "compress")] },
+  },
+  {
+    label: "Heavily compress the oldest 80%",
+    settings: { compressionBands: [band(0, 80, "heavy-compress"), band(80, 95, "compress")] },
+  },
+];
+
+/**
+ * Token budget of a request: targetTokens, or targetContextPercent of the
+ * context window.
+ */
+export function resolveTargetTokens(request: Pick<CloneRequestV2, "targetTokens" | "targetContextPercent">): number {
+  return request.targetTokens ?? Math.floor((config.contextWindowTokens * (request.targetContextPercent ?? 100)) / 100);
+}
+
+/**
+ * Clone a session to fit a token budget. Starting from no removals, the
+ * planner adds the steps of PLAN_STEPS one at a time and projects each
+ * with a dry run, the same estimate a preview shows, until the output
+ * fits. It then clones with those settings (or returns the fitting dry run)
+ * and reports the plan. A dry run can only estimate compression, so a plan
+ * with compression bands is marked estimated, and a written clone reports
+ * its actual tokens, which may miss the target. Pinned turns, turn ranges
+ * and the other request fields apply to every candidate.
+ * @throws TargetUnreachableError if the output doesn't fit even after every step
+ */
+export async function cloneToTarget(request: CloneRequestV2): Promise<CloneResponseV2> {
+  const targetTokens = resolveTargetTokens(request);
+  let settings = NO_REMOVALS;
+  const steps: string[] = [];
+  let projectedTokens = Infinity;
+
+  for (const step of [undefined, ...PLAN_STEPS]) {
+    if (step) {
+      settings = { ...settings, ...step.settings };
+      steps.push(step.label);
+    }
+
+    const projection = await cloneSessionV2({ ...request, ...settings, dryRun: true });
+    projectedTokens = projection.preview!.tokensAfter;
+    if (projectedTokens > targetTokens) continue;
+
+    const plan: ClonePlan = {
+      targetTokens,
+      projectedTokens,
+      estimated: settings.compressionBands.length > 0,
+      steps,
+      settings,
+    };
+    if (request.dryRun) return { ...projection, plan };
+
+    const result = await cloneSessionV2({ ...request, ...settings });
+    return { ...result, plan: { ...plan, actualTokens: result.stats.outputTokens } };
+  }
+
+  throw new TargetUnreachableError(targetTokens, projectedTokens);
+}
@@ -0,0 +1,100 @@
+import type { ClonePreview } from "../schemas/clone-v2.js";
+import type { CompressionBand, CompressionConfig, SessionEntry, Turn } from "../types.js";
+import { config } from "../config.js";
+import { createCompressionTasks, mapTurnsToBands } from "./compression.js";
+import { identifyTurns } from "./session-clone.js";
+import { calculateCumulativeTokens } from "./session-turns.js";
+
+/**
+ * Compression planned for a dry run, without calling the LLM.
+ */
+export interface CompressionPlan {
+  tasksPlanned: number;
+  tasksSkipped: number;
+  /** Estimated tokens removed per turn, assuming each task hits its target size */
+  tokensRemovedByTurn: number[];
+}
+
+/**
+ * Plan the compression tasks a clone would run for the given bands and
+ * estimate their savings from the configured target percentages.
+ */
+export function planCompression(
+  entries: SessionEntry[],
+  turns: Turn[],
+  bands: CompressionBand[],
+  compressionConfig: CompressionConfig,
+  includeUserMessages: boolean,
+  pinnedTurns: number[] = []
+): CompressionPlan {
+  const tasks = createCompressionTasks(
+    entries,
+    turns,
+    mapTurnsToBands(turns, bands, pinnedTurns),
+    compressionConfig.minTokens,
+    includeUserMessages
+  );
+
+  const tokensRemovedByTurn = turns.map(() => 0);
+  for (const task of tasks) {
+    if (task.status !== "pending") continue;
+    const turnIndex = turns.findIndex((t) => t.startIndex <= task.messageIndex && task.messageIndex <= t.endIndex);
+    const target = task.level === "heavy-compress" ? compressionConfig.targetHeavy : compressionConfig.targetStandard;
+    tokensRemovedByTurn[turnIndex] += task.estimatedTokens - Math.ceil((task.estimatedTokens * target) / 100);
+  }
+
+  return {
+    tasksPlanned: tasks.filter((t) => t.status === "pending").length,
+    tasksSkipped: tasks.filter((t) => t.status === "skipped").length,
+    tokensRemovedByTurn,
+  };
+}
+
+function tokensPerTurn(entries: SessionEntry[], turns: Turn[]): number[] {
+  return turns.map((turn) => calculateCumulativeTokens(entries, [turn], 0).total);
+}
+
+/**
+ * Tokens across every turn of a session, counted the way previews count them.
+ */
+export function countSessionTokens(entries: SessionEntry[]): number {
+  return tokensPerTurn(entries, identifyTurns(entries)).reduce((sum, t) => sum + t, 0);
+}
+
+/**
+ * Compare a session before and after a clone's removals.
+ * Removals never delete the user message that starts a turn, so turns of
+ * the two versions line up by index.
+ */
+export function buildClonePreview(
+  before: SessionEntry[],
+  after: SessionEntry[],
+  removedBlockIds: string[],
+  compression?: CompressionPlan
+): ClonePreview {
+  const beforeTokens = tokensPerTurn(before, identifyTurns(before));
+  const afterTokens = tokensPerTurn(after, identifyTurns(after));
+
+  const turns = beforeTokens.map((tokens, turnIndex) => ({
+    turnIndex,
+    before: tokens,
+    after: Math.max(0, (afterTokens[turnIndex] ?? 0) - (compression?.tokensRemovedByTurn[turnIndex] ?? 0)),
+  }));
+  const tokensBefore = turns.reduce((sum, t) => sum + t.before, 0);
+  const tokensAfter = turns.reduce((sum, t) => sum + t.after, 0);
+  const contextWindow = config.contextWindowTokens;
+
+  return {
+    turns,
+    removedBlockIds,
+    tokensBefore,
+    tokensAfter,
+    contextWindow,
+    projectedContextPercent: Math.round((tokensAfter / contextWindow) * 1000) / 10,
+    compression: compression && {
+      tasksPlanned: compression.tasksPlanned,
+      tasksSkipped: compression.tasksSkipped,
+      estimatedTokensRemoved: compression.tokensRemovedByTurn.reduce((sum, t) => sum + t, 0),
+    },
+  };
+}
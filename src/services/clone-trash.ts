@@ -0,0 +1,179 @@
+import { copyFile, mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { config } from "../config.js";
+import { CloneConflictError, CloneNotFoundError } from "../errors.js";
+import { markLineage, readLineage } from "./lineage-logger.js";
+import { sessionPinService } from "./session-pins.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Sidecar kept next to a clone file in the trash */
+interface TrashRecord {
+  cloneId: string;
+  originalPath: string;
+  sourceId: string;
+  deletedAt: string;
+  pinnedTurns: number[];
+}
+
+/**
+ * Response payload for DELETE /api/clones/:id.
+ */
+export interface CloneDeleteResponse {
+  cloneId: string;
+  sourceId: string;
+  sourcePath: string;
+  /** Whether the source session still exists, unchanged by the delete */
+  sourceIntact: boolean;
+  trashPath: string;
+  /** Last moment the clone can be restored */
+  restorableUntil: string;
+}
+
+/**
+ * Response payload for POST /api/clones/:id/restore.
+ */
+export interface CloneRestoreResponse {
+  cloneId: string;
+  path: string;
+}
+
+async function fileStamp(filePath: string): Promise<string | null> {
+  try {
+    const info = await stat(filePath);
+    return `${info.size}:${info.mtimeMs}`;
+  } catch {
+    return null;
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  return (await fileStamp(filePath)) !== null;
+}
+
+/**
+ * Move a file, copying it when source and target are on different devices.
+ */
+async function moveFile(from: string, to: string): Promise<void> {
+  await mkdir(dirname(to), { recursive: true });
+  try {
+    await rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+    await copyFile(from, to);
+    await unlink(from);
+  }
+}
+
+/**
+ * Undo and restore of clones. Only sessions the lineage log records as
+ * clones can be deleted; their source is never touched. A deleted clone
+ * moves to a trash folder (CLONE_TRASH_DIR, default ~/.claude/clone-trash)
+ * and can be restored for CLONE_TRASH_RETENTION_DAYS (default 7), after
+ * which it is purged. Its lineage record is marked reverted, and restored
+ * again when it comes back.
+ */
+export class CloneTrashService {
+  /**
+   * Move a clone to the trash and mark its lineage record reverted.
+   * @throws CloneNotFoundError if the ID is not a recorded clone or its file is gone
+   * @throws CloneConflictError if the clone would overwrite its own source
+   */
+  async deleteClone(cloneId: string): Promise<CloneDeleteResponse> {
+    await this.purgeExpired();
+
+    const record = (await readLineage()).filter((r) => r.targetId === cloneId).pop();
+    if (!record) throw new CloneNotFoundError(cloneId, "no lineage record");
+    if (!(await exists(record.targetPath))) throw new CloneNotFoundError(cloneId, "file no longer exists");
+    if (record.targetPath === record.sourcePath || cloneId === record.sourceId) {
+      throw new CloneConflictError(`Clone ${cloneId} is recorded as its own source; refusing to delete it`);
+    }
+
+    const sourceBefore = await fileStamp(record.sourcePath);
+    const trashPath = join(config.cloneTrashDir, `${cloneId}.jsonl`);
+    await moveFile(record.targetPath, trashPath);
+
+    const deletedAt = new Date();
+    const trashRecord: TrashRecord = {
+      cloneId,
+      originalPath: record.targetPath,
+      sourceId: record.sourceId,
+      deletedAt: deletedAt.toISOString(),
+      pinnedTurns: await sessionPinService.getPins(cloneId),
+    };
+    await writeFile(this.recordPath(cloneId), JSON.stringify(trashRecord, null, 2) + "\n", "utf-8");
+    if (trashRecord.pinnedTurns.length > 0) await sessionPinService.setPins(cloneId, []);
+    await markLineage(cloneId, "reverted", trashRecord.deletedAt);
+
+    const sourceAfter = await fileStamp(record.sourcePath);
+    return {
+      cloneId,
+      sourceId: record.sourceId,
+      sourcePath: record.sourcePath,
+      sourceIntact: sourceBefore !== null && sourceBefore === sourceAfter,
+      trashPath,
+      restorableUntil: new Date(deletedAt.getTime() + config.cloneTrashRetentionDays * DAY_MS).toISOString(),
+    };
+  }
+
+  /**
+   * Bring a deleted clone back from the trash to where it was.
+   * @throws CloneNotFoundError if the clone is not in the trash (never deleted, or purged)
+   * @throws CloneConflictError if a file already exists at the clone's path
+   */
+  async restoreClone(cloneId: string): Promise<CloneRestoreResponse> {
+    await this.purgeExpired();
+
+    const trashRecord = await this.readRecord(cloneId);
+    if (!trashRecord) {
+      throw new CloneNotFoundError(cloneId, `not in the trash, or deleted more than ${config.cloneTrashRetentionDays} days ago`);
+    }
+    if (await exists(trashRecord.originalPath)) {
+      throw new CloneConflictError(`Cannot restore clone ${cloneId}: ${trashRecord.originalPath} already exists`);
+    }
+
+    await moveFile(join(config.cloneTrashDir, `${cloneId}.jsonl`), trashRecord.originalPath);
+    await unlink(this.recordPath(cloneId));
+    if (trashRecord.pinnedTurns.length > 0) await sessionPinService.setPins(cloneId, trashRecord.pinnedTurns);
+    await markLineage(cloneId, "restored", new Date().toISOString());
+
+    return { cloneId, path: trashRecord.originalPath };
+  }
+
+  /**
+   * Delete clones that have been in the trash longer than the retention window.
+   * @returns IDs of the purged clones
+   */
+  async purgeExpired(now = Date.now()): Promise<string[]> {
+    let names: string[];
+    try {
+      names = await readdir(config.cloneTrashDir);
+    } catch {
+      return [];
+    }
+
+    const purged: string[] = [];
+    for (const name of names.filter((n) => n.endsWith(".json"))) {
+      const record = await this.readRecord(name.slice(0, -".json".length));
+      if (!record || now - new Date(record.deletedAt).getTime() <= config.cloneTrashRetentionDays * DAY_MS) continue;
+      await unlink(join(config.cloneTrashDir, `${record.cloneId}.jsonl`)).catch(() => {});
+      await unlink(this.recordPath(record.cloneId));
+      purged.push(record.cloneId);
+    }
+    return purged;
+  }
+
+  private recordPath(cloneId: string): string {
+    return join(config.cloneTrashDir, `${cloneId}.json`);
+  }
+
+  private async readRecord(cloneId: string): Promise<TrashRecord | undefined> {
+    try {
+      return JSON.parse(await readFile(this.recordPath(cloneId), "utf-8")) as TrashRecord;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export const cloneTrashService = new CloneTrashService();
@@ -0,0 +1,251 @@
+import { writeFile, mkdir } from "fs/promises";
+import { randomUUID } from "crypto";
+import { join } from "path";
+import { getSessionSource } from "../sources/index.js";
+import type { CodexSessionSource } from "../sources/codex-source.js";
+import {
+  getCodexSessionsDir,
+  rolloutToEntries,
+  extractCodexOutput,
+} from "../sources/codex-source.js";
+import type { CodexRollout, CodexRolloutLine, CodexResponseItem } from "../sources/codex-types.js";
+import type {
+  SessionEntry,
+  ContentBlock,
+  CompressionBand,
+  CompressionStats,
+  RemovalOptions,
+} from "../types.js";
+import { applyRemovals, identifyTurns } from "./session-clone.js";
+import { compressMessages } from "./compression.js";
+import { loadCompressionConfig } from "../config.js";
+import { logLineage } from "./lineage-logger.js";
+
+export interface CodexCloneOptions {
+  toolRemoval?: number;
+  toolHandlingMode?: "remove" | "truncate";
+  thinkingRemoval?: number;
+  compressionBands?: CompressionBand[];
+  includeUserMessages?: boolean;
+  writeToDisk?: boolean;
+}
+
+export interface CodexCloneStats {
+  originalTurnCount: number;
+  outputTurnCount: number;
+  toolCallsRemoved: number;
+  toolCallsTruncated?: number;
+  thinkingBlocksRemoved: number;
+  compression?: CompressionStats;
+}
+
+export interface CodexCloneResult {
+  sessionId: string;
+  stats: CodexCloneStats;
+  outputPath?: string;
+  writtenToDisk: boolean;
+}
+
+/**
+ * Format a date for a rollout filename: 2025-05-07T17-24-21
+ */
+function formatRolloutTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace(/:/g, "-");
+}
+
+/**
+ * Write a (possibly modified) entry back onto the response item it came from.
+ */
+function patchResponseItem(item: CodexResponseItem, entry: SessionEntry): CodexResponseItem {
+  const blocks = Array.isArray(entry.message?.content)
+    ? (entry.message.content as ContentBlock[])
+    : [];
+
+  switch (item.type) {
+    case "message": {
+      const text = blocks
+        .filter((b) => b.type === "text" && typeof b.text === "string")
+        .map((b) => b.text as string)
+        .join("\n");
+      const partType = item.role === "assistant" ? "output_text" : "input_text";
+      const nonText = (item.content ?? []).filter((p) => typeof p.text !== "string");
+      return { ...item, content: [{ type: partType, text }, ...nonText] };
+    }
+    case "function_call": {
+      const input = blocks.find((b) => b.type === "tool_use")?.input;
+      if (input === undefined) return item;
+      // Arguments that were not valid JSON are carried as { arguments: raw }
+      const raw = (input as { arguments?: unknown }).arguments;
+      let originalIsJson = true;
+      try {
+        JSON.parse(item.arguments ?? "{}");
+      } catch {
+        originalIsJson = false;
+      }
+      return {
+        ...item,
+        arguments: !originalIsJson && typeof raw === "string" ? raw : JSON.stringify(input),
+      };
+    }
+    case "custom_tool_call": {
+      const input = blocks.find((b) => b.type === "tool_use")?.input as { input?: string } | undefined;
+      return input ? { ...item, input: input.input ?? "" } : item;
+    }
+    case "local_shell_call": {
+      const input = blocks.find((b) => b.type === "tool_use")?.input;
+      return input ? { ...item, action: input as Record<string, unknown> } : item;
+    }
+    case "function_call_output":
+    case "custom_tool_call_output": {
+      const result = blocks.find((b) => b.type === "tool_result");
+      if (!result || typeof result.content !== "string") return item;
+      if (result.content === extractCodexOutput(item)) return item;
+      return typeof item.output === "object" && item.output !== null
+        ? { ...item, output: { ...item.output, content: result.content } }
+        : { ...item, output: result.content };
+    }
+    default:
+      return item;
+  }
+}
+
+/**
+ * Rebuild rollout lines from processed entries.
+ * Response items whose entry was removed are dropped, modified entries are
+ * written back onto their original item, and items that have no entry
+ * representation are kept verbatim. UI event lines are dropped because they
+ * replay content that may have been removed.
+ */
+export function entriesToRolloutLines(
+  rollout: CodexRollout,
+  entries: SessionEntry[],
+  newSessionId: string
+): CodexRolloutLine[] {
+  const byLine = new Map<number, SessionEntry>();
+  for (const entry of entries) {
+    if (typeof entry.codexLine === "number") {
+      byLine.set(entry.codexLine, entry);
+    }
+  }
+
+  // Lines that produced an entry in the original conversion
+  const convertedLines = new Set<number>();
+  for (const entry of rolloutToEntries(rollout)) {
+    convertedLines.add(entry.codexLine as number);
+  }
+
+  const output: CodexRolloutLine[] = [];
+
+  rollout.lines.forEach((line, lineIndex) => {
+    if (line.type === "event_msg") return;
+
+    if (line.type === "session_meta") {
+      output.push({
+        ...line,
+        timestamp: new Date().toISOString(),
+        payload: { ...line.payload, id: newSessionId, timestamp: new Date().toISOString() },
+      });
+      return;
+    }
+
+    if (line.type !== "response_item" || !convertedLines.has(lineIndex)) {
+      output.push(line);
+      return;
+    }
+
+    const entry = byLine.get(lineIndex);
+    if (!entry) return; // removed
+
+    output.push({
+      ...line,
+      payload: patchResponseItem(line.payload as CodexResponseItem, entry) as Record<string, unknown>,
+    });
+  });
+
+  return output;
+}
+
+export class CodexCloneService {
+  async clone(sessionId: string, options: CodexCloneOptions = {}): Promise<CodexCloneResult> {
+    const source = getSessionSource("codex") as CodexSessionSource;
+    const rollout = await source.loadSession(sessionId);
+
+    let entries = rolloutToEntries(rollout);
+    const originalTurnCount = identifyTurns(entries).length;
+
+    let compressionStats: CompressionStats | undefined;
+    if (options.compressionBands && options.compressionBands.length > 0) {
+      const compressionResult = await compressMessages(
+        entries,
+        identifyTurns(entries),
+        options.compressionBands,
+        loadCompressionConfig(),
+        options.includeUserMessages ?? false
+      );
+      entries = compressionResult.entries;
+      compressionStats = compressionResult.stats;
+    }
+
+    const removalOptions: RemovalOptions = {
+      toolRemoval: options.toolRemoval ?? 0,
+      toolHandlingMode: options.toolHandlingMode ?? "remove",
+      thinkingRemoval: options.thinkingRemoval ?? 0,
+    };
+    const { entries: modifiedEntries, toolCallsRemoved, toolCallsTruncated, thinkingBlocksRemoved } =
+      applyRemovals(entries, removalOptions);
+
+    const newSessionId = randomUUID();
+    const lines = entriesToRolloutLines(rollout, modifiedEntries, newSessionId);
+
+    const stats: CodexCloneStats = {
+      originalTurnCount,
+      outputTurnCount: identifyTurns(modifiedEntries).length,
+      toolCallsRemoved,
+      toolCallsTruncated: toolCallsTruncated > 0 ? toolCallsTruncated : undefined,
+      thinkingBlocksRemoved,
+      compression: compressionStats,
+    };
+
+    if (options.writeToDisk === false) {
+      return { sessionId: newSessionId, stats, writtenToDisk: false };
+    }
+
+    const outputPath = await this.writeRollout(newSessionId, lines);
+
+    await logLineage({
+      timestamp: new Date().toISOString(),
+      targetId: newSessionId,
+      targetPath: outputPath,
+      sourceId: sessionId,
+      sourcePath: rollout.filePath,
+      toolRemoval: removalOptions.toolRemoval,
+      thinkingRemoval: removalOptions.thinkingRemoval,
+      compressionBands: options.compressionBands,
+      compressionStats,
+    });
+
+    return { sessionId: newSessionId, stats, outputPath, writtenToDisk: true };
+  }
+
+  /**
+   * Write rollout lines to today's dated folder so `codex resume` finds them.
+   */
+  async writeRollout(sessionId: string, lines: CodexRolloutLine[]): Promise<string> {
+    const now = new Date();
+    const dayDir = join(
+      getCodexSessionsDir(),
+      String(now.getUTCFullYear()),
+      String(now.getUTCMonth() + 1).padStart(2, "0"),
+      String(now.getUTCDate()).padStart(2, "0")
+    );
+    await mkdir(dayDir, { recursive: true });
+
+    const outputPath = join(dayDir, `rollout-${formatRolloutTimestamp(now)}-${sessionId}.jsonl`);
+    const content = lines.map((line) => JSON.stringify(line)).join("\n") + "\n";
+    await writeFile(outputPath, content, "utf-8");
+
+    return outputPath;
+  }
+}
+
+export const codexCloneService = new CodexCloneService();
@@ -0,0 +1,63 @@
+import { getSessionSource } from "../sources/index.js";
+import type { CodexSessionSource } from "../sources/codex-source.js";
+import { rolloutToEntries } from "../sources/codex-source.js";
+import type { TurnData } from "../types.js";
+import { identifyTurns } from "./session-clone.js";
+import { calculateCumulativeTokens, buildTurnsData } from "./session-turns.js";
+
+/**
+ * Summary of a Codex session for visualization.
+ */
+export interface CodexSessionStructure {
+  sessionId: string;
+  source: "codex";
+  projectPath: string;
+  turnCount: number;
+  totalTokens: number;
+  createdAt: string;
+}
+
+/**
+ * Response payload for the Codex session turns endpoint.
+ * Turn data matches the Claude shape so session-detail renders it unchanged.
+ */
+export interface CodexSessionTurnsResponse {
+  sessionId: string;
+  source: "codex";
+  totalTurns: number;
+  turns: TurnData[];
+}
+
+export class CodexStructureService {
+  async getStructure(sessionId: string): Promise<CodexSessionStructure> {
+    const source = getSessionSource("codex") as CodexSessionSource;
+    const rollout = await source.loadSession(sessionId);
+    const entries = rolloutToEntries(rollout);
+    const turns = identifyTurns(entries);
+    const totals = calculateCumulativeTokens(entries, turns, turns.length - 1);
+
+    return {
+      sessionId: rollout.meta.id || sessionId,
+      source: "codex",
+      projectPath: rollout.meta.cwd || "(unknown)",
+      turnCount: turns.length,
+      totalTokens: totals.total,
+      createdAt: rollout.meta.timestamp,
+    };
+  }
+
+  async getTurns(sessionId: string): Promise<CodexSessionTurnsResponse> {
+    const source = getSessionSource("codex") as CodexSessionSource;
+    const rollout = await source.loadSession(sessionId);
+    const turnsData = buildTurnsData(rolloutToEntries(rollout));
+
+    return {
+      sessionId: rollout.meta.id || sessionId,
+      source: "codex",
+      totalTurns: turnsData.length,
+      turns: turnsData,
+    };
+  }
+}
+
+export const codexStructureService = new CodexStructureService();
@@ -102,10 +102,12 @@ export function applyCompressedContent(
  * Map turns to compression bands based on turn position.
  * Turn position formula: (turnIndex / totalTurns) * 100
  * A turn matches a band if: band.start <= position < band.end
+ * Pinned turns match no band.
  */
 export function mapTurnsToBands(
   turns: Turn[],
-  bands: CompressionBand[]
+  bands: CompressionBand[],
+  pinnedTurns: number[] = []
 ): TurnBandMapping[] {
   if (turns.length === 0) {
     return [];
@@ -117,7 +119,7 @@ export function mapTurnsToBands(
     const position = (turnIndex / totalTurns) * 100;
 
     // Find matching band
-    const matchingBand = bands.find(
+    const matchingBand = pinnedTurns.includes(turnIndex) ? undefined : bands.find(
       (band) => band.start <= position && position < band.end
     );
 
@@ -171,6 +173,10 @@ export function createCompressionTasks(
     for (let entryIndex = turn.startIndex; entryIndex <= turn.endIndex; entryIndex++) {
       const entry = entries[entryIndex];
 
+      // Bands cover the main conversation; subagent transcripts are
+      // handled by the clone's subagentHandling option
+      if (entry.isSidechain === true) continue;
+
       // Filter by message type based on includeUserMessages
       if (entry.type === "assistant") {
         // Always include assistant messages
@@ -284,7 +290,8 @@ export async function compressMessages(
   turns: Turn[],
   bands: CompressionBand[],
   config: CompressionConfig,
-  includeUserMessages: boolean = false
+  includeUserMessages: boolean = false,
+  pinnedTurns: number[] = []
 ): Promise<{ entries: SessionEntry[]; stats: CompressionStats; tasks: CompressionTask[] }> {
   // Handle empty bands case - return unchanged
   if (bands.length === 0) {
@@ -304,7 +311,7 @@ export async function compressMessages(
   }
 
   // Map turns to bands
-  const mapping = mapTurnsToBands(turns, bands);
+  const mapping = mapTurnsToBands(turns, bands, pinnedTurns);
 
   // Create tasks (includes both pending and skipped tasks)
   const allTasks = createCompressionTasks(entries, turns, mapping, config.minTokens, includeUserMessages);
@@ -352,3 +359,87 @@ export async function compressMessages(
 
   return { entries: compressedEntries, stats, tasks: allCompletedTasks };
 }
+
+/**
+ * Text of a tool_result block: string content, or the text blocks of
+ * array content.
+ */
+function toolResultText(block: ContentBlock): string {
+  if (typeof block.content === "string") return block.content;
+  if (Array.isArray(block.content)) {
+    return (block.content as ContentBlock[])
+      .filter((b) => b.type === "text" && typeof b.text === "string")
+      .map((b) => b.text as string)
+      .join("\n");
+  }
+  return "";
+}
+
+/**
+ * Shorten the results of the given tool calls with the LLM, at the
+ * heavy-compress level. Used for tools whose clone policy is "summarize".
+ * Results below the minimum token threshold, or that fail to compress,
+ * are kept as is.
+ */
+export async function summarizeToolResults(
+  entries: SessionEntry[],
+  toolUseIds: string[],
+  config: CompressionConfig
+): Promise<{ entries: SessionEntry[]; stats: CompressionStats }> {
+  const ids = new Set(toolUseIds);
+  const tasks: CompressionTask[] = [];
+
+  entries.forEach((entry, messageIndex) => {
+    if (entry.type !== "user" || !Array.isArray(entry.message?.content)) return;
+    for (const block of entry.message.content) {
+      if (block.type !== "tool_result" || !ids.has(block.tool_use_id as string)) continue;
+      const text = toolResultText(block);
+      const estimatedTokens = estimateTokens(text);
+      tasks.push({
+        messageIndex,
+        entryType: "user",
+        originalContent: text,
+        level: "heavy-compress",
+        estimatedTokens,
+        attempt: 0,
+        timeoutMs: calculateInitialTimeout(estimatedTokens),
+        status: estimatedTokens < config.minTokens ? "skipped" : "pending",
+        toolUseId: block.tool_use_id as string,
+      });
+    }
+  });
+
+  const pendingTasks = tasks.filter((t) => t.status === "pending");
+  const completedTasks = pendingTasks.length > 0
+    ? await processBatches(pendingTasks, getProvider(), {
+        concurrency: config.concurrency,
+        maxAttempts: config.maxAttempts,
+      })
+    : [];
+
+  const summaries = new Map<string, string>();
+  for (const task of completedTasks) {
+    if (task.status === "success" && task.result !== undefined && task.toolUseId) {
+      summaries.set(task.toolUseId, task.result);
+    }
+  }
+
+  const summarized = entries.map((entry) => {
+    if (entry.type !== "user" || !Array.isArray(entry.message?.content)) return entry;
+    const content = entry.message.content;
+    if (!content.some((b) => b.type === "tool_result" && summaries.has(b.tool_use_id as string))) return entry;
+    return {
+      ...entry,
+      message: {
+        ...entry.message,
+        content: content.map((b) =>
+          b.type === "tool_result" && summaries.has(b.tool_use_id as string)
+            ? { ...b, content: summaries.get(b.tool_use_id as string) }
+            : b
+        ),
+      },
+    };
+  });
+
+  return { entries: summarized, stats: calculateStats(pendingTasks, completedTasks, tasks.length) };
+}
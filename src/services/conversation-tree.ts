@@ -0,0 +1,142 @@
+import { readFile } from "fs/promises";
+import { BranchNotFoundError } from "../errors.js";
+import type { SessionBranch, SessionBranchesResponse, SessionEntry } from "../types.js";
+import { findSessionFile, identifyTurns, parseSession } from "./session-clone.js";
+import { extractTurnContent } from "./session-turns.js";
+
+/**
+ * The parentUuid tree of a session's main conversation.
+ * Subagent (sidechain) entries and entries without a uuid are not part of it.
+ */
+export interface ConversationTree {
+  nodes: Map<string, SessionEntry>;
+  children: Map<string, string[]>;
+  /** Entries without children, in file order */
+  leaves: string[];
+}
+
+function isTreeNode(entry: SessionEntry): entry is SessionEntry & { uuid: string } {
+  return typeof entry.uuid === "string" && entry.uuid !== "" && entry.isSidechain !== true;
+}
+
+/**
+ * Parent of an entry. Compaction boundaries start a new chain
+ * (parentUuid null) and keep the link in logicalParentUuid.
+ */
+function parentOf(entry: SessionEntry): string | null {
+  if (entry.parentUuid) return entry.parentUuid;
+  return typeof entry.logicalParentUuid === "string" ? entry.logicalParentUuid : null;
+}
+
+export function buildConversationTree(entries: SessionEntry[]): ConversationTree {
+  const nodes = new Map<string, SessionEntry>();
+  const children = new Map<string, string[]>();
+
+  for (const entry of entries) {
+    if (isTreeNode(entry)) nodes.set(entry.uuid, entry);
+  }
+  for (const entry of nodes.values()) {
+    const parent = parentOf(entry);
+    if (parent && nodes.has(parent)) {
+      children.set(parent, [...(children.get(parent) ?? []), entry.uuid!]);
+    }
+  }
+
+  const leaves = [...nodes.keys()].filter((uuid) => !children.has(uuid));
+  return { nodes, children, leaves };
+}
+
+/**
+ * uuids from the root down to the given entry.
+ */
+export function pathToEntry(tree: ConversationTree, uuid: string): string[] {
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current: string | null = uuid;
+  while (current && tree.nodes.has(current) && !seen.has(current)) {
+    seen.add(current);
+    path.push(current);
+    current = parentOf(tree.nodes.get(current)!);
+  }
+  return path.reverse();
+}
+
+function hasMessages(tree: ConversationTree, leafUuid: string): boolean {
+  return pathToEntry(tree, leafUuid).some((uuid) => {
+    const type = tree.nodes.get(uuid)!.type;
+    return type === "user" || type === "assistant";
+  });
+}
+
+/**
+ * Leaves that end a conversation branch, in file order. Leaves without a
+ * single message on their path (e.g. a stray system entry) are left out.
+ */
+export function findBranchLeaves(tree: ConversationTree): string[] {
+  return tree.leaves.filter((leaf) => hasMessages(tree, leaf));
+}
+
+/**
+ * The leaf of the active branch: Claude Code appends to the branch it is
+ * on, so that is the leaf written last.
+ */
+export function findActiveLeaf(tree: ConversationTree): string | null {
+  const leaves = findBranchLeaves(tree);
+  return leaves.length > 0 ? leaves[leaves.length - 1] : null;
+}
+
+function filterToPath(entries: SessionEntry[], path: Set<string>): SessionEntry[] {
+  return entries.filter((entry) => !isTreeNode(entry) || path.has(entry.uuid));
+}
+
+/**
+ * Keep only the path from the root to leafUuid, in file order. leafUuid
+ * may also be an inner message, which cuts the branch there. Entries
+ * outside the tree (queue operations, summaries, subagent transcripts)
+ * are kept as is.
+ * @throws BranchNotFoundError if leafUuid is not a main-conversation entry
+ */
+export function selectBranch(entries: SessionEntry[], leafUuid: string, sessionId: string): SessionEntry[] {
+  const tree = buildConversationTree(entries);
+  if (!tree.nodes.has(leafUuid)) {
+    throw new BranchNotFoundError(sessionId, leafUuid);
+  }
+  return filterToPath(entries, new Set(pathToEntry(tree, leafUuid)));
+}
+
+/**
+ * List the branches of a session, the active one last.
+ */
+export function findBranches(entries: SessionEntry[]): SessionBranch[] {
+  const tree = buildConversationTree(entries);
+  const activeLeaf = findActiveLeaf(tree);
+  const activePath = new Set(activeLeaf ? pathToEntry(tree, activeLeaf) : []);
+
+  return findBranchLeaves(tree).map((leafUuid) => {
+    const branchEntries = filterToPath(entries, new Set(pathToEntry(tree, leafUuid)));
+    const turns = identifyTurns(branchEntries);
+
+    let forkTurnIndex: number | null = null;
+    if (leafUuid !== activeLeaf) {
+      const forkIndex = branchEntries.findIndex((e) => isTreeNode(e) && !activePath.has(e.uuid));
+      forkTurnIndex = Math.max(0, turns.filter((t) => t.startIndex <= forkIndex).length - 1);
+    }
+
+    const lastTurn = turns[turns.length - 1];
+    const timestamp = tree.nodes.get(leafUuid)!.timestamp;
+    return {
+      leafUuid,
+      active: leafUuid === activeLeaf,
+      totalTurns: turns.length,
+      forkTurnIndex,
+      lastUserMessage: lastTurn ? extractTurnContent(branchEntries, lastTurn).userPrompt.slice(0, 100) : "",
+      lastTimestamp: typeof timestamp === "string" ? timestamp : undefined,
+    };
+  });
+}
+
+export async function getSessionBranches(sessionId: string): Promise<SessionBranchesResponse> {
+  const sessionPath = await findSessionFile(sessionId);
+  const entries = parseSession(await readFile(sessionPath, "utf-8"));
+  return { sessionId, branches: findBranches(entries) };
+}
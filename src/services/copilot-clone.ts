@@ -5,10 +5,11 @@ import type { CompressionBand, CompressionStats, CompressionTask } from "../type
 import { compressCopilotMessages } from "./copilot-compression.js";
 import { writeCopilotCompressionDebugLog } from "./copilot-compression-debug-logger.js";
 import { loadCompressionConfig } from "../config.js";
+import { sessionPinService } from "./session-pins.js";
 import { estimateTokens } from "../lib/token-estimator.js";
 import { writeFile, mkdir, unlink } from "fs/promises";
 import { join } from "path";
-import { getVSCodeStoragePath } from "../sources/copilot-source.js";
+import { resolveWorkspace } from "../sources/copilot-source.js";
 import { VSCodeStateDb, ChatSessionIndexEntry } from "../lib/sqlite-state.js";
 
 export interface CopilotCloneOptions {
@@ -47,6 +48,7 @@ export class CopilotCloneService {
 
     let requests = session.requests.filter(r => !r.isCanceled);
     const originalRequests = [...requests];
+    const pinnedTurns = await sessionPinService.getPins(sessionId);
 
     let compressionStats: CompressionStats | undefined;
     let compressionTasks: CompressionTask[] = [];
@@ -58,18 +60,18 @@ export class CopilotCloneService {
       }
 
       const compressionConfig = loadCompressionConfig();
-      const compressionResult = await compressCopilotMessages(requests, options.compressionBands, compressionConfig);
+      const compressionResult = await compressCopilotMessages(requests, options.compressionBands, compressionConfig, pinnedTurns);
       requests = compressionResult.requests;
       compressionStats = compressionResult.stats;
       compressionTasks = compressionResult.tasks;
     }
 
     if (options.removeToolCalls) {
-      requests = this.removeToolCalls(requests);
+      requests = this.removeToolCalls(requests, pinnedTurns);
     }
 
     if (options.compressPercent !== undefined && options.compressPercent > 0) {
-      requests = this.compressByPercentage(requests, options.compressPercent);
+      requests = this.compressByPercentage(requests, options.compressPercent, pinnedTurns);
     }
 
     const clonedSession = this.buildClonedSession(session, requests);
@@ -100,8 +102,7 @@ export class CopilotCloneService {
   }
 
   async writeSession(session: CopilotSession, targetWorkspaceHash: string): Promise<{ sessionPath: string; backupPath: string }> {
-    const storagePath = getVSCodeStoragePath();
-    const workspacePath = join(storagePath, targetWorkspaceHash);
+    const { workspacePath } = resolveWorkspace(targetWorkspaceHash);
     const chatSessionsPath = join(workspacePath, "chatSessions");
     const sessionPath = join(chatSessionsPath, `${session.sessionId}.json`);
 
@@ -132,8 +133,8 @@ export class CopilotCloneService {
     return { sessionPath, backupPath };
   }
 
-  removeToolCalls(requests: CopilotRequest[]): CopilotRequest[] {
-    return requests.map(req => ({
+  removeToolCalls(requests: CopilotRequest[], pinnedTurns: number[] = []): CopilotRequest[] {
+    return requests.map((req, turnIndex) => pinnedTurns.includes(turnIndex) ? req : ({
       ...req,
       response: req.response.filter(item => {
         if (typeof item === "object" && item !== null) {
@@ -147,12 +148,14 @@ export class CopilotCloneService {
     }));
   }
 
-  compressByPercentage(requests: CopilotRequest[], percent: number): CopilotRequest[] {
+  /**
+   * Drop the oldest percent of turns, except pinned ones.
+   */
+  compressByPercentage(requests: CopilotRequest[], percent: number, pinnedTurns: number[] = []): CopilotRequest[] {
     if (requests.length === 0 || percent <= 0) return requests;
-    if (percent >= 100) return [];
-    const removeCount = Math.floor(requests.length * (percent / 100));
+    const removeCount = percent >= 100 ? requests.length : Math.floor(requests.length * (percent / 100));
     if (removeCount === 0) return requests;
-    return requests.slice(removeCount);
+    return requests.filter((_, turnIndex) => turnIndex >= removeCount || pinnedTurns.includes(turnIndex));
   }
 
   generateSessionId(): string {
@@ -26,7 +26,8 @@ export function estimateCopilotTokens(text: string): number {
 
 export function mapCopilotTurnsToBands(
   requests: CopilotRequest[],
-  bands: CompressionBand[]
+  bands: CompressionBand[],
+  pinnedTurns: number[] = []
 ): CopilotTurnBandMapping[] {
   if (requests.length === 0) return [];
 
@@ -34,7 +35,7 @@ export function mapCopilotTurnsToBands(
 
   return requests.map((_, turnIndex) => {
     const position = (turnIndex / totalTurns) * 100;
-    const matchingBand = bands.find(
+    const matchingBand = pinnedTurns.includes(turnIndex) ? undefined : bands.find(
       (band) => band.start <= position && position < band.end
     );
     return { turnIndex, band: matchingBand ?? null };
@@ -202,7 +203,8 @@ function calculateCopilotStats(
 export async function compressCopilotMessages(
   requests: CopilotRequest[],
   bands: CompressionBand[],
-  config: CompressionConfig
+  config: CompressionConfig,
+  pinnedTurns: number[] = []
 ): Promise<CopilotCompressionResult> {
   if (bands.length === 0) {
     return {
@@ -212,7 +214,7 @@ export async function compressCopilotMessages(
     };
   }
 
-  const mapping = mapCopilotTurnsToBands(requests, bands);
+  const mapping = mapCopilotTurnsToBands(requests, bands, pinnedTurns);
   const allTasks = createCopilotCompressionTasks(requests, mapping, config.minTokens);
 
   const pendingTasks = allTasks.filter((t) => t.status === "pending");
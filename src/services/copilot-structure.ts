@@ -95,8 +95,7 @@ export class CopilotStructureService {
     const source = getSessionSource("copilot") as CopilotSessionSource;
     const session = await source.loadSession(sessionId, workspaceHash);
 
-    const nonCanceledRequests = session.requests.filter(r => !r.isCanceled);
-    const turns = this.extractTurnsWithCumulative(nonCanceledRequests);
+    const turns = this.buildTurns(session);
 
     return {
       sessionId: session.sessionId,
@@ -163,6 +162,21 @@ export class CopilotStructureService {
     });
   }
 
+  /**
+   * Build turns with cumulative tokens from a loaded session.
+   * Canceled requests are not turns.
+   */
+  buildTurns(session: CopilotSession): CopilotTurnData[] {
+    return this.extractTurnsWithCumulative(session.requests.filter(r => !r.isCanceled));
+  }
+
+  /**
+   * Estimate tokens across a session's non-canceled requests.
+   */
+  countSessionTokens(session: CopilotSession): number {
+    return this.calculateTotalTokens(session.requests.filter(r => !r.isCanceled));
+  }
+
   private calculateTotalTokens(requests: CopilotRequest[]): number {
     return requests.reduce((total, request) => {
       const userTokens = estimateTokens(request.message.text);
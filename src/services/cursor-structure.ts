@@ -0,0 +1,63 @@
+import { getSessionSource } from "../sources/index.js";
+import type { CursorSessionSource } from "../sources/cursor-source.js";
+import { cursorToEntries } from "../sources/cursor-source.js";
+import type { TurnData } from "../types.js";
+import { identifyTurns } from "./session-clone.js";
+import { calculateCumulativeTokens, buildTurnsData } from "./session-turns.js";
+
+/**
+ * Summary of a Cursor conversation for visualization.
+ */
+export interface CursorSessionStructure {
+  sessionId: string;
+  source: "cursor";
+  kind: "composer" | "chat";
+  title: string | null;
+  turnCount: number;
+  totalTokens: number;
+}
+
+/**
+ * Response payload for the Cursor conversation turns endpoint.
+ * Turn data matches the Claude shape so session-detail renders it unchanged.
+ */
+export interface CursorSessionTurnsResponse {
+  sessionId: string;
+  source: "cursor";
+  totalTurns: number;
+  turns: TurnData[];
+}
+
+export class CursorStructureService {
+  async getStructure(sessionId: string, workspaceHash?: string): Promise<CursorSessionStructure> {
+    const source = getSessionSource("cursor") as CursorSessionSource;
+    const conversation = await source.loadSession(sessionId, workspaceHash);
+    const entries = cursorToEntries(conversation);
+    const turns = identifyTurns(entries);
+    const totals = calculateCumulativeTokens(entries, turns, turns.length - 1);
+
+    return {
+      sessionId: conversation.sessionId,
+      source: "cursor",
+      kind: conversation.kind,
+      title: conversation.title ?? null,
+      turnCount: turns.length,
+      totalTokens: totals.total,
+    };
+  }
+
+  async getTurns(sessionId: string, workspaceHash?: string): Promise<CursorSessionTurnsResponse> {
+    const source = getSessionSource("cursor") as CursorSessionSource;
+    const conversation = await source.loadSession(sessionId, workspaceHash);
+    const turnsData = buildTurnsData(cursorToEntries(conversation));
+
+    return {
+      sessionId: conversation.sessionId,
+      source: "cursor",
+      totalTurns: turnsData.length,
+      turns: turnsData,
+    };
+  }
+}
+
+export const cursorStructureService = new CursorStructureService();
@@ -0,0 +1,66 @@
+import { getSessionSource } from "../sources/index.js";
+import type { GeminiSessionSource } from "../sources/gemini-source.js";
+import { geminiToEntries } from "../sources/gemini-source.js";
+import type { GeminiSessionKind } from "../sources/gemini-types.js";
+import type { TurnData } from "../types.js";
+import { identifyTurns } from "./session-clone.js";
+import { calculateCumulativeTokens, buildTurnsData } from "./session-turns.js";
+
+/**
+ * Summary of a Gemini session for visualization.
+ */
+export interface GeminiSessionStructure {
+  sessionId: string;
+  source: "gemini";
+  kind: GeminiSessionKind;
+  projectHash: string;
+  turnCount: number;
+  totalTokens: number;
+  createdAt: string;
+}
+
+/**
+ * Response payload for the Gemini session turns endpoint.
+ * Turn data matches the Claude shape so session-detail renders it unchanged.
+ */
+export interface GeminiSessionTurnsResponse {
+  sessionId: string;
+  source: "gemini";
+  totalTurns: number;
+  turns: TurnData[];
+}
+
+export class GeminiStructureService {
+  async getStructure(sessionId: string, folder?: string): Promise<GeminiSessionStructure> {
+    const source = getSessionSource("gemini") as GeminiSessionSource;
+    const session = await source.loadSession(sessionId, folder);
+    const entries = geminiToEntries(session);
+    const turns = identifyTurns(entries);
+    const totals = calculateCumulativeTokens(entries, turns, turns.length - 1);
+
+    return {
+      sessionId: session.sessionId,
+      source: "gemini",
+      kind: session.kind,
+      projectHash: session.projectHash,
+      turnCount: turns.length,
+      totalTokens: totals.total,
+      createdAt: session.startTime,
+    };
+  }
+
+  async getTurns(sessionId: string, folder?: string): Promise<GeminiSessionTurnsResponse> {
+    const source = getSessionSource("gemini") as GeminiSessionSource;
+    const session = await source.loadSession(sessionId, folder);
+    const turnsData = buildTurnsData(geminiToEntries(session));
+
+    return {
+      sessionId: session.sessionId,
+      source: "gemini",
+      totalTurns: turnsData.length,
+      turns: turnsData,
+    };
+  }
+}
+
+export const geminiStructureService = new GeminiStructureService();
@@ -0,0 +1,134 @@
+import { randomUUID } from "crypto";
+import type {
+  ContentBlock,
+  HandoffOptions,
+  HandoffSection,
+  HandoffStats,
+  HandoffSummary,
+  SessionEntry,
+} from "../types.js";
+import { getProvider } from "../providers/index.js";
+import { estimateTokens } from "./compression.js";
+import { identifyTurns, truncateToolContent } from "./session-clone.js";
+
+export const HANDOFF_SECTIONS: HandoffSection[] = ["goals", "decisions", "filesChanged", "openTodos", "pitfalls"];
+
+const SECTION_TITLES: Record<HandoffSection, string> = {
+  goals: "Goals",
+  decisions: "Decisions",
+  filesChanged: "Files changed",
+  openTodos: "Open TODOs",
+  pitfalls: "Known pitfalls",
+};
+
+/** Tool inputs are cut to this many characters in the transcript */
+const TOOL_INPUT_MAX_CHARS = 300;
+
+/** Session fields the handoff entry copies from the first kept turn */
+const CONTEXT_FIELDS = ["timestamp", "cwd", "gitBranch", "version", "userType"];
+
+function blockText(block: ContentBlock): string {
+  if (typeof block.content === "string") return block.content;
+  if (Array.isArray(block.content)) {
+    return (block.content as ContentBlock[])
+      .map((b) => (b.type === "text" && typeof b.text === "string" ? b.text : b.type === "image" ? "[Image]" : ""))
+      .filter(Boolean)
+      .join("\n");
+  }
+  return "";
+}
+
+/**
+ * Render turns as a plain-text transcript for the LLM. Tool inputs are
+ * cut short and tool results truncated (keeping error lines); thinking,
+ * meta messages and subagent transcripts are left out.
+ */
+export function buildHandoffTranscript(entries: SessionEntry[]): string {
+  const turns = identifyTurns(entries);
+  return turns.map((turn, turnIndex) => {
+    const lines = [`## Turn ${turnIndex + 1}`];
+    for (const entry of entries.slice(turn.startIndex, turn.endIndex + 1)) {
+      if (entry.isMeta || entry.isSidechain === true || !entry.message) continue;
+      const role = entry.type === "assistant" ? "Assistant" : "User";
+      const content = entry.message.content;
+      if (typeof content === "string") {
+        lines.push(`${role}: ${content}`);
+        continue;
+      }
+      for (const block of content ?? []) {
+        if (block.type === "text" && typeof block.text === "string") {
+          lines.push(`${role}: ${block.text}`);
+        } else if (block.type === "image") {
+          lines.push(`${role}: [Image]`);
+        } else if (block.type === "tool_use") {
+          const input = JSON.stringify(block.input ?? {});
+          const shown = input.length > TOOL_INPUT_MAX_CHARS ? `${input.slice(0, TOOL_INPUT_MAX_CHARS)}...` : input;
+          lines.push(`Tool call ${block.name}: ${shown}`);
+        } else if (block.type === "tool_result") {
+          const label = block.is_error === true ? "Tool error" : "Tool result";
+          lines.push(`${label}: ${truncateToolContent(blockText(block))}`);
+        }
+      }
+    }
+    return lines.join("\n");
+  }).join("\n\n");
+}
+
+/**
+ * Write a handoff summary as the markdown text of the handoff entry.
+ */
+export function formatHandoffSummary(summary: HandoffSummary, sections: HandoffSection[], turnsSummarized: number): string {
+  const parts = [
+    `This session continues an earlier conversation. Its first ${turnsSummarized} turns were replaced by this handoff summary; the turns after it are verbatim.`,
+  ];
+  for (const section of sections) {
+    const items = summary[section] ?? [];
+    parts.push(`## ${SECTION_TITLES[section]}\n${items.length > 0 ? items.map((item) => `- ${item}`).join("\n") : "- None"}`);
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Summarize the turns before fromTurn into a single user entry that a
+ * clone puts in their place. The entry has no parent; the first kept turn
+ * is re-linked to it by repairParentUuidChain. In a dry run only the
+ * transcript is measured and the LLM is not called.
+ */
+export async function summarizeTrimmedTurns(
+  entries: SessionEntry[],
+  fromTurn: number,
+  options: HandoffOptions,
+  dryRun = false
+): Promise<{ entry?: SessionEntry; stats: HandoffStats }> {
+  const turns = identifyTurns(entries);
+  const prefix = entries.slice(turns[0].startIndex, turns[fromTurn].startIndex);
+  const transcript = buildHandoffTranscript(prefix);
+  const stats: HandoffStats = { turnsSummarized: fromTurn, transcriptTokens: estimateTokens(transcript) };
+  if (dryRun) return { stats };
+
+  const summary = await getProvider().summarizeHandoff(transcript, options);
+  const text = formatHandoffSummary(summary, options.sections, fromTurn);
+
+  const firstKept = entries[turns[fromTurn].startIndex];
+  const context = Object.fromEntries(CONTEXT_FIELDS.filter((key) => firstKept[key] !== undefined).map((key) => [key, firstKept[key]]));
+  const entry: SessionEntry = {
+    ...context,
+    type: "user",
+    uuid: randomUUID(),
+    parentUuid: null,
+    sessionId: firstKept.sessionId,
+    isCompactSummary: true,
+    message: { role: "user", content: text },
+  };
+  return { entry, stats: { ...stats, summaryTokens: estimateTokens(text) } };
+}
+
+/**
+ * Put the handoff entry in front of the first turn, after the entries
+ * that precede every turn (queue operations, snapshots).
+ */
+export function insertHandoffEntry(entries: SessionEntry[], handoff: SessionEntry): SessionEntry[] {
+  const firstTurn = identifyTurns(entries)[0];
+  const index = firstTurn ? firstTurn.startIndex : entries.length;
+  return [...entries.slice(0, index), handoff, ...entries.slice(index)];
+}
@@ -1,6 +1,6 @@
-import { appendFile } from "fs/promises";
+import { appendFile, readFile, writeFile } from "fs/promises";
 import { config } from "../config.js";
-import type { CompressionBand, CompressionStats } from "../types.js";
+import type { CompressionBand, CompressionStats, HandoffStats } from "../types.js";
 
 export interface LineageEntry {
   timestamp: string;
@@ -13,8 +13,29 @@ export interface LineageEntry {
   // New v2 fields (optional for backward compatibility)
   compressionBands?: CompressionBand[];
   compressionStats?: CompressionStats;
+  /** Source turns kept by a range clone (0-based, inclusive) */
+  turnRange?: { fromTurn: number; toTurn: number };
+  /** Branch that was cloned, when not the whole session */
+  leafUuid?: string;
+  /** Handoff summary that replaced the turns before turnRange.fromTurn */
+  handoff?: HandoffStats;
 }
 
+/** A clone as recorded in the lineage log */
+export interface LineageRecord {
+  timestamp: string;
+  targetId: string;
+  targetPath: string;
+  sourceId: string;
+  sourcePath: string;
+  /** Set once the clone was deleted or brought back */
+  status?: LineageStatus;
+}
+
+export type LineageStatus = "reverted" | "restored";
+
+const RECORD_SEPARATOR = "\n---\n";
+
 /**
  * Append lineage entry to log file.
  * Supports both v1 (without compression) and v2 (with compression) entries.
@@ -29,6 +50,18 @@ export async function logLineage(entry: LineageEntry): Promise<void> {
     path: ${entry.sourcePath}
   OPTIONS: toolRemoval=${entry.toolRemoval}% thinkingRemoval=${entry.thinkingRemoval}%`;
 
+  if (entry.leafUuid) {
+    logEntry += `\n  BRANCH: ${entry.leafUuid}`;
+  }
+
+  if (entry.turnRange) {
+    logEntry += `\n  TURNS: ${entry.turnRange.fromTurn}-${entry.turnRange.toTurn}`;
+  }
+
+  if (entry.handoff) {
+    logEntry += `\n  HANDOFF: ${entry.handoff.turnsSummarized} turns summarized (${entry.handoff.transcriptTokens} -> ${entry.handoff.summaryTokens ?? 0} tokens)`;
+  }
+
   // Add compression info if present (v2)
   if (entry.compressionBands && entry.compressionBands.length > 0) {
     const bandsStr = entry.compressionBands
@@ -48,3 +81,53 @@ export async function logLineage(entry: LineageEntry): Promise<void> {
 
   await appendFile(logPath, logEntry, "utf-8");
 }
+
+async function readLog(): Promise<string> {
+  try {
+    return await readFile(config.lineageLogPath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return "";
+    throw error;
+  }
+}
+
+function parseRecord(block: string): LineageRecord | undefined {
+  const timestamp = block.match(/^\[(.+)\]$/m);
+  const target = block.match(/^ {2}TARGET: (.+)\n {4}path: (.+)$/m);
+  const source = block.match(/^ {2}SOURCE: (.+)\n {4}path: (.+)$/m);
+  if (!timestamp || !target || !source) return undefined;
+  const status = block.match(/^ {2}STATUS: (reverted|restored)\b/m);
+  return {
+    timestamp: timestamp[1],
+    targetId: target[1],
+    targetPath: target[2],
+    sourceId: source[1],
+    sourcePath: source[2],
+    status: status?.[1] as LineageStatus | undefined,
+  };
+}
+
+/**
+ * Read every clone recorded in the lineage log, oldest first.
+ */
+export async function readLineage(): Promise<LineageRecord[]> {
+  return (await readLog())
+    .split(RECORD_SEPARATOR)
+    .map(parseRecord)
+    .filter((record): record is LineageRecord => record !== undefined);
+}
+
+/**
+ * Set the status of the latest record for a clone, replacing any earlier
+ * status. Other records are left as written.
+ * @returns false if the clone is not in the log
+ */
+export async function markLineage(targetId: string, status: LineageStatus, timestamp: string): Promise<boolean> {
+  const blocks = (await readLog()).split(RECORD_SEPARATOR);
+  const index = blocks.map((block) => parseRecord(block)?.targetId).lastIndexOf(targetId);
+  if (index === -1) return false;
+
+  blocks[index] = blocks[index].replace(/\n {2}STATUS: .*$/m, "") + `\n  STATUS: ${status} ${timestamp}`;
+  await writeFile(config.lineageLogPath, blocks.join(RECORD_SEPARATOR), "utf-8");
+  return true;
+}
@@ -0,0 +1,111 @@
+import type { SessionEntry } from "../types.js";
+import { estimateTokens } from "./compression.js";
+import { identifyTurns } from "./session-clone.js";
+
+/** Tool whose results are deduplicated */
+const READ_TOOL = "Read";
+
+export interface ReadDeduplicationStats {
+  /** Read results replaced by a stub */
+  resultsReplaced: number;
+  /** Files with at least one replaced result */
+  filesAffected: number;
+  tokensRemoved: number;
+}
+
+interface ReadCall {
+  filePath: string;
+  /** Whether the whole file was read, i.e. without offset or limit */
+  full: boolean;
+}
+
+interface ReadResult {
+  toolUseId: string;
+  entryIndex: number;
+  turnIndex: number;
+  isError: boolean;
+}
+
+function resultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content.map((c: any) => (c?.type === "text" && typeof c.text === "string" ? c.text : "")).join("\n");
+  }
+  return "";
+}
+
+/**
+ * Replace the results of Read calls that a later read of the same file
+ * supersedes with a short stub naming the turn of that read. Only a
+ * successful read of the whole file supersedes earlier ones; partial
+ * reads (offset/limit) are replaced but never replace anything. Reads
+ * are paired with their results by tool_use id, as in applyRemovals.
+ * Results inside pinnedTurns are kept, though their reads still supersede
+ * earlier ones.
+ */
+export function deduplicateReads(entries: SessionEntry[], pinnedTurns: number[] = []): {
+  entries: SessionEntry[];
+  stats: ReadDeduplicationStats;
+} {
+  const turnOf = new Map<number, number>();
+  identifyTurns(entries).forEach((turn, turnIndex) => {
+    for (let i = turn.startIndex; i <= turn.endIndex; i++) turnOf.set(i, turnIndex);
+  });
+
+  // Pair each Read call with its result, in file order
+  const calls = new Map<string, ReadCall>();
+  const results: ReadResult[] = [];
+  entries.forEach((entry, entryIndex) => {
+    if (!Array.isArray(entry.message?.content) || !turnOf.has(entryIndex)) return;
+    for (const block of entry.message.content as any[]) {
+      if (entry.type === "assistant" && block.type === "tool_use" && block.name === READ_TOOL) {
+        const input = block.input ?? {};
+        if (typeof input.file_path !== "string") continue;
+        calls.set(block.id, { filePath: input.file_path, full: input.offset == null && input.limit == null });
+      } else if (entry.type === "user" && block.type === "tool_result" && calls.has(block.tool_use_id)) {
+        results.push({
+          toolUseId: block.tool_use_id,
+          entryIndex,
+          turnIndex: turnOf.get(entryIndex)!,
+          isError: block.is_error === true,
+        });
+      }
+    }
+  });
+
+  // The latest full read of each file, and the earlier results it supersedes
+  const latest = new Map<string, ReadResult>();
+  for (const result of results) {
+    const call = calls.get(result.toolUseId)!;
+    if (call.full && !result.isError) latest.set(call.filePath, result);
+  }
+  const stubs = new Map<string, string>();
+  for (const result of results) {
+    const { filePath } = calls.get(result.toolUseId)!;
+    const later = latest.get(filePath);
+    if (!later || result.isError || pinnedTurns.includes(result.turnIndex)) continue;
+    if (results.indexOf(result) >= results.indexOf(later)) continue;
+    stubs.set(result.toolUseId, `[Superseded by a later read of ${filePath} at turn ${later.turnIndex + 1}]`);
+  }
+
+  const stats: ReadDeduplicationStats = { resultsReplaced: 0, filesAffected: 0, tokensRemoved: 0 };
+  if (stubs.size === 0) return { entries, stats };
+
+  const files = new Set<string>();
+  const entryIndexes = new Set(results.filter((r) => stubs.has(r.toolUseId)).map((r) => r.entryIndex));
+  const deduplicated = entries.map((entry, entryIndex) => {
+    if (!entryIndexes.has(entryIndex)) return entry;
+    const content = (entry.message!.content as any[]).map((block) => {
+      const stub = block.type === "tool_result" ? stubs.get(block.tool_use_id) : undefined;
+      if (!stub) return block;
+      stats.resultsReplaced++;
+      stats.tokensRemoved += Math.max(0, estimateTokens(resultText(block.content)) - estimateTokens(stub));
+      files.add(calls.get(block.tool_use_id)!.filePath);
+      return { ...block, content: stub };
+    });
+    return { ...entry, message: { ...entry.message!, content } };
+  });
+  stats.filesAffected = files.size;
+
+  return { entries: deduplicated, stats };
+}
@@ -4,35 +4,51 @@ import { randomUUID } from "crypto";
 import path from "path";
 import { CloneRequest, CloneResponse } from "../schemas/clone.js";
 import type { CloneRequestV2, CloneResponseV2 } from "../schemas/clone-v2.js";
-import { SessionNotFoundError } from "../errors.js";
+import { InvalidTurnRangeError, SessionNotFoundError } from "../errors.js";
 import type {
   SessionEntry,
   Turn,
   RemovalOptions,
+  ToolPolicy,
+  TruncationStrategy,
   CompressionStats,
   CompressionTask,
+  HandoffStats,
 } from "../types.js";
-import { config, loadCompressionConfig } from "../config.js";
+import { loadCompressionConfig } from "../config.js";
+import { getClaudeRoots } from "../lib/claude-roots.js";
+import { describeImage, isImageBlock, readImageInfo } from "../lib/image-tokens.js";
 import { logLineage } from "./lineage-logger.js";
-import { compressMessages } from "./compression.js";
+import { compressMessages, summarizeToolResults } from "./compression.js";
+import { buildClonePreview, countSessionTokens, planCompression } from "./clone-preview.js";
+import { selectBranch } from "./conversation-tree.js";
+import { deduplicateReads } from "./read-dedup.js";
+import { sessionPinService } from "./session-pins.js";
+import { insertHandoffEntry, summarizeTrimmedTurns } from "./handoff-summary.js";
+import type { ReadDeduplicationStats } from "./read-dedup.js";
+import type { CompressionPlan } from "./clone-preview.js";
 import { writeCompressionDebugLog } from "./compression-debug-logger.js";
 
 /**
- * Find session file by searching all project directories
+ * Find session file by searching all project directories of every Claude root
  */
 export async function findSessionFile(sessionId: string): Promise<string> {
-  const projectsDir = config.projectsDir;
-  
-  try {
-    // Read all project directories
-    const projectDirs = await readdir(projectsDir, { withFileTypes: true });
-    
+  for (const root of getClaudeRoots()) {
+    let projectDirs;
+    try {
+      // Read all project directories
+      projectDirs = await readdir(root.projectsDir, { withFileTypes: true });
+    } catch {
+      // If projectsDir doesn't exist or other error, try the next root
+      continue;
+    }
+
     for (const dir of projectDirs) {
       if (!dir.isDirectory()) continue;
-      
-      const projectPath = path.join(projectsDir, dir.name);
+
+      const projectPath = path.join(root.projectsDir, dir.name);
       const sessionFile = path.join(projectPath, `${sessionId}.jsonl`);
-      
+
       try {
         await stat(sessionFile);
         return sessionFile;
@@ -41,15 +57,9 @@ export async function findSessionFile(sessionId: string): Promise<string> {
         continue;
       }
     }
-    
-    throw new SessionNotFoundError(sessionId);
-  } catch (err) {
-    if (err instanceof SessionNotFoundError) {
-      throw err;
-    }
-    // If projectsDir doesn't exist or other error, treat as not found
-    throw new SessionNotFoundError(sessionId);
   }
+
+  throw new SessionNotFoundError(sessionId);
 }
 
 /**
@@ -127,49 +137,146 @@ function createSummaryEntry(entries: SessionEntry[], firstUserMessage: string):
 }
 
 /**
- * Truncate a string to 2 lines or 120 characters, whichever comes first.
- * Adds '...' suffix when truncated.
+ * Lines worth keeping when a tool result is cut down: error messages, test
+ * failures and stack frames (JavaScript "at ..." and Python "File ...").
+ */
+export const ERROR_LINE_PATTERNS = [
+  "(?:Error|Exception)\\b",
+  "\\bFAIL(?:ED)?\\b",
+  "\\bTraceback\\b",
+  "\\bpanic:",
+  "^\\s+at\\s",
+  "^\\s*File \".+\", line \\d+",
+];
+
+/**
+ * The first 2 lines or 120 characters, whichever comes first, plus any
+ * error lines further down.
+ */
+export const DEFAULT_TRUNCATION_STRATEGY: TruncationStrategy = {
+  headLines: 2,
+  tailLines: 0,
+  maxChars: 120,
+  keepPatterns: ERROR_LINE_PATTERNS,
+  trailer: "...",
+};
+
+function formatTrailer(strategy: TruncationStrategy, count: number): string {
+  return strategy.trailer.replaceAll("{count}", String(count));
+}
+
+/**
+ * Truncate a string according to a truncation strategy.
+ * Keeps the head and tail lines within maxChars, plus every line matching
+ * keepPatterns (each cut to maxChars). Each cut is marked with the trailer,
+ * appended to the line before it.
  */
-export function truncateToolContent(content: string): string {
+export function truncateToolContent(
+  content: string,
+  strategy: TruncationStrategy = DEFAULT_TRUNCATION_STRATEGY
+): string {
   if (!content) return content;
 
-  const maxLines = 2;
-  const maxChars = 120;
+  const lines = content.split("\n");
+  const patterns = strategy.keepPatterns.map((p) => new RegExp(p));
+  let output = "";
+  let budget = strategy.maxChars;
+  // Lines cut since the last kept line; a partly kept line counts as one
+  let elided = 0;
+  let pending = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    let text = lines[i];
+    let cut = false;
+
+    if (patterns.some((p) => p.test(text))) {
+      if (text.length > strategy.maxChars) {
+        text = text.slice(0, strategy.maxChars);
+        cut = true;
+      }
+    } else {
+      const positional = i < strategy.headLines || i >= lines.length - strategy.tailLines;
+      const separator = output ? 1 : 0;
+      if (!positional || budget - separator <= 0) {
+        elided++;
+        pending = true;
+        continue;
+      }
+      if (text.length + separator > budget) {
+        text = text.slice(0, budget - separator);
+        cut = true;
+      }
+      budget -= text.length + separator;
+    }
+
+    if (pending) {
+      output = output.trimEnd() + formatTrailer(strategy, elided);
+      elided = 0;
+      pending = false;
+    }
+    output = output ? `${output}\n${text}` : text;
+    if (cut) {
+      elided++;
+      pending = true;
+    }
+  }
 
-  const lines = content.split('\n');
-  let truncated = lines.slice(0, maxLines).join('\n');
-  let wasTruncated = lines.length > maxLines;
+  if (pending) {
+    output = output.trimEnd() + formatTrailer(strategy, elided);
+  }
+  return output;
+}
 
-  if (truncated.length > maxChars) {
-    truncated = truncated.slice(0, maxChars);
-    wasTruncated = true;
+/**
+ * Truncate the content of a tool_result block, which is either a string or
+ * an array of content blocks. Text blocks are truncated; other blocks pass
+ * through unchanged.
+ */
+export function truncateToolResultContent(
+  content: unknown,
+  strategy: TruncationStrategy = DEFAULT_TRUNCATION_STRATEGY
+): { result: unknown; wasTruncated: boolean } {
+  if (typeof content === "string") {
+    const truncated = truncateToolContent(content, strategy);
+    return { result: truncated, wasTruncated: truncated !== content };
   }
 
-  if (wasTruncated) {
-    truncated = truncated.trimEnd() + '...';
+  if (Array.isArray(content)) {
+    let anyTruncated = false;
+    const result = content.map((block) => {
+      if (block?.type !== "text" || typeof block.text !== "string") return block;
+      const truncated = truncateToolContent(block.text, strategy);
+      if (truncated === block.text) return block;
+      anyTruncated = true;
+      return { ...block, text: truncated };
+    });
+    return { result: anyTruncated ? result : content, wasTruncated: anyTruncated };
   }
 
-  return truncated;
+  return { result: content, wasTruncated: false };
 }
 
 /**
  * Truncate string values within an object, preserving structure.
  * Returns a new object with truncated string values.
  */
-export function truncateObjectValues(obj: unknown): { result: unknown; wasTruncated: boolean } {
+export function truncateObjectValues(
+  obj: unknown,
+  strategy: TruncationStrategy = DEFAULT_TRUNCATION_STRATEGY
+): { result: unknown; wasTruncated: boolean } {
   if (obj === null || obj === undefined) {
     return { result: obj, wasTruncated: false };
   }
 
   if (typeof obj === 'string') {
-    const truncated = truncateToolContent(obj);
+    const truncated = truncateToolContent(obj, strategy);
     return { result: truncated, wasTruncated: truncated !== obj };
   }
 
   if (Array.isArray(obj)) {
     let anyTruncated = false;
     const result = obj.map(item => {
-      const { result: truncatedItem, wasTruncated } = truncateObjectValues(item);
+      const { result: truncatedItem, wasTruncated } = truncateObjectValues(item, strategy);
       if (wasTruncated) anyTruncated = true;
       return truncatedItem;
     });
@@ -180,7 +287,7 @@ export function truncateObjectValues(obj: unknown): { result: unknown; wasTrunca
     let anyTruncated = false;
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(obj)) {
-      const { result: truncatedValue, wasTruncated } = truncateObjectValues(value);
+      const { result: truncatedValue, wasTruncated } = truncateObjectValues(value, strategy);
       if (wasTruncated) anyTruncated = true;
       result[key] = truncatedValue;
     }
@@ -201,6 +308,9 @@ function isNewTurn(entry: SessionEntry): boolean {
   // Meta messages (system-injected) are not turns
   if (entry.isMeta === true) return false;
 
+  // Subagent (Task) prompts belong to the turn that spawned them
+  if (entry.isSidechain === true) return false;
+
   const content = entry.message?.content;
 
   // String content = human input (new turn)
@@ -250,51 +360,108 @@ export function identifyTurns(entries: SessionEntry[]): Turn[] {
 }
 
 /**
- * Apply removals based on options
+ * Keep only turns fromTurn..toTurn (0-based, inclusive), plus the entries
+ * before the first turn (queue operations, snapshots). Entries of the first
+ * kept turn still point at the cut-off turn until repairParentUuidChain
+ * re-links them.
+ * @throws InvalidTurnRangeError if the range is outside the session
+ */
+export function selectTurnRange(entries: SessionEntry[], fromTurn: number, toTurn: number): SessionEntry[] {
+  const turns = identifyTurns(entries);
+  if (fromTurn > toTurn || toTurn >= turns.length) {
+    throw new InvalidTurnRangeError(fromTurn, toTurn, turns.length);
+  }
+
+  return [
+    ...entries.slice(0, turns[0].startIndex),
+    ...entries.slice(turns[fromTurn].startIndex, turns[toTurn].endIndex + 1),
+  ];
+}
+
+/**
+ * Find the policy for a tool: an exact name wins over patterns, and a
+ * longer pattern over a shorter one. Tools without a policy follow the
+ * global toolRemoval/toolHandlingMode.
+ */
+export function resolveToolPolicy(toolName: string, options: RemovalOptions): ToolPolicy {
+  const policies = options.toolPolicies ?? {};
+  if (policies[toolName]) return policies[toolName];
+
+  const pattern = Object.keys(policies)
+    .filter((key) => key.includes("*"))
+    .sort((a, b) => b.length - a.length)
+    .find((key) =>
+      new RegExp(`^${key.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`).test(toolName)
+    );
+  if (pattern) return policies[pattern];
+
+  return { mode: options.toolHandlingMode || "remove", threshold: options.toolRemoval };
+}
+
+/**
+ * Number of oldest turns a 0-100 percentage covers
+ */
+function turnBoundary(percent: number, turnCount: number): number {
+  return percent === 0 ? 0 :
+    percent >= 100 ? turnCount :
+    Math.floor(turnCount * percent / 100);
+}
+
+/**
+ * Apply removals based on options.
+ * Pinned turns are left as they are.
+ * removedBlockIds lists each removed tool_use by its id, each removed
+ * thinking block or image as "<entry uuid>:<block index>", and each image
+ * removed from a tool result as "<tool_use_id>:<block index>". Calls whose policy is
+ * summarize are left in place and listed in toolUseIdsToSummarize.
  */
 export function applyRemovals(entries: SessionEntry[], options: RemovalOptions): {
   entries: SessionEntry[];
   toolCallsRemoved: number;
   toolCallsTruncated: number;
   thinkingBlocksRemoved: number;
+  imagesRemoved: number;
+  removedBlockIds: string[];
+  toolUseIdsToSummarize: string[];
 } {
   const turns = identifyTurns(entries);
   const turnCount = turns.length;
 
   // Calculate removal boundaries (numeric 0-100)
-  const toolBoundary = options.toolRemoval === 0 ? 0 :
-    options.toolRemoval >= 100 ? turnCount :
-    Math.floor(turnCount * options.toolRemoval / 100);
-
-  const thinkingBoundary = options.thinkingRemoval === 0 ? 0 :
-    options.thinkingRemoval >= 100 ? turnCount :
-    Math.floor(turnCount * options.thinkingRemoval / 100);
+  const toolBoundary = turnBoundary(options.toolRemoval, turnCount);
+  const thinkingBoundary = turnBoundary(options.thinkingRemoval, turnCount);
+  const imageBoundary = turnBoundary(options.imageRemoval ?? 0, turnCount);
+  const imageMode = options.imageHandlingMode ?? "remove";
+  const pinned = new Set(options.pinnedTurns ?? []);
 
   const toolMode = options.toolHandlingMode || "remove";
+  const truncation = options.truncation ?? DEFAULT_TRUNCATION_STRATEGY;
   
   let toolCallsRemoved = 0;
   let toolCallsTruncated = 0;
   let thinkingBlocksRemoved = 0;
+  let imagesRemoved = 0;
+  const removedBlockIds: string[] = [];
   const entriesToDelete = new Set<number>();
   const modifiedEntries: SessionEntry[] = entries.map((entry) => ({ ...entry }));
   
-  // First pass: Collect all tool_use IDs that need to be removed
-  const toolUseIdsToRemove = new Set<string>();
+  // First pass: Decide what happens to each tool call from its policy and turn
+  const toolActions = new Map<string, ToolPolicy["mode"]>();
+  const toolUseIds = new Set<string>();
   for (let turnIdx = 0; turnIdx < turns.length; turnIdx++) {
     const turn = turns[turnIdx];
-    const isInToolRemovalZone = turnIdx < toolBoundary;
-    
-    if (isInToolRemovalZone) {
-      for (let i = turn.startIndex; i <= turn.endIndex; i++) {
-        const entry = modifiedEntries[i];
-        if (entry.type === "assistant" && Array.isArray(entry.message?.content)) {
-          const content = entry.message.content as any[];
-          content.forEach((block: any) => {
-            if (block.type === "tool_use") {
-              toolUseIdsToRemove.add(block.id);
-            }
-          });
-        }
+    for (let i = turn.startIndex; i <= turn.endIndex; i++) {
+      const entry = modifiedEntries[i];
+      if (entry.type === "assistant" && Array.isArray(entry.message?.content)) {
+        const content = entry.message.content as any[];
+        content.forEach((block: any) => {
+          if (block.type !== "tool_use") return;
+          toolUseIds.add(block.id);
+          const policy = resolveToolPolicy(block.name, options);
+          if (policy.mode !== "keep" && !pinned.has(turnIdx) && turnIdx < turnBoundary(policy.threshold, turnCount)) {
+            toolActions.set(block.id, policy.mode);
+          }
+        });
       }
     }
   }
@@ -302,8 +469,10 @@ export function applyRemovals(entries: SessionEntry[], options: RemovalOptions):
   // Process each turn
   for (let turnIdx = 0; turnIdx < turns.length; turnIdx++) {
     const turn = turns[turnIdx];
-    const isInToolRemovalZone = turnIdx < toolBoundary;
-    const isInThinkingRemovalZone = turnIdx < thinkingBoundary;
+    const isPinned = pinned.has(turnIdx);
+    const isInToolRemovalZone = turnIdx < toolBoundary && !isPinned;
+    const isInThinkingRemovalZone = turnIdx < thinkingBoundary && !isPinned;
+    const isInImageRemovalZone = turnIdx < imageBoundary && !isPinned;
     
     // Process entries in this turn
     for (let i = turn.startIndex; i <= turn.endIndex; i++) {
@@ -318,57 +487,59 @@ export function applyRemovals(entries: SessionEntry[], options: RemovalOptions):
       
       let contentModified = false;
       
-      // Handle tool_use blocks (for assistant messages in removal zone)
-      if (isInToolRemovalZone && entry.type === "assistant") {
-        if (toolMode === "remove") {
-          const beforeLength = content.length;
-          content = content.filter((block: any) => {
-            if (block.type === "tool_use") {
-              toolCallsRemoved++;
-              return false;
-            }
-            return true;
-          });
-          if (content.length !== beforeLength) contentModified = true;
-        } else if (toolMode === "truncate") {
-          content = content.map((block: any) => {
-            if (block.type === "tool_use" && block.input) {
-              const { result: truncatedInput, wasTruncated } = truncateObjectValues(block.input);
-              if (wasTruncated) {
-                toolCallsTruncated++;
-                contentModified = true;
-                return { ...block, input: truncatedInput };
-              }
+      // Handle tool_use blocks (for assistant messages)
+      if (entry.type === "assistant") {
+        const beforeLength = content.length;
+        content = content.filter((block: any) => {
+          if (block.type === "tool_use" && toolActions.get(block.id) === "remove") {
+            toolCallsRemoved++;
+            removedBlockIds.push(block.id);
+            return false;
+          }
+          return true;
+        });
+        if (content.length !== beforeLength) contentModified = true;
+
+        content = content.map((block: any) => {
+          if (block.type === "tool_use" && block.input && toolActions.get(block.id) === "truncate") {
+            const { result: truncatedInput, wasTruncated } = truncateObjectValues(block.input, truncation);
+            if (wasTruncated) {
+              toolCallsTruncated++;
+              contentModified = true;
+              return { ...block, input: truncatedInput };
             }
-            return block;
-          });
-        }
+          }
+          return block;
+        });
       }
 
-      // Handle tool_result blocks (for user messages)
+      // Handle tool_result blocks (for user messages). Results without a
+      // matching call follow the global setting for their turn.
       if (entry.type === "user") {
-        if (toolMode === "remove") {
-          const beforeLength = content.length;
-          content = content.filter((block: any) => {
-            if (block.type === "tool_result" && toolUseIdsToRemove.has(block.tool_use_id)) {
-              return false;
-            }
-            return true;
-          });
-          if (content.length !== beforeLength) contentModified = true;
-        } else if (toolMode === "truncate" && isInToolRemovalZone) {
-          content = content.map((block: any) => {
-            if (block.type === "tool_result" && typeof block.content === "string") {
-              const truncatedContent = truncateToolContent(block.content);
-              if (truncatedContent !== block.content) {
-                toolCallsTruncated++;
-                contentModified = true;
-                return { ...block, content: truncatedContent };
-              }
+        const resultAction = (block: any) =>
+          toolActions.get(block.tool_use_id) ??
+          (toolMode === "truncate" && isInToolRemovalZone && !toolUseIds.has(block.tool_use_id) ? "truncate" : undefined);
+
+        const beforeLength = content.length;
+        content = content.filter((block: any) => {
+          if (block.type === "tool_result" && toolActions.get(block.tool_use_id) === "remove") {
+            return false;
+          }
+          return true;
+        });
+        if (content.length !== beforeLength) contentModified = true;
+
+        content = content.map((block: any) => {
+          if (block.type === "tool_result" && resultAction(block) === "truncate") {
+            const { result: truncatedContent, wasTruncated } = truncateToolResultContent(block.content, truncation);
+            if (wasTruncated) {
+              toolCallsTruncated++;
+              contentModified = true;
+              return { ...block, content: truncatedContent };
             }
-            return block;
-          });
-        }
+          }
+          return block;
+        });
       }
       
       // Remove thinking blocks surgically (for assistant messages in removal zone)
@@ -377,6 +548,7 @@ export function applyRemovals(entries: SessionEntry[], options: RemovalOptions):
         content = content.filter((block: any) => {
           if (block.type === "thinking") {
             thinkingBlocksRemoved++;
+            removedBlockIds.push(`${entry.uuid}:${(entry.message!.content as any[]).indexOf(block)}`);
             return false;
           }
           return true;
@@ -384,6 +556,24 @@ export function applyRemovals(entries: SessionEntry[], options: RemovalOptions):
         if (content.length !== beforeLength) contentModified = true;
       }
       
+      // Drop old images, or replace them with a text placeholder
+      if (isInImageRemovalZone) {
+        const imagesBefore = imagesRemoved;
+        content = replaceImages(content, imageMode, (index) => {
+          imagesRemoved++;
+          removedBlockIds.push(`${entry.uuid}:${index}`);
+        });
+        content = content.map((block: any) => {
+          if (block.type !== "tool_result" || !Array.isArray(block.content)) return block;
+          const nested = replaceImages(block.content, imageMode, (index) => {
+            imagesRemoved++;
+            removedBlockIds.push(`${block.tool_use_id}:${index}`);
+          });
+          return nested === block.content ? block : { ...block, content: nested };
+        });
+        if (imagesRemoved !== imagesBefore) contentModified = true;
+      }
+
       // Update or delete entry based on final content
       if (content.length === 0) {
         entriesToDelete.add(i);
@@ -407,9 +597,31 @@ export function applyRemovals(entries: SessionEntry[], options: RemovalOptions):
     toolCallsRemoved,
     toolCallsTruncated,
     thinkingBlocksRemoved,
+    imagesRemoved,
+    removedBlockIds,
+    toolUseIdsToSummarize: [...toolActions].filter(([, mode]) => mode === "summarize").map(([id]) => id),
   };
 }
 
+/**
+ * Remove the image blocks of a content array, or replace each with a text
+ * placeholder giving its type, dimensions and size. Returns the array
+ * itself when it has no images.
+ */
+function replaceImages(
+  content: any[],
+  mode: "remove" | "placeholder",
+  onImage: (index: number) => void
+): any[] {
+  if (!content.some(isImageBlock)) return content;
+
+  return content.flatMap((block, index) => {
+    if (!isImageBlock(block)) return [block];
+    onImage(index);
+    return mode === "placeholder" ? [{ type: "text", text: describeImage(readImageInfo(block)) }] : [];
+  });
+}
+
 /**
  * Repair parentUuid chain after deletions
  */
@@ -445,7 +657,45 @@ export function repairParentUuidChain(entries: SessionEntry[]): SessionEntry[] {
 }
 
 /**
- * Clone session with selective removal
+ * Drop or compress inline subagent (sidechain) transcripts, independently
+ * of the main conversation. Compression treats the sidechain entries as a
+ * conversation of their own and compresses all of it at the given level.
+ * Agent transcripts stored in separate files are never copied by a clone.
+ */
+export async function applySubagentHandling(
+  entries: SessionEntry[],
+  handling: CloneRequestV2["subagentHandling"],
+  includeUserMessages: boolean
+): Promise<{ entries: SessionEntry[]; entriesRemoved: number; compression?: CompressionStats }> {
+  if (handling === "remove") {
+    const kept = entries.filter((entry) => entry.isSidechain !== true);
+    return { entries: kept, entriesRemoved: entries.length - kept.length };
+  }
+
+  const positions = entries.flatMap((entry, index) => (entry.isSidechain === true ? [index] : []));
+  if (handling === "keep" || positions.length === 0) {
+    return { entries, entriesRemoved: 0 };
+  }
+
+  const sidechain = positions.map((index) => ({ ...entries[index], isSidechain: false }));
+  const result = await compressMessages(
+    sidechain,
+    identifyTurns(sidechain),
+    [{ start: 0, end: 100, level: handling }],
+    loadCompressionConfig(),
+    includeUserMessages
+  );
+
+  const compressed = [...entries];
+  positions.forEach((entryIndex, i) => {
+    compressed[entryIndex] = { ...result.entries[i], isSidechain: true };
+  });
+  return { entries: compressed, entriesRemoved: 0, compression: result.stats };
+}
+
+/**
+ * Clone session with selective removal.
+ * A dry run returns a preview of the result instead of writing a clone.
  */
 export async function cloneSession(request: CloneRequest): Promise<CloneResponse> {
   // Find source session file
@@ -467,17 +717,34 @@ export async function cloneSession(request: CloneRequest): Promise<CloneResponse
   const thinkingRemovalPercent = request.thinkingRemoval === "none" ? 0 :
     parseInt(request.thinkingRemoval, 10);
 
+  const pinnedTurns = await sessionPinService.getPins(request.sessionId);
   const removalOptions: RemovalOptions = {
     toolRemoval: toolRemovalPercent,
     toolHandlingMode: "remove",  // v1 always removes
     thinkingRemoval: thinkingRemovalPercent,
+    pinnedTurns,
   };
 
-  const { entries: modifiedEntries, toolCallsRemoved, thinkingBlocksRemoved } =
+  const { entries: modifiedEntries, toolCallsRemoved, thinkingBlocksRemoved, removedBlockIds } =
     applyRemovals(entries, removalOptions);
   
   // Repair parentUuid chain
   const repairedEntries = repairParentUuidChain(modifiedEntries);
+
+  if (request.dryRun) {
+    return {
+      success: true,
+      outputPath: "",
+      dryRun: true,
+      stats: {
+        originalTurnCount,
+        outputTurnCount: identifyTurns(repairedEntries).length,
+        toolCallsRemoved,
+        thinkingBlocksRemoved,
+      },
+      preview: buildClonePreview(entries, repairedEntries, removedBlockIds),
+    };
+  }
   
   // Generate new UUID
   const newSessionId = randomUUID();
@@ -519,6 +786,9 @@ export async function cloneSession(request: CloneRequest): Promise<CloneResponse
     toolRemoval: toolRemovalPercent,
     thinkingRemoval: thinkingRemovalPercent,
   });
+  if (pinnedTurns.length > 0) {
+    await sessionPinService.setPins(newSessionId, pinnedTurns);
+  }
   
   return {
     success: true,
@@ -533,7 +803,19 @@ export async function cloneSession(request: CloneRequest): Promise<CloneResponse
 }
 
 /**
- * Clone session with selective removal and LLM-based compression (v2)
+ * Clone session with selective removal and LLM-based compression (v2).
+ * leafUuid clones a single branch of the parentUuid tree instead of every
+ * branch in the file. fromTurn/toTurn clone a range of turns (of that
+ * branch), e.g. to fork at an earlier turn; removal percentages and
+ * compression bands then apply to the kept range. toolPolicies override
+ * the tool removal settings per tool. dedupeReads stubs out Read results
+ * superseded by a later read of the same file. Turns pinned in the
+ * source session are left as they are and stay pinned in the clone.
+ * handoffSummary has the LLM summarize the turns before fromTurn into a
+ * single handoff entry at the front of the clone.
+ * A dry run returns a preview of the result instead of writing a clone.
+ * It never calls the LLM: compression bands are only planned, with savings
+ * estimated from the target sizes, and subagent compression is left out.
  */
 export async function cloneSessionV2(
   request: CloneRequestV2
@@ -542,18 +824,62 @@ export async function cloneSessionV2(
   const sourcePath = await findSessionFile(request.sessionId);
   const sourceContent = await readFile(sourcePath, "utf-8");
 
-  // 2. Parse and identify turns
-  let entries = parseSession(sourceContent);
+  // 2. Parse, select the branch, handle subagent transcripts and identify turns
+  const parsed = parseSession(sourceContent);
+  const subagentHandling = request.subagentHandling ?? "keep";
+  const subagents = await applySubagentHandling(
+    request.leafUuid ? selectBranch(parsed, request.leafUuid, request.sessionId) : parsed,
+    request.dryRun && subagentHandling !== "remove" ? "keep" : subagentHandling,
+    request.includeUserMessages ?? false
+  );
+  let entries = subagents.entries;
+  const originalTurnCount = identifyTurns(entries).length;
+
+  // 2.5 Keep only the requested turn range
+  let turnRange: { fromTurn: number; toTurn: number } | undefined;
+  let handoff: { entry?: SessionEntry; stats: HandoffStats } | undefined;
+  if (request.fromTurn !== undefined || request.toTurn !== undefined) {
+    turnRange = { fromTurn: request.fromTurn ?? 0, toTurn: request.toTurn ?? originalTurnCount - 1 };
+    const rangeEntries = selectTurnRange(entries, turnRange.fromTurn, turnRange.toTurn);
+
+    // 2.6 Summarize the dropped leading turns into a handoff entry
+    if (request.handoffSummary && turnRange.fromTurn > 0) {
+      handoff = await summarizeTrimmedTurns(entries, turnRange.fromTurn, request.handoffSummary, request.dryRun);
+    }
+    entries = rangeEntries;
+  }
   const turns = identifyTurns(entries);
-  const originalTurnCount = turns.length;
+
+  // Pins are turn indices of the whole source file; carry them over by the
+  // uuid of each pinned turn's first entry, which survives branch and range selection
+  const sourceTurns = identifyTurns(parsed);
+  const pinnedUuids = new Set(
+    (await sessionPinService.getPins(request.sessionId))
+      .map((t) => (sourceTurns[t] ? parsed[sourceTurns[t].startIndex].uuid : undefined))
+      .filter((uuid): uuid is string => typeof uuid === "string")
+  );
+  const pinnedTurns = turns.flatMap((turn, index) => {
+    const uuid = entries[turn.startIndex].uuid;
+    return uuid && pinnedUuids.has(uuid) ? [index] : [];
+  });
 
   let compressionStats: CompressionStats | undefined;
   let compressionTasks: CompressionTask[] = [];
   let originalEntries: SessionEntry[] | undefined;
+  let compressionPlan: CompressionPlan | undefined;
   let debugLogPath: string | undefined;
 
   // 3. Apply compression if specified (BEFORE tool removal for accurate stats)
-  if (request.compressionBands && request.compressionBands.length > 0) {
+  if (request.dryRun && request.compressionBands && request.compressionBands.length > 0) {
+    compressionPlan = planCompression(
+      entries,
+      turns,
+      request.compressionBands,
+      loadCompressionConfig(),
+      request.includeUserMessages ?? false,
+      pinnedTurns
+    );
+  } else if (request.compressionBands && request.compressionBands.length > 0) {
     // Deep clone entries before compression if debug logging enabled
     if (request.debugLog) {
       originalEntries = JSON.parse(JSON.stringify(entries)) as SessionEntry[];
@@ -565,30 +891,80 @@ export async function cloneSessionV2(
       turns,
       request.compressionBands,
       compressionConfig,
-      request.includeUserMessages ?? false
+      request.includeUserMessages ?? false,
+      pinnedTurns
     );
     entries = compressionResult.entries;
     compressionStats = compressionResult.stats;
     compressionTasks = compressionResult.tasks;
   }
 
-  // 4. Apply tool/thinking removal
+  // 4. Apply tool/thinking/image removal
   const removalOptions: RemovalOptions = {
     toolRemoval: request.toolRemoval ?? 0,
     toolHandlingMode: request.toolHandlingMode ?? "remove",
     thinkingRemoval: request.thinkingRemoval ?? 0,
+    imageRemoval: request.imageRemoval ?? 0,
+    imageHandlingMode: request.imageHandlingMode ?? "placeholder",
+    toolPolicies: request.toolPolicies,
+    truncation: request.truncation && { ...DEFAULT_TRUNCATION_STRATEGY, ...request.truncation },
+    pinnedTurns,
   };
 
-  const {
-    entries: modifiedEntries,
-    toolCallsRemoved,
-    toolCallsTruncated,
-    thinkingBlocksRemoved,
-  } = applyRemovals(entries, removalOptions);
+  const removals = applyRemovals(entries, removalOptions);
+  const { toolCallsRemoved, toolCallsTruncated, thinkingBlocksRemoved, imagesRemoved, removedBlockIds } = removals;
+  let modifiedEntries = removals.entries;
+
+  // 4.2 Stub out Read results superseded by a later read of the same file
+  let readDeduplication: ReadDeduplicationStats | undefined;
+  if (request.dedupeReads) {
+    const deduplicated = deduplicateReads(modifiedEntries, pinnedTurns);
+    modifiedEntries = deduplicated.entries;
+    readDeduplication = deduplicated.stats;
+  }
+
+  // 4.5 Summarize the results of tools with a summarize policy
+  let toolSummarization: CompressionStats | undefined;
+  if (removals.toolUseIdsToSummarize.length > 0 && !request.dryRun) {
+    const summarized = await summarizeToolResults(
+      modifiedEntries,
+      removals.toolUseIdsToSummarize,
+      loadCompressionConfig()
+    );
+    modifiedEntries = summarized.entries;
+    toolSummarization = summarized.stats;
+  }
+
+  // 4.7 Put the handoff entry in front of the kept turns
+  if (handoff?.entry) {
+    modifiedEntries = insertHandoffEntry(modifiedEntries, handoff.entry);
+  }
 
   // 5. Repair UUID chain
   const repairedEntries = repairParentUuidChain(modifiedEntries);
 
+  if (request.dryRun) {
+    return {
+      success: true,
+      outputPath: "",
+      dryRun: true,
+      stats: {
+        originalTurnCount,
+        outputTurnCount: identifyTurns(repairedEntries).length,
+        toolCallsRemoved,
+        toolCallsTruncated: toolCallsTruncated > 0 ? toolCallsTruncated : undefined,
+        thinkingBlocksRemoved,
+        imagesRemoved: imagesRemoved > 0 ? imagesRemoved : undefined,
+        readDeduplication,
+        pinnedTurns: pinnedTurns.length > 0 ? pinnedTurns.length : undefined,
+        handoff: handoff?.stats,
+        subagentEntriesRemoved: subagents.entriesRemoved > 0 ? subagents.entriesRemoved : undefined,
+        turnRange,
+      },
+      preview: buildClonePreview(entries, repairedEntries, removedBlockIds, compressionPlan),
+    };
+  }
+
   // 6. Generate new session ID and update entries
   const newSessionId = randomUUID();
   const finalEntries = repairedEntries.map((entry) => ({
@@ -624,7 +1000,14 @@ export async function cloneSessionV2(
     thinkingRemoval: request.thinkingRemoval ?? 0,
     compressionBands: request.compressionBands,
     compressionStats,
+    turnRange,
+    leafUuid: request.leafUuid,
+    handoff: handoff?.stats,
   });
+  if (pinnedTurns.length > 0) {
+    // The handoff entry is a turn of its own, in front of the kept turns
+    await sessionPinService.setPins(newSessionId, pinnedTurns.map((t) => (handoff?.entry ? t + 1 : t)));
+  }
 
   // 10. Write debug log if requested
   if (request.debugLog && originalEntries && compressionTasks.length > 0) {
@@ -659,7 +1042,16 @@ export async function cloneSessionV2(
       toolCallsRemoved,
       toolCallsTruncated: toolCallsTruncated > 0 ? toolCallsTruncated : undefined,
       thinkingBlocksRemoved,
+      imagesRemoved: imagesRemoved > 0 ? imagesRemoved : undefined,
+      readDeduplication,
+      pinnedTurns: pinnedTurns.length > 0 ? pinnedTurns.length : undefined,
+      handoff: handoff?.stats,
       compression: compressionStats,
+      subagentEntriesRemoved: subagents.entriesRemoved > 0 ? subagents.entriesRemoved : undefined,
+      subagentCompression: subagents.compression,
+      toolSummarization,
+      turnRange,
+      outputTokens: countSessionTokens(finalEntries),
     },
   };
 }
@@ -0,0 +1,338 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { randomUUID } from "crypto";
+import { join } from "path";
+import type { ClaudeToCopilotRequest, CopilotToClaudeRequest } from "../schemas/convert.js";
+import type { ContentBlock, SessionEntry } from "../types.js";
+import type {
+  CopilotRequest,
+  CopilotResponseItem,
+  CopilotSession,
+  ToolCallResult,
+  ToolCallRound,
+  WorkspaceConfig,
+} from "../sources/copilot-types.js";
+import type { CopilotSessionSource } from "../sources/copilot-source.js";
+import { extractPathFromUri, resolveWorkspace } from "../sources/copilot-source.js";
+import { claudeProjectFolder } from "../sources/claude-source.js";
+import { getSessionSource } from "../sources/index.js";
+import { getClaudeRoots } from "../lib/claude-roots.js";
+import { shellQuote } from "../lib/shell-quote.js";
+import { copilotCloneService } from "./copilot-clone.js";
+import { findSessionFile, identifyTurns, parseSession } from "./session-clone.js";
+
+/** Tool result text written when a session recorded none for a call */
+const MISSING_RESULT = "(no result recorded)";
+
+export interface ConvertStats {
+  turns: number;
+  toolCalls: number;
+}
+
+/**
+ * Response payload for POST /api/convert/claude-to-copilot.
+ */
+export interface ClaudeToCopilotResponse {
+  sessionId: string;
+  sourceSessionId: string;
+  workspaceHash: string;
+  sessionPath: string;
+  backupPath: string;
+  stats: ConvertStats;
+}
+
+/**
+ * Response payload for POST /api/convert/copilot-to-claude.
+ */
+export interface CopilotToClaudeResponse {
+  sessionId: string;
+  sourceSessionId: string;
+  projectPath: string;
+  outputPath: string;
+  stats: ConvertStats;
+  /** Command that resumes the converted session */
+  command: string;
+}
+
+function blockText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return (content as ContentBlock[])
+    .filter((b) => b.type === "text" && typeof b.text === "string")
+    .map((b) => b.text as string)
+    .join("\n");
+}
+
+function resultText(result: ToolCallResult | undefined): string {
+  if (!result || !Array.isArray(result.content)) return MISSING_RESULT;
+  return result.content.map((c) => (typeof c.value === "string" ? c.value : JSON.stringify(c.value))).join("\n");
+}
+
+function parseArguments(raw: string): unknown {
+  try {
+    return JSON.parse(raw || "{}");
+  } catch {
+    // Arguments that are not valid JSON are carried as { arguments: raw }
+    return { arguments: raw };
+  }
+}
+
+function isMarkdown(item: CopilotResponseItem): boolean {
+  return (!item.kind || item.kind === "markdownContent") && typeof item.value === "string";
+}
+
+/**
+ * Convert a Copilot session to Claude entries. Each request becomes a user
+ * prompt followed, per tool call round, by an assistant entry with the
+ * round's text and tool_use blocks and a user entry with their
+ * tool_result blocks; the markdown the rounds did not already cover ends
+ * the turn. Canceled requests, and tool invocations without round
+ * metadata (which record no arguments or results), are left out.
+ */
+export function copilotToClaudeEntries(session: CopilotSession, sessionId: string, cwd: string): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  let parentUuid: string | null = null;
+  const push = (type: "user" | "assistant", content: ContentBlock[] | string, timestamp: number) => {
+    const entry: SessionEntry = {
+      type,
+      uuid: randomUUID(),
+      parentUuid,
+      sessionId,
+      timestamp: new Date(timestamp).toISOString(),
+      cwd,
+      isSidechain: false,
+      userType: "external",
+      message: { role: type, content },
+    };
+    entries.push(entry);
+    parentUuid = entry.uuid!;
+  };
+
+  for (const request of session.requests.filter((r) => !r.isCanceled)) {
+    const answeredAt = request.timestamp + (request.result?.timings?.totalElapsed ?? 0);
+    push("user", request.message.text, request.timestamp);
+
+    const rounds = request.result?.metadata?.toolCallRounds ?? [];
+    const results = request.result?.metadata?.toolCallResults ?? {};
+    for (const round of rounds) {
+      const content: ContentBlock[] = [];
+      if (round.response.trim()) content.push({ type: "text", text: round.response });
+      for (const call of round.toolCalls) {
+        content.push({ type: "tool_use", id: call.id, name: call.name, input: parseArguments(call.arguments) });
+      }
+      if (content.length === 0) continue;
+      push("assistant", content, answeredAt);
+      if (round.toolCalls.length > 0) {
+        push(
+          "user",
+          round.toolCalls.map((call) => ({ type: "tool_result", tool_use_id: call.id, content: resultText(results[call.id]) })),
+          answeredAt
+        );
+      }
+    }
+
+    const roundTexts = new Set(rounds.map((r) => r.response.trim()));
+    const text = request.response
+      .filter((item) => isMarkdown(item) && !roundTexts.has(String(item.value).trim()))
+      .map((item) => item.value as string)
+      .join("");
+    if (text.trim()) push("assistant", [{ type: "text", text }], answeredAt);
+  }
+
+  return entries;
+}
+
+/** A tool call round being collected from Claude entries */
+interface PendingRound {
+  texts: string[];
+  calls: ToolCallRound["toolCalls"];
+}
+
+/**
+ * Convert Claude entries to a Copilot session. Each turn becomes one
+ * request: assistant text and tool_use blocks are grouped into tool call
+ * rounds that end when their tool results come back, and tool results go
+ * to toolCallResults. Thinking, images, meta messages and subagent
+ * transcripts are left out.
+ */
+export function claudeToCopilotSession(entries: SessionEntry[], sessionId: string, title: string): CopilotSession {
+  const requests: CopilotRequest[] = [];
+
+  for (const turn of identifyTurns(entries)) {
+    const turnEntries = entries
+      .slice(turn.startIndex, turn.endIndex + 1)
+      .filter((e) => !e.isMeta && e.isSidechain !== true && e.message);
+    const [prompt, ...rest] = turnEntries;
+    const text = blockText(prompt.message!.content);
+    const timestamp = Date.parse(String(prompt.timestamp)) || Date.now();
+
+    const rounds: PendingRound[] = [];
+    let round: PendingRound = { texts: [], calls: [] };
+    const results: Record<string, ToolCallResult> = {};
+    for (const entry of rest) {
+      const content = entry.message!.content;
+      const blocks = Array.isArray(content) ? content : [{ type: "text", text: content ?? "" }];
+      if (entry.type === "assistant") {
+        for (const block of blocks) {
+          if (block.type === "text" && typeof block.text === "string" && block.text.trim()) {
+            round.texts.push(block.text);
+          } else if (block.type === "tool_use") {
+            round.calls.push({ name: String(block.name), arguments: JSON.stringify(block.input ?? {}), id: String(block.id) });
+          }
+        }
+        continue;
+      }
+      for (const block of blocks.filter((b) => b.type === "tool_result")) {
+        results[String(block.tool_use_id)] = { content: [{ value: blockText(block.content) }] };
+      }
+      if (round.calls.length > 0) {
+        rounds.push(round);
+        round = { texts: [], calls: [] };
+      }
+    }
+    if (round.texts.length > 0 || round.calls.length > 0) rounds.push(round);
+
+    const response: CopilotResponseItem[] = [];
+    for (const { texts, calls } of rounds) {
+      if (texts.length > 0) response.push({ value: texts.join("\n\n"), supportThemeIcons: false, supportHtml: false });
+      for (const call of calls) {
+        response.push({
+          kind: "toolInvocationSerialized",
+          invocationMessage: `Using "${call.name}"`,
+          pastTenseMessage: `Used "${call.name}"`,
+          isConfirmed: { type: 1 },
+          isComplete: true,
+          toolCallId: call.id,
+          toolId: call.name,
+        });
+      }
+    }
+
+    const requestId = randomUUID();
+    requests.push({
+      requestId: `request_${requestId}`,
+      responseId: `response_${requestId}`,
+      message: {
+        text,
+        parts: [{
+          range: { start: 0, endExclusive: text.length },
+          editorRange: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: text.length + 1 },
+          text,
+          kind: "text",
+        }],
+      },
+      variableData: { variables: [] },
+      response,
+      result: {
+        metadata: {
+          toolCallRounds: rounds.map((r, index) => ({
+            response: r.texts.join("\n\n"),
+            toolCalls: r.calls,
+            toolInputRetry: 0,
+            id: `round_${index + 1}`,
+          })),
+          toolCallResults: results,
+        },
+      },
+      isCanceled: false,
+      timestamp,
+    });
+  }
+
+  const now = Date.now();
+  return {
+    version: 3,
+    sessionId,
+    creationDate: requests[0]?.timestamp ?? now,
+    lastMessageDate: requests[requests.length - 1]?.timestamp ?? now,
+    customTitle: title,
+    isImported: false,
+    requests,
+    responderUsername: "GitHub Copilot",
+  };
+}
+
+function countToolUses(entries: SessionEntry[]): number {
+  return entries.reduce(
+    (sum, e) => sum + (e.type === "assistant" && Array.isArray(e.message?.content)
+      ? e.message!.content.filter((b) => b.type === "tool_use").length
+      : 0),
+    0
+  );
+}
+
+function countRoundToolCalls(session: CopilotSession): number {
+  return session.requests.reduce(
+    (sum, r) => sum + (r.result?.metadata?.toolCallRounds ?? []).reduce((n, round) => n + round.toolCalls.length, 0),
+    0
+  );
+}
+
+/**
+ * Carries a conversation between Claude Code and VS Code Copilot, so a
+ * task started in one can continue in the other. Converted sessions get
+ * new IDs; the originals are left untouched.
+ */
+export class SessionConvertService {
+  /**
+   * Convert a Claude session and write it to a Copilot workspace, through
+   * the same path as Copilot clones (session file plus state.vscdb index).
+   * @throws SessionNotFoundError if the Claude session does not exist
+   */
+  async claudeToCopilot(request: ClaudeToCopilotRequest): Promise<ClaudeToCopilotResponse> {
+    const entries = parseSession(await readFile(await findSessionFile(request.sessionId), "utf-8"));
+    const firstPrompt = identifyTurns(entries)[0];
+    const preview = firstPrompt ? blockText(entries[firstPrompt.startIndex].message?.content).trim().slice(0, 50) : "";
+    const session = claudeToCopilotSession(entries, copilotCloneService.generateSessionId(), `From Claude Code: ${preview || "(No message)"}`);
+
+    const { sessionPath, backupPath } = await copilotCloneService.writeSession(session, request.workspaceHash);
+    return {
+      sessionId: session.sessionId,
+      sourceSessionId: request.sessionId,
+      workspaceHash: request.workspaceHash,
+      sessionPath,
+      backupPath,
+      stats: {
+        turns: session.requests.length,
+        toolCalls: countRoundToolCalls(session),
+      },
+    };
+  }
+
+  /**
+   * Convert a Copilot session into a Claude session under the primary
+   * root's project folder for projectPath (default: the workspace folder).
+   * @throws ENOENT error if the Copilot session does not exist
+   */
+  async copilotToClaude(request: CopilotToClaudeRequest): Promise<CopilotToClaudeResponse> {
+    const source = getSessionSource("copilot") as CopilotSessionSource;
+    const session = await source.loadSession(request.sessionId, request.workspaceHash);
+    const projectPath = request.projectPath ?? (await this.workspaceFolder(request.workspaceHash));
+
+    const sessionId = randomUUID();
+    const entries = copilotToClaudeEntries(session, sessionId, projectPath);
+    const projectDir = join(getClaudeRoots()[0].projectsDir, claudeProjectFolder(projectPath));
+    const outputPath = join(projectDir, `${sessionId}.jsonl`);
+    await mkdir(projectDir, { recursive: true });
+    await writeFile(outputPath, entries.map((e) => JSON.stringify(e)).join("\n") + "\n", "utf-8");
+
+    return {
+      sessionId,
+      sourceSessionId: request.sessionId,
+      projectPath,
+      outputPath,
+      stats: {
+        turns: session.requests.filter((r) => !r.isCanceled).length,
+        toolCalls: countToolUses(entries),
+      },
+      command: `cd ${shellQuote(projectPath)} && claude --resume ${sessionId}`,
+    };
+  }
+
+  private async workspaceFolder(workspaceHash: string): Promise<string> {
+    const { workspacePath } = resolveWorkspace(workspaceHash);
+    const workspace = JSON.parse(await readFile(join(workspacePath, "workspace.json"), "utf-8")) as WorkspaceConfig;
+    return extractPathFromUri(workspace.folder);
+  }
+}
+
+export const sessionConvertService = new SessionConvertService();
@@ -0,0 +1,221 @@
+import { mkdir, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { basename, join } from "path";
+import { randomUUID } from "crypto";
+import { ImportError, SessionNotFoundError } from "../errors.js";
+import { isArchiveName, readArchive } from "../lib/archive.js";
+import type { ArchiveFile } from "../lib/archive.js";
+import { claudeFolderId, getImportClaudeRoot } from "../lib/claude-roots.js";
+import { claudeProjectFolder, decodeFolderName } from "../sources/claude-source.js";
+import { getSessionSource } from "../sources/index.js";
+import { getImportInstall, workspaceFolderId } from "../sources/copilot-source.js";
+import type { CopilotSessionSource } from "../sources/copilot-source.js";
+import type { CopilotSession } from "../sources/copilot-types.js";
+import type { SessionEntry } from "../types.js";
+import { findSessionFile } from "./session-clone.js";
+
+/** Largest accepted upload, and largest total size of an archive's contents */
+export const IMPORT_MAX_BYTES = parseInt(process.env.IMPORT_MAX_BYTES || String(100 * 1024 * 1024), 10);
+
+/** Workspace that every imported Copilot session is filed under */
+const COPILOT_IMPORT_WORKSPACE = "imported";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ImportedSession {
+  source: "claude" | "copilot";
+  sessionId: string;
+  /** Project folder (Claude) or workspace folder identifier (Copilot) */
+  folder: string;
+  projectPath: string;
+  /** File name in the upload */
+  file: string;
+  /** Whether the session got a new ID because its own was already taken */
+  renamed: boolean;
+  /** Session detail page URL */
+  url: string;
+}
+
+export interface SkippedImport {
+  file: string;
+  reason: string;
+}
+
+export interface ImportResponse {
+  imported: ImportedSession[];
+  skipped: SkippedImport[];
+}
+
+function detailUrl(source: ImportedSession["source"], sessionId: string, workspace?: string): string {
+  const params = new URLSearchParams({ id: sessionId, source });
+  if (workspace) params.set("workspace", workspace);
+  return `/session-detail?${params}`;
+}
+
+/**
+ * Imports uploaded Claude and Copilot sessions into a managed import area
+ * (IMPORT_DIR, default ~/.claude/imports). The area is browsed as the
+ * "imports" Claude root and the "imports" VS Code install, so imported
+ * sessions work with every endpoint that finds sessions by ID.
+ */
+export class SessionImportService {
+  /**
+   * Import a Claude .jsonl, a Copilot .json, or a .zip/.tar.gz of several.
+   * Files in an archive that are not sessions are skipped, not fatal.
+   * @throws ImportError if nothing in the upload could be imported
+   */
+  async import(filename: string, data: Buffer): Promise<ImportResponse> {
+    const archive = isArchiveName(filename);
+    let files: ArchiveFile[];
+    if (archive) {
+      try {
+        files = readArchive(filename, data, IMPORT_MAX_BYTES).filter((f) => !this.isJunk(f.name));
+      } catch (error) {
+        throw new ImportError(error instanceof Error ? error.message : `Unreadable archive: ${filename}`);
+      }
+    } else {
+      files = [{ name: filename, data }];
+    }
+
+    const response: ImportResponse = { imported: [], skipped: [] };
+    for (const file of files) {
+      try {
+        const imported = await this.importFile(file);
+        if (imported) response.imported.push(imported);
+      } catch (error) {
+        response.skipped.push({ file: file.name, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (response.imported.length === 0) {
+      throw new ImportError(
+        archive ? `No sessions found in ${filename}` : response.skipped[0]?.reason ?? `Nothing to import in ${filename}`
+      );
+    }
+    return response;
+  }
+
+  /**
+   * Import one file. Subagent transcripts (agent-*.jsonl) are stored next
+   * to their session but not reported as sessions.
+   */
+  private async importFile(file: ArchiveFile): Promise<ImportedSession | null> {
+    if (/\.jsonl$/i.test(file.name)) {
+      return this.importClaude(file);
+    }
+    if (/\.json$/i.test(file.name)) {
+      return this.importCopilot(file);
+    }
+    throw new Error("Unsupported file type, expected .jsonl, .json, .zip or .tar.gz");
+  }
+
+  private async importClaude(file: ArchiveFile): Promise<ImportedSession | null> {
+    let entries: SessionEntry[] = [];
+    for (const line of file.data.toString("utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as SessionEntry);
+      } catch {
+        // Skip malformed lines, e.g. a last line cut off mid-write
+      }
+    }
+    if (!entries.some((e) => typeof e.type === "string")) {
+      throw new Error("Not a Claude session: no session entries");
+    }
+
+    const name = basename(file.name, ".jsonl");
+    const cwd = entries.find((e) => typeof e.cwd === "string" && e.cwd)?.cwd as string | undefined;
+    const folder = cwd ? claudeProjectFolder(cwd) : "-imported";
+    const projectDir = join(getImportClaudeRoot().projectsDir, folder);
+    await mkdir(projectDir, { recursive: true });
+
+    if (name.startsWith("agent-")) {
+      await writeFile(join(projectDir, `${name}.jsonl`), file.data);
+      return null;
+    }
+
+    const recordedId = entries.find((e) => typeof e.sessionId === "string" && UUID_PATTERN.test(e.sessionId))?.sessionId;
+    let sessionId = UUID_PATTERN.test(name) ? name : recordedId ?? randomUUID();
+    let renamed = false;
+    if (await this.claudeSessionExists(sessionId)) {
+      sessionId = randomUUID();
+      renamed = true;
+      entries = entries.map((entry) => (entry.sessionId != null ? { ...entry, sessionId } : entry));
+    }
+
+    const content = renamed ? entries.map((e) => JSON.stringify(e)).join("\n") + "\n" : file.data;
+    await writeFile(join(projectDir, `${sessionId}.jsonl`), content);
+
+    return {
+      source: "claude",
+      sessionId,
+      folder: claudeFolderId(getImportClaudeRoot(), folder),
+      projectPath: cwd ?? decodeFolderName(folder),
+      file: file.name,
+      renamed,
+      url: detailUrl("claude", sessionId),
+    };
+  }
+
+  private async importCopilot(file: ArchiveFile): Promise<ImportedSession> {
+    let session: CopilotSession;
+    try {
+      session = JSON.parse(file.data.toString("utf-8")) as CopilotSession;
+    } catch {
+      throw new Error("Not valid JSON");
+    }
+    if (!session || typeof session !== "object" || !Array.isArray(session.requests)) {
+      throw new Error("Not a Copilot chat session: missing requests");
+    }
+
+    const name = basename(file.name, ".json");
+    let sessionId = UUID_PATTERN.test(session.sessionId ?? "")
+      ? session.sessionId
+      : UUID_PATTERN.test(name) ? name : randomUUID();
+    let renamed = false;
+    if (await (getSessionSource("copilot") as CopilotSessionSource).findSession(sessionId)) {
+      sessionId = randomUUID();
+      renamed = true;
+    }
+
+    const install = getImportInstall();
+    const workspacePath = join(install.storagePath, COPILOT_IMPORT_WORKSPACE);
+    await mkdir(join(workspacePath, "chatSessions"), { recursive: true });
+    const workspaceJson = join(workspacePath, "workspace.json");
+    if (!existsSync(workspaceJson)) {
+      await writeFile(workspaceJson, JSON.stringify({ folder: `file:///${COPILOT_IMPORT_WORKSPACE}` }));
+    }
+    await writeFile(
+      join(workspacePath, "chatSessions", `${sessionId}.json`),
+      JSON.stringify({ ...session, sessionId, isImported: true }, null, 2)
+    );
+
+    const folder = workspaceFolderId(install, COPILOT_IMPORT_WORKSPACE);
+    return {
+      source: "copilot",
+      sessionId,
+      folder,
+      projectPath: `/${COPILOT_IMPORT_WORKSPACE}`,
+      file: file.name,
+      renamed,
+      url: detailUrl("copilot", sessionId, folder),
+    };
+  }
+
+  private async claudeSessionExists(sessionId: string): Promise<boolean> {
+    try {
+      await findSessionFile(sessionId);
+      return true;
+    } catch (error) {
+      if (error instanceof SessionNotFoundError) return false;
+      throw error;
+    }
+  }
+
+  /** Metadata files added by archivers, e.g. macOS Finder */
+  private isJunk(name: string): boolean {
+    return name.includes("__MACOSX/") || basename(name).startsWith(".");
+  }
+}
+
+export const sessionImportService = new SessionImportService();
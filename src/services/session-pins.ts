@@ -0,0 +1,76 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { config } from "../config.js";
+
+/**
+ * Response payload for the session pins endpoints.
+ */
+export interface SessionPinsResponse {
+  sessionId: string;
+  /** Pinned turns, 0-based and sorted */
+  pinnedTurns: number[];
+}
+
+/**
+ * Pinned turns per session ID, kept in a small JSON file (PINS_PATH,
+ * default ~/.claude/session-pins.json). Clones leave pinned turns alone:
+ * no tool, thinking or image removal and no compression band applies to
+ * them, and the clone inherits the pins.
+ *
+ * Pins never block a clone: an unreadable file is logged and read as no
+ * pins. Updates are serialized and written through a temp file, so a
+ * crash mid-write leaves the previous file in place.
+ */
+export class SessionPinService {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  async getPins(sessionId: string): Promise<number[]> {
+    return (await this.load())[sessionId] ?? [];
+  }
+
+  /**
+   * Replace the pinned turns of a session. An empty list removes the session.
+   */
+  setPins(sessionId: string, pinnedTurns: number[]): Promise<SessionPinsResponse> {
+    const update = this.writes.then(() => this.update(sessionId, pinnedTurns));
+    this.writes = update.catch(() => undefined);
+    return update;
+  }
+
+  private async update(sessionId: string, pinnedTurns: number[]): Promise<SessionPinsResponse> {
+    const pins = await this.load();
+    const sorted = [...new Set(pinnedTurns)].sort((a, b) => a - b);
+    if (sorted.length > 0) {
+      pins[sessionId] = sorted;
+    } else {
+      delete pins[sessionId];
+    }
+    const pinsPath = config.pinsPath;
+    const tempPath = `${pinsPath}.${process.pid}.tmp`;
+    await mkdir(dirname(pinsPath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(pins, null, 2) + "\n", "utf-8");
+    await rename(tempPath, pinsPath);
+    return { sessionId, pinnedTurns: sorted };
+  }
+
+  private async load(): Promise<Record<string, number[]>> {
+    let content: string;
+    try {
+      content = await readFile(config.pinsPath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+
+    try {
+      const pins: unknown = JSON.parse(content);
+      if (pins && typeof pins === "object" && !Array.isArray(pins)) return pins as Record<string, number[]>;
+    } catch {
+      // Reported below
+    }
+    console.warn(`[session-pins] Ignoring unreadable pins file ${config.pinsPath}`);
+    return {};
+  }
+}
+
+export const sessionPinService = new SessionPinService();
@@ -0,0 +1,259 @@
+import { cp, mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import { randomUUID } from "crypto";
+import { dirname, join } from "path";
+import type { RelocateRequest } from "../schemas/relocate.js";
+import type { ContentBlock, SessionEntry } from "../types.js";
+import { RelocateError, SessionExistsError } from "../errors.js";
+import { getClaudeRoots } from "../lib/claude-roots.js";
+import { shellQuote } from "../lib/shell-quote.js";
+import { claudeProjectFolder } from "../sources/claude-source.js";
+import { findSessionFile } from "./session-clone.js";
+
+/**
+ * Response payload for POST /api/session/:id/relocate.
+ */
+export interface RelocateResponse {
+  sessionId: string;
+  /** Session that was relocated; differs from sessionId for a copy */
+  sourceSessionId: string;
+  mode: RelocateRequest["mode"];
+  /** Project path the session was recorded under, null if no entry has a cwd */
+  fromPath: string | null;
+  projectPath: string;
+  /** Project folder under the primary Claude root */
+  folder: string;
+  path: string;
+  entriesUpdated: number;
+  toolPathsRewritten: number;
+  subagentsRelocated: number;
+  /** Command that resumes the session from its new checkout */
+  command: string;
+}
+
+/** How entries are rewritten for the new location */
+interface Rewrite {
+  fromPath: string | null;
+  toPath: string;
+  /** Matches fromPath as a whole path, not as a prefix of a longer name */
+  pathPattern: RegExp | null;
+  sourceSessionId: string;
+  sessionId: string;
+  rewriteToolPaths: boolean;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Map a cwd under the old project path to the same place under the new
+ * one. A cwd outside the old project becomes the new project path.
+ */
+function relocateCwd(cwd: string, rewrite: Rewrite): string {
+  const { fromPath, toPath } = rewrite;
+  if (fromPath && (cwd === fromPath || cwd.startsWith(`${fromPath}/`))) {
+    return toPath + cwd.slice(fromPath.length);
+  }
+  return toPath;
+}
+
+/**
+ * Replace the old project path in every string of a tool input.
+ * @returns the rewritten value and the number of paths replaced
+ */
+function relocateValue(value: unknown, rewrite: Rewrite): { value: unknown; count: number } {
+  if (typeof value === "string") {
+    let count = 0;
+    const replaced = value.replace(rewrite.pathPattern!, () => {
+      count++;
+      return rewrite.toPath;
+    });
+    return { value: replaced, count };
+  }
+  if (Array.isArray(value)) {
+    const items = value.map((item) => relocateValue(item, rewrite));
+    return { value: items.map((i) => i.value), count: items.reduce((sum, i) => sum + i.count, 0) };
+  }
+  if (value && typeof value === "object") {
+    const fields = Object.entries(value).map(([key, field]) => [key, relocateValue(field, rewrite)] as const);
+    return {
+      value: Object.fromEntries(fields.map(([key, field]) => [key, field.value])),
+      count: fields.reduce((sum, [, field]) => sum + field.count, 0),
+    };
+  }
+  return { value, count: 0 };
+}
+
+/**
+ * Rewrite one JSONL line. Lines that do not parse are kept as they are.
+ */
+function relocateLine(line: string, rewrite: Rewrite): { line: string; changed: boolean; toolPaths: number } {
+  let entry: SessionEntry;
+  try {
+    entry = JSON.parse(line) as SessionEntry;
+  } catch {
+    return { line, changed: false, toolPaths: 0 };
+  }
+
+  let toolPaths = 0;
+  const updated: SessionEntry = { ...entry };
+  if (typeof entry.cwd === "string") {
+    updated.cwd = relocateCwd(entry.cwd, rewrite);
+  }
+  if (entry.sessionId === rewrite.sourceSessionId) {
+    updated.sessionId = rewrite.sessionId;
+  }
+  const content = entry.message?.content;
+  if (rewrite.rewriteToolPaths && rewrite.pathPattern && Array.isArray(content)) {
+    updated.message = {
+      ...entry.message!,
+      content: content.map((block: ContentBlock) => {
+        if (block.type !== "tool_use" || block.input === undefined) return block;
+        const { value, count } = relocateValue(block.input, rewrite);
+        toolPaths += count;
+        return count > 0 ? { ...block, input: value } : block;
+      }),
+    };
+  }
+
+  const relocated = JSON.stringify(updated);
+  const changed = relocated !== JSON.stringify(entry);
+  return { line: changed ? relocated : line, changed, toolPaths };
+}
+
+async function relocateFile(from: string, to: string, rewrite: Rewrite): Promise<{ entriesUpdated: number; toolPathsRewritten: number }> {
+  const lines = (await readFile(from, "utf-8")).split("\n");
+  let entriesUpdated = 0;
+  let toolPathsRewritten = 0;
+  const output = lines.map((line) => {
+    if (!line.trim()) return line;
+    const result = relocateLine(line, rewrite);
+    if (result.changed) entriesUpdated++;
+    toolPathsRewritten += result.toolPaths;
+    return result.line;
+  });
+  await writeFile(to, output.join("\n"), "utf-8");
+  return { entriesUpdated, toolPathsRewritten };
+}
+
+/**
+ * Moves or copies Claude sessions into the project folder of another
+ * checkout, e.g. after moving a repo or switching to a git worktree.
+ * Claude finds sessions to resume by the encoded cwd, so the session is
+ * written under the primary root's projects/<encoded target path> and
+ * every entry's cwd is rewritten to match.
+ */
+export class SessionRelocateService {
+  /**
+   * Relocate a session. A move keeps the session ID and removes the
+   * original; a copy gets a new ID. The session's subagents folder goes
+   * with it.
+   * @throws SessionNotFoundError if the session does not exist
+   * @throws RelocateError if the session already belongs to the target folder
+   * @throws SessionExistsError if the target folder already has the session
+   */
+  async relocate(sessionId: string, request: RelocateRequest): Promise<RelocateResponse> {
+    const sourceFile = await findSessionFile(sessionId);
+    const sourceDir = dirname(sourceFile);
+
+    const folder = claudeProjectFolder(request.targetPath);
+    const targetDir = join(getClaudeRoots()[0].projectsDir, folder);
+    const newSessionId = request.mode === "copy" ? randomUUID() : sessionId;
+    const targetFile = join(targetDir, `${newSessionId}.jsonl`);
+    if (request.mode === "move" && sourceDir === targetDir) {
+      throw new RelocateError(`Session ${sessionId} is already in ${folder}`);
+    }
+    if (await exists(targetFile)) {
+      throw new SessionExistsError(newSessionId, targetFile);
+    }
+    const sourceFolder = join(sourceDir, sessionId);
+    const targetFolder = join(targetDir, newSessionId);
+    if ((await exists(sourceFolder)) && (await exists(targetFolder))) {
+      throw new SessionExistsError(newSessionId, targetFolder);
+    }
+
+    const fromPath = this.recordedCwd(await readFile(sourceFile, "utf-8"));
+    const rewrite: Rewrite = {
+      fromPath,
+      toPath: request.targetPath,
+      pathPattern: fromPath ? new RegExp(`${escapeRegExp(fromPath)}(?![\\w.-])`, "g") : null,
+      sourceSessionId: sessionId,
+      sessionId: newSessionId,
+      rewriteToolPaths: request.rewriteToolPaths,
+    };
+
+    await mkdir(targetDir, { recursive: true });
+    const stats = await relocateFile(sourceFile, targetFile, rewrite);
+    const subagentsRelocated = await this.relocateSessionFolder(sourceFolder, targetFolder, request.mode, rewrite);
+    if (request.mode === "move") {
+      await unlink(sourceFile);
+    }
+
+    return {
+      sessionId: newSessionId,
+      sourceSessionId: sessionId,
+      mode: request.mode,
+      fromPath,
+      projectPath: request.targetPath,
+      folder,
+      path: targetFile,
+      ...stats,
+      subagentsRelocated,
+      command: `cd ${shellQuote(request.targetPath)} && claude --resume ${newSessionId}`,
+    };
+  }
+
+  /**
+   * The first cwd recorded in a session, taken as its project path.
+   */
+  private recordedCwd(content: string): string | null {
+    for (const line of content.split("\n")) {
+      if (!line.includes('"cwd"')) continue;
+      try {
+        const entry = JSON.parse(line) as SessionEntry;
+        if (typeof entry.cwd === "string" && entry.cwd) return entry.cwd;
+      } catch {
+        // Skip malformed lines
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Move or copy the folder Claude keeps next to a session (subagent
+   * transcripts and the like), then rewrite its subagent transcripts.
+   * @returns the number of subagent transcripts relocated
+   */
+  private async relocateSessionFolder(from: string, to: string, mode: RelocateRequest["mode"], rewrite: Rewrite): Promise<number> {
+    if (!(await exists(from))) return 0;
+
+    if (mode === "move") {
+      await rename(from, to);
+    } else {
+      await cp(from, to, { recursive: true });
+    }
+
+    const subagentsDir = join(to, "subagents");
+    let names: string[];
+    try {
+      names = (await readdir(subagentsDir)).filter((n) => n.startsWith("agent-") && n.endsWith(".jsonl"));
+    } catch {
+      return 0;
+    }
+    for (const name of names) {
+      await relocateFile(join(subagentsDir, name), join(subagentsDir, name), rewrite);
+    }
+    return names.length;
+  }
+}
+
+export const sessionRelocateService = new SessionRelocateService();
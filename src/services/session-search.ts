@@ -0,0 +1,168 @@
+import { readFile } from "fs/promises";
+import { basename, dirname, join } from "path";
+import { getSearchIndex } from "../lib/search-index.js";
+import type { SearchDocument, SearchFile, SearchFilters, SearchHit } from "../lib/search-index.js";
+import { listSessionFiles } from "./session-watcher.js";
+import type { SessionFile } from "./session-watcher.js";
+import { identifyTurns } from "./session-clone.js";
+import { extractTurnContent } from "./session-turns.js";
+import { copilotStructureService } from "./copilot-structure.js";
+import { recoverProjectPath } from "../sources/claude-source.js";
+import { extractPathFromUri } from "../sources/copilot-source.js";
+import type { CopilotSession, WorkspaceConfig } from "../sources/copilot-types.js";
+import type { SessionEntry, TurnContent } from "../types.js";
+
+/**
+ * Search hit with a link to the matching turn.
+ */
+export interface SearchResult extends SearchHit {
+  /** Session detail page URL, opened at the matching turn */
+  url: string;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}
+
+/**
+ * Build the session detail URL for a hit. Turns are 1-based in the UI.
+ */
+export function buildResultUrl(hit: SearchHit): string {
+  const params = new URLSearchParams({ id: hit.sessionId, source: hit.source });
+  if (hit.source === "copilot") {
+    params.set("workspace", hit.folder);
+  }
+  params.set("turn", String(hit.turnIndex + 1));
+  return `/session-detail?${params}`;
+}
+
+/**
+ * Split a turn into one document per role.
+ * Tool documents hold tool names and their inputs.
+ */
+function turnDocuments(turnIndex: number, timestamp: number | null, content: TurnContent): SearchDocument[] {
+  const tools = content.toolBlocks.map((t) => `${t.name} ${t.content}`).join("\n");
+  return [
+    { turnIndex, role: "user" as const, timestamp, text: content.userPrompt },
+    { turnIndex, role: "assistant" as const, timestamp, text: content.assistantResponse },
+    { turnIndex, role: "tool" as const, timestamp, text: tools },
+  ].filter((doc) => doc.text.trim());
+}
+
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Extract searchable documents from a Claude session file.
+ * Turn numbering matches the session turns endpoint.
+ */
+export function claudeSearchDocuments(content: string): SearchDocument[] {
+  const entries: SessionEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as SessionEntry);
+    } catch {
+      // Skip malformed lines
+    }
+  }
+
+  return identifyTurns(entries).flatMap((turn, index) =>
+    turnDocuments(index, parseTimestamp(entries[turn.startIndex]?.timestamp), extractTurnContent(entries, turn))
+  );
+}
+
+/**
+ * Extract searchable documents from a Copilot session.
+ * Turn numbering matches the Copilot turns endpoint.
+ */
+export function copilotSearchDocuments(session: CopilotSession): SearchDocument[] {
+  const requests = session.requests.filter((r) => !r.isCanceled);
+  return copilotStructureService.buildTurns(session).flatMap((turn, index) =>
+    turnDocuments(index, parseTimestamp(requests[index]?.timestamp), turn.content)
+  );
+}
+
+/**
+ * Full-text search across Claude and Copilot sessions.
+ * Each search first brings the index up to date with the files on disk,
+ * re-parsing only files whose mtime or size changed.
+ */
+export class SessionSearchService {
+  private refreshing: Promise<void> | null = null;
+
+  async search(query: string, filters: SearchFilters = {}): Promise<SearchResponse> {
+    await this.refresh();
+    const hits = getSearchIndex().search(query, filters);
+    return {
+      query,
+      results: hits.map((hit) => ({ ...hit, url: buildResultUrl(hit) })),
+    };
+  }
+
+  /**
+   * Index new and changed session files and drop deleted ones.
+   * Concurrent calls share one refresh.
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async runRefresh(): Promise<void> {
+    const index = getSearchIndex();
+    const files = await listSessionFiles();
+    const projectPaths = new Map<string, string>();
+
+    for (const file of files) {
+      if (index.isCurrent(file.path, file)) continue;
+
+      try {
+        const content = await readFile(file.path, "utf-8");
+        const projectPath = await this.projectPath(file, projectPaths);
+        const searchFile: SearchFile = { ...file, projectPath };
+        const documents = file.source === "claude"
+          ? claudeSearchDocuments(content)
+          : copilotSearchDocuments(JSON.parse(content) as CopilotSession);
+        index.indexFile(searchFile, file, documents);
+      } catch (error) {
+        console.warn(`[session-search] Failed to index ${file.path}:`, error);
+      }
+    }
+
+    index.removeMissing(files.map((file) => file.path));
+  }
+
+  private async projectPath(file: SessionFile, cache: Map<string, string>): Promise<string> {
+    const key = `${file.source}:${file.folder}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    let projectPath: string;
+    if (file.source === "claude") {
+      const projectDir = dirname(file.path);
+      projectPath = await recoverProjectPath(projectDir, basename(projectDir));
+    } else {
+      try {
+        const workspaceJson = join(dirname(dirname(file.path)), "workspace.json");
+        const config = JSON.parse(await readFile(workspaceJson, "utf-8")) as WorkspaceConfig;
+        projectPath = extractPathFromUri(config.folder);
+      } catch {
+        projectPath = file.folder;
+      }
+    }
+
+    cache.set(key, projectPath);
+    return projectPath;
+  }
+}
+
+export const sessionSearchService = new SessionSearchService();
@@ -1,11 +1,12 @@
 import { findSessionFile, parseSession } from "./session-clone.js";
 import { estimateTokens } from "./compression.js";
 import type { SessionEntry, ContentBlock } from "../types.js";
+import { countImageTokens } from "../lib/image-tokens.js";
 
 /**
  * Structure entry types for visualization
  */
-export type StructureEntryType = "user" | "assistant" | "tool" | "thinking";
+export type StructureEntryType = "user" | "assistant" | "tool" | "thinking" | "image";
 
 /**
  * A single entry in the session structure for visualization
@@ -26,18 +27,23 @@ export interface SessionStructure {
   entries: StructureEntry[];
 }
 
+type BlockType = "text" | "tool" | "thinking" | "image";
+
 /**
  * Classify a content block into a visualization type.
  * Returns the block type category for grouping purposes.
  */
-function classifyBlock(block: ContentBlock): "text" | "tool" | "thinking" {
+function classifyBlock(block: ContentBlock): BlockType {
   if (block.type === "thinking") {
     return "thinking";
   }
   if (block.type === "tool_use" || block.type === "tool_result") {
     return "tool";
   }
-  // text, image, and other block types map to text
+  if (block.type === "image") {
+    return "image";
+  }
+  // text and other block types map to text
   return "text";
 }
 
@@ -81,13 +87,31 @@ function getBlockText(block: ContentBlock): string {
  * Map internal block type to visualization entry type based on parent entry type.
  */
 function mapToEntryType(
-  blockType: "text" | "tool" | "thinking",
+  blockType: BlockType,
   parentType: "user" | "assistant"
 ): StructureEntryType {
-  if (blockType === "thinking") return "thinking";
-  if (blockType === "tool") return "tool";
   // "text" maps to parent type (user or assistant)
-  return parentType;
+  if (blockType === "text") return parentType;
+  return blockType;
+}
+
+/**
+ * Split a block into typed token counts. Images inside a tool result are
+ * counted as a separate image part after the tool's text.
+ */
+function blockParts(block: ContentBlock): { type: BlockType; tokens: number }[] {
+  const blockType = classifyBlock(block);
+  if (blockType === "image") {
+    return [{ type: "image", tokens: countImageTokens(block) }];
+  }
+  const parts: { type: BlockType; tokens: number }[] = [
+    { type: blockType, tokens: estimateTokens(getBlockText(block)) },
+  ];
+  const imageTokens = countImageTokens(block);
+  if (imageTokens > 0) {
+    parts.push({ type: "image", tokens: imageTokens });
+  }
+  return parts;
 }
 
 /**
@@ -101,14 +125,10 @@ function processArrayContent(
 ): StructureEntry[] {
   const entries: StructureEntry[] = [];
 
-  let currentBlockType: "text" | "tool" | "thinking" | null = null;
+  let currentBlockType: BlockType | null = null;
   let currentTokens = 0;
 
-  for (const block of content) {
-    const blockType = classifyBlock(block);
-    const blockText = getBlockText(block);
-    const blockTokens = estimateTokens(blockText);
-
+  for (const { type: blockType, tokens: blockTokens } of content.flatMap(blockParts)) {
     if (blockType !== currentBlockType && currentBlockType !== null) {
       // Emit previous group
       if (currentTokens > 0) {
@@ -11,9 +11,14 @@ import {
 } from "../types.js";
 import { findSessionFile, parseSession, identifyTurns } from "./session-clone.js";
 import { estimateTokens } from "./compression.js";
+import { selectBranch } from "./conversation-tree.js";
+import { countImageTokens } from "../lib/image-tokens.js";
+import { sessionPinService } from "./session-pins.js";
+import type { SessionPinsResponse } from "./session-pins.js";
 
-export function classifyBlock(block: ContentBlock): "text" | "thinking" | "tool" {
+export function classifyBlock(block: ContentBlock): "text" | "thinking" | "tool" | "image" {
   if (block.type === "thinking") return "thinking";
+  if (block.type === "image") return "image";
   if (block.type === "tool_use" || block.type === "tool_result") return "tool";
   return "text";
 }
@@ -23,7 +28,7 @@ export function calculateCumulativeTokens(
   turns: Turn[],
   upToTurnIndex: number
 ): TokensByType {
-  const result: TokensByType = { user: 0, assistant: 0, thinking: 0, tool: 0, total: 0 };
+  const result: TokensByType = { user: 0, assistant: 0, thinking: 0, tool: 0, image: 0, total: 0 };
 
   const maxTurnIndex = Math.min(upToTurnIndex, turns.length - 1);
   if (maxTurnIndex < 0) {
@@ -35,8 +40,8 @@ export function calculateCumulativeTokens(
     for (let idx = turn.startIndex; idx <= turn.endIndex; idx++) {
       const entry = entries[idx];
 
-      // Skip meta or non-message entries
-      if (!entry || entry.isMeta) continue;
+      // Skip meta or non-message entries; subagent transcripts are counted separately
+      if (!entry || entry.isMeta || entry.isSidechain === true) continue;
       if (entry.type === "summary" || entry.type === "file-history-snapshot") continue;
       if (!entry.message) continue;
 
@@ -56,7 +61,9 @@ export function calculateCumulativeTokens(
       // Array content
       if (Array.isArray(content)) {
         for (const block of content) {
-          // Skip images entirely for token accounting
+          // Images are billed by size, not by their base64 text
+          const imageTokens = countImageTokens(block);
+          result.image += imageTokens;
           if (block.type === "image") {
             continue;
           }
@@ -68,7 +75,7 @@ export function calculateCumulativeTokens(
                 ? (block as any).thinking
                 : typeof (block as any).content === "string"
                   ? (block as any).content
-                  : JSON.stringify(block);
+                  : JSON.stringify(imageTokens > 0 ? { ...block, content: withoutImages(block) } : block);
 
           const tokens = estimateTokens(text);
 
@@ -96,10 +103,14 @@ export function calculateCumulativeTokens(
     }
   }
 
-  result.total = result.user + result.assistant + result.thinking + result.tool;
+  result.total = result.user + result.assistant + result.thinking + result.tool + result.image;
   return result;
 }
 
+function withoutImages(block: ContentBlock): unknown[] {
+  return ((block as any).content as unknown[]).filter((item: any) => item?.type !== "image");
+}
+
 export function extractTurnContent(entries: SessionEntry[], turn: Turn): TurnContent {
   let userPrompt = "";
   let assistantResponse = "";
@@ -109,7 +120,7 @@ export function extractTurnContent(entries: SessionEntry[], turn: Turn): TurnCon
 
   for (let idx = turn.startIndex; idx <= turn.endIndex; idx++) {
     const entry = entries[idx];
-    if (!entry || entry.isMeta || !entry.message) continue;
+    if (!entry || entry.isMeta || entry.isSidechain === true || !entry.message) continue;
 
     const content = entry.message.content;
 
@@ -173,7 +184,23 @@ function stringifyBlockContent(block: ContentBlock): string {
   return JSON.stringify(block);
 }
 
-export async function getSessionTurns(sessionId: string): Promise<SessionTurnsResponse> {
+/**
+ * Build per-turn cumulative token data for a list of session entries.
+ * Shared by every source that normalizes into SessionEntry[].
+ */
+export function buildTurnsData(entries: SessionEntry[]): TurnData[] {
+  const turns = identifyTurns(entries);
+  return turns.map((turn, idx) => ({
+    turnIndex: idx,
+    cumulative: calculateCumulativeTokens(entries, turns, idx),
+    content: extractTurnContent(entries, turn),
+  }));
+}
+
+/**
+ * Turn data of a session, or of one of its branches when leafUuid is given.
+ */
+export async function getSessionTurns(sessionId: string, leafUuid?: string): Promise<SessionTurnsResponse> {
   let sessionPath: string;
   try {
     sessionPath = await findSessionFile(sessionId);
@@ -185,19 +212,62 @@ export async function getSessionTurns(sessionId: string): Promise<SessionTurnsRe
   }
 
   const content = await fs.readFile(sessionPath, "utf-8");
-  const entries = parseSession(content);
-  const turns = identifyTurns(entries);
-
-  const turnsData: TurnData[] = turns.map((turn, idx) => ({
-    turnIndex: idx,
-    cumulative: calculateCumulativeTokens(entries, turns, idx),
-    content: extractTurnContent(entries, turn),
-  }));
+  const parsed = parseSession(content);
+  const entries = leafUuid ? selectBranch(parsed, leafUuid, sessionId) : parsed;
+  const turnsData = buildTurnsData(entries);
 
   return {
     sessionId,
-    totalTurns: turns.length,
+    totalTurns: turnsData.length,
     turns: turnsData,
   };
 }
 
+/**
+ * Map each turn of a branch to its turn index in the whole session file,
+ * by the uuid of the turn's first entry; -1 for a turn not found there.
+ */
+async function branchToFileTurns(sessionId: string, leafUuid: string): Promise<number[]> {
+  const parsed = parseSession(await fs.readFile(await findSessionFile(sessionId), "utf-8"));
+  const fileTurns = new Map<string, number>();
+  identifyTurns(parsed).forEach((turn, index) => {
+    const uuid = parsed[turn.startIndex].uuid;
+    if (uuid) fileTurns.set(uuid, index);
+  });
+
+  const branch = selectBranch(parsed, leafUuid, sessionId);
+  return identifyTurns(branch).map((turn) => fileTurns.get(branch[turn.startIndex].uuid ?? "") ?? -1);
+}
+
+/**
+ * Pinned turns of a session, numbered like the turns endpoint numbers them.
+ * Pins are stored as turn indices of the whole session file, which is what
+ * clones work from; with leafUuid they are mapped to that branch's turns,
+ * and pins on turns outside the branch are left out.
+ */
+export async function getSessionPins(sessionId: string, leafUuid?: string): Promise<SessionPinsResponse> {
+  const pins = await sessionPinService.getPins(sessionId);
+  if (!leafUuid) return { sessionId, pinnedTurns: pins };
+
+  const fileTurns = await branchToFileTurns(sessionId, leafUuid);
+  return {
+    sessionId,
+    pinnedTurns: fileTurns.flatMap((fileTurn, branchTurn) => (pins.includes(fileTurn) ? [branchTurn] : [])),
+  };
+}
+
+/**
+ * Replace the pinned turns of a session, numbered like the turns endpoint
+ * numbers them. With leafUuid only the pins of that branch are replaced;
+ * pins on turns outside it are kept.
+ * @throws BranchNotFoundError if leafUuid is not in the session
+ */
+export async function setSessionPins(sessionId: string, pinnedTurns: number[], leafUuid?: string): Promise<SessionPinsResponse> {
+  if (!leafUuid) return sessionPinService.setPins(sessionId, pinnedTurns);
+
+  const fileTurns = await branchToFileTurns(sessionId, leafUuid);
+  const kept = (await sessionPinService.getPins(sessionId)).filter((t) => !fileTurns.includes(t));
+  const pinned = pinnedTurns.map((t) => fileTurns[t] ?? -1).filter((t) => t >= 0);
+  await sessionPinService.setPins(sessionId, [...kept, ...pinned]);
+  return getSessionPins(sessionId, leafUuid);
+}
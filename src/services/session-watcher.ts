@@ -0,0 +1,233 @@
+import { readdir, stat } from "fs/promises";
+import { join } from "path";
+import { getClaudeRoots, claudeFolderId } from "../lib/claude-roots.js";
+import { getSessionSource } from "../sources/index.js";
+import type { ClaudeSessionSource } from "../sources/claude-source.js";
+import type { CopilotSessionSource } from "../sources/copilot-source.js";
+import { getVSCodeInstalls, workspaceFolderId } from "../sources/copilot-source.js";
+import type { SessionSummary } from "../types.js";
+
+export type WatchedSourceType = "claude" | "copilot";
+
+export type SessionChangeType = "created" | "updated" | "deleted";
+
+/**
+ * A session file that appeared, changed or disappeared.
+ */
+export interface SessionChangeEvent {
+  type: SessionChangeType;
+  source: WatchedSourceType;
+  sessionId: string;
+  /** Project folder (Claude) or workspace folder identifier (Copilot) */
+  folder: string;
+  /** Fresh summary for created and updated sessions */
+  session?: SessionSummary;
+}
+
+export type SessionChangeListener = (event: SessionChangeEvent) => void;
+
+/**
+ * A Claude or Copilot session file on disk.
+ */
+export interface SessionFile {
+  path: string;
+  source: WatchedSourceType;
+  sessionId: string;
+  folder: string;
+  mtimeMs: number;
+  size: number;
+}
+
+async function listDirectories(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries.filter((e) => e.isDirectory()).map((e) => e.name);
+  } catch {
+    return [];
+  }
+}
+
+async function listFiles(dir: string, extension: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries.filter((e) => e.isFile() && e.name.endsWith(extension)).map((e) => e.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List every Claude project session (across all Claude roots) and Copilot
+ * chat session on disk.
+ */
+export async function listSessionFiles(): Promise<SessionFile[]> {
+  const files: SessionFile[] = [];
+
+  const record = async (path: string, file: Omit<SessionFile, "path" | "mtimeMs" | "size">) => {
+    try {
+      const stats = await stat(path);
+      files.push({ path, ...file, mtimeMs: stats.mtimeMs, size: stats.size });
+    } catch {
+      // Deleted between readdir and stat
+    }
+  };
+
+  for (const root of getClaudeRoots()) {
+    for (const folder of await listDirectories(root.projectsDir)) {
+      for (const name of await listFiles(join(root.projectsDir, folder), ".jsonl")) {
+        // Subagent transcripts belong to their parent session
+        if (name.startsWith("agent-")) continue;
+        await record(join(root.projectsDir, folder, name), {
+          source: "claude",
+          sessionId: name.replace(".jsonl", ""),
+          folder: claudeFolderId(root, folder),
+        });
+      }
+    }
+  }
+
+  for (const install of getVSCodeInstalls()) {
+    for (const hash of await listDirectories(install.storagePath)) {
+      const chatSessionsPath = join(install.storagePath, hash, "chatSessions");
+      for (const name of await listFiles(chatSessionsPath, ".json")) {
+        await record(join(chatSessionsPath, name), {
+          source: "copilot",
+          sessionId: name.replace(".json", ""),
+          folder: workspaceFolderId(install, hash),
+        });
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Watches Claude project folders and Copilot chatSessions folders for
+ * session changes.
+ *
+ * Polls file mtimes and sizes instead of using fs.watch: recursive
+ * watching is unreliable across platforms, and the agents append to
+ * session files far more often than anyone needs to be told about it.
+ * Polling only runs while someone is subscribed.
+ */
+export class SessionWatcher {
+  private listeners = new Set<SessionChangeListener>();
+  private snapshot: Map<string, SessionFile> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<SessionChangeEvent[]> | null = null;
+  /** Bumped by stop() so a scan finishing afterwards is discarded */
+  private generation = 0;
+
+  constructor(
+    private readonly intervalMs = parseInt(process.env.SESSION_WATCH_INTERVAL_MS || "2000", 10)
+  ) {}
+
+  /**
+   * Subscribe to session changes. Starts polling on the first subscriber.
+   * @returns Function that removes the subscription
+   */
+  subscribe(listener: SessionChangeListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.schedule(0);
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Scan once and notify subscribers of changes since the previous scan.
+   * The first scan only records the current state. Concurrent calls share
+   * one scan.
+   * @returns Events emitted by this scan
+   */
+  poll(): Promise<SessionChangeEvent[]> {
+    if (!this.inFlight) {
+      this.inFlight = this.runPoll().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async runPoll(): Promise<SessionChangeEvent[]> {
+    const generation = this.generation;
+    const current = new Map((await listSessionFiles()).map((file) => [file.path, file]));
+    if (generation !== this.generation) return [];
+
+    const previous = this.snapshot;
+    this.snapshot = current;
+    if (!previous) return [];
+
+    const events: SessionChangeEvent[] = [];
+
+    for (const [path, file] of current) {
+      const before = previous.get(path);
+      if (!before) {
+        events.push(await this.toEvent("created", file));
+      } else if (before.mtimeMs !== file.mtimeMs || before.size !== file.size) {
+        events.push(await this.toEvent("updated", file));
+      }
+    }
+    for (const [path, file] of previous) {
+      if (!current.has(path)) {
+        events.push({ type: "deleted", source: file.source, sessionId: file.sessionId, folder: file.folder });
+      }
+    }
+
+    for (const event of events) {
+      for (const listener of this.listeners) {
+        listener(event);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Stop polling and forget the last scan.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.snapshot = null;
+    this.generation++;
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        console.warn("[session-watcher] Scan failed:", error);
+      }
+      if (this.listeners.size > 0) {
+        this.schedule(this.intervalMs);
+      }
+    }, delayMs);
+    // Never keep the process alive just to watch
+    this.timer.unref();
+  }
+
+  private async toEvent(type: SessionChangeType, file: SessionFile): Promise<SessionChangeEvent> {
+    const event: SessionChangeEvent = { type, source: file.source, sessionId: file.sessionId, folder: file.folder };
+    try {
+      // Summarize just this file; listing its whole folder on every poll scales with the project
+      const source = getSessionSource(file.source) as ClaudeSessionSource | CopilotSessionSource;
+      event.session = await source.getSessionSummary(file.folder, file.sessionId);
+    } catch (error) {
+      console.warn(`[session-watcher] Failed to summarize ${file.source} session ${file.sessionId}:`, error);
+    }
+    return event;
+  }
+
+}
+
+export const sessionWatcher = new SessionWatcher();
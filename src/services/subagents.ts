@@ -0,0 +1,287 @@
+import { readFile, readdir } from "fs/promises";
+import path from "path";
+import { SessionNotFoundError, SubagentNotFoundError } from "../errors.js";
+import type {
+  SessionEntry,
+  SessionSubagentsResponse,
+  SubagentSummary,
+  SubagentTurnsResponse,
+} from "../types.js";
+import { findSessionFile, identifyTurns } from "./session-clone.js";
+import { buildTurnsData, calculateCumulativeTokens } from "./session-turns.js";
+
+/**
+ * A subagent transcript with its entries.
+ */
+export interface SubagentTranscript extends Omit<SubagentSummary, "totalTurns" | "tokens"> {
+  entries: SessionEntry[];
+}
+
+/**
+ * A Task tool call in the main conversation.
+ */
+interface TaskCall {
+  toolUseId: string;
+  turnIndex: number | null;
+  prompt: string;
+  description?: string;
+  subagentType?: string;
+  /** Agent ID reported in the Task tool result, when recorded */
+  agentId?: string;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Parse JSONL content, skipping malformed lines. Agent files may be
+ * read while the subagent is still writing them.
+ */
+function parseEntries(content: string): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as SessionEntry);
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return entries;
+}
+
+/**
+ * First user text of a transcript, i.e. the prompt the subagent was given.
+ */
+function firstUserText(entries: SessionEntry[]): string {
+  for (const entry of entries) {
+    if (entry.type !== "user") continue;
+    const content = entry.message?.content;
+    if (typeof content === "string") return content;
+    if (Array.isArray(content)) {
+      const text = content.find((b) => b.type === "text" && typeof b.text === "string");
+      if (text) return text.text as string;
+    }
+  }
+  return "";
+}
+
+/**
+ * Treat subagent entries as a conversation of their own, so turn
+ * detection and token accounting apply to them.
+ */
+export function asMainThread(entries: SessionEntry[]): SessionEntry[] {
+  return entries.map((entry) => ({ ...entry, isSidechain: false }));
+}
+
+/**
+ * Find Task tool calls in the main conversation and the turn each one
+ * was made in.
+ */
+function findTaskCalls(entries: SessionEntry[]): TaskCall[] {
+  const turns = identifyTurns(entries);
+  const calls = new Map<string, TaskCall>();
+
+  entries.forEach((entry, index) => {
+    const content = entry.message?.content;
+    if (entry.isSidechain === true || !Array.isArray(content)) return;
+
+    for (const block of content) {
+      if (entry.type === "assistant" && block.type === "tool_use" && block.name === "Task") {
+        const input = (block.input ?? {}) as Record<string, unknown>;
+        const turnIndex = turns.findIndex((t) => index >= t.startIndex && index <= t.endIndex);
+        calls.set(String(block.id), {
+          toolUseId: String(block.id),
+          turnIndex: turnIndex === -1 ? null : turnIndex,
+          prompt: optionalString(input.prompt) ?? "",
+          description: optionalString(input.description),
+          subagentType: optionalString(input.subagent_type),
+        });
+      } else if (block.type === "tool_result") {
+        const call = calls.get(String(block.tool_use_id));
+        const result = entry.toolUseResult;
+        if (call && typeof result === "object" && result !== null) {
+          call.agentId = optionalString((result as Record<string, unknown>).agentId);
+        }
+      }
+    }
+  });
+
+  return [...calls.values()];
+}
+
+/**
+ * Group inline sidechain entries into one transcript per subagent.
+ * Entries carry an agentId in newer sessions; otherwise an entry joins
+ * the transcript of its parent, and a root entry starts a new one.
+ */
+export function groupSidechains(entries: SessionEntry[]): Map<string, SessionEntry[]> {
+  const groups = new Map<string, SessionEntry[]>();
+  const groupOf = new Map<string, string>();
+
+  for (const entry of entries) {
+    if (entry.isSidechain !== true) continue;
+
+    const parentGroup = entry.parentUuid ? groupOf.get(entry.parentUuid) : undefined;
+    const key = optionalString(entry.agentId) ?? parentGroup ?? entry.uuid ?? `sidechain-${groups.size + 1}`;
+    if (entry.uuid) groupOf.set(entry.uuid, key);
+
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  }
+
+  return groups;
+}
+
+async function listAgentFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((e) => e.isFile() && e.name.startsWith("agent-") && e.name.endsWith(".jsonl"))
+      .map((e) => e.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Load agent transcript files belonging to a session: agent files named
+ * by a Task result next to the session, and everything in the session's
+ * own subagents folder.
+ */
+async function loadAgentFiles(
+  sessionPath: string,
+  sessionId: string,
+  calls: TaskCall[]
+): Promise<Map<string, SessionEntry[]>> {
+  const projectDir = path.dirname(sessionPath);
+  const subagentsDir = path.join(projectDir, sessionId, "subagents");
+  const known = new Set(calls.map((c) => c.agentId).filter((id): id is string => !!id));
+
+  const paths = new Map<string, string>();
+  for (const name of await listAgentFiles(projectDir)) {
+    const agentId = name.slice("agent-".length, -".jsonl".length);
+    if (known.has(agentId)) paths.set(agentId, path.join(projectDir, name));
+  }
+  for (const name of await listAgentFiles(subagentsDir)) {
+    paths.set(name.slice("agent-".length, -".jsonl".length), path.join(subagentsDir, name));
+  }
+
+  const transcripts = new Map<string, SessionEntry[]>();
+  for (const [agentId, filePath] of paths) {
+    try {
+      const entries = parseEntries(await readFile(filePath, "utf-8"));
+      if (entries.length > 0) transcripts.set(agentId, entries);
+    } catch {
+      // Deleted between readdir and read
+    }
+  }
+  return transcripts;
+}
+
+/**
+ * Collect the subagent transcripts of a session and link each one to the
+ * Task call that spawned it: by agent ID when the Task result records
+ * one, otherwise by matching the Task prompt, otherwise in call order.
+ */
+export async function collectSubagents(
+  sessionPath: string,
+  sessionId: string,
+  entries: SessionEntry[]
+): Promise<SubagentTranscript[]> {
+  const calls = findTaskCalls(entries);
+  const transcripts: SubagentTranscript[] = [];
+
+  for (const [agentId, group] of groupSidechains(entries)) {
+    transcripts.push({ agentId, toolUseId: null, turnIndex: null, location: "inline", entries: group });
+  }
+  for (const [agentId, group] of await loadAgentFiles(sessionPath, sessionId, calls)) {
+    // Some versions write the transcript both inline and to a file
+    if (transcripts.some((t) => t.agentId === agentId)) continue;
+    transcripts.push({ agentId, toolUseId: null, turnIndex: null, location: "file", entries: group });
+  }
+
+  const unmatched = new Set(calls);
+  const link = (transcript: SubagentTranscript, call: TaskCall | undefined) => {
+    if (!call) return;
+    unmatched.delete(call);
+    transcript.toolUseId = call.toolUseId;
+    transcript.turnIndex = call.turnIndex;
+    transcript.description = call.description;
+    transcript.subagentType = call.subagentType;
+  };
+
+  for (const transcript of transcripts) {
+    link(transcript, calls.find((c) => c.agentId === transcript.agentId));
+  }
+  for (const transcript of transcripts) {
+    if (transcript.toolUseId) continue;
+    const prompt = firstUserText(transcript.entries).trim();
+    link(transcript, [...unmatched].find((c) => c.prompt.trim() === prompt));
+  }
+  for (const transcript of transcripts) {
+    if (transcript.toolUseId) continue;
+    link(transcript, unmatched.values().next().value);
+  }
+
+  return transcripts;
+}
+
+/**
+ * Summarize a transcript with its own token breakdown.
+ */
+export function summarizeSubagent(transcript: SubagentTranscript): SubagentSummary {
+  const { entries, ...summary } = transcript;
+  const normalized = asMainThread(entries);
+  const turns = identifyTurns(normalized);
+  return {
+    ...summary,
+    totalTurns: turns.length,
+    tokens: calculateCumulativeTokens(normalized, turns, turns.length - 1),
+  };
+}
+
+async function loadSession(sessionId: string): Promise<{ sessionPath: string; entries: SessionEntry[] }> {
+  let sessionPath: string;
+  try {
+    sessionPath = await findSessionFile(sessionId);
+  } catch {
+    throw new SessionNotFoundError(sessionId);
+  }
+  const entries = parseEntries(await readFile(sessionPath, "utf-8"));
+  return { sessionPath, entries };
+}
+
+/**
+ * List the subagents of a Claude session in the order they were spawned.
+ */
+export async function getSessionSubagents(sessionId: string): Promise<SessionSubagentsResponse> {
+  const { sessionPath, entries } = await loadSession(sessionId);
+  const transcripts = await collectSubagents(sessionPath, sessionId, entries);
+  return { sessionId, subagents: transcripts.map(summarizeSubagent) };
+}
+
+/**
+ * Turn-by-turn token statistics of one subagent transcript.
+ */
+export async function getSubagentTurns(sessionId: string, agentId: string): Promise<SubagentTurnsResponse> {
+  const { sessionPath, entries } = await loadSession(sessionId);
+  const transcripts = await collectSubagents(sessionPath, sessionId, entries);
+  const transcript = transcripts.find((t) => t.agentId === agentId);
+  if (!transcript) {
+    throw new SubagentNotFoundError(sessionId, agentId);
+  }
+
+  const turns = buildTurnsData(asMainThread(transcript.entries));
+  return {
+    sessionId,
+    totalTurns: turns.length,
+    turns,
+    subagent: summarizeSubagent(transcript),
+  };
+}
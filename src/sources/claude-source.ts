@@ -1,26 +1,20 @@
 import { stat, readdir } from "fs/promises";
 import { createReadStream } from "fs";
 import { createInterface } from "readline";
-import { homedir } from "os";
 import { join } from "path";
 import type { SessionSource } from "./types.js";
 import type { ProjectInfo, SessionSummary, SessionEntry } from "../types.js";
 import { identifyTurns } from "../services/session-clone.js";
-
-/**
- * Get the Claude projects directory path.
- * Uses CLAUDE_DIR env var for testing, otherwise defaults to ~/.claude/projects
- */
-function getProjectsDir(): string {
-  return process.env.CLAUDE_DIR
-    ? join(process.env.CLAUDE_DIR, "projects")
-    : join(homedir(), ".claude", "projects");
-}
+import { calculateCumulativeTokens } from "../services/session-turns.js";
+import { getSessionIndex } from "../lib/session-index.js";
+import type { IndexedSessionMetadata } from "../lib/session-index.js";
+import { getClaudeRoots, claudeFolderId, resolveClaudeFolder } from "../lib/claude-roots.js";
 
 /**
  * Decode Claude's folder encoding back to a path.
  * Replaces leading dash with /, then all remaining dashes with /.
  * NOTE: This is lossy for paths containing dashes in folder names.
+ * Prefer recoverProjectPath(), which reads the real path from session entries.
  */
 export function decodeFolderName(encoded: string): string {
   return encoded.replace(/^-/, "/").replace(/-/g, "/");
@@ -34,6 +28,15 @@ export function encodeFolderPath(path: string): string {
   return path.replace(/\//g, "-");
 }
 
+/**
+ * Name of the project folder Claude Code keeps a cwd's sessions in: every
+ * character that is not a letter or digit becomes "-". Unlike
+ * encodeFolderPath, this is the folder `claude --resume` reads.
+ */
+export function claudeProjectFolder(cwd: string): string {
+  return cwd.replace(/[^a-zA-Z0-9]/g, "-");
+}
+
 /**
  * Truncate a message to maxLength, adding ellipsis if truncated.
  * Also normalizes whitespace.
@@ -44,50 +47,129 @@ export function truncateMessage(text: string, maxLength: number): string {
   return cleaned.slice(0, maxLength - 3) + "...";
 }
 
+/**
+ * Read the first cwd recorded in a session file.
+ * Stops at the first entry carrying one instead of reading the whole file.
+ */
+async function readFirstCwd(filePath: string): Promise<string | null> {
+  const rl = createInterface({
+    input: createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+
+  try {
+    for await (const line of rl) {
+      if (!line.includes('"cwd"')) continue;
+      try {
+        const entry = JSON.parse(line) as SessionEntry;
+        if (typeof entry.cwd === "string" && entry.cwd) {
+          return entry.cwd;
+        }
+      } catch {
+        // Skip malformed lines
+      }
+    }
+  } finally {
+    rl.close();
+  }
+
+  return null;
+}
+
+/**
+ * Recover the real path of a project folder from the cwd recorded in its
+ * session entries. Claude Code replaces every non-alphanumeric character
+ * with a dash when naming the folder, so a cwd that encodes back to the
+ * folder name is preferred; a session started in a subdirectory still
+ * beats the lossy decode. Falls back to decodeFolderName() when no entry
+ * records a cwd.
+ */
+export async function recoverProjectPath(projectDir: string, folder: string): Promise<string> {
+  let files: string[];
+  try {
+    const entries = await readdir(projectDir, { withFileTypes: true });
+    files = entries.filter((e) => e.isFile() && e.name.endsWith(".jsonl")).map((e) => e.name);
+  } catch {
+    return decodeFolderName(folder);
+  }
+
+  let fallback: string | null = null;
+  for (const file of files.sort()) {
+    let cwd: string | null;
+    try {
+      cwd = await readFirstCwd(join(projectDir, file));
+    } catch {
+      continue;
+    }
+    if (!cwd) continue;
+    if (claudeProjectFolder(cwd) === folder) return cwd;
+    fallback ??= cwd;
+  }
+
+  return fallback ?? decodeFolderName(folder);
+}
+
 export class ClaudeSessionSource implements SessionSource {
   readonly sourceType = "claude" as const;
 
   async isAvailable(): Promise<boolean> {
-    try {
-      const stats = await stat(getProjectsDir());
-      return stats.isDirectory();
-    } catch {
-      return false;
+    for (const root of getClaudeRoots()) {
+      try {
+        if ((await stat(root.projectsDir)).isDirectory()) return true;
+      } catch {
+        // Try the next root
+      }
     }
+    return false;
   }
 
   async listProjects(): Promise<ProjectInfo[]> {
-    const projectsDir = getProjectsDir();
-    const entries = await readdir(projectsDir, { withFileTypes: true });
-
-    return entries
-      .filter((entry) => entry.isDirectory())
-      .map((entry) => ({
-        folder: entry.name,
-        path: decodeFolderName(entry.name),
-      }))
-      .sort((a, b) => a.path.localeCompare(b.path));
+    const projects: ProjectInfo[] = [];
+
+    for (const root of getClaudeRoots()) {
+      let entries;
+      try {
+        entries = await readdir(root.projectsDir, { withFileTypes: true });
+      } catch {
+        // Root not synced yet
+        continue;
+      }
+
+      projects.push(
+        ...(await Promise.all(
+          entries
+            .filter((entry) => entry.isDirectory())
+            .map(async (entry) => ({
+              folder: claudeFolderId(root, entry.name),
+              path: await recoverProjectPath(join(root.projectsDir, entry.name), entry.name),
+              root: root.name,
+            }))
+        ))
+      );
+    }
+
+    return projects.sort((a, b) => a.path.localeCompare(b.path) || a.folder.localeCompare(b.folder));
   }
 
   async findSession(sessionId: string): Promise<string | null> {
-    const projectsDir = getProjectsDir();
-
-    try {
-      const projects = await readdir(projectsDir, { withFileTypes: true });
+    for (const root of getClaudeRoots()) {
+      try {
+        const projects = await readdir(root.projectsDir, { withFileTypes: true });
 
-      for (const project of projects) {
-        if (!project.isDirectory()) continue;
+        for (const project of projects) {
+          if (!project.isDirectory()) continue;
 
-        const sessionPath = join(projectsDir, project.name, `${sessionId}.jsonl`);
-        try {
-          await stat(sessionPath);
-          return project.name; // Found it - return project folder name
-        } catch {
-          // Not in this project, continue searching
+          const sessionPath = join(root.projectsDir, project.name, `${sessionId}.jsonl`);
+          try {
+            await stat(sessionPath);
+            return claudeFolderId(root, project.name); // Found it - return project folder identifier
+          } catch {
+            // Not in this project, continue searching
+          }
         }
+      } catch {
+        // Projects directory doesn't exist or not readable
       }
-    } catch {
-      // Projects directory doesn't exist or not readable
     }
 
     return null;
@@ -99,12 +181,13 @@ export class ClaudeSessionSource implements SessionSource {
       throw new Error("Invalid folder name: path traversal not allowed");
     }
 
-    const projectPath = join(getProjectsDir(), folder);
-    const decodedPath = decodeFolderName(folder);
+    const { root, folder: projectFolder, projectDir: projectPath } = resolveClaudeFolder(folder);
 
     const entries = await readdir(projectPath, { withFileTypes: true });
+    const resolvedPath = await recoverProjectPath(projectPath, projectFolder);
+    // agent-*.jsonl files are subagent transcripts, shown under their parent session
     const jsonlFiles = entries.filter(
-      (e) => e.isFile() && e.name.endsWith(".jsonl")
+      (e) => e.isFile() && e.name.endsWith(".jsonl") && !e.name.startsWith("agent-")
     );
 
     const sessions = await Promise.all(
@@ -112,10 +195,12 @@ export class ClaudeSessionSource implements SessionSource {
         this.parseSessionSummary(
           join(projectPath, file.name),
           file.name.replace(".jsonl", ""),
-          decodedPath
+          resolvedPath,
+          root.name
         )
       )
     );
+    getSessionIndex().prune(projectPath, jsonlFiles.map((file) => join(projectPath, file.name)));
 
     // Sort by lastModifiedAt descending (most recent first)
     return sessions.sort(
@@ -123,13 +208,38 @@ export class ClaudeSessionSource implements SessionSource {
     );
   }
 
+  /**
+   * Summarize one session of a project folder without listing the rest.
+   * The session's own cwd names the project unless it was recorded elsewhere.
+   * @throws ENOENT error if the session file does not exist
+   */
+  async getSessionSummary(folder: string, sessionId: string): Promise<SessionSummary> {
+    if (folder.includes("..") || folder.includes("/")) {
+      throw new Error("Invalid folder name: path traversal not allowed");
+    }
+
+    const { root, folder: projectFolder, projectDir } = resolveClaudeFolder(folder);
+    const filePath = join(projectDir, `${sessionId}.jsonl`);
+    const cwd = await readFirstCwd(filePath);
+    const projectPath = cwd && claudeProjectFolder(cwd) === projectFolder
+      ? cwd
+      : await recoverProjectPath(projectDir, projectFolder);
+    return this.parseSessionSummary(filePath, sessionId, projectPath, root.name);
+  }
+
   private async parseSessionSummary(
     filePath: string,
     sessionId: string,
-    projectPath: string
+    projectPath: string,
+    root: string
   ): Promise<SessionSummary> {
     const stats = await stat(filePath);
-    const { firstMessage, turnCount } = await this.extractMetadata(filePath);
+    const index = getSessionIndex();
+    let metadata = index.get(filePath, stats);
+    if (!metadata) {
+      metadata = await this.extractMetadata(filePath);
+      index.set(filePath, "claude", stats, metadata);
+    }
 
     // birthtime isn't reliably available on all platforms (e.g., Linux ext4)
     // Fall back to mtime if birthtime is unavailable (0 or Unix epoch)
@@ -140,17 +250,17 @@ export class ClaudeSessionSource implements SessionSource {
       sessionId,
       source: "claude",
       projectPath,
-      firstMessage,
+      root,
+      firstMessage: metadata.firstMessage,
       createdAt,
       lastModifiedAt: stats.mtime,
       sizeBytes: stats.size,
-      turnCount,
+      turnCount: metadata.turnCount,
+      contextTokens: metadata.contextTokens,
     };
   }
 
-  private async extractMetadata(
-    filePath: string
-  ): Promise<{ firstMessage: string; turnCount: number }> {
+  private async extractMetadata(filePath: string): Promise<IndexedSessionMetadata> {
     const rl = createInterface({
       input: createReadStream(filePath),
       crlfDelay: Infinity,
@@ -192,7 +302,8 @@ export class ClaudeSessionSource implements SessionSource {
 
     // Use existing identifyTurns to count turns
     const turns = identifyTurns(entries);
+    const tokens = calculateCumulativeTokens(entries, turns, turns.length - 1);
 
-    return { firstMessage, turnCount: turns.length };
+    return { firstMessage, turnCount: turns.length, createdAt: null, contextTokens: tokens.total };
   }
 }
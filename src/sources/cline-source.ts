@@ -0,0 +1,322 @@
+import { stat, readdir, readFile } from "fs/promises";
+import { join } from "path";
+import type { SessionSource } from "./types.js";
+import type { ProjectInfo, SessionSummary, SessionEntry, ContentBlock } from "../types.js";
+import type { ClineExtension, ClineApiMessage, ClineUiMessage, ClineTask } from "./cline-types.js";
+import { getVSCodeGlobalStoragePath } from "./copilot-source.js";
+import { encodeFolderPath, truncateMessage } from "./claude-source.js";
+import { identifyTurns } from "../services/session-clone.js";
+
+/** Extensions that store tasks in the Cline layout */
+export const CLINE_EXTENSIONS: ClineExtension[] = [
+  { id: "saoudrizwan.claude-dev", name: "Cline" },
+  { id: "rooveterinaryinc.roo-cline", name: "Roo Code" },
+];
+
+/** Folder identifier used for tasks whose workspace could not be determined */
+export const UNKNOWN_CLINE_PROJECT = "unknown";
+
+/** Tags the extensions wrap around text the human typed */
+const HUMAN_INPUT_TAG = /<(task|feedback|user_message|answer)>\s*([\s\S]*?)\s*<\/\1>/;
+
+/**
+ * Recover the workspace a task ran in from the environment details the
+ * extension appends to user messages.
+ * Cline writes "# Current Working Directory (<path>) Files",
+ * Roo Code writes "# Current Workspace Directory (<path>) Files".
+ */
+export function extractTaskCwd(history: ClineApiMessage[]): string | null {
+  for (const message of history) {
+    if (message.role !== "user") continue;
+    const texts = typeof message.content === "string"
+      ? [message.content]
+      : message.content.filter((b) => b.type === "text").map((b) => b.text as string);
+    for (const text of texts) {
+      const match = text.match(/# Current (?:Working|Workspace) Directory \((.+?)\) Files/);
+      if (match) return match[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Map a task workspace to the folder identifier used by the session browser.
+ */
+export function clineProjectFolder(cwd: string | null): string {
+  return cwd ? encodeFolderPath(cwd) : UNKNOWN_CLINE_PROJECT;
+}
+
+function isEnvironmentDetails(text: string): boolean {
+  return text.trimStart().startsWith("<environment_details>");
+}
+
+/**
+ * Name of the tool a text tool result belongs to.
+ * Text results start with "[read_file for 'src/a.ts'] Result:".
+ */
+function textResultToolName(text: string): string {
+  return text.match(/^\[(\w+)/)?.[1] ?? "tool";
+}
+
+function toToolResult(block: ContentBlock): ContentBlock {
+  const text = block.text as string;
+  return { type: "tool_result", tool_use_id: textResultToolName(text), content: text };
+}
+
+/**
+ * Convert a task's API history into Claude-shaped session entries so turn
+ * detection and token accounting can be shared across sources.
+ *
+ * The extensions send everything back to the model as user messages. Only
+ * the first message and messages carrying <feedback>, <user_message> or
+ * <answer> text are human input; the text of every other user message is
+ * tool output and becomes tool_result blocks. Environment details stay
+ * text so they count against the user side. Tool calls written as XML in
+ * assistant text are counted as assistant text.
+ */
+export function clineToEntries(taskId: string, history: ClineApiMessage[]): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  let parentUuid: string | null = null;
+
+  const push = (
+    type: "user" | "assistant",
+    uuid: string,
+    timestamp: number | undefined,
+    content: ContentBlock[],
+    isMeta = false
+  ) => {
+    entries.push({
+      type,
+      uuid,
+      parentUuid,
+      sessionId: taskId,
+      timestamp: timestamp !== undefined ? new Date(timestamp).toISOString() : undefined,
+      ...(isMeta ? { isMeta: true } : {}),
+      message: { role: type, content },
+    });
+    parentUuid = uuid;
+  };
+
+  history.forEach((message, index) => {
+    const uuid = `${taskId}:${index}`;
+    const blocks: ContentBlock[] = typeof message.content === "string"
+      ? [{ type: "text", text: message.content }]
+      : message.content;
+
+    if (message.role === "assistant") {
+      push("assistant", uuid, message.ts, blocks);
+      return;
+    }
+
+    const isHuman = index === 0 || blocks.some(
+      (b) => b.type === "text" && /<(feedback|user_message|answer)>/.test(b.text as string)
+    );
+
+    if (!isHuman) {
+      const content: ContentBlock[] = blocks.map((b) =>
+        b.type === "text" && !isEnvironmentDetails(b.text as string) ? toToolResult(b) : b
+      );
+      // Nothing but environment details: context noise, not a turn
+      const hasToolResult = content.some((b) => b.type === "tool_result");
+      push("user", uuid, message.ts, content, !hasToolResult);
+      return;
+    }
+
+    // Tool output sent alongside the human reply closes the previous turn
+    const toolResults: ContentBlock[] = [];
+    const content: ContentBlock[] = [];
+    for (const block of blocks) {
+      if (block.type === "tool_result") {
+        toolResults.push(block);
+      } else if (block.type !== "text" || isEnvironmentDetails(block.text as string)) {
+        content.push(block);
+      } else {
+        const match = (block.text as string).match(HUMAN_INPUT_TAG);
+        if (match) {
+          content.push({ type: "text", text: match[2] });
+        } else if (index === 0) {
+          content.push(block);
+        } else {
+          toolResults.push(toToolResult(block));
+        }
+      }
+    }
+
+    if (toolResults.length > 0) {
+      push("user", `${uuid}:results`, message.ts, toolResults);
+    }
+    push("user", uuid, message.ts, content);
+  });
+
+  return entries;
+}
+
+/**
+ * Text of the task the user started with, from ui_messages.json.
+ */
+function firstTaskText(uiMessages: ClineUiMessage[]): string | undefined {
+  return uiMessages.find((m) => m.type === "say" && m.say === "task")?.text;
+}
+
+async function readJsonArray<T>(filePath: string): Promise<T[] | null> {
+  try {
+    const parsed = JSON.parse(await readFile(filePath, "utf-8"));
+    return Array.isArray(parsed) ? (parsed as T[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load one task folder.
+ * @returns The task, or null if it has no API history
+ */
+async function loadTask(extension: ClineExtension, taskDir: string, taskId: string): Promise<ClineTask | null> {
+  const apiHistory = await readJsonArray<ClineApiMessage>(join(taskDir, "api_conversation_history.json"));
+  if (!apiHistory) return null;
+  const uiMessages = (await readJsonArray<ClineUiMessage>(join(taskDir, "ui_messages.json"))) ?? [];
+
+  return { taskId, extension, cwd: extractTaskCwd(apiHistory), apiHistory, uiMessages, taskDir };
+}
+
+/**
+ * Load every task of every installed extension.
+ */
+async function loadAllTasks(): Promise<ClineTask[]> {
+  const globalStorage = getVSCodeGlobalStoragePath();
+  const tasks: ClineTask[] = [];
+
+  for (const extension of CLINE_EXTENSIONS) {
+    const tasksDir = join(globalStorage, extension.id, "tasks");
+    let taskIds: string[];
+    try {
+      const entries = await readdir(tasksDir, { withFileTypes: true });
+      taskIds = entries.filter((e) => e.isDirectory()).map((e) => e.name);
+    } catch {
+      // Extension not installed
+      continue;
+    }
+
+    for (const taskId of taskIds) {
+      const task = await loadTask(extension, join(tasksDir, taskId), taskId);
+      if (task) tasks.push(task);
+    }
+  }
+
+  return tasks;
+}
+
+export class ClineSessionSource implements SessionSource {
+  readonly sourceType = "cline" as const;
+
+  async isAvailable(): Promise<boolean> {
+    const globalStorage = getVSCodeGlobalStoragePath();
+    for (const extension of CLINE_EXTENSIONS) {
+      try {
+        const stats = await stat(join(globalStorage, extension.id, "tasks"));
+        if (stats.isDirectory()) return true;
+      } catch {
+        // Try the next extension
+      }
+    }
+    return false;
+  }
+
+  async listProjects(): Promise<ProjectInfo[]> {
+    const projects = new Map<string, ProjectInfo>();
+
+    for (const task of await loadAllTasks()) {
+      const folder = clineProjectFolder(task.cwd);
+      if (!projects.has(folder)) {
+        projects.set(folder, { folder, path: task.cwd ?? "(unknown)" });
+      }
+    }
+
+    return [...projects.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async listSessions(folder: string): Promise<SessionSummary[]> {
+    // Validate folder doesn't contain path traversal sequences
+    if (folder.includes("..") || folder.includes("/")) {
+      throw new Error("Invalid folder name: path traversal not allowed");
+    }
+
+    const sessions: SessionSummary[] = [];
+
+    for (const task of await loadAllTasks()) {
+      if (clineProjectFolder(task.cwd) !== folder) continue;
+      try {
+        sessions.push(await this.parseSessionSummary(task));
+      } catch (error) {
+        console.warn(`Failed to parse ${task.extension.name} task ${task.taskId}:`, error);
+      }
+    }
+
+    // Sort by lastModifiedAt descending (most recent first)
+    return sessions.sort(
+      (a, b) => b.lastModifiedAt.getTime() - a.lastModifiedAt.getTime()
+    );
+  }
+
+  /**
+   * Find a task by ID across both extensions.
+   * @returns Project folder identifier if found, null otherwise
+   */
+  async findSession(sessionId: string): Promise<string | null> {
+    try {
+      const task = await this.loadSession(sessionId);
+      return clineProjectFolder(task.cwd);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Load a task by ID.
+   * @throws ENOENT error if no extension has the task
+   */
+  async loadSession(sessionId: string): Promise<ClineTask> {
+    if (sessionId.includes("..") || sessionId.includes("/") || sessionId.includes("\\")) {
+      throw new Error("Invalid task ID: path traversal not allowed");
+    }
+
+    const globalStorage = getVSCodeGlobalStoragePath();
+    for (const extension of CLINE_EXTENSIONS) {
+      const task = await loadTask(extension, join(globalStorage, extension.id, "tasks", sessionId), sessionId);
+      if (task) return task;
+    }
+
+    const error = new Error(`Cline task not found: ${sessionId}`) as NodeJS.ErrnoException;
+    error.code = "ENOENT";
+    throw error;
+  }
+
+  private async parseSessionSummary(task: ClineTask): Promise<SessionSummary> {
+    const historyPath = join(task.taskDir, "api_conversation_history.json");
+    const stats = await stat(historyPath);
+    const entries = clineToEntries(task.taskId, task.apiHistory);
+
+    const firstEntryText = (entries[0]?.message?.content as ContentBlock[] | undefined)
+      ?.find((b) => b.type === "text")?.text as string | undefined;
+    const firstText = firstTaskText(task.uiMessages) ?? firstEntryText;
+
+    const firstTs = task.uiMessages[0]?.ts;
+    let uiSize = 0;
+    try {
+      uiSize = (await stat(join(task.taskDir, "ui_messages.json"))).size;
+    } catch {
+      // ui_messages.json is optional
+    }
+
+    return {
+      sessionId: task.taskId,
+      source: "cline",
+      projectPath: task.cwd ?? "(unknown)",
+      firstMessage: firstText ? truncateMessage(firstText, 100) : "(No user message)",
+      createdAt: typeof firstTs === "number" ? new Date(firstTs) : stats.birthtime,
+      lastModifiedAt: stats.mtime,
+      sizeBytes: stats.size + uiSize,
+      turnCount: identifyTurns(entries).length,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Cline / Roo Code task storage types.
+ *
+ * Both extensions keep one folder per task under their VS Code globalStorage:
+ *   globalStorage/<extensionId>/tasks/<taskId>/api_conversation_history.json
+ *   globalStorage/<extensionId>/tasks/<taskId>/ui_messages.json
+ */
+
+import type { ContentBlock } from "../types.js";
+
+/**
+ * An extension that stores tasks in the Cline layout.
+ */
+export interface ClineExtension {
+  /** VS Code extension ID, which is also its globalStorage folder name */
+  id: string;
+  /** Display name */
+  name: string;
+}
+
+/**
+ * One message of the Anthropic-format history the extension sends to the model.
+ */
+export interface ClineApiMessage {
+  role: "user" | "assistant";
+  content: string | ContentBlock[];
+  ts?: number;
+}
+
+/**
+ * One message of the chat the extension renders (ui_messages.json).
+ */
+export interface ClineUiMessage {
+  ts: number;
+  type: "ask" | "say";
+  ask?: string;
+  say?: string;
+  text?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A loaded task with both history files.
+ */
+export interface ClineTask {
+  taskId: string;
+  extension: ClineExtension;
+  /** Workspace the task ran in, recovered from environment details */
+  cwd: string | null;
+  apiHistory: ClineApiMessage[];
+  uiMessages: ClineUiMessage[];
+  taskDir: string;
+}
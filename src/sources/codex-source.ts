@@ -0,0 +1,412 @@
+import { stat, readdir, readFile } from "fs/promises";
+import { createReadStream } from "fs";
+import { createInterface } from "readline";
+import { homedir } from "os";
+import { join } from "path";
+import type { SessionSource } from "./types.js";
+import type { ProjectInfo, SessionSummary, SessionEntry, ContentBlock } from "../types.js";
+import type {
+  CodexRollout,
+  CodexRolloutLine,
+  CodexSessionMeta,
+  CodexResponseItem,
+} from "./codex-types.js";
+import { encodeFolderPath, truncateMessage } from "./claude-source.js";
+import { identifyTurns } from "../services/session-clone.js";
+
+/** Folder identifier used for rollouts that did not record a cwd */
+export const UNKNOWN_CODEX_PROJECT = "unknown";
+
+/**
+ * Get the Codex CLI sessions directory path.
+ * Uses CODEX_HOME env var (same variable the Codex CLI honours),
+ * otherwise defaults to ~/.codex/sessions
+ */
+export function getCodexSessionsDir(): string {
+  return process.env.CODEX_HOME
+    ? join(process.env.CODEX_HOME, "sessions")
+    : join(homedir(), ".codex", "sessions");
+}
+
+/**
+ * Extract the session UUID from a rollout filename.
+ * Rollouts are named "rollout-<timestamp>-<uuid>.jsonl".
+ * @returns The UUID, or null if the filename is not a rollout
+ */
+export function extractSessionIdFromFilename(filename: string): string | null {
+  const match = filename.match(
+    /^rollout-.*-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.jsonl$/i
+  );
+  return match ? match[1] : null;
+}
+
+/**
+ * Map a cwd to the folder identifier used by the session browser.
+ */
+export function codexProjectFolder(cwd: string | undefined): string {
+  return cwd ? encodeFolderPath(cwd) : UNKNOWN_CODEX_PROJECT;
+}
+
+/**
+ * Normalize one parsed rollout line into the envelope format.
+ * Older rollouts wrote the session meta as a bare object and each
+ * response item without an envelope; state snapshots are dropped.
+ * @returns The normalized line, or null if the line carries no data
+ */
+export function normalizeRolloutLine(raw: Record<string, unknown>): CodexRolloutLine | null {
+  if (typeof raw.type === "string" && raw.payload && typeof raw.payload === "object") {
+    return raw as unknown as CodexRolloutLine;
+  }
+
+  // Legacy state snapshot lines
+  if (raw.record_type !== undefined) {
+    return null;
+  }
+
+  // Legacy session meta: {"id": ..., "timestamp": ..., "instructions": ...}
+  if (raw.type === undefined && typeof raw.id === "string" && typeof raw.timestamp === "string") {
+    return { timestamp: raw.timestamp, type: "session_meta", payload: raw };
+  }
+
+  // Legacy bare response item
+  if (typeof raw.type === "string") {
+    return { type: "response_item", payload: raw };
+  }
+
+  return null;
+}
+
+/**
+ * Parse rollout JSONL content.
+ * Malformed lines are skipped; a rollout without a session_meta line
+ * falls back to the provided session ID.
+ */
+export function parseRollout(content: string, fallbackId = ""): CodexRollout {
+  const lines: CodexRolloutLine[] = [];
+
+  for (const text of content.split("\n")) {
+    if (!text.trim()) continue;
+    try {
+      const line = normalizeRolloutLine(JSON.parse(text) as Record<string, unknown>);
+      if (line) lines.push(line);
+    } catch {
+      // Skip malformed lines
+    }
+  }
+
+  const metaLine = lines.find((l) => l.type === "session_meta");
+  const meta: CodexSessionMeta = metaLine
+    ? (metaLine.payload as CodexSessionMeta)
+    : { id: fallbackId, timestamp: lines[0]?.timestamp ?? "" };
+
+  return { meta, lines };
+}
+
+/**
+ * Join the text parts of a Codex message item.
+ */
+export function extractCodexText(item: CodexResponseItem): string {
+  if (!Array.isArray(item.content)) return "";
+  return item.content
+    .filter((part) => typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * Extract tool output text from a function_call_output item.
+ */
+export function extractCodexOutput(item: CodexResponseItem): string {
+  const output = item.output;
+  if (typeof output === "string") return output;
+  if (output && typeof output === "object" && typeof output.content === "string") {
+    return output.content;
+  }
+  return "";
+}
+
+/**
+ * Decode function_call arguments. Falls back to the raw string when
+ * the arguments are not valid JSON.
+ */
+function parseArguments(args: string | undefined): unknown {
+  if (!args) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return { arguments: args };
+  }
+}
+
+/**
+ * Codex injects environment and AGENTS.md context as user messages.
+ * They are not human input and must not start turns.
+ */
+function isInjectedContext(text: string): boolean {
+  const trimmed = text.trimStart();
+  return (
+    trimmed.startsWith("<environment_context>") ||
+    trimmed.startsWith("<user_instructions>") ||
+    trimmed.startsWith("# AGENTS.md instructions")
+  );
+}
+
+/**
+ * Convert a single response item into Claude-shaped content.
+ * @returns Entry type and content blocks, or null for unsupported items
+ */
+function convertResponseItem(
+  item: CodexResponseItem
+): { type: "user" | "assistant"; content: ContentBlock[]; isMeta?: boolean } | null {
+  switch (item.type) {
+    case "message": {
+      const text = extractCodexText(item);
+      if (item.role === "assistant") {
+        return { type: "assistant", content: [{ type: "text", text }] };
+      }
+      // user, system and developer messages all count against the user side
+      const isMeta = item.role !== "user" || isInjectedContext(text);
+      return { type: "user", content: [{ type: "text", text }], ...(isMeta ? { isMeta } : {}) };
+    }
+    case "reasoning": {
+      const thinking = (item.summary ?? [])
+        .map((s) => s.text ?? "")
+        .filter(Boolean)
+        .join("\n");
+      return { type: "assistant", content: [{ type: "thinking", thinking }] };
+    }
+    case "function_call":
+      return {
+        type: "assistant",
+        content: [{ type: "tool_use", id: item.call_id, name: item.name, input: parseArguments(item.arguments) }],
+      };
+    case "custom_tool_call":
+      return {
+        type: "assistant",
+        content: [{ type: "tool_use", id: item.call_id, name: item.name, input: { input: item.input ?? "" } }],
+      };
+    case "local_shell_call":
+      return {
+        type: "assistant",
+        content: [{ type: "tool_use", id: item.call_id, name: "local_shell", input: item.action ?? {} }],
+      };
+    case "function_call_output":
+    case "custom_tool_call_output":
+      return {
+        type: "user",
+        content: [{ type: "tool_result", tool_use_id: item.call_id, content: extractCodexOutput(item) }],
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Convert a rollout into Claude-shaped session entries so turn detection,
+ * token accounting and removal logic can be shared across sources.
+ * Each entry records the rollout line it came from in `codexLine`.
+ */
+export function rolloutToEntries(rollout: CodexRollout): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  let parentUuid: string | null = null;
+
+  rollout.lines.forEach((line, lineIndex) => {
+    if (line.type !== "response_item") return;
+
+    const converted = convertResponseItem(line.payload as CodexResponseItem);
+    if (!converted) return;
+
+    const uuid = `${rollout.meta.id}:${lineIndex}`;
+    entries.push({
+      type: converted.type,
+      uuid,
+      parentUuid,
+      sessionId: rollout.meta.id,
+      timestamp: line.timestamp,
+      ...(converted.isMeta ? { isMeta: true } : {}),
+      message: { role: converted.type, content: converted.content },
+      codexLine: lineIndex,
+    });
+    parentUuid = uuid;
+  });
+
+  return entries;
+}
+
+/**
+ * Recursively collect rollout files under the sessions directory.
+ * Codex nests rollouts by date: sessions/YYYY/MM/DD/rollout-*.jsonl
+ */
+async function collectRolloutFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await collectRolloutFiles(fullPath)));
+    } else if (entry.isFile() && extractSessionIdFromFilename(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Read only the session meta line of a rollout.
+ */
+async function readRolloutMeta(filePath: string): Promise<CodexSessionMeta | null> {
+  const rl = createInterface({
+    input: createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+
+  try {
+    for await (const text of rl) {
+      if (!text.trim()) continue;
+      try {
+        const line = normalizeRolloutLine(JSON.parse(text) as Record<string, unknown>);
+        if (line?.type === "session_meta") {
+          return line.payload as CodexSessionMeta;
+        }
+      } catch {
+        // Skip malformed lines
+      }
+      // The meta line is always first; anything else means there is none
+      return null;
+    }
+    return null;
+  } finally {
+    rl.close();
+  }
+}
+
+export class CodexSessionSource implements SessionSource {
+  readonly sourceType = "codex" as const;
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const stats = await stat(getCodexSessionsDir());
+      return stats.isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  async listProjects(): Promise<ProjectInfo[]> {
+    const files = await collectRolloutFiles(getCodexSessionsDir());
+    const projects = new Map<string, ProjectInfo>();
+
+    for (const file of files) {
+      const meta = await readRolloutMeta(file);
+      const folder = codexProjectFolder(meta?.cwd);
+      if (!projects.has(folder)) {
+        projects.set(folder, { folder, path: meta?.cwd || "(unknown)" });
+      }
+    }
+
+    return [...projects.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async listSessions(folder: string): Promise<SessionSummary[]> {
+    // Validate folder doesn't contain path traversal sequences
+    if (folder.includes("..") || folder.includes("/")) {
+      throw new Error("Invalid folder name: path traversal not allowed");
+    }
+
+    const files = await collectRolloutFiles(getCodexSessionsDir());
+    const sessions: SessionSummary[] = [];
+
+    for (const file of files) {
+      const meta = await readRolloutMeta(file);
+      if (codexProjectFolder(meta?.cwd) !== folder) continue;
+
+      try {
+        sessions.push(await this.parseSessionSummary(file));
+      } catch (error) {
+        console.warn(`Failed to parse Codex rollout ${file}:`, error);
+      }
+    }
+
+    // Sort by lastModifiedAt descending (most recent first)
+    return sessions.sort(
+      (a, b) => b.lastModifiedAt.getTime() - a.lastModifiedAt.getTime()
+    );
+  }
+
+  /**
+   * Find a session by ID.
+   * @returns Project folder identifier if found, null otherwise
+   */
+  async findSession(sessionId: string): Promise<string | null> {
+    const filePath = await this.findSessionFile(sessionId);
+    if (!filePath) return null;
+    const meta = await readRolloutMeta(filePath);
+    return codexProjectFolder(meta?.cwd);
+  }
+
+  /**
+   * Locate the rollout file for a session ID.
+   * @returns Absolute rollout path, or null if not found
+   */
+  async findSessionFile(sessionId: string): Promise<string | null> {
+    try {
+      const files = await collectRolloutFiles(getCodexSessionsDir());
+      const needle = sessionId.toLowerCase();
+      return (
+        files.find((file) => {
+          const name = file.split(/[/\\]/).pop() ?? "";
+          return extractSessionIdFromFilename(name)?.toLowerCase() === needle;
+        }) ?? null
+      );
+    } catch {
+      // Sessions directory doesn't exist or not readable
+      return null;
+    }
+  }
+
+  /**
+   * Load and parse a session's rollout.
+   * @throws ENOENT error if the session does not exist
+   */
+  async loadSession(sessionId: string): Promise<CodexRollout & { filePath: string }> {
+    const filePath = await this.findSessionFile(sessionId);
+    if (!filePath) {
+      const error = new Error(`Codex session not found: ${sessionId}`) as NodeJS.ErrnoException;
+      error.code = "ENOENT";
+      throw error;
+    }
+
+    const content = await readFile(filePath, "utf-8");
+    return { ...parseRollout(content, sessionId), filePath };
+  }
+
+  private async parseSessionSummary(filePath: string): Promise<SessionSummary> {
+    const stats = await stat(filePath);
+    const name = filePath.split(/[/\\]/).pop() ?? "";
+    const fallbackId = extractSessionIdFromFilename(name) ?? "";
+    const rollout = parseRollout(await readFile(filePath, "utf-8"), fallbackId);
+    const entries = rolloutToEntries(rollout);
+
+    const firstUser = entries.find(
+      (e) => e.type === "user" && !e.isMeta && Array.isArray(e.message?.content) &&
+        e.message.content.some((b) => b.type === "text")
+    );
+    const firstText = (firstUser?.message?.content as ContentBlock[] | undefined)
+      ?.find((b) => b.type === "text")?.text as string | undefined;
+
+    const started = rollout.meta.timestamp ? new Date(rollout.meta.timestamp) : stats.mtime;
+
+    return {
+      sessionId: rollout.meta.id || fallbackId,
+      source: "codex",
+      projectPath: rollout.meta.cwd || "(unknown)",
+      firstMessage: firstText ? truncateMessage(firstText, 100) : "(No user message)",
+      createdAt: Number.isNaN(started.getTime()) ? stats.mtime : started,
+      lastModifiedAt: stats.mtime,
+      sizeBytes: stats.size,
+      turnCount: identifyTurns(entries).length,
+    };
+  }
+}
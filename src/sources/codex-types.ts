@@ -0,0 +1,83 @@
+/**
+ * Envelope written for every line of a Codex CLI rollout file.
+ * Older rollouts (before the envelope was introduced) store the bare
+ * payload on each line instead; see normalizeRolloutLine().
+ */
+export interface CodexRolloutLine {
+  /** ISO timestamp of the line */
+  timestamp?: string;
+  /** Line kind */
+  type: "session_meta" | "response_item" | "event_msg" | "turn_context" | "compacted" | string;
+  /** Kind-specific payload */
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Session metadata recorded on the first line of a rollout.
+ */
+export interface CodexSessionMeta {
+  /** Session UUID (also the suffix of the rollout filename) */
+  id: string;
+  /** ISO timestamp of session start */
+  timestamp: string;
+  /** Working directory the session was started in */
+  cwd?: string;
+  /** Client that created the session (e.g. "codex_cli_rs") */
+  originator?: string;
+  /** Codex CLI version */
+  cli_version?: string;
+  /** Base instructions sent to the model */
+  instructions?: string | null;
+  [key: string]: unknown;
+}
+
+/**
+ * Content part inside a Codex message item.
+ */
+export interface CodexContentPart {
+  type: "input_text" | "output_text" | "input_image" | string;
+  text?: string;
+  image_url?: string;
+}
+
+/**
+ * Model-visible conversation item (payload of a "response_item" line).
+ */
+export interface CodexResponseItem {
+  type:
+    | "message"
+    | "reasoning"
+    | "function_call"
+    | "function_call_output"
+    | "custom_tool_call"
+    | "custom_tool_call_output"
+    | "local_shell_call"
+    | string;
+  /** message: "user" | "assistant" | "system" */
+  role?: string;
+  /** message: content parts */
+  content?: CodexContentPart[] | null;
+  /** reasoning: summary parts */
+  summary?: Array<{ type: string; text?: string }>;
+  /** function_call / custom_tool_call: tool name */
+  name?: string;
+  /** function_call: JSON-encoded arguments */
+  arguments?: string;
+  /** custom_tool_call: raw tool input */
+  input?: string;
+  /** local_shell_call: shell action */
+  action?: Record<string, unknown>;
+  /** Tool call identifier pairing calls and outputs */
+  call_id?: string;
+  /** function_call_output / custom_tool_call_output: tool output */
+  output?: string | { content?: string; success?: boolean };
+  [key: string]: unknown;
+}
+
+/**
+ * A fully loaded rollout: metadata plus every parsed line in file order.
+ */
+export interface CodexRollout {
+  meta: CodexSessionMeta;
+  lines: CodexRolloutLine[];
+}
@@ -1,41 +1,175 @@
 import { stat, readdir, readFile } from "fs/promises";
-import { join } from "path";
+import { existsSync } from "fs";
+import { join, dirname, basename, delimiter } from "path";
 import { homedir } from "os";
 import type { SessionSource } from "./types.js";
 import type { ProjectInfo, SessionSummary } from "../types.js";
-import type { CopilotSession, WorkspaceConfig } from "./copilot-types.js";
+import type { CopilotSession, WorkspaceConfig, VSCodeInstall } from "./copilot-types.js";
 import { truncateMessage } from "./claude-source.js";
+import { getSessionIndex } from "../lib/session-index.js";
+import { copilotStructureService } from "../services/copilot-structure.js";
+import { config as appConfig } from "../config.js";
 
 /**
- * Get the VS Code workspace storage path for the current platform.
- * Supports VSCODE_STORAGE_PATH env var override for testing.
+ * Get the workspace storage path of a VS Code product folder
+ * ("Code", "Code - Insiders", "VSCodium") for the current platform.
  *
  * Platform defaults:
- * - macOS: ~/Library/Application Support/Code/User/workspaceStorage/
- * - Linux: ~/.config/Code/User/workspaceStorage/
- * - Windows: %APPDATA%/Code/User/workspaceStorage/
+ * - macOS: ~/Library/Application Support/<product>/User/workspaceStorage/
+ * - Linux: ~/.config/<product>/User/workspaceStorage/
+ * - Windows: %APPDATA%/<product>/User/workspaceStorage/
  */
-export function getVSCodeStoragePath(): string {
-  // Check for test override
-  if (process.env.VSCODE_STORAGE_PATH) {
-    return process.env.VSCODE_STORAGE_PATH;
-  }
-
+export function getProductStoragePath(product: string): string {
   const platform = process.platform;
   const home = homedir();
 
   switch (platform) {
     case "darwin":
-      return join(home, "Library/Application Support/Code/User/workspaceStorage");
+      return join(home, "Library/Application Support", product, "User/workspaceStorage");
     case "linux":
-      return join(home, ".config/Code/User/workspaceStorage");
+      return join(home, ".config", product, "User/workspaceStorage");
     case "win32":
-      return join(process.env.APPDATA || home, "Code/User/workspaceStorage");
+      return join(process.env.APPDATA || home, product, "User/workspaceStorage");
     default:
       throw new Error(`Unsupported platform: ${platform}`);
   }
 }
 
+/**
+ * Get the VS Code workspace storage path for the current platform.
+ * Supports VSCODE_STORAGE_PATH env var override for testing.
+ * This is the primary install; see getVSCodeInstalls() for all of them.
+ */
+export function getVSCodeStoragePath(): string {
+  // Check for test override
+  if (process.env.VSCODE_STORAGE_PATH) {
+    return process.env.VSCODE_STORAGE_PATH;
+  }
+
+  return getProductStoragePath("Code");
+}
+
+/**
+ * Resolve a configured storage root to its workspaceStorage directory.
+ * Accepts a workspaceStorage path or a portable install's data/ directory.
+ */
+export function resolveStorageRoot(root: string): string {
+  if (basename(root) === "workspaceStorage") {
+    return root;
+  }
+  return join(root, "user-data", "User", "workspaceStorage");
+}
+
+/**
+ * The install that holds imported Copilot sessions (see session-import).
+ */
+export function getImportInstall(): VSCodeInstall {
+  return { id: "imports", name: "Imported", storagePath: join(appConfig.importDir, "copilot", "workspaceStorage") };
+}
+
+/**
+ * List the VS Code installs to scan for Copilot sessions.
+ *
+ * Defaults to stable, Insiders and VSCodium, plus the portable install
+ * VS Code is running from (VSCODE_PORTABLE). VSCODE_STORAGE_PATH replaces
+ * the defaults with a single install. VSCODE_EXTRA_STORAGE_PATHS adds
+ * installs: a list separated by the platform path delimiter, each entry
+ * "Name=path" or just "path", pointing at workspaceStorage or a portable
+ * data/ directory. The first install is the primary one. Uploaded
+ * sessions are added as the "imports" install.
+ */
+export function getVSCodeInstalls(): VSCodeInstall[] {
+  const installs: VSCodeInstall[] = [];
+
+  if (process.env.VSCODE_STORAGE_PATH) {
+    installs.push({ id: "code", name: "VS Code", storagePath: process.env.VSCODE_STORAGE_PATH });
+  } else {
+    installs.push(
+      { id: "code", name: "VS Code", storagePath: getProductStoragePath("Code") },
+      { id: "code-insiders", name: "VS Code Insiders", storagePath: getProductStoragePath("Code - Insiders") },
+      { id: "vscodium", name: "VSCodium", storagePath: getProductStoragePath("VSCodium") }
+    );
+    if (process.env.VSCODE_PORTABLE) {
+      installs.push({
+        id: "portable",
+        name: "VS Code (portable)",
+        storagePath: resolveStorageRoot(process.env.VSCODE_PORTABLE),
+      });
+    }
+  }
+
+  const extras = (process.env.VSCODE_EXTRA_STORAGE_PATHS || "").split(delimiter).filter(Boolean);
+  extras.forEach((entry, index) => {
+    const separator = entry.indexOf("=");
+    const name = separator > 0 ? entry.slice(0, separator).trim() : `Custom ${index + 1}`;
+    const root = separator > 0 ? entry.slice(separator + 1).trim() : entry.trim();
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || `custom-${index + 1}`;
+    const id = installs.some((i) => i.id === slug) ? `${slug}-${index + 1}` : slug;
+    installs.push({ id, name, storagePath: resolveStorageRoot(root) });
+  });
+
+  // Uploaded sessions, once anything has been imported
+  const imports = getImportInstall();
+  if (existsSync(imports.storagePath)) {
+    installs.push(imports);
+  }
+
+  // The same directory listed twice would duplicate every project
+  return installs.filter(
+    (install, index) => installs.findIndex((i) => i.storagePath === install.storagePath) === index
+  );
+}
+
+/**
+ * Build the folder identifier for a workspace.
+ * Workspaces of the primary install keep their bare hash; other installs
+ * are qualified as "<installId>:<hash>" because the same folder opened in
+ * two installs gets the same hash.
+ */
+export function workspaceFolderId(install: VSCodeInstall, workspaceHash: string): string {
+  const primary = getVSCodeInstalls()[0];
+  return install.id === primary?.id ? workspaceHash : `${install.id}:${workspaceHash}`;
+}
+
+/**
+ * Resolve a workspace folder identifier to its install and directory.
+ * A bare hash is looked up in each install in order, falling back to the
+ * primary install when no install has it yet.
+ * @throws ENOENT error for an unknown install ID
+ */
+export function resolveWorkspace(folder: string): { install: VSCodeInstall; workspacePath: string } {
+  const installs = getVSCodeInstalls();
+  const separator = folder.indexOf(":");
+
+  if (separator > 0) {
+    const installId = folder.slice(0, separator);
+    const install = installs.find((i) => i.id === installId);
+    if (!install) {
+      const error = new Error(`Unknown VS Code install: ${installId}`) as NodeJS.ErrnoException;
+      error.code = "ENOENT";
+      throw error;
+    }
+    return { install, workspacePath: join(install.storagePath, folder.slice(separator + 1)) };
+  }
+
+  for (const install of installs) {
+    const workspacePath = join(install.storagePath, folder);
+    if (existsSync(workspacePath)) {
+      return { install, workspacePath };
+    }
+  }
+  return { install: installs[0], workspacePath: join(installs[0].storagePath, folder) };
+}
+
+/**
+ * Get the VS Code globalStorage path, where extensions keep data that is
+ * not tied to a workspace. It is the sibling of workspaceStorage, so the
+ * VSCODE_STORAGE_PATH override applies to it as well.
+ */
+export function getVSCodeGlobalStoragePath(): string {
+  return join(dirname(getVSCodeStoragePath()), "globalStorage");
+}
+
 /**
  * Extract the filesystem path from a VS Code folder URI.
  * @param folderUri URI like "file:///Users/dev/project"
@@ -81,46 +215,56 @@ export class CopilotSessionSource implements SessionSource {
   readonly sourceType = "copilot" as const;
 
   async isAvailable(): Promise<boolean> {
-    try {
-      const storagePath = getVSCodeStoragePath();
-      const stats = await stat(storagePath);
-      return stats.isDirectory();
-    } catch {
-      return false;
+    for (const install of getVSCodeInstalls()) {
+      try {
+        const stats = await stat(install.storagePath);
+        if (stats.isDirectory()) return true;
+      } catch {
+        // Install not present, try the next one
+      }
     }
+    return false;
   }
 
   async listProjects(): Promise<ProjectInfo[]> {
-    const storagePath = getVSCodeStoragePath();
-    const entries = await readdir(storagePath, { withFileTypes: true });
-
     const projects: ProjectInfo[] = [];
 
-    for (const entry of entries) {
-      if (!entry.isDirectory()) continue;
+    for (const install of getVSCodeInstalls()) {
+      let entries;
+      try {
+        entries = await readdir(install.storagePath, { withFileTypes: true });
+      } catch {
+        // Install not present
+        continue;
+      }
 
-      const workspacePath = join(storagePath, entry.name);
-      const workspaceJsonPath = join(workspacePath, "workspace.json");
-      const chatSessionsPath = join(workspacePath, "chatSessions");
+      for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
 
-      try {
-        // Must have both workspace.json and chatSessions folder
-        await stat(workspaceJsonPath);
-        const chatStats = await stat(chatSessionsPath);
+        const workspacePath = join(install.storagePath, entry.name);
+        const workspaceJsonPath = join(workspacePath, "workspace.json");
+        const chatSessionsPath = join(workspacePath, "chatSessions");
 
-        if (!chatStats.isDirectory()) continue;
+        try {
+          // Must have both workspace.json and chatSessions folder
+          await stat(workspaceJsonPath);
+          const chatStats = await stat(chatSessionsPath);
 
-        const configContent = await readFile(workspaceJsonPath, "utf-8");
-        const config = JSON.parse(configContent) as WorkspaceConfig;
-        const projectPath = extractPathFromUri(config.folder);
+          if (!chatStats.isDirectory()) continue;
 
-        projects.push({
-          folder: entry.name,
-          path: projectPath,
-        });
-      } catch {
-        // Skip workspaces missing required files or with parse errors
-        continue;
+          const configContent = await readFile(workspaceJsonPath, "utf-8");
+          const config = JSON.parse(configContent) as WorkspaceConfig;
+          const projectPath = extractPathFromUri(config.folder);
+
+          projects.push({
+            folder: workspaceFolderId(install, entry.name),
+            path: projectPath,
+            install: install.name,
+          });
+        } catch {
+          // Skip workspaces missing required files or with parse errors
+          continue;
+        }
       }
     }
 
@@ -134,79 +278,112 @@ export class CopilotSessionSource implements SessionSource {
       throw new Error("Invalid workspace hash: path traversal not allowed");
     }
 
-    const storagePath = getVSCodeStoragePath();
-    const workspacePath = join(storagePath, workspaceHash);
+    const { workspacePath } = resolveWorkspace(workspaceHash);
     const chatSessionsPath = join(workspacePath, "chatSessions");
-    const workspaceJsonPath = join(workspacePath, "workspace.json");
-
-    // Get project path for metadata
-    const configContent = await readFile(workspaceJsonPath, "utf-8");
-    const config = JSON.parse(configContent) as WorkspaceConfig;
-    const projectPath = extractPathFromUri(config.folder);
+    const projectPath = await this.readProjectPath(workspacePath);
 
     const entries = await readdir(chatSessionsPath, { withFileTypes: true });
+    const sessionFiles = entries.filter((e) => e.isFile() && e.name.endsWith(".json"));
     const sessions: SessionSummary[] = [];
 
-    for (const entry of entries) {
-      if (!entry.isFile() || !entry.name.endsWith(".json")) continue;
-
-      const sessionPath = join(chatSessionsPath, entry.name);
-
+    for (const entry of sessionFiles) {
       try {
-        const stats = await stat(sessionPath);
-        const content = await readFile(sessionPath, "utf-8");
-        const session = JSON.parse(content) as CopilotSession;
-
-        sessions.push({
-          sessionId: entry.name.replace(".json", ""),
-          source: "copilot",
-          projectPath,
-          firstMessage: extractFirstMessage(session),
-          createdAt: new Date(session.creationDate),
-          lastModifiedAt: stats.mtime,  // Use file system mtime, NOT session.lastMessageDate
-          sizeBytes: stats.size,
-          turnCount: countTurns(session),
-        });
+        sessions.push(
+          await this.summarizeSession(join(chatSessionsPath, entry.name), entry.name.replace(".json", ""), projectPath)
+        );
       } catch (error) {
         // Log warning but continue processing other files
         console.warn(`Failed to parse Copilot session ${entry.name}:`, error);
         continue;
       }
     }
+    getSessionIndex().prune(chatSessionsPath, sessionFiles.map((e) => join(chatSessionsPath, e.name)));
 
     // Sort by lastModifiedAt descending
     return sessions.sort((a, b) => b.lastModifiedAt.getTime() - a.lastModifiedAt.getTime());
   }
 
   /**
-   * Find a session by ID across all workspaces.
-   * @returns Workspace hash if found, null otherwise
+   * Summarize one session of a workspace without listing the rest.
+   * @throws ENOENT error if the session file does not exist
    */
-  async findSession(sessionId: string): Promise<string | null> {
-    const storagePath = getVSCodeStoragePath();
+  async getSessionSummary(workspaceHash: string, sessionId: string): Promise<SessionSummary> {
+    if (workspaceHash.includes("..") || workspaceHash.includes("/")) {
+      throw new Error("Invalid workspace hash: path traversal not allowed");
+    }
+
+    const { workspacePath } = resolveWorkspace(workspaceHash);
+    return this.summarizeSession(
+      join(workspacePath, "chatSessions", `${sessionId}.json`),
+      sessionId,
+      await this.readProjectPath(workspacePath)
+    );
+  }
 
-    try {
-      const workspaces = await readdir(storagePath, { withFileTypes: true });
+  private async readProjectPath(workspacePath: string): Promise<string> {
+    const configContent = await readFile(join(workspacePath, "workspace.json"), "utf-8");
+    const config = JSON.parse(configContent) as WorkspaceConfig;
+    return extractPathFromUri(config.folder);
+  }
 
-      for (const workspace of workspaces) {
-        if (!workspace.isDirectory()) continue;
+  private async summarizeSession(sessionPath: string, sessionId: string, projectPath: string): Promise<SessionSummary> {
+    const index = getSessionIndex();
+    const stats = await stat(sessionPath);
+    let metadata = index.get(sessionPath, stats);
+    if (!metadata) {
+      const content = await readFile(sessionPath, "utf-8");
+      const session = JSON.parse(content) as CopilotSession;
+      metadata = {
+        firstMessage: extractFirstMessage(session),
+        turnCount: countTurns(session),
+        createdAt: session.creationDate,
+        contextTokens: copilotStructureService.countSessionTokens(session),
+      };
+      index.set(sessionPath, "copilot", stats, metadata);
+    }
 
-        const sessionPath = join(
-          storagePath,
-          workspace.name,
-          "chatSessions",
-          `${sessionId}.json`
-        );
+    return {
+      sessionId,
+      source: "copilot",
+      projectPath,
+      firstMessage: metadata.firstMessage,
+      createdAt: new Date(metadata.createdAt ?? stats.mtimeMs),
+      lastModifiedAt: stats.mtime,  // Use file system mtime, NOT session.lastMessageDate
+      sizeBytes: stats.size,
+      turnCount: metadata.turnCount,
+      contextTokens: metadata.contextTokens,
+    };
+  }
 
-        try {
-          await stat(sessionPath);
-          return workspace.name; // Found it
-        } catch {
-          // Not in this workspace, continue
+  /**
+   * Find a session by ID across all workspaces of all installs.
+   * @returns Workspace folder identifier if found, null otherwise
+   */
+  async findSession(sessionId: string): Promise<string | null> {
+    for (const install of getVSCodeInstalls()) {
+      try {
+        const workspaces = await readdir(install.storagePath, { withFileTypes: true });
+
+        for (const workspace of workspaces) {
+          if (!workspace.isDirectory()) continue;
+
+          const sessionPath = join(
+            install.storagePath,
+            workspace.name,
+            "chatSessions",
+            `${sessionId}.json`
+          );
+
+          try {
+            await stat(sessionPath);
+            return workspaceFolderId(install, workspace.name); // Found it
+          } catch {
+            // Not in this workspace, continue
+          }
         }
+      } catch {
+        // Storage directory doesn't exist
       }
-    } catch {
-      // Storage directory doesn't exist
     }
 
     return null;
@@ -215,13 +392,12 @@ export class CopilotSessionSource implements SessionSource {
   /**
    * Load a specific session by ID and workspace.
    * @param sessionId Session UUID
-   * @param workspaceHash Workspace folder hash
+   * @param workspaceHash Workspace folder identifier (hash, or "<installId>:<hash>")
    */
   async loadSession(sessionId: string, workspaceHash: string): Promise<CopilotSession> {
-    const storagePath = getVSCodeStoragePath();
+    const { workspacePath } = resolveWorkspace(workspaceHash);
     const sessionPath = join(
-      storagePath,
-      workspaceHash,
+      workspacePath,
       "chatSessions",
       `${sessionId}.json`
     );
@@ -1,3 +1,15 @@
+/**
+ * A VS Code build whose workspace storage is scanned for Copilot sessions.
+ */
+export interface VSCodeInstall {
+  /** Stable identifier, used to qualify workspace folders */
+  id: string;
+  /** Display name, e.g. "VS Code Insiders" */
+  name: string;
+  /** Absolute path to the install's workspaceStorage directory */
+  storagePath: string;
+}
+
 /**
  * Workspace configuration from VS Code's workspace.json
  */
@@ -45,6 +57,8 @@ export interface CopilotRequest {
     /** Structured message parts */
     parts: unknown[];
   };
+  /** Context variables attached to the message */
+  variableData?: { variables: unknown[] };
   /** Response items from Copilot */
   response: CopilotResponseItem[];
   /** Request result with metadata including tool call results */
@@ -0,0 +1,352 @@
+import { stat, readdir, readFile } from "fs/promises";
+import { join, dirname } from "path";
+import { homedir } from "os";
+import type { SessionSource } from "./types.js";
+import type { ProjectInfo, SessionSummary, SessionEntry, ContentBlock } from "../types.js";
+import type { WorkspaceConfig } from "./copilot-types.js";
+import type {
+  CursorBubble,
+  CursorComposerData,
+  CursorConversation,
+  CursorLegacyChatData,
+  CursorWorkspaceComposers,
+} from "./cursor-types.js";
+import { CURSOR_BUBBLE_USER, CURSOR_BUBBLE_ASSISTANT } from "./cursor-types.js";
+import { extractPathFromUri } from "./copilot-source.js";
+import { truncateMessage } from "./claude-source.js";
+import { VSCodeStateDb } from "../lib/sqlite-state.js";
+import { identifyTurns } from "../services/session-clone.js";
+
+const COMPOSERS_KEY = "composer.composerData";
+const LEGACY_CHAT_KEY = "workbench.panel.aichat.view.aichat.chatdata";
+
+/**
+ * Get the Cursor workspace storage path for the current platform.
+ * Supports CURSOR_STORAGE_PATH env var override for testing.
+ *
+ * Platform defaults:
+ * - macOS: ~/Library/Application Support/Cursor/User/workspaceStorage/
+ * - Linux: ~/.config/Cursor/User/workspaceStorage/
+ * - Windows: %APPDATA%/Cursor/User/workspaceStorage/
+ */
+export function getCursorStoragePath(): string {
+  if (process.env.CURSOR_STORAGE_PATH) {
+    return process.env.CURSOR_STORAGE_PATH;
+  }
+
+  const home = homedir();
+
+  switch (process.platform) {
+    case "darwin":
+      return join(home, "Library/Application Support/Cursor/User/workspaceStorage");
+    case "linux":
+      return join(home, ".config/Cursor/User/workspaceStorage");
+    case "win32":
+      return join(process.env.APPDATA || home, "Cursor/User/workspaceStorage");
+    default:
+      throw new Error(`Unsupported platform: ${process.platform}`);
+  }
+}
+
+/**
+ * Get the Cursor globalStorage directory, which holds the state.vscdb
+ * with the cursorDiskKV table.
+ */
+export function getCursorGlobalStoragePath(): string {
+  return join(dirname(getCursorStoragePath()), "globalStorage");
+}
+
+/**
+ * Decode tool call arguments. Falls back to the raw string when
+ * they are not valid JSON.
+ */
+function parseToolArgs(raw: string | undefined): unknown {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return { arguments: raw };
+  }
+}
+
+/**
+ * Convert a Cursor conversation into Claude-shaped session entries so
+ * turn detection and token accounting can be shared across sources.
+ * Assistant bubbles carry thinking, text and at most one tool call; a
+ * tool call is followed by a user entry carrying its result.
+ */
+export function cursorToEntries(conversation: CursorConversation): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  let parentUuid: string | null = null;
+
+  const push = (type: "user" | "assistant", uuid: string, content: ContentBlock[]) => {
+    entries.push({
+      type,
+      uuid,
+      parentUuid,
+      sessionId: conversation.sessionId,
+      message: { role: type, content },
+    });
+    parentUuid = uuid;
+  };
+
+  for (const bubble of conversation.bubbles) {
+    const uuid = `${conversation.sessionId}:${bubble.bubbleId}`;
+
+    if (bubble.type === CURSOR_BUBBLE_USER) {
+      if (bubble.text) {
+        push("user", uuid, [{ type: "text", text: bubble.text }]);
+      }
+      continue;
+    }
+
+    if (bubble.type !== CURSOR_BUBBLE_ASSISTANT) continue;
+
+    const blocks: ContentBlock[] = [];
+    if (bubble.thinking?.text) {
+      blocks.push({ type: "thinking", thinking: bubble.thinking.text });
+    }
+    if (bubble.text) {
+      blocks.push({ type: "text", text: bubble.text });
+    }
+
+    const tool = bubble.toolFormerData;
+    const toolId = tool?.toolCallId || bubble.bubbleId;
+    if (tool?.name) {
+      blocks.push({ type: "tool_use", id: toolId, name: tool.name, input: parseToolArgs(tool.rawArgs ?? tool.params) });
+    }
+
+    if (blocks.length > 0) {
+      push("assistant", uuid, blocks);
+    }
+
+    if (tool?.name && tool.result !== undefined) {
+      push("user", `${uuid}:result`, [
+        {
+          type: "tool_result",
+          tool_use_id: toolId,
+          content: typeof tool.result === "string" ? tool.result : JSON.stringify(tool.result),
+        },
+      ]);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Load one composer from the global database.
+ * @returns The conversation, or null if it has no stored messages
+ */
+function loadComposer(globalDb: VSCodeStateDb, composerId: string): CursorConversation | null {
+  const data = globalDb.readCursorValue<CursorComposerData>(`composerData:${composerId}`);
+  if (!data) return null;
+
+  let sizeBytes = Buffer.byteLength(JSON.stringify(data));
+  let bubbles: CursorBubble[];
+
+  if (Array.isArray(data.conversation) && data.conversation.length > 0) {
+    bubbles = data.conversation;
+  } else {
+    const stored = globalDb.readCursorValues<CursorBubble>(`bubbleId:${composerId}:`);
+    const byId = new Map<string, CursorBubble>();
+    for (const { key, value } of stored) {
+      sizeBytes += Buffer.byteLength(JSON.stringify(value));
+      byId.set(value.bubbleId ?? key.slice(key.lastIndexOf(":") + 1), value);
+    }
+    const headers = data.fullConversationHeadersOnly;
+    bubbles = headers
+      ? headers.map((h) => byId.get(h.bubbleId)).filter((b): b is CursorBubble => b !== undefined)
+      : [...byId.values()];
+  }
+
+  if (bubbles.length === 0) return null;
+
+  return {
+    sessionId: composerId,
+    kind: "composer",
+    title: data.name,
+    createdAt: data.createdAt,
+    lastUpdatedAt: data.lastUpdatedAt,
+    bubbles,
+    sizeBytes,
+  };
+}
+
+/**
+ * IDs of every conversation a workspace knows about, without loading them.
+ */
+function listConversationIds(workspaceDb: VSCodeStateDb): string[] {
+  const composers = workspaceDb.readItem<CursorWorkspaceComposers>(COMPOSERS_KEY)?.allComposers ?? [];
+  const tabs = workspaceDb.readItem<CursorLegacyChatData>(LEGACY_CHAT_KEY)?.tabs ?? [];
+  return [...composers.map((c) => c.composerId), ...tabs.map((t) => t.tabId)];
+}
+
+/**
+ * Load every conversation of a workspace: composers (stored globally)
+ * plus legacy chat panel tabs (stored in the workspace database).
+ */
+function loadWorkspaceConversations(workspaceDir: string): CursorConversation[] {
+  const workspaceDb = new VSCodeStateDb(workspaceDir);
+  const globalDb = new VSCodeStateDb(getCursorGlobalStoragePath());
+  const conversations: CursorConversation[] = [];
+
+  const composers = workspaceDb.readItem<CursorWorkspaceComposers>(COMPOSERS_KEY)?.allComposers ?? [];
+  for (const head of composers) {
+    const conversation = loadComposer(globalDb, head.composerId);
+    if (conversation) {
+      conversations.push({
+        ...conversation,
+        title: conversation.title ?? head.name,
+        createdAt: conversation.createdAt ?? head.createdAt,
+        lastUpdatedAt: conversation.lastUpdatedAt ?? head.lastUpdatedAt,
+      });
+    }
+  }
+
+  const tabs = workspaceDb.readItem<CursorLegacyChatData>(LEGACY_CHAT_KEY)?.tabs ?? [];
+  for (const tab of tabs) {
+    const bubbles: CursorBubble[] = (tab.bubbles ?? []).map((b, index) => ({
+      bubbleId: b.id ?? String(index),
+      type: b.type === "user" ? CURSOR_BUBBLE_USER : CURSOR_BUBBLE_ASSISTANT,
+      text: b.text || b.rawText || "",
+    }));
+    if (bubbles.length === 0) continue;
+    conversations.push({
+      sessionId: tab.tabId,
+      kind: "chat",
+      title: tab.chatTitle,
+      lastUpdatedAt: tab.lastSendTime,
+      bubbles,
+      sizeBytes: Buffer.byteLength(JSON.stringify(tab)),
+    });
+  }
+
+  return conversations;
+}
+
+async function readWorkspaceFolder(workspaceDir: string): Promise<string> {
+  const config = JSON.parse(await readFile(join(workspaceDir, "workspace.json"), "utf-8")) as WorkspaceConfig;
+  return extractPathFromUri(config.folder);
+}
+
+/**
+ * Read-only access to Cursor composer and chat history.
+ * All database access goes through VSCodeStateDb, so write support can
+ * reuse its backup() discipline.
+ */
+export class CursorSessionSource implements SessionSource {
+  readonly sourceType = "cursor" as const;
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const stats = await stat(getCursorStoragePath());
+      return stats.isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  async listProjects(): Promise<ProjectInfo[]> {
+    const storagePath = getCursorStoragePath();
+    const entries = await readdir(storagePath, { withFileTypes: true });
+    const projects: ProjectInfo[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const workspaceDir = join(storagePath, entry.name);
+
+      try {
+        const projectPath = await readWorkspaceFolder(workspaceDir);
+        if (listConversationIds(new VSCodeStateDb(workspaceDir)).length === 0) continue;
+        projects.push({ folder: entry.name, path: projectPath });
+      } catch {
+        // Skip workspaces missing workspace.json, multi-root workspaces and unreadable databases
+        continue;
+      }
+    }
+
+    return projects.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async listSessions(workspaceHash: string): Promise<SessionSummary[]> {
+    // Validate workspaceHash doesn't contain path traversal sequences
+    if (workspaceHash.includes("..") || workspaceHash.includes("/")) {
+      throw new Error("Invalid workspace hash: path traversal not allowed");
+    }
+
+    const workspaceDir = join(getCursorStoragePath(), workspaceHash);
+    const projectPath = await readWorkspaceFolder(workspaceDir);
+    const stats = await stat(join(workspaceDir, "state.vscdb"));
+
+    const sessions = loadWorkspaceConversations(workspaceDir).map((conversation): SessionSummary => {
+      const entries = cursorToEntries(conversation);
+      const firstUser = conversation.bubbles.find((b) => b.type === CURSOR_BUBBLE_USER && b.text);
+      const firstText = firstUser?.text || conversation.title;
+      const updated = conversation.lastUpdatedAt ?? conversation.createdAt;
+
+      return {
+        sessionId: conversation.sessionId,
+        source: "cursor",
+        projectPath,
+        firstMessage: firstText ? truncateMessage(firstText, 100) : "(No user message)",
+        createdAt: new Date(conversation.createdAt ?? updated ?? stats.mtime.getTime()),
+        lastModifiedAt: new Date(updated ?? stats.mtime.getTime()),
+        sizeBytes: conversation.sizeBytes,
+        turnCount: identifyTurns(entries).length,
+      };
+    });
+
+    // Sort by lastModifiedAt descending
+    return sessions.sort((a, b) => b.lastModifiedAt.getTime() - a.lastModifiedAt.getTime());
+  }
+
+  /**
+   * Find a conversation by ID across all workspaces.
+   * @returns Workspace hash if found, null otherwise
+   */
+  async findSession(sessionId: string): Promise<string | null> {
+    const storagePath = getCursorStoragePath();
+
+    try {
+      const workspaces = await readdir(storagePath, { withFileTypes: true });
+      for (const workspace of workspaces) {
+        if (!workspace.isDirectory()) continue;
+        try {
+          if (listConversationIds(new VSCodeStateDb(join(storagePath, workspace.name))).includes(sessionId)) {
+            return workspace.name;
+          }
+        } catch {
+          // Unreadable database, continue
+        }
+      }
+    } catch {
+      // Storage directory doesn't exist
+    }
+
+    return null;
+  }
+
+  /**
+   * Load a conversation. Composers are stored globally and can be loaded
+   * without a workspace; legacy chat tabs need their workspace.
+   * @throws ENOENT error if the conversation does not exist
+   */
+  async loadSession(sessionId: string, workspaceHash?: string): Promise<CursorConversation> {
+    if (workspaceHash !== undefined && (workspaceHash.includes("..") || workspaceHash.includes("/"))) {
+      throw new Error("Invalid workspace hash: path traversal not allowed");
+    }
+
+    const workspace = workspaceHash || (await this.findSession(sessionId));
+    const conversation = workspace
+      ? loadWorkspaceConversations(join(getCursorStoragePath(), workspace)).find((c) => c.sessionId === sessionId)
+      : loadComposer(new VSCodeStateDb(getCursorGlobalStoragePath()), sessionId);
+
+    if (!conversation) {
+      const error = new Error(`Cursor conversation not found: ${sessionId}`) as NodeJS.ErrnoException;
+      error.code = "ENOENT";
+      throw error;
+    }
+    return conversation;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Cursor chat storage types.
+ *
+ * Cursor is a VS Code fork and keeps chat history in state.vscdb databases:
+ * - workspaceStorage/<hash>/state.vscdb, ItemTable
+ *     "composer.composerData"                         composers opened in the workspace
+ *     "workbench.panel.aichat.view.aichat.chatdata"   legacy chat panel tabs
+ * - globalStorage/state.vscdb, cursorDiskKV
+ *     "composerData:<composerId>"                     composer metadata (and inline bubbles in older builds)
+ *     "bubbleId:<composerId>:<bubbleId>"              one message each in newer builds
+ */
+
+/** Bubble type codes used by composers */
+export const CURSOR_BUBBLE_USER = 1;
+export const CURSOR_BUBBLE_ASSISTANT = 2;
+
+/**
+ * Tool call recorded on an assistant bubble.
+ */
+export interface CursorToolFormerData {
+  toolCallId?: string;
+  name?: string;
+  rawArgs?: string;
+  params?: string;
+  result?: string;
+  status?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * One message of a composer conversation.
+ */
+export interface CursorBubble {
+  bubbleId: string;
+  type: number;
+  text?: string;
+  thinking?: { text?: string };
+  toolFormerData?: CursorToolFormerData;
+  [key: string]: unknown;
+}
+
+/**
+ * Composer entry in the workspace "composer.composerData" list.
+ */
+export interface CursorComposerHead {
+  composerId: string;
+  name?: string;
+  createdAt?: number;
+  lastUpdatedAt?: number;
+  unifiedMode?: string;
+}
+
+export interface CursorWorkspaceComposers {
+  allComposers?: CursorComposerHead[];
+}
+
+/**
+ * Global "composerData:<composerId>" value.
+ * Newer builds list bubble headers and store bubbles under their own keys;
+ * older builds inline the whole conversation.
+ */
+export interface CursorComposerData {
+  composerId: string;
+  name?: string;
+  createdAt?: number;
+  lastUpdatedAt?: number;
+  fullConversationHeadersOnly?: Array<{ bubbleId: string; type: number }>;
+  conversation?: CursorBubble[];
+}
+
+/**
+ * Legacy chat panel data (pre-composer).
+ */
+export interface CursorLegacyBubble {
+  id?: string;
+  type: "user" | "ai";
+  text?: string;
+  rawText?: string;
+}
+
+export interface CursorLegacyTab {
+  tabId: string;
+  chatTitle?: string;
+  lastSendTime?: number;
+  bubbles?: CursorLegacyBubble[];
+}
+
+export interface CursorLegacyChatData {
+  tabs?: CursorLegacyTab[];
+}
+
+/**
+ * A Cursor conversation, composer or legacy tab, normalized to bubbles.
+ */
+export interface CursorConversation {
+  sessionId: string;
+  kind: "composer" | "chat";
+  title?: string;
+  createdAt?: number;
+  lastUpdatedAt?: number;
+  bubbles: CursorBubble[];
+  /** Approximate stored size of the conversation in bytes */
+  sizeBytes: number;
+}
@@ -0,0 +1,469 @@
+import { stat, readdir, readFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import type { SessionSource } from "./types.js";
+import type { ProjectInfo, SessionSummary, SessionEntry, ContentBlock } from "../types.js";
+import type {
+  GeminiPart,
+  GeminiPartListUnion,
+  GeminiContent,
+  GeminiToolCall,
+  GeminiMessageRecord,
+  GeminiConversationRecord,
+  GeminiLogEntry,
+  GeminiSession,
+} from "./gemini-types.js";
+import { truncateMessage } from "./claude-source.js";
+import { identifyTurns } from "../services/session-clone.js";
+
+/**
+ * Get the Gemini CLI home directory path.
+ * Uses GEMINI_DIR env var if set, otherwise defaults to ~/.gemini
+ */
+export function getGeminiDir(): string {
+  return process.env.GEMINI_DIR || join(homedir(), ".gemini");
+}
+
+/**
+ * Get the directory holding per-project Gemini state (~/.gemini/tmp).
+ */
+export function getGeminiTmpDir(): string {
+  return join(getGeminiDir(), "tmp");
+}
+
+/**
+ * Gemini names project folders by the SHA-256 hex digest of the project root.
+ */
+export function isProjectHash(name: string): boolean {
+  return /^[0-9a-f]{64}$/i.test(name);
+}
+
+/**
+ * Join the text of a Gemini message content value.
+ * Thought parts are excluded; they are reported separately.
+ */
+export function extractGeminiText(content: GeminiPartListUnion | undefined): string {
+  if (content === undefined || content === null) return "";
+  if (typeof content === "string") return content;
+
+  const parts = Array.isArray(content) ? content : [content];
+  return parts
+    .map((part) => {
+      if (typeof part === "string") return part;
+      if (part.thought) return "";
+      return typeof part.text === "string" ? part.text : "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Extract the output text of a recorded tool call.
+ * Prefers the function response sent back to the model, falling back
+ * to the text Gemini displayed in the terminal.
+ */
+export function extractToolResultText(call: GeminiToolCall): string {
+  const texts: string[] = [];
+
+  for (const part of call.result ?? []) {
+    const response = part.functionResponse?.response;
+    if (response) {
+      if (typeof response.output === "string") {
+        texts.push(response.output);
+      } else if (typeof response.error === "string") {
+        texts.push(response.error);
+      } else {
+        texts.push(JSON.stringify(response));
+      }
+    } else if (typeof part.text === "string") {
+      texts.push(part.text);
+    }
+  }
+
+  if (texts.length === 0 && typeof call.resultDisplay === "string") {
+    return call.resultDisplay;
+  }
+  return texts.join("\n");
+}
+
+/**
+ * Gemini seeds every chat with an environment context exchange.
+ * It is not human input and must not start a turn.
+ */
+function isSetupContext(text: string): boolean {
+  return text.trimStart().startsWith("This is the Gemini CLI. We are setting up the context for our chat.");
+}
+
+/**
+ * Convert saved API history (checkpoint files) into chat recording messages.
+ * Function responses are attached to the tool call that requested them.
+ */
+export function checkpointToMessages(contents: GeminiContent[], timestamp: string): GeminiMessageRecord[] {
+  const messages: GeminiMessageRecord[] = [];
+  const pendingCalls: GeminiToolCall[] = [];
+  let skipReply = false;
+
+  contents.forEach((content, index) => {
+    const parts: GeminiPart[] = Array.isArray(content.parts) ? content.parts : [];
+    const id = `checkpoint-${index}`;
+
+    if (content.role === "model") {
+      if (skipReply) {
+        skipReply = false;
+        return;
+      }
+      const toolCalls: GeminiToolCall[] = parts
+        .filter((p) => p.functionCall)
+        .map((p, callIndex) => ({
+          id: p.functionCall!.id ?? `${id}-${callIndex}`,
+          name: p.functionCall!.name,
+          args: p.functionCall!.args ?? {},
+        }));
+      pendingCalls.push(...toolCalls);
+
+      messages.push({
+        id,
+        timestamp,
+        type: "gemini",
+        content: extractGeminiText(parts),
+        thoughts: parts
+          .filter((p) => p.thought && typeof p.text === "string")
+          .map((p) => ({ description: p.text })),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      });
+      return;
+    }
+
+    for (const part of parts) {
+      const response = part.functionResponse;
+      if (!response) continue;
+      const call = pendingCalls.find(
+        (c) => !c.result && (response.id ? c.id === response.id : c.name === response.name)
+      );
+      if (call) {
+        call.result = [part];
+      }
+    }
+
+    const text = extractGeminiText(parts.filter((p) => !p.functionResponse));
+    if (!text) return;
+    if (messages.length === 0 && isSetupContext(text)) {
+      skipReply = true;
+      return;
+    }
+    messages.push({ id, timestamp, type: "user", content: text });
+  });
+
+  return messages;
+}
+
+/**
+ * Convert a session's logs.json prompts into chat recording messages.
+ */
+export function logsToMessages(logs: GeminiLogEntry[]): GeminiMessageRecord[] {
+  return logs
+    .filter((log) => log.type === "user" && typeof log.message === "string")
+    .sort((a, b) => a.messageId - b.messageId)
+    .map((log) => ({
+      id: `log-${log.messageId}`,
+      timestamp: log.timestamp,
+      type: "user" as const,
+      content: log.message,
+    }));
+}
+
+/**
+ * Convert a Gemini session into Claude-shaped session entries so turn
+ * detection and token accounting can be shared across sources.
+ * Tool calls become tool_use blocks on the assistant entry, followed by
+ * a user entry carrying their tool_result blocks.
+ */
+export function geminiToEntries(session: GeminiConversationRecord): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  let parentUuid: string | null = null;
+
+  const push = (type: "user" | "assistant", uuid: string, timestamp: string, content: ContentBlock[]) => {
+    entries.push({
+      type,
+      uuid,
+      parentUuid,
+      sessionId: session.sessionId,
+      timestamp,
+      message: { role: type, content },
+    });
+    parentUuid = uuid;
+  };
+
+  session.messages.forEach((message, index) => {
+    const uuid = `${session.sessionId}:${index}`;
+
+    if (message.type === "user") {
+      push("user", uuid, message.timestamp, [{ type: "text", text: extractGeminiText(message.content) }]);
+      return;
+    }
+
+    // info, error and warning messages are UI notices
+    if (message.type !== "gemini") return;
+
+    const blocks: ContentBlock[] = [];
+    const thinking = (message.thoughts ?? [])
+      .map((t) => [t.subject, t.description].filter(Boolean).join("\n"))
+      .filter(Boolean)
+      .join("\n\n");
+    if (thinking) {
+      blocks.push({ type: "thinking", thinking });
+    }
+
+    const text = extractGeminiText(message.content);
+    if (text) {
+      blocks.push({ type: "text", text });
+    }
+
+    const toolCalls = message.toolCalls ?? [];
+    for (const call of toolCalls) {
+      blocks.push({ type: "tool_use", id: call.id, name: call.name, input: call.args ?? {} });
+    }
+
+    if (blocks.length > 0) {
+      push("assistant", uuid, message.timestamp, blocks);
+    }
+
+    if (toolCalls.length > 0) {
+      push(
+        "user",
+        `${uuid}:results`,
+        message.timestamp,
+        toolCalls.map((call) => ({
+          type: "tool_result",
+          tool_use_id: call.id,
+          content: extractToolResultText(call),
+        }))
+      );
+    }
+  });
+
+  return entries;
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries.filter((e) => e.isFile()).map((e) => e.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolve the project root for a project hash folder.
+ * Gemini only records a hash of the root; newer releases also write the
+ * root to a .project_root file. Without it the hash prefix is shown.
+ */
+async function readProjectRoot(projectDir: string, hash: string): Promise<string> {
+  try {
+    const root = (await readFile(join(projectDir, ".project_root"), "utf-8")).trim();
+    if (root) return root;
+  } catch {
+    // Older releases do not record the root
+  }
+  return `(project ${hash.slice(0, 8)})`;
+}
+
+/**
+ * Load every session stored for one project hash folder.
+ * Chat recordings are preferred; checkpoints are listed as their own
+ * sessions, and logs.json only contributes sessions that have no
+ * chat recording (prompts only, from releases before chat recording).
+ */
+async function loadProjectSessions(projectDir: string): Promise<GeminiSession[]> {
+  const sessions: GeminiSession[] = [];
+  const projectHash = projectDir.split(/[/\\]/).pop() ?? "";
+
+  const chatsDir = join(projectDir, "chats");
+  for (const name of await listFiles(chatsDir)) {
+    if (!name.startsWith("session-") || !name.endsWith(".json")) continue;
+    const filePath = join(chatsDir, name);
+    const record = await readJson<GeminiConversationRecord>(filePath);
+    if (!record || !record.sessionId || !Array.isArray(record.messages)) continue;
+    sessions.push({ ...record, kind: "chat", filePath });
+  }
+
+  const files = await listFiles(projectDir);
+
+  for (const name of files) {
+    if (!/^checkpoint(-.+)?\.json$/.test(name)) continue;
+    const filePath = join(projectDir, name);
+    const contents = await readJson<GeminiContent[]>(filePath);
+    if (!Array.isArray(contents)) continue;
+    const mtime = (await stat(filePath)).mtime.toISOString();
+    sessions.push({
+      sessionId: name.slice(0, -".json".length),
+      projectHash,
+      startTime: mtime,
+      lastUpdated: mtime,
+      messages: checkpointToMessages(contents, mtime),
+      kind: "checkpoint",
+      filePath,
+    });
+  }
+
+  if (files.includes("logs.json")) {
+    const filePath = join(projectDir, "logs.json");
+    const logs = await readJson<GeminiLogEntry[]>(filePath);
+    const recorded = new Set(sessions.map((s) => s.sessionId));
+    const bySession = new Map<string, GeminiLogEntry[]>();
+    for (const log of Array.isArray(logs) ? logs : []) {
+      if (!log?.sessionId || recorded.has(log.sessionId)) continue;
+      const list = bySession.get(log.sessionId) ?? [];
+      list.push(log);
+      bySession.set(log.sessionId, list);
+    }
+    for (const [sessionId, list] of bySession) {
+      const messages = logsToMessages(list);
+      if (messages.length === 0) continue;
+      sessions.push({
+        sessionId,
+        projectHash,
+        startTime: messages[0].timestamp,
+        lastUpdated: messages[messages.length - 1].timestamp,
+        messages,
+        kind: "log",
+        filePath,
+      });
+    }
+  }
+
+  return sessions;
+}
+
+export class GeminiSessionSource implements SessionSource {
+  readonly sourceType = "gemini" as const;
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const stats = await stat(getGeminiTmpDir());
+      return stats.isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  async listProjects(): Promise<ProjectInfo[]> {
+    const tmpDir = getGeminiTmpDir();
+    const entries = await readdir(tmpDir, { withFileTypes: true });
+    const projects: ProjectInfo[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || !isProjectHash(entry.name)) continue;
+      const projectDir = join(tmpDir, entry.name);
+      if ((await loadProjectSessions(projectDir)).length === 0) continue;
+      projects.push({ folder: entry.name, path: await readProjectRoot(projectDir, entry.name) });
+    }
+
+    return projects.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async listSessions(folder: string): Promise<SessionSummary[]> {
+    // Validate folder doesn't contain path traversal sequences
+    if (folder.includes("..") || folder.includes("/") || folder.includes("\\")) {
+      throw new Error("Invalid folder name: path traversal not allowed");
+    }
+
+    const projectDir = join(getGeminiTmpDir(), folder);
+    await stat(projectDir); // Throws ENOENT for unknown projects
+    const projectPath = await readProjectRoot(projectDir, folder);
+    const sessions: SessionSummary[] = [];
+
+    for (const session of await loadProjectSessions(projectDir)) {
+      try {
+        sessions.push(await this.parseSessionSummary(session, projectPath));
+      } catch (error) {
+        console.warn(`Failed to parse Gemini session ${session.sessionId}:`, error);
+      }
+    }
+
+    // Sort by lastModifiedAt descending (most recent first)
+    return sessions.sort(
+      (a, b) => b.lastModifiedAt.getTime() - a.lastModifiedAt.getTime()
+    );
+  }
+
+  /**
+   * Find a session by ID.
+   * @returns Project hash folder if found, null otherwise
+   */
+  async findSession(sessionId: string): Promise<string | null> {
+    try {
+      const tmpDir = getGeminiTmpDir();
+      const entries = await readdir(tmpDir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (!entry.isDirectory() || !isProjectHash(entry.name)) continue;
+        const sessions = await loadProjectSessions(join(tmpDir, entry.name));
+        if (sessions.some((s) => s.sessionId === sessionId)) {
+          return entry.name;
+        }
+      }
+      return null;
+    } catch {
+      // Gemini directory doesn't exist or not readable
+      return null;
+    }
+  }
+
+  /**
+   * Load a session. Checkpoint IDs are only unique within a project,
+   * so callers that know the project hash should pass it.
+   * @throws ENOENT error if the session does not exist
+   */
+  async loadSession(sessionId: string, folder?: string): Promise<GeminiSession> {
+    if (folder !== undefined && (folder.includes("..") || folder.includes("/") || folder.includes("\\"))) {
+      throw new Error("Invalid folder name: path traversal not allowed");
+    }
+
+    const projectFolder = folder || (await this.findSession(sessionId));
+    const session = projectFolder
+      ? (await loadProjectSessions(join(getGeminiTmpDir(), projectFolder))).find(
+          (s) => s.sessionId === sessionId
+        )
+      : undefined;
+
+    if (!session) {
+      const error = new Error(`Gemini session not found: ${sessionId}`) as NodeJS.ErrnoException;
+      error.code = "ENOENT";
+      throw error;
+    }
+    return session;
+  }
+
+  private async parseSessionSummary(session: GeminiSession, projectPath: string): Promise<SessionSummary> {
+    const stats = await stat(session.filePath);
+    const entries = geminiToEntries(session);
+
+    const firstUser = session.messages.find((m) => m.type === "user");
+    const firstText = firstUser ? extractGeminiText(firstUser.content) : "";
+
+    const created = new Date(session.startTime);
+    const updated = new Date(session.lastUpdated);
+
+    return {
+      sessionId: session.sessionId,
+      source: "gemini",
+      projectPath,
+      firstMessage: firstText ? truncateMessage(firstText, 100) : "(No user message)",
+      createdAt: Number.isNaN(created.getTime()) ? stats.mtime : created,
+      lastModifiedAt: Number.isNaN(updated.getTime()) ? stats.mtime : updated,
+      sizeBytes: session.kind === "log"
+        ? Buffer.byteLength(JSON.stringify(session.messages))
+        : stats.size,
+      turnCount: identifyTurns(entries).length,
+    };
+  }
+}
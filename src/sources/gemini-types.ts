@@ -0,0 +1,104 @@
+/**
+ * Gemini CLI storage types.
+ *
+ * Gemini keeps per-project state under ~/.gemini/tmp/<projectHash>/ where
+ * projectHash is the SHA-256 of the project root:
+ *   chats/session-<timestamp>-<idPrefix>.json  full conversation records
+ *   checkpoint-<tag>.json                      /chat save snapshots (API Content[])
+ *   logs.json                                  user prompt log for every session
+ */
+
+/**
+ * A Gemini API part. Only the fields we read are typed.
+ */
+export interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  functionCall?: {
+    id?: string;
+    name: string;
+    args?: Record<string, unknown>;
+  };
+  functionResponse?: {
+    id?: string;
+    name: string;
+    response?: Record<string, unknown>;
+  };
+  inlineData?: { mimeType?: string; data?: string };
+  [key: string]: unknown;
+}
+
+/** Message content as stored by Gemini: a string, a part, or a part list */
+export type GeminiPartListUnion = string | GeminiPart | Array<string | GeminiPart>;
+
+/**
+ * One turn of API history, as written to checkpoint files.
+ */
+export interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+export interface GeminiThought {
+  subject?: string;
+  description?: string;
+  timestamp?: string;
+}
+
+export interface GeminiToolCall {
+  id: string;
+  name: string;
+  args?: Record<string, unknown>;
+  result?: GeminiPart[] | null;
+  resultDisplay?: unknown;
+  status?: string;
+  timestamp?: string;
+}
+
+/**
+ * A message in a chat recording.
+ * "info", "error" and "warning" messages are UI notices, not conversation.
+ */
+export interface GeminiMessageRecord {
+  id: string;
+  timestamp: string;
+  type: "user" | "gemini" | "info" | "error" | "warning";
+  content: GeminiPartListUnion;
+  thoughts?: GeminiThought[];
+  toolCalls?: GeminiToolCall[];
+  model?: string;
+}
+
+/**
+ * Chat recording file (chats/session-*.json).
+ */
+export interface GeminiConversationRecord {
+  sessionId: string;
+  projectHash: string;
+  startTime: string;
+  lastUpdated: string;
+  messages: GeminiMessageRecord[];
+}
+
+/**
+ * Entry in logs.json.
+ */
+export interface GeminiLogEntry {
+  sessionId: string;
+  messageId: number;
+  type: string;
+  message: string;
+  timestamp: string;
+}
+
+/** Which kind of Gemini file a session was read from */
+export type GeminiSessionKind = "chat" | "checkpoint" | "log";
+
+/**
+ * A Gemini session normalized to the chat recording format,
+ * whatever file it was read from.
+ */
+export interface GeminiSession extends GeminiConversationRecord {
+  kind: GeminiSessionKind;
+  filePath: string;
+}
@@ -1,18 +1,43 @@
 import type { SessionSource } from "./types.js";
+import type { SessionSourceType } from "../types.js";
 import { ClaudeSessionSource } from "./claude-source.js";
 import { CopilotSessionSource } from "./copilot-source.js";
+import { CodexSessionSource } from "./codex-source.js";
+import { GeminiSessionSource } from "./gemini-source.js";
+import { ClineSessionSource } from "./cline-source.js";
+import { CursorSessionSource } from "./cursor-source.js";
 
-export function getSessionSource(type: "claude" | "copilot" = "claude"): SessionSource {
+export function getSessionSource(type: SessionSourceType = "claude"): SessionSource {
   if (type === "claude") {
     return new ClaudeSessionSource();
   }
   if (type === "copilot") {
     return new CopilotSessionSource();
   }
+  if (type === "codex") {
+    return new CodexSessionSource();
+  }
+  if (type === "gemini") {
+    return new GeminiSessionSource();
+  }
+  if (type === "cline") {
+    return new ClineSessionSource();
+  }
+  if (type === "cursor") {
+    return new CursorSessionSource();
+  }
   throw new Error(`Unsupported session source: ${type}`);
 }
 
 export type { SessionSource } from "./types.js";
-export { ClaudeSessionSource, decodeFolderName, encodeFolderPath, truncateMessage } from "./claude-source.js";
-export { CopilotSessionSource, getVSCodeStoragePath, extractPathFromUri, countTurns, extractFirstMessage } from "./copilot-source.js";
+export { ClaudeSessionSource, claudeProjectFolder, decodeFolderName, encodeFolderPath, recoverProjectPath, truncateMessage } from "./claude-source.js";
+export { CopilotSessionSource, getVSCodeStoragePath, getVSCodeGlobalStoragePath, getVSCodeInstalls, resolveWorkspace, extractPathFromUri, countTurns, extractFirstMessage } from "./copilot-source.js";
+export { CodexSessionSource, getCodexSessionsDir, parseRollout, rolloutToEntries } from "./codex-source.js";
+export { GeminiSessionSource, getGeminiDir, geminiToEntries } from "./gemini-source.js";
+export { ClineSessionSource, CLINE_EXTENSIONS, clineToEntries } from "./cline-source.js";
+export { CursorSessionSource, getCursorStoragePath, cursorToEntries } from "./cursor-source.js";
 export * from "./copilot-types.js";
+export * from "./codex-types.js";
+export * from "./gemini-types.js";
+export * from "./cline-types.js";
+export * from "./cursor-types.js";
@@ -1,8 +1,8 @@
-import type { ProjectInfo, SessionSummary } from "../types.js";
+import type { ProjectInfo, SessionSummary, SessionSourceType } from "../types.js";
 
 export interface SessionSource {
   /** Unique identifier for this source type */
-  readonly sourceType: "claude" | "copilot";
+  readonly sourceType: SessionSourceType;
 
   /** Get list of available project folders */
   listProjects(): Promise<ProjectInfo[]>;
@@ -27,6 +27,42 @@ export interface RemovalOptions {
   toolRemoval: number;  // 0-100 percentage
   toolHandlingMode: "remove" | "truncate";
   thinkingRemoval: number;  // 0-100 percentage
+  /** Per-tool overrides, keyed by tool name or a "*" pattern such as "mcp__*" */
+  toolPolicies?: Record<string, ToolPolicy>;
+  /** Percentage of oldest turns whose images are dropped (0-100) */
+  imageRemoval?: number;
+  /** placeholder leaves a text block with the image's type, dimensions and size */
+  imageHandlingMode?: "remove" | "placeholder";
+  /** Turns (0-based) that nothing is removed from */
+  pinnedTurns?: number[];
+  /** How truncated tool calls are cut down; defaults to DEFAULT_TRUNCATION_STRATEGY */
+  truncation?: TruncationStrategy;
+}
+
+/**
+ * How a clone treats the calls of one tool.
+ * summarize keeps the call and has the LLM shorten its result.
+ */
+export interface ToolPolicy {
+  mode: "keep" | "remove" | "truncate" | "summarize";
+  /** Percentage of oldest turns the mode applies to (0-100) */
+  threshold: number;
+}
+
+/**
+ * How tool call inputs and results are cut down in truncate mode.
+ */
+export interface TruncationStrategy {
+  /** Lines kept from the start */
+  headLines: number;
+  /** Lines kept from the end */
+  tailLines: number;
+  /** Character limit for the head and tail lines together, and for each kept pattern line */
+  maxChars: number;
+  /** Regular expressions; matching lines are kept wherever they are */
+  keepPatterns: string[];
+  /** Marks each cut, e.g. "\n[... {count} lines elided ...]"; {count} is the number of lines cut */
+  trailer: string;
 }
 
 // Compression types for v2 API
@@ -51,6 +87,8 @@ export interface CompressionTask {
   result?: string;
   error?: string;
   durationMs?: number;
+  /** Set when the task shortens a tool result rather than message text */
+  toolUseId?: string;
 }
 
 export interface TurnBandMapping {
@@ -70,6 +108,27 @@ export interface CompressionStats {
   avgDurationMs?: number;
 }
 
+/** Sections of a handoff summary, in the order they are written */
+export type HandoffSection = "goals" | "decisions" | "filesChanged" | "openTodos" | "pitfalls";
+
+/** Bullet points per section of a handoff summary */
+export type HandoffSummary = Partial<Record<HandoffSection, string[]>>;
+
+export interface HandoffOptions {
+  sections: HandoffSection[];
+  /** Extra guidance for the summary, e.g. what to focus on */
+  instructions?: string;
+}
+
+export interface HandoffStats {
+  /** Turns replaced by the handoff entry */
+  turnsSummarized: number;
+  /** Estimated tokens of the transcript sent to the LLM */
+  transcriptTokens: number;
+  /** Estimated tokens of the handoff entry; left out of dry runs */
+  summaryTokens?: number;
+}
+
 export interface CompressionConfig {
   concurrency: number;
   timeoutInitial: number;
@@ -89,6 +148,8 @@ export interface TokensByType {
   assistant: number;
   thinking: number;
   tool: number;
+  /** Image blocks, including images returned inside tool results */
+  image: number;
   total: number;
 }
 
@@ -129,22 +190,90 @@ export interface SessionTurnsResponse {
   turns: TurnData[];
 }
 
+/**
+ * Subagent transcript spawned by a Task tool call.
+ * Claude Code records these inline as isSidechain entries, or in
+ * separate agent-<agentId>.jsonl files.
+ */
+export interface SubagentSummary {
+  agentId: string;
+  /** Task tool_use that spawned the subagent, if it could be matched */
+  toolUseId: string | null;
+  /** Parent turn containing the Task call (0-based) */
+  turnIndex: number | null;
+  description?: string;
+  subagentType?: string;
+  location: "inline" | "file";
+  totalTurns: number;
+  /** Token breakdown of the subagent transcript on its own */
+  tokens: TokensByType;
+}
+
+/**
+ * Response payload for the session subagents endpoint.
+ */
+export interface SessionSubagentsResponse {
+  sessionId: string;
+  subagents: SubagentSummary[];
+}
+
+/**
+ * Response payload for the subagent turns endpoint.
+ */
+export interface SubagentTurnsResponse extends SessionTurnsResponse {
+  subagent: SubagentSummary;
+}
+
+/**
+ * One path through a session's parentUuid tree. Rewinds and edits in
+ * Claude Code start sibling branches from an earlier message.
+ */
+export interface SessionBranch {
+  /** Last message of the branch */
+  leafUuid: string;
+  /** Whether this is the branch Claude Code would resume (the newest one) */
+  active: boolean;
+  totalTurns: number;
+  /** Turn (0-based) where the branch leaves the active one; null for the active branch */
+  forkTurnIndex: number | null;
+  /** First ~100 chars of the branch's last user prompt */
+  lastUserMessage: string;
+  lastTimestamp?: string;
+}
+
+/**
+ * Response payload for the session branches endpoint.
+ */
+export interface SessionBranchesResponse {
+  sessionId: string;
+  branches: SessionBranch[];
+}
+
 // Session Browser types
 
+/** Identifies which agent a session was recorded by */
+export type SessionSourceType = "claude" | "copilot" | "codex" | "gemini" | "cline" | "cursor";
+
 export interface ProjectInfo {
   /** Encoded folder name (filesystem safe) */
   folder: string;
   /** Human-readable decoded path (best-effort, may be incorrect for paths with dashes) */
   path: string;
+  /** Install the project was found in, for sources that scan several (e.g. "VS Code Insiders") */
+  install?: string;
+  /** Claude root the project was found in, e.g. "devbox" */
+  root?: string;
 }
 
 export interface SessionSummary {
   /** Session identifier (filename without extension) */
   sessionId: string;
   /** Source type for multi-source support */
-  source: "claude" | "copilot";
+  source: SessionSourceType;
   /** Human-readable project path */
   projectPath: string;
+  /** Claude root the session was found in */
+  root?: string;
   /** First ~100 chars of first user message */
   firstMessage: string;
   /** File creation timestamp */
@@ -155,6 +284,8 @@ export interface SessionSummary {
   sizeBytes: number;
   /** Number of conversation turns */
   turnCount: number;
+  /** Estimated context size in tokens, for sources with a metadata index */
+  contextTokens?: number;
 }
 
 export interface ProjectsResponse {
@@ -130,11 +130,17 @@ Options:
   --tool-removal=<n>    Remove n% of tool calls from oldest turns (0-100)
   --tool-mode=<mode>    'remove' or 'truncate' (default: remove)
   --thinking-removal=<n> Remove n% of thinking blocks (0-100)
+  --head-lines=<n>      Truncate mode: lines kept from the start (default: 2)
+  --tail-lines=<n>      Truncate mode: lines kept from the end (default: 0)
+  --max-chars=<n>       Truncate mode: character limit (default: 120)
+  --trailer=<text>      Truncate mode: cut marker, {count} = lines cut (default: ...)
+  --no-keep-errors      Truncate mode: don't keep error lines and stack frames
   --json                Output as JSON
 
 Examples:
   svp clone abc123 --profile=heavy-trim
   svp clone abc123 --tool-removal=100 --thinking-removal=100
+  svp clone abc123 --tool-mode=truncate --tail-lines=5 --trailer="[... {count} lines elided ...]"
 `,
     stats: `
 Usage: svp stats <session-id> [options]
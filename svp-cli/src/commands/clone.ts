@@ -14,9 +14,34 @@ import {
   applyRemovals,
   repairParentUuidChain,
   createSummaryEntry,
+  DEFAULT_TRUNCATION_STRATEGY,
   type RemovalOptions,
+  type TruncationStrategy,
 } from '../session/index.js';
 
+/**
+ * Build the truncation strategy from --head-lines, --tail-lines,
+ * --max-chars, --trailer and --no-keep-errors.
+ */
+function truncationFromFlags(flags: ParsedArgs['flags']): TruncationStrategy {
+  const count = (name: string, fallback: number, min: number): number => {
+    if (flags[name] === undefined) return fallback;
+    const value = parseInt(flags[name] as string, 10);
+    if (isNaN(value) || value < min) {
+      throw new Error(`Invalid --${name}: ${flags[name]}`);
+    }
+    return value;
+  };
+
+  return {
+    headLines: count('head-lines', DEFAULT_TRUNCATION_STRATEGY.headLines, 0),
+    tailLines: count('tail-lines', DEFAULT_TRUNCATION_STRATEGY.tailLines, 0),
+    maxChars: count('max-chars', DEFAULT_TRUNCATION_STRATEGY.maxChars, 1),
+    keepPatterns: flags['no-keep-errors'] ? [] : DEFAULT_TRUNCATION_STRATEGY.keepPatterns,
+    trailer: typeof flags['trailer'] === 'string' ? flags['trailer'] : DEFAULT_TRUNCATION_STRATEGY.trailer,
+  };
+}
+
 export async function clone(args: ParsedArgs): Promise<CommandResult> {
   const sessionId = args.positional[0];
 
@@ -64,6 +89,7 @@ export async function clone(args: ParsedArgs): Promise<CommandResult> {
     toolRemoval: profile.toolRemoval,
     toolHandlingMode: profile.toolHandlingMode,
     thinkingRemoval: profile.thinkingRemoval,
+    truncation: truncationFromFlags(args.flags),
   };
 
   const {
@@ -2,51 +2,139 @@
  * Session cloning with removals
  */
 
-import type { SessionEntry, Turn, RemovalOptions, RemovalResult, ContentBlock } from './types.js';
+import type { SessionEntry, Turn, RemovalOptions, RemovalResult, ContentBlock, TruncationStrategy } from './types.js';
 import { identifyTurns } from './parser.js';
 
 /**
- * Truncate a string to 2 lines or 120 characters, whichever comes first.
+ * Error messages, test failures and stack frames
  */
-export function truncateToolContent(content: string): string {
-  if (!content) return content;
+export const ERROR_LINE_PATTERNS = [
+  '(?:Error|Exception)\\b',
+  '\\bFAIL(?:ED)?\\b',
+  '\\bTraceback\\b',
+  '\\bpanic:',
+  '^\\s+at\\s',
+  '^\\s*File ".+", line \\d+',
+];
+
+/**
+ * 2 lines or 120 characters, whichever comes first, plus error lines.
+ */
+export const DEFAULT_TRUNCATION_STRATEGY: TruncationStrategy = {
+  headLines: 2,
+  tailLines: 0,
+  maxChars: 120,
+  keepPatterns: ERROR_LINE_PATTERNS,
+  trailer: '...',
+};
 
-  const maxLines = 2;
-  const maxChars = 120;
+/**
+ * Truncate a string to its head and tail lines within maxChars, keeping
+ * lines that match keepPatterns. Each cut is marked with the trailer.
+ */
+export function truncateToolContent(
+  content: string,
+  strategy: TruncationStrategy = DEFAULT_TRUNCATION_STRATEGY
+): string {
+  if (!content) return content;
 
   const lines = content.split('\n');
-  let truncated = lines.slice(0, maxLines).join('\n');
-  let wasTruncated = lines.length > maxLines;
+  const patterns = strategy.keepPatterns.map(p => new RegExp(p));
+  const trailer = (count: number) => strategy.trailer.replaceAll('{count}', String(count));
+  let output = '';
+  let budget = strategy.maxChars;
+  let elided = 0;
+  let pending = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    let text = lines[i];
+    let cut = false;
+
+    if (patterns.some(p => p.test(text))) {
+      if (text.length > strategy.maxChars) {
+        text = text.slice(0, strategy.maxChars);
+        cut = true;
+      }
+    } else {
+      const positional = i < strategy.headLines || i >= lines.length - strategy.tailLines;
+      const separator = output ? 1 : 0;
+      if (!positional || budget - separator <= 0) {
+        elided++;
+        pending = true;
+        continue;
+      }
+      if (text.length + separator > budget) {
+        text = text.slice(0, budget - separator);
+        cut = true;
+      }
+      budget -= text.length + separator;
+    }
+
+    if (pending) {
+      output = output.trimEnd() + trailer(elided);
+      elided = 0;
+      pending = false;
+    }
+    output = output ? `${output}\n${text}` : text;
+    if (cut) {
+      elided++;
+      pending = true;
+    }
+  }
+
+  if (pending) {
+    output = output.trimEnd() + trailer(elided);
+  }
+  return output;
+}
 
-  if (truncated.length > maxChars) {
-    truncated = truncated.slice(0, maxChars);
-    wasTruncated = true;
+/**
+ * Truncate tool_result content, either a string or an array of blocks.
+ */
+export function truncateToolResultContent(
+  content: string | ContentBlock[] | undefined,
+  strategy: TruncationStrategy = DEFAULT_TRUNCATION_STRATEGY
+): { result: string | ContentBlock[] | undefined; wasTruncated: boolean } {
+  if (typeof content === 'string') {
+    const truncated = truncateToolContent(content, strategy);
+    return { result: truncated, wasTruncated: truncated !== content };
   }
 
-  if (wasTruncated) {
-    truncated = truncated.trimEnd() + '...';
+  if (Array.isArray(content)) {
+    let anyTruncated = false;
+    const result = content.map(block => {
+      if (block.type !== 'text' || typeof block.text !== 'string') return block;
+      const truncated = truncateToolContent(block.text, strategy);
+      if (truncated === block.text) return block;
+      anyTruncated = true;
+      return { ...block, text: truncated };
+    });
+    return { result: anyTruncated ? result : content, wasTruncated: anyTruncated };
   }
 
-  return truncated;
+  return { result: content, wasTruncated: false };
 }
 
 /**
  * Truncate string values within an object, preserving structure.
  */
-export function truncateObjectValues(obj: unknown): { result: unknown; wasTruncated: boolean } {
+export function truncateObjectValues(
+  obj: unknown,
+  strategy: TruncationStrategy = DEFAULT_TRUNCATION_STRATEGY
+): { result: unknown; wasTruncated: boolean } {
   if (obj === null || obj === undefined) {
     return { result: obj, wasTruncated: false };
   }
 
   if (typeof obj === 'string') {
-    const truncated = truncateToolContent(obj);
+    const truncated = truncateToolContent(obj, strategy);
     return { result: truncated, wasTruncated: truncated !== obj };
   }
 
   if (Array.isArray(obj)) {
     let anyTruncated = false;
     const result = obj.map(item => {
-      const { result: truncatedItem, wasTruncated } = truncateObjectValues(item);
+      const { result: truncatedItem, wasTruncated } = truncateObjectValues(item, strategy);
       if (wasTruncated) anyTruncated = true;
       return truncatedItem;
     });
@@ -57,7 +145,7 @@ export function truncateObjectValues(obj: unknown): { result: unknown; wasTrunca
     let anyTruncated = false;
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(obj)) {
-      const { result: truncatedValue, wasTruncated } = truncateObjectValues(value);
+      const { result: truncatedValue, wasTruncated } = truncateObjectValues(value, strategy);
       if (wasTruncated) anyTruncated = true;
       result[key] = truncatedValue;
     }
@@ -84,6 +172,7 @@ export function applyRemovals(entries: SessionEntry[], options: RemovalOptions):
     Math.floor(turnCount * options.thinkingRemoval / 100);
 
   const toolMode = options.toolHandlingMode || 'remove';
+  const truncation = options.truncation ?? DEFAULT_TRUNCATION_STRATEGY;
 
   let toolCallsRemoved = 0;
   let toolCallsTruncated = 0;
@@ -145,7 +234,7 @@ export function applyRemovals(entries: SessionEntry[], options: RemovalOptions):
         } else if (toolMode === 'truncate') {
           content = content.map(block => {
             if (block.type === 'tool_use' && block.input) {
-              const { result: truncatedInput, wasTruncated } = truncateObjectValues(block.input);
+              const { result: truncatedInput, wasTruncated } = truncateObjectValues(block.input, truncation);
               if (wasTruncated) {
                 toolCallsTruncated++;
                 contentModified = true;
@@ -170,9 +259,9 @@ export function applyRemovals(entries: SessionEntry[], options: RemovalOptions):
           if (content.length !== beforeLength) contentModified = true;
         } else if (toolMode === 'truncate' && isInToolRemovalZone) {
           content = content.map(block => {
-            if (block.type === 'tool_result' && typeof block.content === 'string') {
-              const truncatedContent = truncateToolContent(block.content);
-              if (truncatedContent !== block.content) {
+            if (block.type === 'tool_result') {
+              const { result: truncatedContent, wasTruncated } = truncateToolResultContent(block.content, truncation);
+              if (wasTruncated) {
                 toolCallsTruncated++;
                 contentModified = true;
                 return { ...block, content: truncatedContent };
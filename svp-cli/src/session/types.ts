@@ -25,7 +25,7 @@ export interface ContentBlock {
   id?: string;
   tool_use_id?: string;
   input?: unknown;
-  content?: string;
+  content?: string | ContentBlock[];
   [key: string]: unknown;
 }
 
@@ -38,6 +38,18 @@ export interface RemovalOptions {
   toolRemoval: number;          // 0-100
   toolHandlingMode: 'remove' | 'truncate';
   thinkingRemoval: number;      // 0-100
+  truncation?: TruncationStrategy;
+}
+
+/**
+ * How tool call inputs and results are cut down in truncate mode
+ */
+export interface TruncationStrategy {
+  headLines: number;
+  tailLines: number;
+  maxChars: number;             // head and tail together, and each kept pattern line
+  keepPatterns: string[];       // regexes; matching lines are always kept
+  trailer: string;              // marks each cut; {count} = lines cut
 }
 
 export interface RemovalResult {
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import path from "path";
+import { tmpdir } from "os";
+import { mkdtemp, mkdir, rm, writeFile, readdir } from "fs/promises";
+import { ClaudeSessionSource, recoverProjectPath } from "../src/sources/claude-source.js";
+import { findSessionFile, cloneSessionV2 } from "../src/services/session-clone.js";
+
+const CWD_FIXTURES = path.join(process.cwd(), "test/fixtures/claude-cwd");
+
+describe("Claude Session Source", () => {
+  describe("recoverProjectPath", () => {
+    const projectsDir = path.join(CWD_FIXTURES, "projects");
+
+    it("reads dashed paths from the recorded cwd", async () => {
+      const folder = "-Users-test-coding-agent-manager";
+      expect(await recoverProjectPath(path.join(projectsDir, folder), folder)).toBe(
+        "/Users/test/coding-agent-manager"
+      );
+    });
+
+    it("prefers the cwd that encodes to the folder name over subdirectories", async () => {
+      const folder = "-Users-test-my-app";
+      expect(await recoverProjectPath(path.join(projectsDir, folder), folder)).toBe("/Users/test/my-app");
+    });
+
+    it("falls back to the lossy decode when no entry has a cwd", async () => {
+      const folder = "-Users-test-old-project";
+      expect(await recoverProjectPath(path.join(projectsDir, folder), folder)).toBe("/Users/test/old/project");
+    });
+
+    it("falls back to the lossy decode for a missing folder", async () => {
+      expect(await recoverProjectPath(path.join(projectsDir, "-missing"), "-missing")).toBe("/missing");
+    });
+  });
+
+  describe("ClaudeSessionSource", () => {
+    let source: ClaudeSessionSource;
+
+    beforeAll(() => {
+      process.env.CLAUDE_DIR = CWD_FIXTURES;
+      source = new ClaudeSessionSource();
+    });
+
+    afterAll(() => {
+      delete process.env.CLAUDE_DIR;
+    });
+
+    it("lists projects with their recovered paths", async () => {
+      expect(await source.listProjects()).toEqual([
+        { folder: "-Users-test-coding-agent-manager", path: "/Users/test/coding-agent-manager", root: "default" },
+        { folder: "-Users-test-my-app", path: "/Users/test/my-app", root: "default" },
+        { folder: "-Users-test-old-project", path: "/Users/test/old/project", root: "default" },
+      ]);
+    });
+
+    it("uses the recovered path for session summaries", async () => {
+      const sessions = await source.listSessions("-Users-test-coding-agent-manager");
+      expect(sessions.map((s) => s.projectPath)).toEqual(["/Users/test/coding-agent-manager"]);
+    });
+  });
+
+  describe("multiple roots", () => {
+    const FOLDER = "-Users-test-shared";
+    const LAPTOP_SESSION = "1a000000-0000-4000-8000-000000000001";
+    const DEVBOX_SESSION = "1a000000-0000-4000-8000-000000000002";
+    let tmp: string;
+    let source: ClaudeSessionSource;
+
+    const sessionLine = (sessionId: string, text: string) =>
+      JSON.stringify({
+        type: "user", uuid: "u1", parentUuid: null, sessionId, cwd: "/Users/test/shared",
+        message: { role: "user", content: text },
+      }) + "\n";
+
+    beforeAll(async () => {
+      tmp = await mkdtemp(path.join(tmpdir(), "claude-roots-"));
+      for (const [root, sessionId] of [["laptop", LAPTOP_SESSION], ["devbox", DEVBOX_SESSION]]) {
+        const projectDir = path.join(tmp, root, "projects", FOLDER);
+        await mkdir(projectDir, { recursive: true });
+        await writeFile(path.join(projectDir, `${sessionId}.jsonl`), sessionLine(sessionId, `Hello from ${root}`));
+      }
+      process.env.CLAUDE_DIR = path.join(tmp, "laptop");
+      process.env.CLAUDE_ROOTS = [`laptop=${path.join(tmp, "laptop")}`, `devbox=${path.join(tmp, "devbox")}`].join(
+        path.delimiter
+      );
+      source = new ClaudeSessionSource();
+    });
+
+    afterAll(async () => {
+      delete process.env.CLAUDE_DIR;
+      delete process.env.CLAUDE_ROOTS;
+      await rm(tmp, { recursive: true, force: true });
+    });
+
+    it("lists the same project once per root", async () => {
+      expect(await source.listProjects()).toEqual([
+        { folder: FOLDER, path: "/Users/test/shared", root: "laptop" },
+        { folder: `devbox:${FOLDER}`, path: "/Users/test/shared", root: "devbox" },
+      ]);
+    });
+
+    it("lists sessions of a qualified folder with their root", async () => {
+      const sessions = await source.listSessions(`devbox:${FOLDER}`);
+      expect(sessions.map((s) => [s.sessionId, s.root])).toEqual([[DEVBOX_SESSION, "devbox"]]);
+      await expect(source.listSessions(`nowhere:${FOLDER}`)).rejects.toMatchObject({ code: "ENOENT" });
+    });
+
+    it("finds sessions in any root", async () => {
+      expect(await source.findSession(DEVBOX_SESSION)).toBe(`devbox:${FOLDER}`);
+      expect(await findSessionFile(DEVBOX_SESSION)).toBe(
+        path.join(tmp, "devbox", "projects", FOLDER, `${DEVBOX_SESSION}.jsonl`)
+      );
+    });
+
+    it("writes clones into the root of their source", async () => {
+      const result = await cloneSessionV2({
+        sessionId: DEVBOX_SESSION,
+        toolRemoval: 0,
+        toolHandlingMode: "remove",
+        thinkingRemoval: 0,
+        includeUserMessages: false,
+        debugLog: false,
+        subagentHandling: "keep",
+      });
+      expect(path.dirname(result.outputPath)).toBe(path.join(tmp, "devbox", "projects", FOLDER));
+      expect(await readdir(path.join(tmp, "laptop", "projects", FOLDER))).toEqual([`${LAPTOP_SESSION}.jsonl`]);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import path from "path";
+import {
+  ClineSessionSource,
+  extractTaskCwd,
+  clineToEntries,
+} from "../src/sources/cline-source.js";
+import { getVSCodeGlobalStoragePath } from "../src/sources/copilot-source.js";
+import { identifyTurns } from "../src/services/session-clone.js";
+import { clineStructureService } from "../src/services/cline-structure.js";
+
+const CLINE_FIXTURES = path.join(process.cwd(), "test/fixtures/cline-sessions");
+const CLINE_TASK = "1726822800000";
+const ROO_TASK = "4f00c0de-0000-4000-8000-000000000001";
+const NO_CWD_TASK = "4f00c0de-0000-4000-8000-000000000002";
+
+describe("Cline Session Source", () => {
+  describe("Utility Functions", () => {
+    describe("getVSCodeGlobalStoragePath", () => {
+      it("is the sibling of the workspace storage path", () => {
+        const original = process.env.VSCODE_STORAGE_PATH;
+        process.env.VSCODE_STORAGE_PATH = "/custom/Code/User/workspaceStorage";
+        try {
+          expect(getVSCodeGlobalStoragePath()).toBe(path.join("/custom/Code/User", "globalStorage"));
+        } finally {
+          if (original !== undefined) {
+            process.env.VSCODE_STORAGE_PATH = original;
+          } else {
+            delete process.env.VSCODE_STORAGE_PATH;
+          }
+        }
+      });
+    });
+
+    describe("extractTaskCwd", () => {
+      it("reads Cline and Roo Code environment details", () => {
+        expect(extractTaskCwd([
+          { role: "user", content: "# Current Working Directory (/a/b) Files\nx" },
+        ])).toBe("/a/b");
+        expect(extractTaskCwd([
+          { role: "user", content: [{ type: "text", text: "# Current Workspace Directory (/c) Files" }] },
+        ])).toBe("/c");
+      });
+
+      it("returns null without environment details", () => {
+        expect(extractTaskCwd([{ role: "user", content: "hi" }])).toBeNull();
+      });
+    });
+
+    describe("clineToEntries", () => {
+      it("treats text results as tool output and feedback as a new turn", () => {
+        const entries = clineToEntries("t", [
+          { role: "user", content: [{ type: "text", text: "<task>\nDo it\n</task>" }] },
+          { role: "assistant", content: "<read_file><path>a</path></read_file>" },
+          { role: "user", content: [{ type: "text", text: "[read_file for 'a'] Result:\ncontents" }] },
+          { role: "assistant", content: "<attempt_completion>done</attempt_completion>" },
+          {
+            role: "user",
+            content: [
+              { type: "text", text: "[attempt_completion] Result:" },
+              { type: "text", text: "<feedback>\nMore\n</feedback>" },
+            ],
+          },
+        ]);
+
+        expect(entries[0].message?.content).toEqual([{ type: "text", text: "Do it" }]);
+        expect(entries[2].message?.content).toEqual([
+          { type: "tool_result", tool_use_id: "read_file", content: "[read_file for 'a'] Result:\ncontents" },
+        ]);
+        // Feedback message splits into tool output then human text
+        expect(entries[4].message?.content).toEqual([
+          { type: "tool_result", tool_use_id: "attempt_completion", content: "[attempt_completion] Result:" },
+        ]);
+        expect(entries[5].message?.content).toEqual([{ type: "text", text: "More" }]);
+        expect(identifyTurns(entries)).toHaveLength(2);
+      });
+
+      it("marks messages carrying only environment details as meta", () => {
+        const entries = clineToEntries("t", [
+          { role: "user", content: "<task>go</task>" },
+          { role: "assistant", content: "ok" },
+          { role: "user", content: [{ type: "text", text: "<environment_details>x</environment_details>" }] },
+        ]);
+        expect(entries[2].isMeta).toBe(true);
+        expect(identifyTurns(entries)).toHaveLength(1);
+      });
+    });
+  });
+
+  describe("ClineSessionSource", () => {
+    let source: ClineSessionSource;
+
+    beforeAll(() => {
+      process.env.VSCODE_STORAGE_PATH = path.join(CLINE_FIXTURES, "workspaceStorage");
+      source = new ClineSessionSource();
+    });
+
+    afterAll(() => {
+      delete process.env.VSCODE_STORAGE_PATH;
+    });
+
+    it("has sourceType cline", () => {
+      expect(source.sourceType).toBe("cline");
+    });
+
+    describe("isAvailable", () => {
+      it("returns true when an extension has task storage", async () => {
+        expect(await source.isAvailable()).toBe(true);
+      });
+
+      it("returns false when no extension has task storage", async () => {
+        process.env.VSCODE_STORAGE_PATH = "/nonexistent/Code/User/workspaceStorage";
+        try {
+          expect(await new ClineSessionSource().isAvailable()).toBe(false);
+        } finally {
+          process.env.VSCODE_STORAGE_PATH = path.join(CLINE_FIXTURES, "workspaceStorage");
+        }
+      });
+    });
+
+    describe("listProjects", () => {
+      it("groups tasks from both extensions by workspace", async () => {
+        const projects = await source.listProjects();
+        expect(projects).toEqual([
+          { folder: "unknown", path: "(unknown)" },
+          { folder: "-Users-test-web-app", path: "/Users/test/web-app" },
+        ]);
+      });
+    });
+
+    describe("listSessions", () => {
+      it("returns Cline and Roo Code tasks for a workspace, skipping tasks without history", async () => {
+        const sessions = await source.listSessions("-Users-test-web-app");
+        expect(sessions.map((s) => s.sessionId).sort()).toEqual([CLINE_TASK, ROO_TASK]);
+      });
+
+      it("extracts summary metadata", async () => {
+        const sessions = await source.listSessions("-Users-test-web-app");
+        const session = sessions.find((s) => s.sessionId === CLINE_TASK);
+        expect(session?.source).toBe("cline");
+        expect(session?.projectPath).toBe("/Users/test/web-app");
+        expect(session?.firstMessage).toBe("Add a health check endpoint");
+        expect(session?.turnCount).toBe(2);
+        expect(session?.createdAt.getTime()).toBe(1726822800000);
+      });
+
+      it("lists tasks without environment details under the unknown project", async () => {
+        const sessions = await source.listSessions("unknown");
+        expect(sessions.map((s) => s.sessionId)).toEqual([NO_CWD_TASK]);
+        expect(sessions[0].firstMessage).toBe("Explain closures");
+      });
+
+      it("rejects path traversal", async () => {
+        await expect(source.listSessions("../etc")).rejects.toThrow("path traversal");
+      });
+    });
+
+    describe("findSession", () => {
+      it("returns the project folder for a known task", async () => {
+        expect(await source.findSession(ROO_TASK)).toBe("-Users-test-web-app");
+      });
+
+      it("returns null for unknown task", async () => {
+        expect(await source.findSession("1700000000000")).toBeNull();
+      });
+    });
+
+    describe("loadSession", () => {
+      it("throws ENOENT for unknown task", async () => {
+        await expect(source.loadSession("1700000000000")).rejects.toMatchObject({ code: "ENOENT" });
+      });
+
+      it("rejects path traversal", async () => {
+        await expect(source.loadSession("../../x")).rejects.toThrow("path traversal");
+      });
+    });
+
+    describe("ClineStructureService", () => {
+      it("returns turns in the shared TurnData shape", async () => {
+        const response = await clineStructureService.getTurns(CLINE_TASK);
+
+        expect(response.source).toBe("cline");
+        expect(response.totalTurns).toBe(2);
+        expect(response.turns[0].content.userPrompt).toBe("Add a health check endpoint");
+        expect(response.turns[0].cumulative.tool).toBeGreaterThan(0);
+        expect(response.turns[1].content.userPrompt).toBe("Also return the version");
+        expect(response.turns[1].cumulative.total).toBeGreaterThan(response.turns[0].cumulative.total);
+      });
+
+      it("keeps native tool calls from Roo Code", async () => {
+        const response = await clineStructureService.getTurns(ROO_TASK);
+        expect(response.turns[0].content.toolBlocks[0].name).toBe("search_files");
+      });
+
+      it("summarizes structure with the recording extension", async () => {
+        const structure = await clineStructureService.getStructure(ROO_TASK);
+        expect(structure.extension).toBe("Roo Code");
+        expect(structure.turnCount).toBe(1);
+        expect(structure.projectPath).toBe("/Users/test/web-app");
+      });
+    });
+  });
+});
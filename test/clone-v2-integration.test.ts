@@ -5,6 +5,8 @@ import { cloneSessionV2 } from "../src/services/session-clone.js";
 import { cloneSession } from "../src/services/session-clone.js";
 import type { CloneRequestV2 } from "../src/schemas/clone-v2.js";
 import type { CloneRequest } from "../src/schemas/clone.js";
+import { BranchNotFoundError, InvalidTurnRangeError } from "../src/errors.js";
+import { sessionPinService } from "../src/services/session-pins.js";
 import {
   createFixtureWith6Turns,
   createFixtureWithToolCalls,
@@ -46,13 +48,25 @@ vi.mock("../src/providers/index.js", () => ({
       const targetChars = Math.floor(text.length * 0.35);
       return Promise.resolve(text.substring(0, targetChars));
     },
+    summarizeHandoff(): Promise<Record<string, string[]>> {
+      return Promise.resolve({ goals: ["Refactor the session loader"], openTodos: ["Add tests"] });
+    },
   }),
   resetProvider: () => {},
 }));
 
 describe("Clone V2 Integration Tests", () => {
+  let pins: Map<string, number[]>;
+
   beforeEach(() => {
     vi.clearAllMocks();
+    // Pins would be read through the mocked fs/promises; keep them in memory
+    pins = new Map();
+    vi.spyOn(sessionPinService, "getPins").mockImplementation(async (sessionId) => pins.get(sessionId) ?? []);
+    vi.spyOn(sessionPinService, "setPins").mockImplementation(async (sessionId, pinnedTurns) => {
+      pins.set(sessionId, pinnedTurns);
+      return { sessionId, pinnedTurns };
+    });
     vi.spyOn(Date, "now").mockReturnValue(1733155845000);
     vi.spyOn(Date.prototype, "toISOString").mockReturnValue(
       "2024-12-02T12:00:00.000Z"
@@ -393,4 +407,513 @@ describe("Clone V2 Integration Tests", () => {
       expect(result.stats.outputTurnCount).toBe(6);
     });
   });
+
+  describe("Subagent handling", () => {
+    const longText = "x".repeat(800);
+    const sidechainSession = [
+      { type: "user", uuid: "u1", parentUuid: null, sessionId: "test-session-id", message: { role: "user", content: "Investigate" } },
+      { type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "tool_use", id: "t1", name: "Task", input: { prompt: "Dig in" } }] } },
+      { type: "user", uuid: "s1", parentUuid: null, isSidechain: true, sessionId: "test-session-id", message: { role: "user", content: "Dig in" } },
+      { type: "assistant", uuid: "s2", parentUuid: "s1", isSidechain: true, sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "text", text: longText }] } },
+      { type: "user", uuid: "r1", parentUuid: "a1", sessionId: "test-session-id", message: { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "done" }] } },
+      { type: "assistant", uuid: "a2", parentUuid: "r1", sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "text", text: longText }] } },
+    ].map((e) => JSON.stringify(e)).join("\n");
+
+    const writtenEntries = () =>
+      (vi.mocked(writeFile).mock.calls[0][1] as string)
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+
+    it("compresses subagent transcripts without touching the main thread", async () => {
+      vi.mocked(readFile).mockResolvedValue(sidechainSession);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        subagentHandling: "compress",
+      } as CloneRequestV2);
+
+      expect(result.stats.subagentCompression?.messagesCompressed).toBe(1);
+      expect(result.stats.compression).toBeUndefined();
+
+      const output = writtenEntries();
+      const sidechain = output.find((e) => e.uuid === "s2");
+      expect(sidechain.isSidechain).toBe(true);
+      expect(sidechain.message.content[0].text.length).toBeLessThan(longText.length);
+      expect(output.find((e) => e.uuid === "a2").message.content[0].text).toBe(longText);
+    });
+
+    it("leaves subagent transcripts out of compression bands", async () => {
+      vi.mocked(readFile).mockResolvedValue(sidechainSession);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        compressionBands: [{ start: 0, end: 100, level: "compress" }],
+      } as CloneRequestV2);
+
+      expect(result.stats.compression?.messagesCompressed).toBe(1);
+      expect(writtenEntries().find((e) => e.uuid === "s2").message.content[0].text).toBe(longText);
+    });
+
+    it("removes subagent transcripts", async () => {
+      vi.mocked(readFile).mockResolvedValue(sidechainSession);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        subagentHandling: "remove",
+      } as CloneRequestV2);
+
+      expect(result.stats.subagentEntriesRemoved).toBe(2);
+      expect(result.stats.outputTurnCount).toBe(1);
+      expect(writtenEntries().some((e) => e.isSidechain)).toBe(false);
+    });
+  });
+
+  describe("Dry run", () => {
+    it("previews removals without writing a clone or lineage entry", async () => {
+      vi.mocked(readFile).mockResolvedValue(createFixtureWithToolCalls());
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-tool-calls",
+        toolRemoval: 50,
+        thinkingRemoval: 0,
+        dryRun: true,
+      } as CloneRequestV2);
+
+      expect(writeFile).not.toHaveBeenCalled();
+      expect(appendFile).not.toHaveBeenCalled();
+      expect(result.dryRun).toBe(true);
+      expect(result.outputPath).toBe("");
+      expect(result.stats.toolCallsRemoved).toBe(2);
+
+      const preview = result.preview!;
+      expect(preview.removedBlockIds).toEqual(["tool-0", "tool-1"]);
+      expect(preview.turns).toHaveLength(4);
+      expect(preview.turns[0].after).toBeLessThan(preview.turns[0].before);
+      expect(preview.turns[2].after).toBe(preview.turns[2].before);
+      expect(preview.tokensAfter).toBe(preview.turns.reduce((sum, t) => sum + t.after, 0));
+      expect(preview.contextWindow).toBe(200000);
+      expect(preview.projectedContextPercent).toBe(
+        Math.round((preview.tokensAfter / 200000) * 1000) / 10
+      );
+      expect(preview.compression).toBeUndefined();
+    });
+
+    it("plans compression bands from the target sizes", async () => {
+      vi.mocked(readFile).mockResolvedValue(createFixtureWith6Turns());
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        compressionBands: [{ start: 0, end: 50, level: "compress" }],
+        dryRun: true,
+      } as CloneRequestV2);
+
+      expect(writeFile).not.toHaveBeenCalled();
+      expect(result.stats.compression).toBeUndefined();
+
+      // Assistant messages of turns 0-2 (200, 250, 200 tokens) at 35%
+      const preview = result.preview!;
+      expect(preview.compression).toEqual({ tasksPlanned: 3, tasksSkipped: 0, estimatedTokensRemoved: 422 });
+      expect(preview.turns[0].before - preview.turns[0].after).toBe(130);
+      expect(preview.turns[3].after).toBe(preview.turns[3].before);
+    });
+  });
+
+  describe("Turn range", () => {
+    const writtenEntries = () =>
+      (vi.mocked(writeFile).mock.calls[0][1] as string)
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line))
+        .slice(1);
+
+    it("forks at an earlier turn", async () => {
+      vi.mocked(readFile).mockResolvedValue(createFixtureWith6Turns());
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        toTurn: 2,
+      } as CloneRequestV2);
+
+      expect(result.stats.originalTurnCount).toBe(6);
+      expect(result.stats.outputTurnCount).toBe(3);
+      expect(result.stats.turnRange).toEqual({ fromTurn: 0, toTurn: 2 });
+      expect(writtenEntries().map((e) => e.uuid)).toEqual([null, "u0", "a0", "u1", "a1", "u2", "a2"]);
+      expect(vi.mocked(appendFile).mock.calls[0][1]).toContain("TURNS: 0-2");
+    });
+
+    it("drops leading turns and re-links the first kept turn", async () => {
+      vi.mocked(readFile).mockResolvedValue(createFixtureWith6Turns());
+
+      await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        fromTurn: 4,
+      } as CloneRequestV2);
+
+      const output = writtenEntries();
+      expect(output.map((e) => e.uuid)).toEqual([null, "u4", "a4", "u5", "a5"]);
+      expect(output[1].parentUuid).toBeNull();
+      expect(output[2].parentUuid).toBe("u4");
+    });
+
+    it("applies removal percentages to the kept range", async () => {
+      vi.mocked(readFile).mockResolvedValue(createFixtureWithToolCalls());
+
+      // 50% of turns 0-1 is turn 0 only
+      const result = await cloneSessionV2({
+        sessionId: "test-session-tool-calls",
+        toolRemoval: 50,
+        thinkingRemoval: 0,
+        fromTurn: 0,
+        toTurn: 1,
+      } as CloneRequestV2);
+
+      expect(result.stats.toolCallsRemoved).toBe(1);
+      expect(JSON.stringify(writtenEntries())).toContain("tool-1");
+    });
+
+    it("rejects a range past the last turn", async () => {
+      vi.mocked(readFile).mockResolvedValue(createFixtureWith6Turns());
+
+      await expect(
+        cloneSessionV2({
+          sessionId: "test-session-id",
+          toolRemoval: 0,
+          thinkingRemoval: 0,
+          toTurn: 6,
+        } as CloneRequestV2)
+      ).rejects.toBeInstanceOf(InvalidTurnRangeError);
+      expect(writeFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Branches", () => {
+    const branchedSession = [
+      { type: "user", uuid: "u1", parentUuid: null, sessionId: "test-session-id", message: { role: "user", content: "Start" } },
+      { type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "text", text: "Started." }] } },
+      { type: "user", uuid: "old-u2", parentUuid: "a1", sessionId: "test-session-id", message: { role: "user", content: "Try approach A" } },
+      { type: "assistant", uuid: "old-a2", parentUuid: "old-u2", sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "text", text: "A failed." }] } },
+      { type: "user", uuid: "u2", parentUuid: "a1", sessionId: "test-session-id", message: { role: "user", content: "Try approach B" } },
+      { type: "assistant", uuid: "a2", parentUuid: "u2", sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "text", text: "B works." }] } },
+    ].map((e) => JSON.stringify(e)).join("\n");
+
+    const writtenUuids = () =>
+      (vi.mocked(writeFile).mock.calls[0][1] as string)
+        .trim()
+        .split("\n")
+        .slice(1)
+        .map((line) => JSON.parse(line).uuid);
+
+    it("clones only the branch ending at leafUuid", async () => {
+      vi.mocked(readFile).mockResolvedValue(branchedSession);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        leafUuid: "old-a2",
+      } as CloneRequestV2);
+
+      expect(result.stats.outputTurnCount).toBe(2);
+      expect(writtenUuids()).toEqual(["u1", "a1", "old-u2", "old-a2"]);
+      expect(vi.mocked(appendFile).mock.calls[0][1]).toContain("BRANCH: old-a2");
+    });
+
+    it("clones every branch without leafUuid", async () => {
+      vi.mocked(readFile).mockResolvedValue(branchedSession);
+
+      await cloneSessionV2({ sessionId: "test-session-id", toolRemoval: 0, thinkingRemoval: 0 } as CloneRequestV2);
+
+      expect(writtenUuids()).toHaveLength(6);
+    });
+
+    it("rejects an unknown leaf", async () => {
+      vi.mocked(readFile).mockResolvedValue(branchedSession);
+
+      await expect(
+        cloneSessionV2({ sessionId: "test-session-id", toolRemoval: 0, thinkingRemoval: 0, leafUuid: "missing" } as CloneRequestV2)
+      ).rejects.toBeInstanceOf(BranchNotFoundError);
+    });
+  });
+
+  describe("Tool policies", () => {
+    const fetched = "Fetched page content. ".repeat(40);
+    const toolSession = [
+      { type: "user", uuid: "u1", parentUuid: null, sessionId: "test-session-id", message: { role: "user", content: "Read the docs" } },
+      {
+        type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: "test-session-id",
+        message: {
+          role: "assistant",
+          content: [
+            { type: "tool_use", id: "fetch-1", name: "WebFetch", input: { url: "https://example.com" } },
+            { type: "tool_use", id: "read-1", name: "Read", input: { file_path: "/src/a.ts" } },
+          ],
+        },
+      },
+      {
+        type: "user", uuid: "r1", parentUuid: "a1", sessionId: "test-session-id",
+        message: {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "fetch-1", content: fetched },
+            { type: "tool_result", tool_use_id: "read-1", content: "export const a = 1;" },
+          ],
+        },
+      },
+      { type: "assistant", uuid: "a2", parentUuid: "r1", sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "text", text: "Read them." }] } },
+    ].map((e) => JSON.stringify(e)).join("\n");
+
+    it("removes and summarizes tool results per tool", async () => {
+      vi.mocked(readFile).mockResolvedValue(toolSession);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        toolPolicies: {
+          WebFetch: { mode: "summarize", threshold: 100 },
+          Read: { mode: "remove", threshold: 100 },
+        },
+      } as CloneRequestV2);
+
+      expect(result.stats.toolCallsRemoved).toBe(1);
+      expect(result.stats.toolSummarization?.messagesCompressed).toBe(1);
+
+      const written = vi.mocked(writeFile).mock.calls[0][1] as string;
+      const results = written.trim().split("\n").map((l) => JSON.parse(l))
+        .find((e) => e.uuid === "r1").message.content;
+      expect(results).toHaveLength(1);
+      expect(results[0].tool_use_id).toBe("fetch-1");
+      expect(results[0].content.length).toBeLessThan(fetched.length);
+    });
+
+    it("does not summarize in a dry run", async () => {
+      vi.mocked(readFile).mockResolvedValue(toolSession);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        toolPolicies: { WebFetch: { mode: "summarize", threshold: 100 } },
+        dryRun: true,
+      } as CloneRequestV2);
+
+      expect(result.stats.toolSummarization).toBeUndefined();
+      expect(result.preview?.turns[0].after).toBe(result.preview?.turns[0].before);
+    });
+  });
+
+  describe("Images", () => {
+    const png = Buffer.alloc(2048);
+    png.writeUInt32BE(0x89504e47, 0);
+    png.writeUInt32BE(1280, 16);
+    png.writeUInt32BE(720, 20);
+    const screenshot = { type: "image", source: { type: "base64", media_type: "image/png", data: png.toString("base64") } };
+    const imageSession = [
+      { type: "user", uuid: "u1", parentUuid: null, sessionId: "test-session-id", message: { role: "user", content: [{ type: "text", text: "Why is this broken?" }, screenshot] } },
+      { type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "tool_use", id: "shot-1", name: "Screenshot", input: {} }] } },
+      { type: "user", uuid: "r1", parentUuid: "a1", sessionId: "test-session-id", message: { role: "user", content: [{ type: "tool_result", tool_use_id: "shot-1", content: [screenshot] }] } },
+      { type: "assistant", uuid: "a2", parentUuid: "r1", sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "text", text: "The header overlaps." }] } },
+      { type: "user", uuid: "u2", parentUuid: "a2", sessionId: "test-session-id", message: { role: "user", content: [{ type: "text", text: "And now?" }, screenshot] } },
+    ].map((e) => JSON.stringify(e)).join("\n");
+
+    const writtenContent = (uuid: string) =>
+      (vi.mocked(writeFile).mock.calls[0][1] as string).trim().split("\n").map((l) => JSON.parse(l))
+        .find((e) => e.uuid === uuid).message.content;
+
+    it("replaces images in the oldest turns with a placeholder", async () => {
+      vi.mocked(readFile).mockResolvedValue(imageSession);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        imageRemoval: 50,
+      } as CloneRequestV2);
+
+      expect(result.stats.imagesRemoved).toBe(2);
+      expect(writtenContent("u1")[1]).toEqual({ type: "text", text: "[Image removed: image/png, 1280x720, 2 KB]" });
+      expect(writtenContent("r1")[0].content).toEqual([{ type: "text", text: "[Image removed: image/png, 1280x720, 2 KB]" }]);
+      expect(writtenContent("u2")[1]).toEqual(screenshot);
+    });
+
+    it("drops images and shows the saving in a dry run", async () => {
+      vi.mocked(readFile).mockResolvedValue(imageSession);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        imageRemoval: 100,
+        imageHandlingMode: "remove",
+        dryRun: true,
+      } as CloneRequestV2);
+
+      expect(result.stats.imagesRemoved).toBe(3);
+      expect(result.preview?.removedBlockIds).toEqual(["u1:1", "shot-1:0", "u2:1"]);
+      expect(result.preview!.tokensBefore - result.preview!.tokensAfter).toBeGreaterThan(3000);
+    });
+  });
+
+  describe("Read deduplication", () => {
+    const fileContent = "     1→export const a = 1;\n".repeat(40);
+    const readSession = [1, 2].flatMap((n) => [
+      { type: "user", uuid: `u${n}`, parentUuid: null, sessionId: "test-session-id", message: { role: "user", content: `Read a.ts (${n})` } },
+      { type: "assistant", uuid: `a${n}`, parentUuid: `u${n}`, sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "tool_use", id: `read-${n}`, name: "Read", input: { file_path: "/src/a.ts" } }] } },
+      { type: "user", uuid: `r${n}`, parentUuid: `a${n}`, sessionId: "test-session-id", message: { role: "user", content: [{ type: "tool_result", tool_use_id: `read-${n}`, content: fileContent }] } },
+    ]).map((e) => JSON.stringify(e)).join("\n");
+
+    it("reports superseded reads only when dedupeReads is set", async () => {
+      vi.mocked(readFile).mockResolvedValue(readSession);
+      const request = { sessionId: "test-session-id", toolRemoval: 0, thinkingRemoval: 0, dryRun: true };
+
+      const plain = await cloneSessionV2(request as CloneRequestV2);
+      const deduplicated = await cloneSessionV2({ ...request, dedupeReads: true } as CloneRequestV2);
+
+      expect(plain.stats.readDeduplication).toBeUndefined();
+      expect(deduplicated.stats.readDeduplication).toMatchObject({ resultsReplaced: 1, filesAffected: 1 });
+      expect(deduplicated.preview!.turns[0].after).toBeLessThan(plain.preview!.turns[0].after);
+      expect(deduplicated.preview!.turns[1].after).toBe(plain.preview!.turns[1].after);
+    });
+
+    it("leaves reads in pinned turns alone", async () => {
+      vi.mocked(readFile).mockResolvedValue(readSession);
+      pins.set("test-session-id", [0]);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        dedupeReads: true,
+      } as CloneRequestV2);
+
+      expect(result.stats.readDeduplication).toMatchObject({ resultsReplaced: 0 });
+      expect(vi.mocked(writeFile).mock.calls[0][1]).not.toContain("Superseded");
+    });
+  });
+
+  describe("Pinned turns", () => {
+    it("keeps tool calls of pinned turns and pins them in the clone", async () => {
+      vi.mocked(readFile).mockResolvedValue(createFixtureWithToolCalls());
+      pins.set("test-session-tool-calls", [0]);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-tool-calls",
+        toolRemoval: 100,
+        thinkingRemoval: 0,
+      } as CloneRequestV2);
+
+      const written = vi.mocked(writeFile).mock.calls[0][1] as string;
+      expect(result.stats.toolCallsRemoved).toBe(1);
+      expect(result.stats.pinnedTurns).toBe(1);
+      expect(written).toContain("tool-0");
+      expect(written).not.toContain("tool-1");
+      expect(pins.get("test-uuid-new")).toEqual([0]);
+    });
+
+    it("shifts pins into the kept turn range", async () => {
+      vi.mocked(readFile).mockResolvedValue(createFixtureWithToolCalls());
+      pins.set("test-session-tool-calls", [0, 2]);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-tool-calls",
+        toolRemoval: 100,
+        thinkingRemoval: 0,
+        fromTurn: 1,
+      } as CloneRequestV2);
+
+      expect(result.stats.toolCallsRemoved).toBe(1);
+      expect(pins.get("test-uuid-new")).toEqual([1]);
+    });
+
+    it("maps pins through the selected branch", async () => {
+      const toolTurn = (prefix: string, parentUuid: string, prompt: string) => [
+        { type: "user", uuid: `${prefix}-u`, parentUuid, sessionId: "test-session-id", message: { role: "user", content: prompt } },
+        { type: "assistant", uuid: `${prefix}-a`, parentUuid: `${prefix}-u`, sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "tool_use", id: `tool-${prefix}`, name: "Bash", input: { command: "ls" } }] } },
+        { type: "user", uuid: `${prefix}-r`, parentUuid: `${prefix}-a`, sessionId: "test-session-id", message: { role: "user", content: [{ type: "tool_result", tool_use_id: `tool-${prefix}`, content: "ok" }] } },
+      ];
+      vi.mocked(readFile).mockResolvedValue([
+        { type: "user", uuid: "u1", parentUuid: null, sessionId: "test-session-id", message: { role: "user", content: "Start" } },
+        { type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: "test-session-id", message: { role: "assistant", content: [{ type: "text", text: "Started." }] } },
+        ...toolTurn("old", "a1", "Try approach A"),
+        ...toolTurn("new", "a1", "Try approach B"),
+      ].map((e) => JSON.stringify(e)).join("\n"));
+      // Stored pins are whole-file turn indices: turn 2 is branch B's "Try approach B",
+      // which the branch view numbers 1 (setSessionPins maps between the two)
+      pins.set("test-session-id", [2]);
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 100,
+        thinkingRemoval: 0,
+        leafUuid: "new-r",
+      } as CloneRequestV2);
+
+      const written = vi.mocked(writeFile).mock.calls[0][1] as string;
+      expect(result.stats.pinnedTurns).toBe(1);
+      expect(written).toContain("tool-new");
+      expect(written).not.toContain("tool-old");
+      expect(pins.get("test-uuid-new")).toEqual([1]);
+    });
+  });
+
+  describe("Handoff summary", () => {
+    const writtenEntries = () =>
+      (vi.mocked(writeFile).mock.calls[0][1] as string)
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line))
+        .slice(1);
+
+    it("replaces the dropped turns with a handoff entry", async () => {
+      vi.mocked(readFile).mockResolvedValue(createFixtureWith6Turns());
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        fromTurn: 4,
+        handoffSummary: { sections: ["goals", "openTodos"] },
+      } as CloneRequestV2);
+
+      const output = writtenEntries();
+      expect(output.map((e) => e.uuid)).toEqual([null, "test-uuid-new", "u4", "a4", "u5", "a5"]);
+      expect(output[1]).toMatchObject({ type: "user", parentUuid: null, isCompactSummary: true, sessionId: "test-uuid-new" });
+      expect(output[1].message.content).toContain("## Goals\n- Refactor the session loader");
+      expect(output[2].parentUuid).toBe("test-uuid-new");
+      expect(result.stats.outputTurnCount).toBe(3);
+      expect(result.stats.handoff).toMatchObject({ turnsSummarized: 4 });
+      expect(vi.mocked(appendFile).mock.calls[0][1]).toContain("HANDOFF: 4 turns summarized");
+    });
+
+    it("measures the transcript without calling the LLM in a dry run", async () => {
+      vi.mocked(readFile).mockResolvedValue(createFixtureWith6Turns());
+
+      const result = await cloneSessionV2({
+        sessionId: "test-session-id",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+        fromTurn: 2,
+        handoffSummary: { sections: ["goals"] },
+        dryRun: true,
+      } as CloneRequestV2);
+
+      expect(result.stats.handoff?.turnsSummarized).toBe(2);
+      expect(result.stats.handoff?.transcriptTokens).toBeGreaterThan(0);
+      expect(result.stats.handoff?.summaryTokens).toBeUndefined();
+      expect(writeFile).not.toHaveBeenCalled();
+    });
+  });
 });
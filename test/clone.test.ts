@@ -7,6 +7,7 @@ import { fileURLToPath } from "url";
 import { cloneSession } from "../src/services/session-clone.js";
 import { CloneRequest } from "../src/schemas/clone.js";
 import { NotImplementedError, SessionNotFoundError } from "../src/errors.js";
+import { sessionPinService } from "../src/services/session-pins.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -49,6 +50,8 @@ function skipSummaryLine(content: string): string {
 describe("Session Clone Service", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // Pins would be read through the mocked fs/promises
+    vi.spyOn(sessionPinService, "getPins").mockResolvedValue([]);
     // Mock Date.now for consistent timestamps
     vi.spyOn(Date, "now").mockReturnValue(1733155845000);
     
@@ -386,5 +389,30 @@ describe("Session Clone Service", () => {
       });
     });
   });
+
+  describe("TC-14: Dry run", () => {
+    it("should preview removals without writing a clone", async () => {
+      vi.mocked(readFile).mockResolvedValue(loadFixture("thinking-session.jsonl"));
+
+      const result = await cloneSession({
+        sessionId: "33333333-3333-3333-3333-333333333333",
+        toolRemoval: "none",
+        thinkingRemoval: "75",
+        dryRun: true,
+      });
+
+      expect(writeFile).not.toHaveBeenCalled();
+      expect(appendFile).not.toHaveBeenCalled();
+      expect(result.dryRun).toBe(true);
+      expect(result.outputPath).toBe("");
+      expect(result.preview?.removedBlockIds).toEqual([
+        "assistant-turn1:0",
+        "assistant-turn2:0",
+        "assistant-turn3:0",
+      ]);
+      expect(result.preview?.turns[0].after).toBeLessThan(result.preview!.turns[0].before);
+      expect(result.preview?.turns[3].after).toBe(result.preview!.turns[3].before);
+    });
+  });
 });
 
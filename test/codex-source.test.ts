@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import path from "path";
+import {
+  CodexSessionSource,
+  getCodexSessionsDir,
+  extractSessionIdFromFilename,
+  normalizeRolloutLine,
+  parseRollout,
+  rolloutToEntries,
+} from "../src/sources/codex-source.js";
+import { identifyTurns } from "../src/services/session-clone.js";
+import { codexStructureService } from "../src/services/codex-structure.js";
+import { resolveSession } from "../src/lib/source-resolver.js";
+
+const CODEX_FIXTURES = path.join(process.cwd(), "test/fixtures/codex-sessions");
+const TOOL_SESSION = "c0de0000-0000-4000-8000-000000000001";
+const LEGACY_SESSION = "c0de0000-0000-4000-8000-000000000004";
+
+describe("Codex Session Source", () => {
+  describe("Utility Functions", () => {
+    describe("getCodexSessionsDir", () => {
+      it("uses CODEX_HOME when set", () => {
+        const original = process.env.CODEX_HOME;
+        process.env.CODEX_HOME = "/custom/codex";
+        try {
+          expect(getCodexSessionsDir()).toBe(path.join("/custom/codex", "sessions"));
+        } finally {
+          if (original !== undefined) {
+            process.env.CODEX_HOME = original;
+          } else {
+            delete process.env.CODEX_HOME;
+          }
+        }
+      });
+    });
+
+    describe("extractSessionIdFromFilename", () => {
+      it("extracts UUID from rollout filename", () => {
+        expect(
+          extractSessionIdFromFilename("rollout-2025-05-07T17-24-21-5973b6c0-94b8-487b-a530-2aeb6098ae0e.jsonl")
+        ).toBe("5973b6c0-94b8-487b-a530-2aeb6098ae0e");
+      });
+
+      it("returns null for other files", () => {
+        expect(extractSessionIdFromFilename("notes.txt")).toBeNull();
+        expect(extractSessionIdFromFilename("history.jsonl")).toBeNull();
+      });
+    });
+
+    describe("normalizeRolloutLine", () => {
+      it("passes envelope lines through", () => {
+        const line = { type: "response_item", payload: { type: "message" } };
+        expect(normalizeRolloutLine(line)).toEqual(line);
+      });
+
+      it("converts legacy meta line to session_meta", () => {
+        const line = normalizeRolloutLine({ id: "abc", timestamp: "2025-05-07T17:24:21Z" });
+        expect(line?.type).toBe("session_meta");
+        expect(line?.payload.id).toBe("abc");
+      });
+
+      it("wraps legacy response items", () => {
+        const line = normalizeRolloutLine({ type: "message", role: "user", content: [] });
+        expect(line?.type).toBe("response_item");
+      });
+
+      it("drops legacy state lines", () => {
+        expect(normalizeRolloutLine({ record_type: "state" })).toBeNull();
+      });
+    });
+
+    describe("rolloutToEntries", () => {
+      it("maps messages, reasoning and tool calls to Claude-shaped entries", () => {
+        const rollout = parseRollout([
+          JSON.stringify({ type: "session_meta", payload: { id: "s1", timestamp: "t" } }),
+          JSON.stringify({ type: "response_item", payload: { type: "message", role: "user", content: [{ type: "input_text", text: "hi" }] } }),
+          JSON.stringify({ type: "response_item", payload: { type: "reasoning", summary: [{ type: "summary_text", text: "think" }] } }),
+          JSON.stringify({ type: "response_item", payload: { type: "function_call", name: "shell", arguments: "{\"command\":[\"ls\"]}", call_id: "c1" } }),
+          JSON.stringify({ type: "response_item", payload: { type: "function_call_output", call_id: "c1", output: "file.txt" } }),
+        ].join("\n"));
+
+        const entries = rolloutToEntries(rollout);
+
+        expect(entries.map((e) => e.type)).toEqual(["user", "assistant", "assistant", "user"]);
+        expect(entries[1].message?.content).toEqual([{ type: "thinking", thinking: "think" }]);
+        expect(entries[2].message?.content).toEqual([
+          { type: "tool_use", id: "c1", name: "shell", input: { command: ["ls"] } },
+        ]);
+        expect(entries[3].message?.content).toEqual([
+          { type: "tool_result", tool_use_id: "c1", content: "file.txt" },
+        ]);
+        expect(entries[3].parentUuid).toBe(entries[2].uuid);
+      });
+
+      it("marks injected environment context as meta so it is not a turn", async () => {
+        process.env.CODEX_HOME = CODEX_FIXTURES;
+        try {
+          const rollout = await new CodexSessionSource().loadSession(TOOL_SESSION);
+          const entries = rolloutToEntries(rollout);
+          expect(entries[0].isMeta).toBe(true);
+          expect(identifyTurns(entries)).toHaveLength(2);
+        } finally {
+          delete process.env.CODEX_HOME;
+        }
+      });
+    });
+  });
+
+  describe("CodexSessionSource", () => {
+    let source: CodexSessionSource;
+
+    beforeAll(() => {
+      process.env.CODEX_HOME = CODEX_FIXTURES;
+      source = new CodexSessionSource();
+    });
+
+    afterAll(() => {
+      delete process.env.CODEX_HOME;
+    });
+
+    it("has sourceType codex", () => {
+      expect(source.sourceType).toBe("codex");
+    });
+
+    describe("isAvailable", () => {
+      it("returns true when sessions directory exists", async () => {
+        expect(await source.isAvailable()).toBe(true);
+      });
+
+      it("returns false when sessions directory does not exist", async () => {
+        process.env.CODEX_HOME = "/nonexistent/codex/home";
+        try {
+          expect(await new CodexSessionSource().isAvailable()).toBe(false);
+        } finally {
+          process.env.CODEX_HOME = CODEX_FIXTURES;
+        }
+      });
+    });
+
+    describe("listProjects", () => {
+      it("groups rollouts by cwd with lossless paths", async () => {
+        const projects = await source.listProjects();
+        expect(projects.map((p) => p.path)).toEqual([
+          "(unknown)",
+          "/Users/test/my-app",
+          "/Users/test/other-repo",
+        ]);
+        expect(projects.find((p) => p.path === "/Users/test/my-app")?.folder).toBe("-Users-test-my-app");
+      });
+    });
+
+    describe("listSessions", () => {
+      it("returns sessions for a project folder", async () => {
+        const sessions = await source.listSessions("-Users-test-my-app");
+        expect(sessions.map((s) => s.sessionId).sort()).toEqual([
+          "c0de0000-0000-4000-8000-000000000001",
+          "c0de0000-0000-4000-8000-000000000002",
+        ]);
+      });
+
+      it("extracts summary metadata", async () => {
+        const sessions = await source.listSessions("-Users-test-my-app");
+        const session = sessions.find((s) => s.sessionId === TOOL_SESSION);
+        expect(session?.source).toBe("codex");
+        expect(session?.projectPath).toBe("/Users/test/my-app");
+        expect(session?.firstMessage).toBe("Fix the failing migration test in db/migrate.ts");
+        expect(session?.turnCount).toBe(2);
+        expect(session?.createdAt.toISOString()).toBe("2025-09-14T10:00:00.000Z");
+      });
+
+      it("lists legacy rollouts without cwd under the unknown project", async () => {
+        const sessions = await source.listSessions("unknown");
+        expect(sessions).toHaveLength(1);
+        expect(sessions[0].sessionId).toBe(LEGACY_SESSION);
+        expect(sessions[0].firstMessage).toBe("Legacy format question");
+      });
+
+      it("rejects path traversal", async () => {
+        await expect(source.listSessions("../etc")).rejects.toThrow("path traversal");
+      });
+    });
+
+    describe("findSession", () => {
+      it("returns the project folder for a known session", async () => {
+        expect(await source.findSession(TOOL_SESSION)).toBe("-Users-test-my-app");
+      });
+
+      it("returns null for unknown session", async () => {
+        expect(await source.findSession("c0de0000-0000-4000-8000-00000000ffff")).toBeNull();
+      });
+    });
+
+    describe("loadSession", () => {
+      it("throws ENOENT for unknown session", async () => {
+        await expect(source.loadSession("c0de0000-0000-4000-8000-00000000ffff")).rejects.toMatchObject({
+          code: "ENOENT",
+        });
+      });
+    });
+
+    describe("resolveSession", () => {
+      it("resolves Codex sessions after Claude and Copilot", async () => {
+        const resolved = await resolveSession(TOOL_SESSION);
+        expect(resolved).toEqual({ sessionId: TOOL_SESSION, source: "codex", location: "-Users-test-my-app" });
+      });
+    });
+
+    describe("CodexStructureService", () => {
+      it("returns turns in the shared TurnData shape", async () => {
+        const response = await codexStructureService.getTurns(TOOL_SESSION);
+
+        expect(response.source).toBe("codex");
+        expect(response.totalTurns).toBe(2);
+        expect(response.turns[0].content.userPrompt).toBe("Fix the failing migration test in db/migrate.ts");
+        expect(response.turns[0].content.toolBlocks[0].name).toBe("shell");
+        expect(response.turns[0].content.thinking).toContain("Inspecting migration");
+        expect(response.turns[0].cumulative.tool).toBeGreaterThan(0);
+        expect(response.turns[1].cumulative.total).toBeGreaterThan(response.turns[0].cumulative.total);
+      });
+
+      it("summarizes structure", async () => {
+        const structure = await codexStructureService.getStructure(TOOL_SESSION);
+        expect(structure.turnCount).toBe(2);
+        expect(structure.projectPath).toBe("/Users/test/my-app");
+        expect(structure.totalTokens).toBeGreaterThan(0);
+      });
+    });
+  });
+});
@@ -232,6 +232,18 @@ describe("mapTurnsToBands", () => {
     // Single turn at position 0% should be in band [0, 50)
     expect(mapping[0].band?.level).toBe("compress");
   });
+
+  it("leaves pinned turns out of every band", () => {
+    const turns: Turn[] = Array.from({ length: 4 }, (_, i) => ({
+      startIndex: i * 2,
+      endIndex: i * 2 + 1,
+    }));
+    const bands: CompressionBand[] = [{ start: 0, end: 100, level: "heavy-compress" }];
+
+    const mapping = mapTurnsToBands(turns, bands, [1, 3]);
+
+    expect(mapping.map((m) => m.band?.level ?? null)).toEqual(["heavy-compress", null, "heavy-compress", null]);
+  });
 });
 
 describe("createCompressionTasks", () => {
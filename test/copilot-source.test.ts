@@ -3,6 +3,9 @@ import path from "path";
 import {
   CopilotSessionSource,
   getVSCodeStoragePath,
+  getVSCodeInstalls,
+  resolveStorageRoot,
+  resolveWorkspace,
   extractPathFromUri,
   countTurns,
   extractFirstMessage,
@@ -37,6 +40,50 @@ describe("Copilot Session Source", () => {
       });
     });
 
+    describe("getVSCodeInstalls", () => {
+      const saved: Record<string, string | undefined> = {};
+      const keys = ["VSCODE_STORAGE_PATH", "VSCODE_EXTRA_STORAGE_PATHS", "VSCODE_PORTABLE"];
+
+      beforeAll(() => {
+        for (const key of keys) saved[key] = process.env[key];
+      });
+
+      afterAll(() => {
+        for (const key of keys) {
+          if (saved[key] !== undefined) {
+            process.env[key] = saved[key];
+          } else {
+            delete process.env[key];
+          }
+        }
+      });
+
+      it("scans stable, Insiders and VSCodium by default", () => {
+        for (const key of keys) delete process.env[key];
+        const installs = getVSCodeInstalls();
+        expect(installs.map(i => i.id)).toEqual(["code", "code-insiders", "vscodium"]);
+        expect(installs[1].storagePath).toContain("Code - Insiders");
+      });
+
+      it("adds the running portable install", () => {
+        for (const key of keys) delete process.env[key];
+        process.env.VSCODE_PORTABLE = "/opt/vscode/data";
+        const portable = getVSCodeInstalls().find(i => i.id === "portable");
+        expect(portable?.storagePath).toBe(path.join("/opt/vscode/data", "user-data", "User", "workspaceStorage"));
+      });
+
+      it("replaces defaults with VSCODE_STORAGE_PATH and appends configured installs", () => {
+        for (const key of keys) delete process.env[key];
+        process.env.VSCODE_STORAGE_PATH = "/stable/workspaceStorage";
+        process.env.VSCODE_EXTRA_STORAGE_PATHS = ["Work Laptop=/work/workspaceStorage", "/usb/data"].join(path.delimiter);
+        expect(getVSCodeInstalls()).toEqual([
+          { id: "code", name: "VS Code", storagePath: "/stable/workspaceStorage" },
+          { id: "work-laptop", name: "Work Laptop", storagePath: "/work/workspaceStorage" },
+          { id: "custom-2", name: "Custom 2", storagePath: resolveStorageRoot("/usb/data") },
+        ]);
+      });
+    });
+
     describe("extractPathFromUri", () => {
       it("extracts path from file URI", () => {
         expect(extractPathFromUri("file:///Users/dev/project")).toBe("/Users/dev/project");
@@ -302,5 +349,42 @@ describe("Copilot Session Source", () => {
           .rejects.toThrow();
       });
     });
+
+    describe("multiple installs", () => {
+      const insidersPath = path.join(process.cwd(), "test/fixtures/copilot-insiders/workspaceStorage");
+
+      beforeAll(() => {
+        process.env.VSCODE_EXTRA_STORAGE_PATHS = `VS Code Insiders=${insidersPath}`;
+      });
+
+      afterAll(() => {
+        delete process.env.VSCODE_EXTRA_STORAGE_PATHS;
+      });
+
+      it("tags every project with its install and qualifies non-primary folders", async () => {
+        const projects = await source.listProjects();
+        const alpha = projects.filter(p => p.path === "/Users/test/projectalpha");
+        expect(alpha).toEqual([
+          { folder: "abc123def456ghi789", path: "/Users/test/projectalpha", install: "VS Code" },
+          { folder: "vs-code-insiders:abc123def456ghi789", path: "/Users/test/projectalpha", install: "VS Code Insiders" },
+        ]);
+        expect(projects.every(p => p.install)).toBe(true);
+      });
+
+      it("lists and finds sessions in the qualified workspace", async () => {
+        const sessions = await source.listSessions("vs-code-insiders:abc123def456ghi789");
+        expect(sessions.map(s => s.firstMessage)).toEqual(["Question asked in Insiders"]);
+        expect(await source.findSession("77777777-7777-7777-7777-777777777777"))
+          .toBe("vs-code-insiders:abc123def456ghi789");
+      });
+
+      it("resolves bare hashes to the primary install first", () => {
+        expect(resolveWorkspace("abc123def456ghi789").install.id).toBe("code");
+      });
+
+      it("rejects unknown install IDs with ENOENT", () => {
+        expect(() => resolveWorkspace("nope:abc123def456ghi789")).toThrow("Unknown VS Code install");
+      });
+    });
   });
 });
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import path from "path";
+import {
+  CursorSessionSource,
+  getCursorStoragePath,
+  getCursorGlobalStoragePath,
+  cursorToEntries,
+} from "../src/sources/cursor-source.js";
+import { identifyTurns } from "../src/services/session-clone.js";
+import { cursorStructureService } from "../src/services/cursor-structure.js";
+
+const CURSOR_FIXTURES = path.join(process.cwd(), "test/fixtures/cursor-sessions/workspaceStorage");
+const WORKSPACE = "cur0workspace111";
+const AGENT_COMPOSER = "c5000000-0000-4000-8000-000000000001";
+const INLINE_COMPOSER = "c5000000-0000-4000-8000-000000000002";
+const LEGACY_TAB = "c5000000-0000-4000-8000-0000000000aa";
+
+describe("Cursor Session Source", () => {
+  describe("Utility Functions", () => {
+    it("uses CURSOR_STORAGE_PATH and its globalStorage sibling", () => {
+      const original = process.env.CURSOR_STORAGE_PATH;
+      process.env.CURSOR_STORAGE_PATH = "/custom/Cursor/User/workspaceStorage";
+      try {
+        expect(getCursorStoragePath()).toBe("/custom/Cursor/User/workspaceStorage");
+        expect(getCursorGlobalStoragePath()).toBe(path.join("/custom/Cursor/User", "globalStorage"));
+      } finally {
+        if (original !== undefined) {
+          process.env.CURSOR_STORAGE_PATH = original;
+        } else {
+          delete process.env.CURSOR_STORAGE_PATH;
+        }
+      }
+    });
+
+    describe("cursorToEntries", () => {
+      it("maps thinking, text and tool calls to Claude-shaped entries", () => {
+        const entries = cursorToEntries({
+          sessionId: "c1",
+          kind: "composer",
+          sizeBytes: 0,
+          bubbles: [
+            { bubbleId: "u", type: 1, text: "hi" },
+            {
+              bubbleId: "a",
+              type: 2,
+              text: "",
+              thinking: { text: "plan" },
+              toolFormerData: { toolCallId: "t1", name: "read_file", rawArgs: "{\"target_file\":\"a.ts\"}", result: "x" },
+            },
+          ],
+        });
+
+        expect(entries.map((e) => e.type)).toEqual(["user", "assistant", "user"]);
+        expect(entries[1].message?.content).toEqual([
+          { type: "thinking", thinking: "plan" },
+          { type: "tool_use", id: "t1", name: "read_file", input: { target_file: "a.ts" } },
+        ]);
+        expect(entries[2].message?.content).toEqual([{ type: "tool_result", tool_use_id: "t1", content: "x" }]);
+        expect(identifyTurns(entries)).toHaveLength(1);
+      });
+    });
+  });
+
+  describe("CursorSessionSource", () => {
+    let source: CursorSessionSource;
+
+    beforeAll(() => {
+      process.env.CURSOR_STORAGE_PATH = CURSOR_FIXTURES;
+      source = new CursorSessionSource();
+    });
+
+    afterAll(() => {
+      delete process.env.CURSOR_STORAGE_PATH;
+    });
+
+    it("has sourceType cursor", () => {
+      expect(source.sourceType).toBe("cursor");
+    });
+
+    describe("isAvailable", () => {
+      it("returns true when workspace storage exists", async () => {
+        expect(await source.isAvailable()).toBe(true);
+      });
+
+      it("returns false when workspace storage does not exist", async () => {
+        process.env.CURSOR_STORAGE_PATH = "/nonexistent/Cursor/User/workspaceStorage";
+        try {
+          expect(await new CursorSessionSource().isAvailable()).toBe(false);
+        } finally {
+          process.env.CURSOR_STORAGE_PATH = CURSOR_FIXTURES;
+        }
+      });
+    });
+
+    describe("listProjects", () => {
+      it("lists only workspaces with conversations", async () => {
+        const projects = await source.listProjects();
+        expect(projects).toEqual([{ folder: WORKSPACE, path: "/Users/test/cursor-app" }]);
+      });
+    });
+
+    describe("listSessions", () => {
+      it("lists composers and legacy chat tabs, skipping empty ones", async () => {
+        const sessions = await source.listSessions(WORKSPACE);
+        expect(sessions.map((s) => s.sessionId)).toEqual([AGENT_COMPOSER, INLINE_COMPOSER, LEGACY_TAB]);
+      });
+
+      it("extracts summary metadata", async () => {
+        const sessions = await source.listSessions(WORKSPACE);
+        const session = sessions.find((s) => s.sessionId === AGENT_COMPOSER);
+        expect(session?.source).toBe("cursor");
+        expect(session?.projectPath).toBe("/Users/test/cursor-app");
+        expect(session?.firstMessage).toBe("Login redirects to /undefined after sign in");
+        expect(session?.turnCount).toBe(2);
+        expect(session?.createdAt.getTime()).toBe(1727000000000);
+        expect(session?.sizeBytes).toBeGreaterThan(0);
+      });
+
+      it("rejects path traversal", async () => {
+        await expect(source.listSessions("../etc")).rejects.toThrow("path traversal");
+      });
+
+      it("throws ENOENT for unknown workspace", async () => {
+        await expect(source.listSessions("nonexistent")).rejects.toMatchObject({ code: "ENOENT" });
+      });
+    });
+
+    describe("findSession", () => {
+      it("returns the workspace for composers and legacy tabs", async () => {
+        expect(await source.findSession(AGENT_COMPOSER)).toBe(WORKSPACE);
+        expect(await source.findSession(LEGACY_TAB)).toBe(WORKSPACE);
+      });
+
+      it("returns null for unknown conversation", async () => {
+        expect(await source.findSession("c5000000-0000-4000-8000-00000000ffff")).toBeNull();
+      });
+    });
+
+    describe("loadSession", () => {
+      it("loads inline composer conversations", async () => {
+        const conversation = await source.loadSession(INLINE_COMPOSER, WORKSPACE);
+        expect(conversation.bubbles).toHaveLength(2);
+      });
+
+      it("throws ENOENT for unknown conversation", async () => {
+        await expect(source.loadSession("c5000000-0000-4000-8000-00000000ffff")).rejects.toMatchObject({
+          code: "ENOENT",
+        });
+      });
+    });
+
+    describe("CursorStructureService", () => {
+      it("returns turn-level token breakdowns in the shared TurnData shape", async () => {
+        const response = await cursorStructureService.getTurns(AGENT_COMPOSER);
+
+        expect(response.source).toBe("cursor");
+        expect(response.totalTurns).toBe(2);
+        expect(response.turns[0].content.userPrompt).toBe("Login redirects to /undefined after sign in");
+        expect(response.turns[0].content.toolBlocks[0].name).toBe("read_file");
+        expect(response.turns[0].cumulative.thinking).toBeGreaterThan(0);
+        expect(response.turns[0].cumulative.tool).toBeGreaterThan(0);
+        expect(response.turns[1].cumulative.total).toBeGreaterThan(response.turns[0].cumulative.total);
+      });
+
+      it("summarizes legacy chat tabs", async () => {
+        const structure = await cursorStructureService.getStructure(LEGACY_TAB, WORKSPACE);
+        expect(structure.kind).toBe("chat");
+        expect(structure.title).toBe("Old chat");
+        expect(structure.turnCount).toBe(1);
+      });
+    });
+  });
+});
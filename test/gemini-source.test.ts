@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import path from "path";
+import {
+  GeminiSessionSource,
+  getGeminiTmpDir,
+  isProjectHash,
+  extractGeminiText,
+  checkpointToMessages,
+  logsToMessages,
+  geminiToEntries,
+} from "../src/sources/gemini-source.js";
+import { identifyTurns } from "../src/services/session-clone.js";
+import { geminiStructureService } from "../src/services/gemini-structure.js";
+import { resolveSession } from "../src/lib/source-resolver.js";
+
+const GEMINI_FIXTURES = path.join(process.cwd(), "test/fixtures/gemini-sessions");
+const MY_APP_HASH = "e36fec3590450248799e38d1d3fe07c35aa1a60eca596cfd79ea116d012b7625";
+const LEGACY_HASH = "410c730d8b29cc47eb4ae122a6edb97017091c7e10065b809b7d2c3c8ded0aff";
+const CHAT_SESSION = "9e0e0000-0000-4000-8000-000000000001";
+const LOG_SESSION = "9e0e0000-0000-4000-8000-000000000002";
+
+describe("Gemini Session Source", () => {
+  describe("Utility Functions", () => {
+    describe("getGeminiTmpDir", () => {
+      it("uses GEMINI_DIR when set", () => {
+        const original = process.env.GEMINI_DIR;
+        process.env.GEMINI_DIR = "/custom/gemini";
+        try {
+          expect(getGeminiTmpDir()).toBe(path.join("/custom/gemini", "tmp"));
+        } finally {
+          if (original !== undefined) {
+            process.env.GEMINI_DIR = original;
+          } else {
+            delete process.env.GEMINI_DIR;
+          }
+        }
+      });
+    });
+
+    describe("isProjectHash", () => {
+      it("accepts SHA-256 hex digests only", () => {
+        expect(isProjectHash(MY_APP_HASH)).toBe(true);
+        expect(isProjectHash("bin")).toBe(false);
+      });
+    });
+
+    describe("extractGeminiText", () => {
+      it("handles strings, parts and part lists", () => {
+        expect(extractGeminiText("hello")).toBe("hello");
+        expect(extractGeminiText({ text: "hello" })).toBe("hello");
+        expect(extractGeminiText(["a", { text: "b" }, { text: "hidden", thought: true }])).toBe("a\nb");
+      });
+    });
+
+    describe("checkpointToMessages", () => {
+      it("drops the setup context and attaches function responses to their calls", () => {
+        const messages = checkpointToMessages(
+          [
+            { role: "user", parts: [{ text: "This is the Gemini CLI. We are setting up the context for our chat." }] },
+            { role: "model", parts: [{ text: "Got it." }] },
+            { role: "user", parts: [{ text: "ls" }] },
+            { role: "model", parts: [{ functionCall: { name: "list_directory", args: { path: "." } } }] },
+            { role: "user", parts: [{ functionResponse: { name: "list_directory", response: { output: "a.ts" } } }] },
+          ],
+          "2025-01-01T00:00:00.000Z"
+        );
+
+        expect(messages.map((m) => m.type)).toEqual(["user", "gemini"]);
+        expect(messages[1].toolCalls?.[0].result?.[0].functionResponse?.response?.output).toBe("a.ts");
+      });
+    });
+
+    describe("logsToMessages", () => {
+      it("orders prompts by message id", () => {
+        const messages = logsToMessages([
+          { sessionId: "s", messageId: 1, type: "user", message: "second", timestamp: "t2" },
+          { sessionId: "s", messageId: 0, type: "user", message: "first", timestamp: "t1" },
+        ]);
+        expect(messages.map((m) => m.content)).toEqual(["first", "second"]);
+      });
+    });
+
+    describe("geminiToEntries", () => {
+      it("maps thoughts, text and tool calls to Claude-shaped entries", () => {
+        const entries = geminiToEntries({
+          sessionId: "s1",
+          projectHash: "h",
+          startTime: "t",
+          lastUpdated: "t",
+          messages: [
+            { id: "1", timestamp: "t", type: "user", content: "hi" },
+            {
+              id: "2",
+              timestamp: "t",
+              type: "gemini",
+              content: "done",
+              thoughts: [{ subject: "Plan", description: "read it" }],
+              toolCalls: [{ id: "c1", name: "read_file", args: { absolute_path: "/a" }, resultDisplay: "contents" }],
+            },
+            { id: "3", timestamp: "t", type: "error", content: "quota exceeded" },
+          ],
+        });
+
+        expect(entries.map((e) => e.type)).toEqual(["user", "assistant", "user"]);
+        expect(entries[1].message?.content).toEqual([
+          { type: "thinking", thinking: "Plan\nread it" },
+          { type: "text", text: "done" },
+          { type: "tool_use", id: "c1", name: "read_file", input: { absolute_path: "/a" } },
+        ]);
+        expect(entries[2].message?.content).toEqual([
+          { type: "tool_result", tool_use_id: "c1", content: "contents" },
+        ]);
+        expect(entries[2].parentUuid).toBe(entries[1].uuid);
+        expect(identifyTurns(entries)).toHaveLength(1);
+      });
+    });
+  });
+
+  describe("GeminiSessionSource", () => {
+    let source: GeminiSessionSource;
+
+    beforeAll(() => {
+      process.env.GEMINI_DIR = GEMINI_FIXTURES;
+      source = new GeminiSessionSource();
+    });
+
+    afterAll(() => {
+      delete process.env.GEMINI_DIR;
+    });
+
+    it("has sourceType gemini", () => {
+      expect(source.sourceType).toBe("gemini");
+    });
+
+    describe("isAvailable", () => {
+      it("returns true when tmp directory exists", async () => {
+        expect(await source.isAvailable()).toBe(true);
+      });
+
+      it("returns false when tmp directory does not exist", async () => {
+        process.env.GEMINI_DIR = "/nonexistent/gemini/home";
+        try {
+          expect(await new GeminiSessionSource().isAvailable()).toBe(false);
+        } finally {
+          process.env.GEMINI_DIR = GEMINI_FIXTURES;
+        }
+      });
+    });
+
+    describe("listProjects", () => {
+      it("lists project hash folders, using the recorded root when available", async () => {
+        const projects = await source.listProjects();
+        expect(projects).toEqual([
+          { folder: LEGACY_HASH, path: "(project 410c730d)" },
+          { folder: MY_APP_HASH, path: "/Users/test/my-app" },
+        ]);
+      });
+    });
+
+    describe("listSessions", () => {
+      it("lists chat recordings and checkpoints, skipping logs already recorded", async () => {
+        const sessions = await source.listSessions(MY_APP_HASH);
+        expect(sessions.map((s) => s.sessionId).sort()).toEqual([CHAT_SESSION, "checkpoint-tests"]);
+      });
+
+      it("extracts summary metadata", async () => {
+        const sessions = await source.listSessions(MY_APP_HASH);
+        const session = sessions.find((s) => s.sessionId === CHAT_SESSION);
+        expect(session?.source).toBe("gemini");
+        expect(session?.projectPath).toBe("/Users/test/my-app");
+        expect(session?.firstMessage).toBe("Why does the build fail on CI?");
+        expect(session?.turnCount).toBe(2);
+        expect(session?.createdAt.toISOString()).toBe("2025-09-20T10:00:00.000Z");
+        expect(session?.lastModifiedAt.toISOString()).toBe("2025-09-20T10:05:00.000Z");
+      });
+
+      it("falls back to logs.json for sessions without a chat recording", async () => {
+        const sessions = await source.listSessions(LEGACY_HASH);
+        expect(sessions).toHaveLength(1);
+        expect(sessions[0].sessionId).toBe(LOG_SESSION);
+        expect(sessions[0].firstMessage).toBe("First legacy question");
+        expect(sessions[0].turnCount).toBe(2);
+      });
+
+      it("rejects path traversal", async () => {
+        await expect(source.listSessions("../etc")).rejects.toThrow("path traversal");
+      });
+
+      it("throws ENOENT for unknown project", async () => {
+        await expect(source.listSessions("0".repeat(64))).rejects.toMatchObject({ code: "ENOENT" });
+      });
+    });
+
+    describe("findSession", () => {
+      it("returns the project hash for a known session", async () => {
+        expect(await source.findSession(CHAT_SESSION)).toBe(MY_APP_HASH);
+      });
+
+      it("returns null for unknown session", async () => {
+        expect(await source.findSession("9e0e0000-0000-4000-8000-00000000ffff")).toBeNull();
+      });
+    });
+
+    describe("loadSession", () => {
+      it("loads checkpoints within a project", async () => {
+        const session = await source.loadSession("checkpoint-tests", MY_APP_HASH);
+        expect(session.kind).toBe("checkpoint");
+        expect(session.messages.map((m) => m.type)).toEqual(["user", "gemini", "gemini"]);
+      });
+
+      it("throws ENOENT for unknown session", async () => {
+        await expect(source.loadSession("9e0e0000-0000-4000-8000-00000000ffff")).rejects.toMatchObject({
+          code: "ENOENT",
+        });
+      });
+    });
+
+    describe("resolveSession", () => {
+      it("resolves Gemini sessions after the other sources", async () => {
+        const resolved = await resolveSession(CHAT_SESSION);
+        expect(resolved).toEqual({ sessionId: CHAT_SESSION, source: "gemini", location: MY_APP_HASH });
+      });
+    });
+
+    describe("GeminiStructureService", () => {
+      it("returns turns in the shared TurnData shape", async () => {
+        const response = await geminiStructureService.getTurns(CHAT_SESSION);
+
+        expect(response.source).toBe("gemini");
+        expect(response.totalTurns).toBe(2);
+        expect(response.turns[0].content.userPrompt).toBe("Why does the build fail on CI?");
+        expect(response.turns[0].content.toolBlocks[0].name).toBe("read_file");
+        expect(response.turns[0].content.thinking).toContain("Checking build config");
+        expect(response.turns[0].cumulative.tool).toBeGreaterThan(0);
+        expect(response.turns[1].content.userPrompt).toBe("Regenerate it then.");
+        expect(response.turns[1].cumulative.total).toBeGreaterThan(response.turns[0].cumulative.total);
+      });
+
+      it("summarizes structure", async () => {
+        const structure = await geminiStructureService.getStructure("checkpoint-tests", MY_APP_HASH);
+        expect(structure.kind).toBe("checkpoint");
+        expect(structure.turnCount).toBe(1);
+        expect(structure.totalTokens).toBeGreaterThan(0);
+      });
+    });
+  });
+});
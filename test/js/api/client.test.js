@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { post, ApiError } from '../../../public/js/api/client.js';
+import { post, del, upload, ApiError } from '../../../public/js/api/client.js';
 
 describe('api/client', () => {
   let originalFetch;
@@ -121,4 +121,59 @@ describe('api/client', () => {
       expect(error.code).toBe('NOT_FOUND');
     });
   });
+
+  describe('del', () => {
+    it('sends a DELETE and returns JSON', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ cloneId: 'abc' }),
+      });
+
+      const result = await del('/api/clones/abc');
+
+      expect(result).toEqual({ cloneId: 'abc' });
+      expect(fetch).toHaveBeenCalledWith('/api/clones/abc', { method: 'DELETE' });
+    });
+
+    it('throws ApiError with the server message', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 404,
+        json: () => Promise.resolve({ error: { code: 'NOT_FOUND', message: 'Clone not found: abc (no lineage record)' } }),
+      });
+
+      await expect(del('/api/clones/abc')).rejects.toMatchObject({ status: 404, code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('upload', () => {
+    it('sends the file as the raw body', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ imported: [] }),
+      });
+      const file = new Blob(['{}']);
+
+      await upload('/api/import?filename=a.json', file);
+
+      expect(fetch).toHaveBeenCalledWith('/api/import?filename=a.json', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file,
+      });
+    });
+
+    it('throws ApiError with the server message', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        json: () => Promise.resolve({ error: { code: 'INVALID_INPUT', message: 'No sessions found' } }),
+      });
+
+      await expect(upload('/api/import?filename=a.zip', new Blob([]))).rejects.toMatchObject({
+        message: 'No sessions found',
+        code: 'INVALID_INPUT',
+      });
+    });
+  });
 });
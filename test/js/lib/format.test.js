@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { formatRelativeTime, formatFileSize, escapeHtml } from "../../../public/js/lib/format.js";
+import { formatRelativeTime, formatFileSize, formatTokenCount, escapeHtml, highlightSnippet } from "../../../public/js/lib/format.js";
 
 describe("formatRelativeTime", () => {
   it("returns 'just now' for times < 60 seconds ago", () => {
@@ -58,6 +58,17 @@ describe("formatFileSize", () => {
   });
 });
 
+describe("formatTokenCount", () => {
+  it("keeps small counts exact", () => {
+    expect(formatTokenCount(850)).toBe("850");
+  });
+
+  it("formats thousands and millions compactly", () => {
+    expect(formatTokenCount(12345)).toBe("12.3k");
+    expect(formatTokenCount(1200000)).toBe("1.2M");
+  });
+});
+
 describe("escapeHtml", () => {
   it("escapes < and >", () => {
     expect(escapeHtml("<script>")).toBe("&lt;script&gt;");
@@ -75,3 +86,11 @@ describe("escapeHtml", () => {
     expect(escapeHtml("")).toBe("");
   });
 });
+
+describe("highlightSnippet", () => {
+  it("escapes text and marks matches", () => {
+    expect(highlightSnippet("run <b> [[migration]] now")).toBe(
+      'run &lt;b&gt; <mark class="bg-yellow-200">migration</mark> now'
+    );
+  });
+});
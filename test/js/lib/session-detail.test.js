@@ -11,6 +11,12 @@ import {
   SCALE_MAX,
   DEFAULT_WIDTH,
   DEFAULT_HEIGHT,
+  buildTurnsUrl,
+  buildSubagentTurnsUrl,
+  formatSubagentLabel,
+  formatBranchLabel,
+  buildPinsUrl,
+  togglePinnedTurn,
 } from "../../../public/js/lib/session-detail.js";
 
 describe("Constants", () => {
@@ -138,3 +144,71 @@ describe("validateTurnInput", () => {
   });
 });
 
+
+describe("buildTurnsUrl", () => {
+  it("uses the original endpoint for Claude sessions", () => {
+    expect(buildTurnsUrl("abc")).toBe("/api/session/abc/turns");
+    expect(buildTurnsUrl("abc", "claude")).toBe("/api/session/abc/turns");
+  });
+
+  it("namespaces other sources", () => {
+    expect(buildTurnsUrl("abc", "codex")).toBe("/api/codex/session/abc/turns");
+  });
+
+  it("selects a Claude branch by its leaf", () => {
+    expect(buildTurnsUrl("abc", "claude", "", "leaf-1")).toBe("/api/session/abc/turns?leafUuid=leaf-1");
+  });
+
+  it("passes the Copilot workspace through", () => {
+    expect(buildTurnsUrl("abc", "copilot", "hash1")).toBe("/api/copilot/session/abc/turns?workspace=hash1");
+  });
+});
+
+describe("buildSubagentTurnsUrl", () => {
+  it("nests the agent under its session", () => {
+    expect(buildSubagentTurnsUrl("abc", "a1b2")).toBe("/api/session/abc/subagents/a1b2/turns");
+  });
+});
+
+describe("formatSubagentLabel", () => {
+  it("uses the Task description and subagent type", () => {
+    expect(formatSubagentLabel({ agentId: "a1", description: "Find tests", subagentType: "Explore" }))
+      .toBe("Find tests (Explore)");
+  });
+
+  it("falls back to the agent ID", () => {
+    expect(formatSubagentLabel({ agentId: "a1" })).toBe("Subagent a1");
+  });
+});
+
+describe("formatBranchLabel", () => {
+  it("labels the active branch", () => {
+    expect(formatBranchLabel({ active: true, totalTurns: 12, forkTurnIndex: null, lastUserMessage: "Run them" }))
+      .toBe("Active branch · 12 turns · Run them");
+  });
+
+  it("labels an abandoned branch by its 1-based fork turn", () => {
+    expect(formatBranchLabel({ active: false, totalTurns: 3, forkTurnIndex: 2, lastUserMessage: "" }))
+      .toBe("Branch from turn 3 · 3 turns");
+  });
+});
+
+describe("buildPinsUrl", () => {
+  it("builds the pins endpoint for a session", () => {
+    expect(buildPinsUrl("abc-123")).toBe("/api/session/abc-123/pins");
+  });
+
+  it("numbers pins like the turns of the branch shown", () => {
+    expect(buildPinsUrl("abc-123", "leaf-1")).toBe("/api/session/abc-123/pins?leafUuid=leaf-1");
+  });
+});
+
+describe("togglePinnedTurn", () => {
+  it("pins an unpinned turn in order", () => {
+    expect(togglePinnedTurn([1, 5], 3)).toEqual([1, 3, 5]);
+  });
+
+  it("unpins a pinned turn", () => {
+    expect(togglePinnedTurn([1, 3, 5], 3)).toEqual([1, 5]);
+  });
+});
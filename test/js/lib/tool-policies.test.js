@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { buildToolPolicies, POLICY_TOOLS, RECOMMENDED_TOOL_POLICIES } from '../../../public/js/lib/tool-policies.js';
+
+describe('buildToolPolicies', () => {
+  it('returns undefined when every tool follows the default', () => {
+    expect(buildToolPolicies([{ tool: 'Read', mode: 'default', threshold: '' }])).toBeUndefined();
+  });
+
+  it('keys policies by tool and parses thresholds', () => {
+    expect(buildToolPolicies([
+      { tool: 'Read', mode: 'remove', threshold: '80' },
+      { tool: 'Edit', mode: 'keep', threshold: '' },
+      { tool: 'Bash', mode: 'default', threshold: '50' },
+    ])).toEqual({
+      Read: { mode: 'remove', threshold: 80 },
+      Edit: { mode: 'keep', threshold: 100 },
+    });
+  });
+
+  it('clamps thresholds to 0-100', () => {
+    expect(buildToolPolicies([{ tool: 'mcp__*', mode: 'truncate', threshold: '150' }])).toEqual({
+      'mcp__*': { mode: 'truncate', threshold: 100 },
+    });
+  });
+});
+
+describe('RECOMMENDED_TOOL_POLICIES', () => {
+  it('only covers tools in the policy table', () => {
+    for (const tool of Object.keys(RECOMMENDED_TOOL_POLICIES)) {
+      expect(POLICY_TOOLS).toContain(tool);
+    }
+  });
+});
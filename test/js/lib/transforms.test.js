@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { extractSessionId, formatStats, formatCompressionStats } from '../../../public/js/lib/transforms.js';
+import { extractSessionId, formatStats, formatCompressionStats, formatClonePreview, formatClonePlan, formatCloneDeletion } from '../../../public/js/lib/transforms.js';
 
 describe('extractSessionId', () => {
   it('extracts UUID from full path', () => {
@@ -85,6 +85,89 @@ describe('formatStats', () => {
     expect(result).toContainEqual({ label: 'Tool calls truncated', value: 42 });
   });
 
+  it('includes subagent removal and compression when present', () => {
+    const stats = {
+      originalTurnCount: 4,
+      outputTurnCount: 4,
+      toolCallsRemoved: 0,
+      thinkingBlocksRemoved: 0,
+      subagentEntriesRemoved: 12,
+      subagentCompression: { tokensRemoved: 900 },
+    };
+
+    const result = formatStats(stats);
+
+    expect(result).toContainEqual({ label: 'Subagent entries removed', value: 12 });
+    expect(result).toContainEqual({ label: 'Subagent tokens removed', value: 900 });
+  });
+
+  it('includes summarized tool results', () => {
+    const result = formatStats({
+      originalTurnCount: 4,
+      outputTurnCount: 4,
+      toolCallsRemoved: 0,
+      thinkingBlocksRemoved: 0,
+      toolSummarization: { messagesCompressed: 3 },
+    });
+
+    expect(result).toContainEqual({ label: 'Tool results summarized', value: 3 });
+  });
+
+  it('includes removed images only when there are any', () => {
+    const stats = { originalTurnCount: 4, outputTurnCount: 4, toolCallsRemoved: 0, thinkingBlocksRemoved: 0 };
+
+    expect(formatStats({ ...stats, imagesRemoved: 2 })).toContainEqual({ label: 'Images removed', value: 2 });
+    expect(formatStats(stats).map(s => s.label)).not.toContain('Images removed');
+  });
+
+  it('includes superseded file reads', () => {
+    const result = formatStats({
+      originalTurnCount: 4,
+      outputTurnCount: 4,
+      toolCallsRemoved: 0,
+      thinkingBlocksRemoved: 0,
+      readDeduplication: { resultsReplaced: 5, filesAffected: 2, tokensRemoved: 12000 },
+    });
+
+    expect(result).toContainEqual({ label: 'Superseded file reads', value: '5 in 2 files (~12000 tokens)' });
+  });
+
+  it('includes pinned turns kept', () => {
+    const result = formatStats({
+      originalTurnCount: 10,
+      outputTurnCount: 10,
+      toolCallsRemoved: 4,
+      thinkingBlocksRemoved: 0,
+      pinnedTurns: 2,
+    });
+
+    expect(result).toContainEqual({ label: 'Pinned turns kept', value: 2 });
+  });
+
+  it('includes the handoff summary', () => {
+    const result = formatStats({
+      originalTurnCount: 60,
+      outputTurnCount: 21,
+      toolCallsRemoved: 0,
+      thinkingBlocksRemoved: 0,
+      handoff: { turnsSummarized: 40, transcriptTokens: 52000, summaryTokens: 900 },
+    });
+
+    expect(result).toContainEqual({ label: 'Handoff summary', value: '40 turns (~52000 -> ~900 tokens)' });
+  });
+
+  it('includes the kept turn range as 1-based turns', () => {
+    const result = formatStats({
+      originalTurnCount: 60,
+      outputTurnCount: 40,
+      toolCallsRemoved: 0,
+      thinkingBlocksRemoved: 0,
+      turnRange: { fromTurn: 0, toTurn: 39 },
+    });
+
+    expect(result).toContainEqual({ label: 'Turns kept', value: '1-40' });
+  });
+
   it('omits tool calls truncated when zero or undefined', () => {
     const stats = {
       originalTurnCount: 18,
@@ -140,3 +223,82 @@ describe('formatCompressionStats', () => {
     expect(formatCompressionStats(null)).toEqual([]);
   });
 });
+
+describe('formatClonePlan', () => {
+  it('returns empty array without a plan', () => {
+    expect(formatClonePlan(undefined)).toEqual([]);
+  });
+
+  it('shows the projection against the budget and the steps taken', () => {
+    const result = formatClonePlan({
+      targetTokens: 80000,
+      projectedTokens: 76500,
+      steps: ['Remove thinking blocks', 'Stub out superseded file reads'],
+      settings: {},
+    });
+
+    expect(result).toEqual([
+      { label: 'Token budget', value: '~76500 of 80000' },
+      { label: 'Planned steps', value: 'Remove thinking blocks, Stub out superseded file reads' },
+    ]);
+  });
+
+  it('shows the written clone\'s actual tokens next to the projection', () => {
+    const result = formatClonePlan({ targetTokens: 80000, projectedTokens: 76500, actualTokens: 81200, steps: [], settings: {} });
+    expect(result[0]).toEqual({ label: 'Token budget', value: '81200 of 80000 (projected ~76500)' });
+  });
+
+  it('says when no steps were needed', () => {
+    const result = formatClonePlan({ targetTokens: 80000, projectedTokens: 20000, steps: [], settings: {} });
+    expect(result[1]).toEqual({ label: 'Planned steps', value: 'None needed' });
+  });
+});
+
+describe('formatCloneDeletion', () => {
+  const result = { cloneId: 'abc', sourceIntact: true, restorableUntil: '2025-01-08T10:00:00.000Z' };
+
+  it('confirms the source is untouched and says how long the clone can be restored', () => {
+    const text = formatCloneDeletion(result);
+    expect(text).toContain('Clone deleted. Source session untouched.');
+    expect(text).toContain(new Date(result.restorableUntil).toLocaleString());
+  });
+
+  it('says when the source session is missing', () => {
+    expect(formatCloneDeletion({ ...result, sourceIntact: false })).toContain('Source session not found');
+  });
+});
+
+describe('formatClonePreview', () => {
+  const preview = {
+    turns: [],
+    removedBlockIds: ['toolu_1', 'toolu_2', 'a1:0'],
+    tokensBefore: 12000,
+    tokensAfter: 3000,
+    contextWindow: 200000,
+    projectedContextPercent: 1.5,
+  };
+
+  it('formats token totals and projected context', () => {
+    expect(formatClonePreview(preview)).toEqual([
+      { label: 'Tokens before', value: 12000 },
+      { label: 'Tokens after', value: 3000 },
+      { label: 'Projected context', value: '1.5% of 200000' },
+      { label: 'Blocks removed', value: 3 },
+    ]);
+  });
+
+  it('includes planned compression', () => {
+    const result = formatClonePreview({
+      ...preview,
+      compression: { tasksPlanned: 4, tasksSkipped: 1, estimatedTokensRemoved: 900 },
+    });
+    expect(result.slice(4)).toEqual([
+      { label: 'Compressions planned', value: 4 },
+      { label: 'Estimated tokens compressed away', value: 900 },
+    ]);
+  });
+
+  it('returns empty array for null preview', () => {
+    expect(formatClonePreview(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { isArchiveName, readArchive } from "../../src/lib/archive.js";
+import { createTarGz, createZip } from "../helpers/archive-helpers.js";
+
+const files = {
+  "sessions/a.jsonl": '{"type":"user"}\n',
+  "sessions/b.json": JSON.stringify({ requests: [] }),
+};
+
+const asText = (archive: Array<{ name: string; data: Buffer }>) =>
+  Object.fromEntries(archive.map((f) => [f.name, f.data.toString("utf-8")]));
+
+describe("readArchive", () => {
+  it("recognizes archive names", () => {
+    expect(["a.zip", "a.tar.gz", "a.TGZ", "a.tar"].every(isArchiveName)).toBe(true);
+    expect(isArchiveName("a.jsonl")).toBe(false);
+  });
+
+  it("reads .tar.gz files", () => {
+    expect(asText(readArchive("upload.tar.gz", createTarGz(files)))).toEqual(files);
+  });
+
+  it("reads deflated .zip files", () => {
+    expect(asText(readArchive("upload.zip", createZip(files)))).toEqual(files);
+  });
+
+  it("enforces the size limit", () => {
+    expect(() => readArchive("upload.zip", createZip(files), 10)).toThrow(/exceed 10 bytes/);
+  });
+
+  it("stops inflating a zip entry at its declared size", () => {
+    const bomb = createZip({ "a.jsonl": "x".repeat(1_000_000) }, { "a.jsonl": 100 });
+    expect(() => readArchive("upload.zip", bomb, 1000)).toThrow(/inflates past its declared 100 bytes/);
+  });
+
+  it("rejects a zip entry smaller than its declared size", () => {
+    const zip = createZip({ "a.jsonl": "short" }, { "a.jsonl": 50 });
+    expect(() => readArchive("upload.zip", zip)).toThrow(/inflates to 5 bytes, not the declared 50/);
+  });
+
+  it("rejects data that is not an archive", () => {
+    expect(() => readArchive("upload.zip", Buffer.from("not a zip at all, just some text"))).toThrow(/Malformed zip/);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { delimiter, join } from "path";
+import { getClaudeRoots, claudeFolderId, resolveClaudeFolder } from "../../src/lib/claude-roots.js";
+
+describe("Claude roots", () => {
+  afterEach(() => {
+    delete process.env.CLAUDE_DIR;
+    delete process.env.CLAUDE_ROOTS;
+  });
+
+  it("defaults to the single configured Claude directory", () => {
+    process.env.CLAUDE_DIR = "/data/claude";
+    expect(getClaudeRoots()).toEqual([
+      { name: "default", dir: "/data/claude", projectsDir: join("/data/claude", "projects") },
+    ]);
+  });
+
+  it("parses named roots and skips duplicate directories", () => {
+    process.env.CLAUDE_ROOTS = ["Laptop=/sync/laptop", "CI Runner=/sync/ci", "/sync/laptop", "/sync/other"].join(delimiter);
+    expect(getClaudeRoots().map((r) => [r.name, r.dir])).toEqual([
+      ["laptop", "/sync/laptop"],
+      ["ci-runner", "/sync/ci"],
+      ["root-4", "/sync/other"],
+    ]);
+  });
+
+  it("qualifies folders outside the primary root", () => {
+    process.env.CLAUDE_ROOTS = ["laptop=/sync/laptop", "devbox=/sync/devbox"].join(delimiter);
+    const [laptop, devbox] = getClaudeRoots();
+    expect(claudeFolderId(laptop, "-Users-me-app")).toBe("-Users-me-app");
+    expect(claudeFolderId(devbox, "-Users-me-app")).toBe("devbox:-Users-me-app");
+
+    expect(resolveClaudeFolder("devbox:-Users-me-app")).toMatchObject({
+      root: { name: "devbox" },
+      folder: "-Users-me-app",
+      projectDir: join("/sync/devbox", "projects", "-Users-me-app"),
+    });
+    expect(resolveClaudeFolder("-Users-me-app").root.name).toBe("laptop");
+    expect(() => resolveClaudeFolder("nowhere:-Users-me-app")).toThrow("Unknown Claude root: nowhere");
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  IMAGE_TOKENS_FALLBACK,
+  countImageTokens,
+  describeImage,
+  estimateImageTokens,
+  readImageInfo,
+} from "../../src/lib/image-tokens.js";
+
+function png(width: number, height: number, padding = 0): Buffer {
+  const header = Buffer.alloc(24 + padding);
+  header.writeUInt32BE(0x89504e47, 0);
+  header.writeUInt32BE(0x0d0a1a0a, 4);
+  header.write("IHDR", 12, "ascii");
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+function jpeg(width: number, height: number): Buffer {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]);
+  const sof = Buffer.alloc(11);
+  sof.writeUInt16BE(0xffc0, 0);
+  sof.writeUInt16BE(8, 2);
+  sof[4] = 8;
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof]);
+}
+
+const image = (data: Buffer, mediaType = "image/png") => ({
+  type: "image",
+  source: { type: "base64", media_type: mediaType, data: data.toString("base64") },
+});
+
+describe("Image tokens", () => {
+  describe("readImageInfo", () => {
+    it("reads PNG dimensions and decoded size", () => {
+      expect(readImageInfo(image(png(1280, 720, 2000)))).toEqual({
+        mediaType: "image/png", bytes: 2024, width: 1280, height: 720,
+      });
+    });
+
+    it("reads JPEG dimensions after other segments", () => {
+      expect(readImageInfo(image(jpeg(640, 480), "image/jpeg"))).toMatchObject({ width: 640, height: 480 });
+    });
+
+    it("reads GIF dimensions", () => {
+      const gif = Buffer.alloc(13);
+      gif.write("GIF89a", 0, "ascii");
+      gif.writeUInt16LE(320, 6);
+      gif.writeUInt16LE(200, 8);
+      expect(readImageInfo(image(gif, "image/gif"))).toMatchObject({ width: 320, height: 200 });
+    });
+
+    it("has no size for URL sources or unknown formats", () => {
+      expect(readImageInfo({ type: "image", source: { type: "url", url: "https://example.com/a.png" } }))
+        .toEqual({ mediaType: "image", bytes: 0 });
+      expect(readImageInfo(image(Buffer.from("not an image")))).toEqual({ mediaType: "image/png", bytes: 12 });
+    });
+  });
+
+  describe("estimateImageTokens", () => {
+    it("charges width * height / 750 for small images", () => {
+      expect(estimateImageTokens({ mediaType: "image/png", bytes: 1, width: 200, height: 200 })).toBe(54);
+    });
+
+    it("scales large images down first", () => {
+      const tokens = estimateImageTokens({ mediaType: "image/png", bytes: 1, width: 3840, height: 2160 });
+      expect(tokens).toBeLessThanOrEqual(IMAGE_TOKENS_FALLBACK);
+      expect(tokens).toBeGreaterThan(1400);
+    });
+
+    it("assumes the largest size when dimensions are unknown", () => {
+      expect(estimateImageTokens({ mediaType: "image/png", bytes: 1 })).toBe(IMAGE_TOKENS_FALLBACK);
+    });
+  });
+
+  it("counts the images inside tool results", () => {
+    const screenshot = image(png(750, 100));
+    expect(countImageTokens(screenshot)).toBe(100);
+    expect(countImageTokens({
+      type: "tool_result",
+      tool_use_id: "t1",
+      content: [{ type: "text", text: "Screenshot taken" }, screenshot, screenshot],
+    })).toBe(200);
+    expect(countImageTokens({ type: "text", text: "no images" })).toBe(0);
+  });
+
+  it("describes an image for its placeholder", () => {
+    expect(describeImage({ mediaType: "image/png", bytes: 250_880, width: 1280, height: 720 }))
+      .toBe("[Image removed: image/png, 1280x720, 245 KB]");
+    expect(describeImage({ mediaType: "image", bytes: 0 })).toBe("[Image removed: image]");
+  });
+});
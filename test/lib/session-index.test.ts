@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, rm, stat } from "fs/promises";
+import Database from "better-sqlite3";
+import { SessionMetadataIndex, getSessionIndex } from "../../src/lib/session-index.js";
+import { ClaudeSessionSource } from "../../src/sources/claude-source.js";
+import { CopilotSessionSource } from "../../src/sources/copilot-source.js";
+
+const CLAUDE_FIXTURES = join(process.cwd(), "test/fixtures/session-browser");
+const COPILOT_FIXTURES = join(process.cwd(), "test/fixtures/copilot-sessions/workspaceStorage");
+
+const METADATA = { firstMessage: "Hello", turnCount: 2, createdAt: null, contextTokens: 120 };
+
+describe("SessionMetadataIndex", () => {
+  let dir: string;
+  let index: SessionMetadataIndex;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "session-index-"));
+    index = new SessionMetadataIndex(join(dir, "nested", "index.db"));
+  });
+
+  afterEach(async () => {
+    index.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns stored metadata while mtime and size match", () => {
+    index.set("/p/a.jsonl", "claude", { mtimeMs: 1000, size: 10 }, METADATA);
+    expect(index.get("/p/a.jsonl", { mtimeMs: 1000, size: 10 })).toEqual(METADATA);
+  });
+
+  it("misses when the file changed", () => {
+    index.set("/p/a.jsonl", "claude", { mtimeMs: 1000, size: 10 }, METADATA);
+    expect(index.get("/p/a.jsonl", { mtimeMs: 2000, size: 10 })).toBeNull();
+    expect(index.get("/p/a.jsonl", { mtimeMs: 1000, size: 11 })).toBeNull();
+    expect(index.get("/p/b.jsonl", { mtimeMs: 1000, size: 10 })).toBeNull();
+  });
+
+  it("persists across reopen", () => {
+    index.set("/p/a.jsonl", "claude", { mtimeMs: 1000, size: 10 }, METADATA);
+    index.close();
+    expect(index.get("/p/a.jsonl", { mtimeMs: 1000, size: 10 })).toEqual(METADATA);
+  });
+
+  it("drops rows written by another metadata version", () => {
+    index.set("/p/a.jsonl", "claude", { mtimeMs: 1000, size: 10 }, METADATA);
+    index.close();
+    const db = new Database(join(dir, "nested", "index.db"));
+    db.pragma("user_version = 1");
+    db.close();
+
+    expect(index.get("/p/a.jsonl", { mtimeMs: 1000, size: 10 })).toBeNull();
+    index.set("/p/a.jsonl", "claude", { mtimeMs: 1000, size: 10 }, METADATA);
+    index.close();
+    expect(index.get("/p/a.jsonl", { mtimeMs: 1000, size: 10 })).toEqual(METADATA);
+  });
+
+  it("prunes deleted files of a directory only", () => {
+    const stats = { mtimeMs: 1, size: 1 };
+    index.set("/p/a.jsonl", "claude", stats, METADATA);
+    index.set("/p/gone.jsonl", "claude", stats, METADATA);
+    index.set("/p/sub/c.jsonl", "claude", stats, METADATA);
+    index.set("/other/d.jsonl", "claude", stats, METADATA);
+
+    index.prune("/p", ["/p/a.jsonl"]);
+
+    expect(index.get("/p/a.jsonl", stats)).not.toBeNull();
+    expect(index.get("/p/gone.jsonl", stats)).toBeNull();
+    expect(index.get("/p/sub/c.jsonl", stats)).not.toBeNull();
+    expect(index.get("/other/d.jsonl", stats)).not.toBeNull();
+  });
+
+  it("degrades to cache misses when the database cannot be opened", () => {
+    const broken = new SessionMetadataIndex("/dev/null/index.db");
+    broken.set("/p/a.jsonl", "claude", { mtimeMs: 1, size: 1 }, METADATA);
+    expect(broken.get("/p/a.jsonl", { mtimeMs: 1, size: 1 })).toBeNull();
+  });
+});
+
+describe("session sources with the metadata index", () => {
+  afterEach(() => {
+    delete process.env.CLAUDE_DIR;
+    delete process.env.VSCODE_STORAGE_PATH;
+  });
+
+  it("serves Claude sessions from the index and records token totals", async () => {
+    process.env.CLAUDE_DIR = CLAUDE_FIXTURES;
+    const source = new ClaudeSessionSource();
+    const folder = "-Users-test-projectbeta";
+    const filePath = join(CLAUDE_FIXTURES, "projects", folder, "33333333-3333-3333-3333-333333333333.jsonl");
+
+    const [parsed] = await source.listSessions(folder);
+    expect(parsed.contextTokens).toBeGreaterThan(0);
+
+    const stats = await stat(filePath);
+    getSessionIndex().set(filePath, "claude", stats, { ...METADATA, firstMessage: "From the index" });
+    const [cached] = await source.listSessions(folder);
+    expect(cached.firstMessage).toBe("From the index");
+    expect(cached.contextTokens).toBe(120);
+  });
+
+  it("indexes Copilot sessions with their recorded creation date", async () => {
+    process.env.VSCODE_STORAGE_PATH = COPILOT_FIXTURES;
+    const source = new CopilotSessionSource();
+    const sessions = await source.listSessions("abc123def456ghi789");
+    const session = sessions.find((s) => s.sessionId === "11111111-1111-1111-1111-111111111111");
+    const filePath = join(COPILOT_FIXTURES, "abc123def456ghi789", "chatSessions", `${session?.sessionId}.json`);
+
+    const indexed = getSessionIndex().get(filePath, await stat(filePath));
+    expect(indexed?.firstMessage).toBe(session?.firstMessage);
+    expect(indexed?.createdAt).toBe(session?.createdAt.getTime());
+    expect(session?.contextTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { shellQuote } from "../../src/lib/shell-quote.js";
+
+describe("shellQuote", () => {
+  it("leaves plain paths unquoted", () => {
+    expect(shellQuote("/work/repo-wt")).toBe("/work/repo-wt");
+  });
+
+  it("single-quotes paths with spaces or shell metacharacters", () => {
+    expect(shellQuote("/work/my repo")).toBe("'/work/my repo'");
+    expect(shellQuote("/work/$(whoami)")).toBe("'/work/$(whoami)'");
+  });
+
+  it("escapes embedded single quotes", () => {
+    expect(shellQuote("/work/it's")).toBe("'/work/it'\\''s'");
+  });
+});
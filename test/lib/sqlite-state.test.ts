@@ -4,6 +4,7 @@ import { copyFile, rm, stat, readdir } from "fs/promises";
 import { VSCodeStateDb, ChatSessionIndexEntry } from "../../src/lib/sqlite-state.js";
 
 const FIXTURES = join(process.cwd(), "test/fixtures/copilot-sessions/workspaceStorage");
+const CURSOR_GLOBAL = join(process.cwd(), "test/fixtures/cursor-sessions/globalStorage");
 // Use xyz987uvw654rst321 which has the existing fixture with tool results
 const TEST_WORKSPACE = "xyz987uvw654rst321";
 
@@ -127,4 +128,36 @@ describe("VSCodeStateDb", () => {
       expect(index.entries["new-cloned-session"].title).toBe("Updated Title");
     });
   });
+
+  describe("readItem", () => {
+    it("parses a JSON value from ItemTable", () => {
+      const index = db.readItem<{ entries: Record<string, unknown> }>("chat.ChatSessionStore.index");
+      expect(index?.entries["existing-session-111"]).toBeDefined();
+    });
+
+    it("returns null for a missing key or database", () => {
+      expect(db.readItem("no.such.key")).toBeNull();
+      expect(new VSCodeStateDb("/nonexistent/workspace").readItem("any")).toBeNull();
+    });
+  });
+
+  describe("Cursor key-value reads", () => {
+    const cursorDb = new VSCodeStateDb(CURSOR_GLOBAL);
+
+    it("reads TEXT and BLOB JSON values from cursorDiskKV", () => {
+      const bubbles = cursorDb.readCursorValues<{ bubbleId: string }>(
+        "bubbleId:c5000000-0000-4000-8000-000000000001:"
+      );
+      expect(bubbles.map((b) => b.value.bubbleId).sort()).toEqual(["a1", "a2", "a3", "u1", "u2"]);
+    });
+
+    it("returns null for values that are not JSON", () => {
+      expect(cursorDb.readCursorValue("composerData:c5000000-0000-4000-8000-0000000000cc")).toBeNull();
+    });
+
+    it("treats a database without cursorDiskKV as empty", () => {
+      expect(db.readCursorValue("composerData:x")).toBeNull();
+      expect(db.readCursorValues("bubbleId:")).toEqual([]);
+    });
+  });
 });
@@ -226,4 +226,33 @@ describe("ClaudeCliProvider", () => {
       expect(result).toBe("markdown output");
     });
   });
+
+  describe("summarizeHandoff", () => {
+    it("spawns claude with opus and parses the sections", async () => {
+      const mockProc = createMockProcess();
+      vi.mocked(spawn).mockReturnValue(mockProc);
+
+      const provider = new ClaudeCliProvider();
+      const promise = provider.summarizeHandoff("## Turn 1\nUser: hi", { sections: ["decisions"] });
+
+      mockProc.stdout.emit("data", Buffer.from('{"result": "{\\"decisions\\": [\\"Use SQLite\\"]}"}'));
+      mockProc.emit("close", 0);
+
+      expect(await promise).toEqual({ decisions: ["Use SQLite"] });
+      expect(vi.mocked(spawn).mock.calls[0][1]).toContain("claude-opus-4-5-20251101");
+    });
+
+    it("throws when the summary is not JSON", async () => {
+      const mockProc = createMockProcess();
+      vi.mocked(spawn).mockReturnValue(mockProc);
+
+      const provider = new ClaudeCliProvider();
+      const promise = provider.summarizeHandoff("transcript", { sections: ["goals"] });
+
+      mockProc.stdout.emit("data", Buffer.from('{"result": "I cannot summarize this."}'));
+      mockProc.emit("close", 0);
+
+      await expect(promise).rejects.toThrow("Failed to parse Claude CLI handoff summary");
+    });
+  });
 });
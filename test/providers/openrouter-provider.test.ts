@@ -172,4 +172,32 @@ describe("OpenRouterProvider", () => {
       );
     });
   });
+
+  describe("summarizeHandoff", () => {
+    it("asks the large model for the requested sections", async () => {
+      const mockResponse = {
+        choices: [{ message: { content: 'Summary:\n{"goals": ["Ship the parser"], "pitfalls": ["Regexes failed"]}' } }],
+      };
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve(mockResponse),
+      });
+
+      const provider = new OpenRouterProvider();
+      const result = await provider.summarizeHandoff("## Turn 1\nUser: hi", {
+        sections: ["goals", "openTodos"],
+        instructions: "Focus on the parser",
+      });
+
+      expect(result).toEqual({ goals: ["Ship the parser"], openTodos: [] });
+      const body = JSON.parse(
+        (fetch as unknown as { mock: { calls: [unknown, { body: string }][] } }).mock.calls[0][1].body
+      );
+      expect(body.model).toBe("anthropic/claude-opus-4.5");
+      expect(body.messages[0].content).toContain('"openTodos"');
+      expect(body.messages[0].content).not.toContain('"pitfalls"');
+      expect(body.messages[0].content).toContain("Focus on the parser");
+    });
+  });
 });
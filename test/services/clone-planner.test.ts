@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { readFile, writeFile, appendFile, readdir, stat } from "fs/promises";
+import { cloneToTarget, PLAN_STEPS, resolveTargetTokens } from "../../src/services/clone-planner.js";
+import { cloneSessionV2 } from "../../src/services/session-clone.js";
+import { TargetUnreachableError } from "../../src/errors.js";
+import { sessionPinService } from "../../src/services/session-pins.js";
+import type { CloneRequestV2 } from "../../src/schemas/clone-v2.js";
+import { createFixtureWithToolCalls } from "../helpers/fixture-helpers.js";
+
+vi.mock("fs/promises", () => ({
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+  appendFile: vi.fn(),
+  readdir: vi.fn(),
+  stat: vi.fn(),
+}));
+
+vi.mock("crypto", () => ({
+  randomUUID: vi.fn(() => "test-uuid-new"),
+}));
+
+vi.mock("os", () => ({
+  default: { homedir: () => "/mock/home" },
+  homedir: () => "/mock/home",
+}));
+
+vi.mock("../../src/providers/index.js", () => ({
+  getProvider: () => ({
+    compress: (text: string) => Promise.resolve(text.substring(0, Math.floor(text.length * 0.35))),
+  }),
+  resetProvider: () => {},
+}));
+
+const request = (fields: Partial<CloneRequestV2>): CloneRequestV2 =>
+  ({ sessionId: "test-session-tool-calls", toolRemoval: 0, thinkingRemoval: 0, ...fields }) as CloneRequestV2;
+
+describe("cloneToTarget", () => {
+  let fullSize: number;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    // Pins would be read through the mocked fs/promises
+    vi.spyOn(sessionPinService, "getPins").mockResolvedValue([]);
+    vi.mocked(readdir).mockResolvedValue([
+      { name: "-test-project", isDirectory: () => true, isFile: () => false },
+    ] as unknown as Awaited<ReturnType<typeof readdir>>);
+    vi.mocked(stat).mockResolvedValue({ isFile: () => true, isDirectory: () => false } as unknown as Awaited<ReturnType<typeof stat>>);
+    vi.mocked(readFile).mockResolvedValue(createFixtureWithToolCalls());
+    vi.mocked(writeFile).mockResolvedValue(undefined);
+    vi.mocked(appendFile).mockResolvedValue(undefined);
+
+    fullSize = (await cloneSessionV2(request({ dryRun: true }))).preview!.tokensBefore;
+  });
+
+  afterEach(() => {
+    delete process.env.CONTEXT_WINDOW_TOKENS;
+  });
+
+  it("clones without removals when the session already fits", async () => {
+    const result = await cloneToTarget(request({ targetTokens: fullSize }));
+
+    expect(result.plan).toMatchObject({ targetTokens: fullSize, projectedTokens: fullSize, steps: [] });
+    expect(result.plan!.settings).toMatchObject({ toolRemoval: 0, compressionBands: [] });
+    expect(writeFile).toHaveBeenCalledTimes(1);
+  });
+
+  it("adds the cheapest steps until the projection fits", async () => {
+    const result = await cloneToTarget(request({ targetTokens: fullSize - 1 }));
+
+    expect(result.plan!.projectedTokens).toBeLessThanOrEqual(fullSize - 1);
+    expect(result.plan!.steps).toEqual(PLAN_STEPS.slice(0, result.plan!.steps.length).map((s) => s.label));
+    // The fixture's tool results are too short to truncate, so they are removed
+    expect(result.plan!.settings).toMatchObject({ toolHandlingMode: "remove", toolRemoval: 100, compressionBands: [] });
+    expect(result.stats.toolCallsRemoved).toBe(2);
+    expect(result.plan).toMatchObject({ estimated: false, actualTokens: result.plan!.projectedTokens });
+    expect(writeFile).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports the written clone's tokens when compression was only estimated", async () => {
+    const withoutTools = await cloneSessionV2(
+      request({ dryRun: true, thinkingRemoval: 100, toolHandlingMode: "remove", toolRemoval: 100 })
+    );
+
+    const result = await cloneToTarget(request({ targetTokens: withoutTools.preview!.tokensAfter - 1 }));
+
+    expect(result.plan!.settings.compressionBands.length).toBeGreaterThan(0);
+    expect(result.plan!.estimated).toBe(true);
+    expect(result.plan!.actualTokens).toBeGreaterThan(0);
+    expect(result.plan!.actualTokens).toBe(result.stats.outputTokens);
+    expect(result.stats.compression!.messagesCompressed).toBeGreaterThan(0);
+  });
+
+  it("returns the fitting dry run without writing", async () => {
+    const result = await cloneToTarget(request({ targetTokens: fullSize - 1, dryRun: true }));
+
+    expect(result.dryRun).toBe(true);
+    expect(result.preview!.tokensAfter).toBe(result.plan!.projectedTokens);
+    expect(result.plan!.actualTokens).toBeUndefined();
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+
+  it("throws TargetUnreachableError when no plan fits", async () => {
+    await expect(cloneToTarget(request({ targetTokens: 1 }))).rejects.toBeInstanceOf(TargetUnreachableError);
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+
+  it("resolves a context percentage against the context window", () => {
+    process.env.CONTEXT_WINDOW_TOKENS = "200000";
+    expect(resolveTargetTokens({ targetContextPercent: 40 })).toBe(80000);
+    expect(resolveTargetTokens({ targetTokens: 1234 })).toBe(1234);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { cloneTrashService } from "../../src/services/clone-trash.js";
+import { logLineage, markLineage, readLineage } from "../../src/services/lineage-logger.js";
+import { sessionPinService } from "../../src/services/session-pins.js";
+import { CloneConflictError, CloneNotFoundError } from "../../src/errors.js";
+
+const SOURCE_ID = "5ab0a9e0-0000-4000-8000-000000000005";
+const CLONE_ID = "5ab0a9e0-0000-4000-8000-000000000006";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("CloneTrashService", () => {
+  let dir: string;
+  let sourcePath: string;
+  let clonePath: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "clone-trash-"));
+    process.env.CLAUDE_DIR = dir;
+    process.env.PINS_PATH = join(dir, "session-pins.json");
+
+    const projectDir = join(dir, "projects", "-repo");
+    mkdirSync(projectDir, { recursive: true });
+    sourcePath = join(projectDir, `${SOURCE_ID}.jsonl`);
+    clonePath = join(projectDir, `${CLONE_ID}.jsonl`);
+    writeFileSync(sourcePath, '{"type":"user"}\n{"type":"assistant"}\n');
+    writeFileSync(clonePath, '{"type":"user"}\n');
+
+    await logLineage({
+      timestamp: "2025-01-01T10:00:00.000Z",
+      targetId: CLONE_ID,
+      targetPath: clonePath,
+      sourceId: SOURCE_ID,
+      sourcePath,
+      toolRemoval: 100,
+      thinkingRemoval: 100,
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.CLAUDE_DIR;
+    delete process.env.PINS_PATH;
+    delete process.env.CLONE_TRASH_RETENTION_DAYS;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("moves the clone to the trash and leaves the source alone", async () => {
+    const sourceBefore = readFileSync(sourcePath, "utf-8");
+
+    const result = await cloneTrashService.deleteClone(CLONE_ID);
+
+    expect(result).toMatchObject({ cloneId: CLONE_ID, sourceId: SOURCE_ID, sourcePath, sourceIntact: true });
+    expect(result.trashPath).toBe(join(dir, "clone-trash", `${CLONE_ID}.jsonl`));
+    expect(existsSync(clonePath)).toBe(false);
+    expect(existsSync(result.trashPath)).toBe(true);
+    expect(readFileSync(sourcePath, "utf-8")).toBe(sourceBefore);
+    expect(new Date(result.restorableUntil).getTime() - Date.now()).toBeGreaterThan(6 * DAY_MS);
+    expect((await readLineage())[0].status).toBe("reverted");
+  });
+
+  it("restores a deleted clone with its pins", async () => {
+    await sessionPinService.setPins(CLONE_ID, [1, 3]);
+    await cloneTrashService.deleteClone(CLONE_ID);
+    expect(await sessionPinService.getPins(CLONE_ID)).toEqual([]);
+
+    const result = await cloneTrashService.restoreClone(CLONE_ID);
+
+    expect(result).toEqual({ cloneId: CLONE_ID, path: clonePath });
+    expect(readFileSync(clonePath, "utf-8")).toBe('{"type":"user"}\n');
+    expect(await sessionPinService.getPins(CLONE_ID)).toEqual([1, 3]);
+    expect((await readLineage())[0].status).toBe("restored");
+  });
+
+  it("only deletes sessions recorded as clones", async () => {
+    await expect(cloneTrashService.deleteClone(SOURCE_ID)).rejects.toBeInstanceOf(CloneNotFoundError);
+    expect(existsSync(sourcePath)).toBe(true);
+  });
+
+  it("rejects deleting a clone twice", async () => {
+    await cloneTrashService.deleteClone(CLONE_ID);
+    await expect(cloneTrashService.deleteClone(CLONE_ID)).rejects.toThrow("file no longer exists");
+  });
+
+  it("refuses to restore over an existing file", async () => {
+    await cloneTrashService.deleteClone(CLONE_ID);
+    writeFileSync(clonePath, "{}\n");
+
+    await expect(cloneTrashService.restoreClone(CLONE_ID)).rejects.toBeInstanceOf(CloneConflictError);
+    expect(readFileSync(clonePath, "utf-8")).toBe("{}\n");
+  });
+
+  it("purges clones past the retention window", async () => {
+    const { trashPath } = await cloneTrashService.deleteClone(CLONE_ID);
+
+    expect(await cloneTrashService.purgeExpired(Date.now() + 6 * DAY_MS)).toEqual([]);
+    expect(await cloneTrashService.purgeExpired(Date.now() + 8 * DAY_MS)).toEqual([CLONE_ID]);
+    expect(existsSync(trashPath)).toBe(false);
+    await expect(cloneTrashService.restoreClone(CLONE_ID)).rejects.toBeInstanceOf(CloneNotFoundError);
+  });
+
+  it("honours CLONE_TRASH_RETENTION_DAYS", async () => {
+    process.env.CLONE_TRASH_RETENTION_DAYS = "1";
+    await cloneTrashService.deleteClone(CLONE_ID);
+
+    expect(await cloneTrashService.purgeExpired(Date.now() + 2 * DAY_MS)).toEqual([CLONE_ID]);
+  });
+});
+
+describe("markLineage", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lineage-"));
+    process.env.CLAUDE_DIR = dir;
+  });
+
+  afterEach(() => {
+    delete process.env.CLAUDE_DIR;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("replaces the status of the latest record for a clone", async () => {
+    for (const targetId of ["clone-a", "clone-b"]) {
+      await logLineage({
+        timestamp: "2025-01-01T10:00:00.000Z",
+        targetId,
+        targetPath: `/p/${targetId}.jsonl`,
+        sourceId: "source",
+        sourcePath: "/p/source.jsonl",
+        toolRemoval: 0,
+        thinkingRemoval: 0,
+      });
+    }
+
+    expect(await markLineage("clone-a", "reverted", "2025-01-02T00:00:00.000Z")).toBe(true);
+    expect(await markLineage("clone-a", "restored", "2025-01-03T00:00:00.000Z")).toBe(true);
+    expect(await markLineage("missing", "reverted", "2025-01-03T00:00:00.000Z")).toBe(false);
+
+    const log = readFileSync(join(dir, "clone-lineage.log"), "utf-8");
+    expect(log).toContain("  STATUS: restored 2025-01-03T00:00:00.000Z");
+    expect(log).not.toContain("STATUS: reverted");
+    expect((await readLineage()).map((r) => [r.targetId, r.status])).toEqual([
+      ["clone-a", "restored"],
+      ["clone-b", undefined],
+    ]);
+  });
+});
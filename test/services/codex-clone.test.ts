@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, cp, rm, readFile, readdir } from "fs/promises";
+import { CodexCloneService, entriesToRolloutLines } from "../../src/services/codex-clone.js";
+import { parseRollout, rolloutToEntries } from "../../src/sources/codex-source.js";
+import { applyRemovals } from "../../src/services/session-clone.js";
+
+const CODEX_FIXTURES = join(process.cwd(), "test/fixtures/codex-sessions");
+const TOOL_SESSION = "c0de0000-0000-4000-8000-000000000001";
+
+describe("CodexCloneService", () => {
+  let tempHome: string;
+
+  beforeAll(async () => {
+    tempHome = await mkdtemp(join(tmpdir(), "codex-clone-"));
+    await cp(CODEX_FIXTURES, tempHome, { recursive: true });
+    process.env.CODEX_HOME = tempHome;
+    process.env.CLAUDE_DIR = tempHome;
+  });
+
+  afterAll(async () => {
+    delete process.env.CODEX_HOME;
+    delete process.env.CLAUDE_DIR;
+    await rm(tempHome, { recursive: true, force: true });
+  });
+
+  describe("entriesToRolloutLines", () => {
+    const rollout = parseRollout([
+      JSON.stringify({ type: "session_meta", payload: { id: "s1", timestamp: "t", cwd: "/p" } }),
+      JSON.stringify({ type: "response_item", payload: { type: "message", role: "user", content: [{ type: "input_text", text: "hi" }] } }),
+      JSON.stringify({ type: "event_msg", payload: { type: "user_message", message: "hi" } }),
+      JSON.stringify({ type: "response_item", payload: { type: "reasoning", summary: [{ type: "summary_text", text: "think" }] } }),
+      JSON.stringify({ type: "response_item", payload: { type: "function_call", name: "shell", arguments: "{\"command\":[\"ls\"]}", call_id: "c1" } }),
+      JSON.stringify({ type: "response_item", payload: { type: "function_call_output", call_id: "c1", output: "a\nb\nc\nd" } }),
+      JSON.stringify({ type: "response_item", payload: { type: "web_search_call", status: "completed" } }),
+    ].join("\n"));
+
+    it("rewrites session id and drops UI events", () => {
+      const lines = entriesToRolloutLines(rollout, rolloutToEntries(rollout), "new-id");
+      expect(lines[0].payload.id).toBe("new-id");
+      expect(lines.some((l) => l.type === "event_msg")).toBe(false);
+    });
+
+    it("drops items whose entries were removed and keeps unknown items", () => {
+      const { entries } = applyRemovals(rolloutToEntries(rollout), {
+        toolRemoval: 100,
+        toolHandlingMode: "remove",
+        thinkingRemoval: 100,
+      });
+      const lines = entriesToRolloutLines(rollout, entries, "new-id");
+      const itemTypes = lines.filter((l) => l.type === "response_item").map((l) => l.payload.type);
+      expect(itemTypes).toEqual(["message", "web_search_call"]);
+    });
+
+    it("writes truncated tool output back onto the original item", () => {
+      const { entries } = applyRemovals(rolloutToEntries(rollout), {
+        toolRemoval: 100,
+        toolHandlingMode: "truncate",
+        thinkingRemoval: 0,
+      });
+      const lines = entriesToRolloutLines(rollout, entries, "new-id");
+      const output = lines.find((l) => l.payload.type === "function_call_output");
+      expect(output?.payload.output).toBe("a\nb...");
+    });
+  });
+
+  describe("clone", () => {
+    it("removes tool calls and reasoning without writing when writeToDisk is false", async () => {
+      const service = new CodexCloneService();
+      const result = await service.clone(TOOL_SESSION, {
+        toolRemoval: 100,
+        thinkingRemoval: 100,
+        writeToDisk: false,
+      });
+
+      expect(result.writtenToDisk).toBe(false);
+      expect(result.stats.originalTurnCount).toBe(2);
+      expect(result.stats.outputTurnCount).toBe(2);
+      expect(result.stats.toolCallsRemoved).toBe(2);
+      expect(result.stats.thinkingBlocksRemoved).toBe(1);
+    });
+
+    it("writes a resumable rollout into a dated folder", async () => {
+      const service = new CodexCloneService();
+      const result = await service.clone(TOOL_SESSION, { toolRemoval: 100 });
+
+      expect(result.writtenToDisk).toBe(true);
+      expect(result.outputPath).toContain(`-${result.sessionId}.jsonl`);
+
+      const written = parseRollout(await readFile(result.outputPath!, "utf-8"));
+      expect(written.meta.id).toBe(result.sessionId);
+      expect(written.meta.cwd).toBe("/Users/test/my-app");
+      expect(written.lines.some((l) => l.payload.type === "function_call")).toBe(false);
+
+      const files = await readdir(tempHome);
+      expect(files).toContain("clone-lineage.log");
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildConversationTree,
+  findActiveLeaf,
+  findBranches,
+  selectBranch,
+} from "../../src/services/conversation-tree.js";
+import { identifyTurns } from "../../src/services/session-clone.js";
+import { BranchNotFoundError } from "../../src/errors.js";
+import type { SessionEntry } from "../../src/types.js";
+
+const SESSION_ID = "5ab0a9e0-0000-4000-8000-000000000002";
+
+const user = (uuid: string, parentUuid: string | null, text: string, extra: Partial<SessionEntry> = {}): SessionEntry => ({
+  type: "user", uuid, parentUuid, sessionId: SESSION_ID, message: { role: "user", content: text }, ...extra,
+});
+const assistant = (uuid: string, parentUuid: string, text: string, extra: Partial<SessionEntry> = {}): SessionEntry => ({
+  type: "assistant", uuid, parentUuid, sessionId: SESSION_ID, message: { role: "assistant", content: [{ type: "text", text }] }, ...extra,
+});
+
+// Turn 2 was rewound: u3/a3 is the abandoned attempt, u3b/a3b/u4/a4 the active one
+const entries: SessionEntry[] = [
+  { type: "queue-operation", sessionId: SESSION_ID },
+  user("u1", null, "Set up the project"),
+  assistant("a1", "u1", "Done."),
+  user("u2", "a1", "Add a parser"),
+  assistant("a2", "u2", "Parser added."),
+  user("u3", "a2", "Use regexes for everything", { timestamp: "2025-01-01T10:00:00Z" }),
+  assistant("a3", "u3", "Rewritten with regexes.", { timestamp: "2025-01-01T10:01:00Z" }),
+  user("u3b", "a2", "Add tests for the parser"),
+  user("s1", null, "Subagent prompt", { isSidechain: true }),
+  assistant("a3b", "u3b", "Tests added."),
+  user("u4", "a3b", "Run them"),
+  assistant("a4", "u4", "All green.", { timestamp: "2025-01-01T11:00:00Z" }),
+];
+
+describe("conversation tree", () => {
+  it("finds the leaves of the main conversation", () => {
+    const tree = buildConversationTree(entries);
+
+    expect(tree.leaves).toEqual(["a3", "a4"]);
+    expect(tree.children.get("a2")).toEqual(["u3", "u3b"]);
+    expect(tree.nodes.has("s1")).toBe(false);
+    expect(findActiveLeaf(tree)).toBe("a4");
+  });
+
+  it("selects the path to a leaf and keeps entries outside the tree", () => {
+    const branch = selectBranch(entries, "a3", SESSION_ID);
+
+    expect(branch.map((e) => e.uuid)).toEqual([undefined, "u1", "a1", "u2", "a2", "u3", "a3", "s1"]);
+    expect(identifyTurns(branch)).toHaveLength(3);
+  });
+
+  it("cuts a branch at an inner message", () => {
+    expect(selectBranch(entries, "u4", SESSION_ID).map((e) => e.uuid)).toEqual(
+      [undefined, "u1", "a1", "u2", "a2", "u3b", "s1", "a3b", "u4"]
+    );
+  });
+
+  it("follows compaction boundaries through logicalParentUuid", () => {
+    const compacted: SessionEntry[] = [
+      ...entries,
+      { type: "system", subtype: "compact_boundary", uuid: "c1", parentUuid: null, logicalParentUuid: "a4", sessionId: SESSION_ID },
+      user("u5", "c1", "Ship it"),
+      assistant("a5", "u5", "Shipped."),
+    ];
+
+    const branch = selectBranch(compacted, "a5", SESSION_ID);
+    expect(branch.map((e) => e.uuid)).toContain("u1");
+    expect(branch.map((e) => e.uuid)).not.toContain("u3");
+    expect(findActiveLeaf(buildConversationTree(compacted))).toBe("a5");
+  });
+
+  it("throws BranchNotFoundError for an unknown or subagent leaf", () => {
+    expect(() => selectBranch(entries, "nope", SESSION_ID)).toThrow(BranchNotFoundError);
+    expect(() => selectBranch(entries, "s1", SESSION_ID)).toThrow(BranchNotFoundError);
+  });
+
+  it("summarizes branches with the turn they fork at", () => {
+    expect(findBranches(entries)).toEqual([
+      {
+        leafUuid: "a3",
+        active: false,
+        totalTurns: 3,
+        forkTurnIndex: 2,
+        lastUserMessage: "Use regexes for everything",
+        lastTimestamp: "2025-01-01T10:01:00Z",
+      },
+      {
+        leafUuid: "a4",
+        active: true,
+        totalTurns: 4,
+        forkTurnIndex: null,
+        lastUserMessage: "Run them",
+        lastTimestamp: "2025-01-01T11:00:00Z",
+      },
+    ]);
+  });
+
+  it("reports a single branch for a linear session", () => {
+    const linear = entries.slice(0, 5);
+    expect(findBranches(linear)).toHaveLength(1);
+    expect(findBranches(linear)[0]).toMatchObject({ leafUuid: "a2", active: true, totalTurns: 2 });
+  });
+});
@@ -244,6 +244,21 @@ describe("CopilotCloneService", () => {
       expect(result[0].response.length).toBe(1);
       expect(result[0].response[0].value).toBe("response text");
     });
+
+    it("leaves pinned turns untouched", () => {
+      const request = (id: string): CopilotRequest => ({
+        requestId: id,
+        message: { text: "test", parts: [] },
+        response: [{ kind: "toolInvocationSerialized", toolId: "tool1" }],
+        isCanceled: false,
+        timestamp: 0
+      });
+
+      const result = service.removeToolCalls([request("1"), request("2")], [1]);
+
+      expect(result[0].response.length).toBe(0);
+      expect(result[1].response.length).toBe(1);
+    });
   });
 
   // AC-27: Same compression logic applies - compress by percentage
@@ -284,6 +299,19 @@ describe("CopilotCloneService", () => {
 
       expect(result.length).toBe(0);
     });
+
+    it("keeps pinned turns among the oldest", () => {
+      const requests: CopilotRequest[] = [
+        { requestId: "1", message: { text: "first", parts: [] }, response: [], isCanceled: false, timestamp: 0 },
+        { requestId: "2", message: { text: "second", parts: [] }, response: [], isCanceled: false, timestamp: 1 },
+        { requestId: "3", message: { text: "third", parts: [] }, response: [], isCanceled: false, timestamp: 2 },
+        { requestId: "4", message: { text: "fourth", parts: [] }, response: [], isCanceled: false, timestamp: 3 }
+      ];
+
+      const result = service.compressByPercentage(requests, 50, [1]);
+
+      expect(result.map(r => r.message.text)).toEqual(["second", "third", "fourth"]);
+    });
   });
 
   // AC-26: Clone output is valid Copilot JSON format (requires new session ID)
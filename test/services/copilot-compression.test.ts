@@ -85,6 +85,18 @@ describe("Copilot Compression Service", () => {
       const mapping = mapCopilotTurnsToBands(requests, bands);
       expect(mapping[0].band).toBeNull();
     });
+
+    it("returns null bands for pinned turns", () => {
+      const requests = [
+        createTestRequest("msg1", "resp1"),
+        createTestRequest("msg2", "resp2"),
+      ];
+      const bands: CompressionBand[] = [{ start: 0, end: 100, level: "compress" }];
+
+      const mapping = mapCopilotTurnsToBands(requests, bands, [0]);
+      expect(mapping[0].band).toBeNull();
+      expect(mapping[1].band?.level).toBe("compress");
+    });
   });
 
   describe("extractCopilotTextContent", () => {
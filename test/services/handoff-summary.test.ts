@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  buildHandoffTranscript,
+  formatHandoffSummary,
+  insertHandoffEntry,
+  summarizeTrimmedTurns,
+} from "../../src/services/handoff-summary.js";
+import { identifyTurns, repairParentUuidChain, selectTurnRange } from "../../src/services/session-clone.js";
+import type { SessionEntry } from "../../src/types.js";
+
+const summarizeHandoff = vi.fn();
+
+vi.mock("../../src/providers/index.js", () => ({
+  getProvider: () => ({ summarizeHandoff }),
+}));
+
+const SESSION_ID = "5ab0a9e0-0000-4000-8000-000000000004";
+
+const entries: SessionEntry[] = [
+  { type: "queue-operation", sessionId: SESSION_ID },
+  { type: "user", uuid: "u1", parentUuid: null, sessionId: SESSION_ID, cwd: "/repo", message: { role: "user", content: "Add a parser" } },
+  {
+    type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: SESSION_ID,
+    message: {
+      role: "assistant",
+      content: [
+        { type: "thinking", thinking: "Let me think" },
+        { type: "text", text: "Running the tests first." },
+        { type: "tool_use", id: "t1", name: "Bash", input: { command: "npm test", description: "x".repeat(400) } },
+      ],
+    },
+  },
+  {
+    type: "user", uuid: "r1", parentUuid: "a1", sessionId: SESSION_ID,
+    message: {
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: "t1", is_error: true, content: "line 1\nline 2\nline 3\nError: parser missing\nline 5" }],
+    },
+  },
+  { type: "user", uuid: "u2", parentUuid: "r1", sessionId: SESSION_ID, isMeta: true, message: { role: "user", content: "<command-name>/clear</command-name>" } },
+  { type: "user", uuid: "u3", parentUuid: "u2", sessionId: SESSION_ID, cwd: "/repo", timestamp: "2025-01-01T10:00:00Z", message: { role: "user", content: "Now add tests" } },
+  { type: "assistant", uuid: "a3", parentUuid: "u3", sessionId: SESSION_ID, message: { role: "assistant", content: [{ type: "text", text: "Tests added." }] } },
+];
+
+describe("buildHandoffTranscript", () => {
+  it("renders turns with short tool calls and truncated results", () => {
+    const transcript = buildHandoffTranscript(entries.slice(0, 5));
+
+    expect(transcript).toContain("## Turn 1\nUser: Add a parser\nAssistant: Running the tests first.");
+    expect(transcript).toContain('Tool call Bash: {"command":"npm test"');
+    expect(transcript).toContain("Tool error: line 1\nline 2");
+    expect(transcript).toContain("Error: parser missing");
+    expect(transcript).not.toContain("line 5");
+    expect(transcript).not.toContain("Let me think");
+    expect(transcript).not.toContain("/clear");
+    expect(transcript).not.toContain("x".repeat(400));
+  });
+});
+
+describe("formatHandoffSummary", () => {
+  it("writes the requested sections in order", () => {
+    const text = formatHandoffSummary({ goals: ["Ship the parser"], openTodos: [] }, ["goals", "openTodos"], 3);
+
+    expect(text).toContain("Its first 3 turns were replaced by this handoff summary");
+    expect(text).toContain("## Goals\n- Ship the parser\n\n## Open TODOs\n- None");
+    expect(text).not.toContain("Decisions");
+  });
+});
+
+describe("summarizeTrimmedTurns", () => {
+  beforeEach(() => {
+    summarizeHandoff.mockReset();
+    summarizeHandoff.mockResolvedValue({ goals: ["Ship the parser"], decisions: ["Hand-written parser"] });
+  });
+
+  it("summarizes the turns before fromTurn into a user entry", async () => {
+    const { entry, stats } = await summarizeTrimmedTurns(entries, 1, { sections: ["goals", "decisions"] });
+
+    expect(summarizeHandoff.mock.calls[0][0]).toContain("Add a parser");
+    expect(summarizeHandoff.mock.calls[0][0]).not.toContain("Now add tests");
+    expect(summarizeHandoff.mock.calls[0][1]).toEqual({ sections: ["goals", "decisions"] });
+    expect(entry).toMatchObject({
+      type: "user",
+      parentUuid: null,
+      sessionId: SESSION_ID,
+      isCompactSummary: true,
+      cwd: "/repo",
+      timestamp: "2025-01-01T10:00:00Z",
+    });
+    expect(entry!.message!.content).toContain("- Hand-written parser");
+    expect(stats.turnsSummarized).toBe(1);
+    expect(stats.transcriptTokens).toBeGreaterThan(0);
+    expect(stats.summaryTokens).toBeGreaterThan(0);
+  });
+
+  it("only measures the transcript in a dry run", async () => {
+    const { entry, stats } = await summarizeTrimmedTurns(entries, 1, { sections: ["goals"] }, true);
+
+    expect(entry).toBeUndefined();
+    expect(stats.summaryTokens).toBeUndefined();
+    expect(summarizeHandoff).not.toHaveBeenCalled();
+  });
+
+  it("chains the first kept turn to the inserted entry", async () => {
+    const { entry } = await summarizeTrimmedTurns(entries, 1, { sections: ["goals"] });
+    const clone = repairParentUuidChain(insertHandoffEntry(selectTurnRange(entries, 1, 1), entry!));
+
+    expect(clone.map((e) => e.uuid)).toEqual([undefined, entry!.uuid, "u3", "a3"]);
+    expect(clone[2].parentUuid).toBe(entry!.uuid);
+    expect(identifyTurns(clone)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { deduplicateReads } from "../../src/services/read-dedup.js";
+import type { SessionEntry } from "../../src/types.js";
+
+const prompt = (uuid: string, text: string): SessionEntry => ({
+  type: "user", uuid, message: { role: "user", content: text },
+});
+const read = (uuid: string, id: string, input: Record<string, unknown>): SessionEntry => ({
+  type: "assistant", uuid, message: { role: "assistant", content: [{ type: "tool_use", id, name: "Read", input }] },
+});
+const result = (uuid: string, id: string, content: unknown, extra: Record<string, unknown> = {}): SessionEntry => ({
+  type: "user", uuid, message: { role: "user", content: [{ type: "tool_result", tool_use_id: id, content, ...extra }] },
+});
+const contentOf = (entries: SessionEntry[], uuid: string) =>
+  (entries.find((e) => e.uuid === uuid)!.message!.content as any[])[0].content;
+
+const v1 = "     1→export const a = 1;\n".repeat(50);
+const v2 = "     1→export const a = 2;\n".repeat(50);
+
+describe("deduplicateReads", () => {
+  const entries: SessionEntry[] = [
+    prompt("u1", "Look at a.ts"),
+    read("a1", "r1", { file_path: "/src/a.ts" }),
+    result("t1", "r1", v1),
+    prompt("u2", "Look at the top of a.ts and at b.ts"),
+    read("a2", "r2", { file_path: "/src/a.ts", offset: 1, limit: 10 }),
+    result("t2", "r2", [{ type: "text", text: v1 }]),
+    read("a3", "r3", { file_path: "/src/b.ts" }),
+    result("t3", "r3", "export const b = 1;"),
+    prompt("u3", "Read a.ts again"),
+    read("a4", "r4", { file_path: "/src/a.ts" }),
+    result("t4", "r4", v2),
+  ];
+
+  it("replaces earlier reads of a file with a stub naming the latest read's turn", () => {
+    const { entries: deduplicated, stats } = deduplicateReads(entries);
+
+    expect(contentOf(deduplicated, "t1")).toBe("[Superseded by a later read of /src/a.ts at turn 3]");
+    expect(contentOf(deduplicated, "t2")).toBe("[Superseded by a later read of /src/a.ts at turn 3]");
+    expect(contentOf(deduplicated, "t3")).toBe("export const b = 1;");
+    expect(contentOf(deduplicated, "t4")).toBe(v2);
+    expect(stats).toMatchObject({ resultsReplaced: 2, filesAffected: 1 });
+    expect(stats.tokensRemoved).toBeGreaterThan(0);
+  });
+
+  it("keeps the results of pinned turns", () => {
+    const { entries: deduplicated, stats } = deduplicateReads(entries, [0]);
+
+    expect(contentOf(deduplicated, "t1")).toBe(v1);
+    expect(contentOf(deduplicated, "t2")).toBe("[Superseded by a later read of /src/a.ts at turn 3]");
+    expect(stats.resultsReplaced).toBe(1);
+  });
+
+  it("does not let partial or failed reads supersede earlier ones", () => {
+    const { stats } = deduplicateReads([
+      ...entries.slice(0, 6),
+      prompt("u3", "Read a.ts again"),
+      read("a4", "r4", { file_path: "/src/a.ts" }),
+      result("t4", "r4", "File does not exist.", { is_error: true }),
+    ]);
+
+    expect(stats.resultsReplaced).toBe(0);
+  });
+
+  it("returns the entries unchanged when nothing is read twice", () => {
+    const unique = entries.slice(0, 3);
+    expect(deduplicateReads(unique).entries).toBe(unique);
+  });
+});
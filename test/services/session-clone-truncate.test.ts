@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { truncateToolContent, truncateObjectValues } from "../../src/services/session-clone.js";
+import {
+  DEFAULT_TRUNCATION_STRATEGY,
+  applyRemovals,
+  truncateToolContent,
+  truncateToolResultContent,
+  truncateObjectValues,
+} from "../../src/services/session-clone.js";
+import type { SessionEntry, TruncationStrategy } from "../../src/types.js";
 
 describe("truncateToolContent", () => {
   it("returns original content when under limits", () => {
@@ -155,3 +162,121 @@ describe("truncateObjectValues", () => {
     expect((result as any).description).toBe("Read file");
   });
 });
+
+describe("truncation strategies", () => {
+  const testOutput = [
+    "> vitest run",
+    "",
+    " RUN  v1.6.0",
+    ...Array.from({ length: 40 }, (_, i) => ` ✓ test/case-${i}.test.ts (3)`),
+    " FAIL  test/parser.test.ts > parses nested blocks",
+    "AssertionError: expected 2 to be 3",
+    "    at /repo/test/parser.test.ts:42:17",
+    ...Array.from({ length: 10 }, (_, i) => ` ✓ test/other-${i}.test.ts (1)`),
+    " Test Files  1 failed | 50 passed (51)",
+  ].join("\n");
+
+  const headTail: TruncationStrategy = {
+    ...DEFAULT_TRUNCATION_STRATEGY,
+    headLines: 1,
+    tailLines: 1,
+    maxChars: 500,
+    trailer: "\n[... {count} lines elided ...]",
+  };
+
+  it("keeps error lines and stack frames by default", () => {
+    expect(truncateToolContent(testOutput)).toBe(
+      "> vitest run...\n" +
+      " FAIL  test/parser.test.ts > parses nested blocks\n" +
+      "AssertionError: expected 2 to be 3\n" +
+      "    at /repo/test/parser.test.ts:42:17..."
+    );
+  });
+
+  it("keeps head and tail lines and counts the elided lines", () => {
+    const result = truncateToolContent(testOutput, { ...headTail, keepPatterns: [] });
+    expect(result).toBe("> vitest run\n[... 55 lines elided ...]\n Test Files  1 failed | 50 passed (51)");
+  });
+
+  it("marks each gap around kept lines", () => {
+    const result = truncateToolContent(testOutput, headTail);
+    expect(result.split("\n")).toEqual([
+      "> vitest run",
+      "[... 42 lines elided ...]",
+      " FAIL  test/parser.test.ts > parses nested blocks",
+      "AssertionError: expected 2 to be 3",
+      "    at /repo/test/parser.test.ts:42:17",
+      "[... 10 lines elided ...]",
+      " Test Files  1 failed | 50 passed (51)",
+    ]);
+  });
+
+  it("keeps Python tracebacks", () => {
+    const traceback = [
+      "running migrations",
+      "applying 0001",
+      "applying 0002",
+      "Traceback (most recent call last):",
+      '  File "manage.py", line 22, in <module>',
+      "    main()",
+      "KeyError: 'DATABASE_URL'",
+    ].join("\n");
+    expect(truncateToolContent(traceback)).toBe(
+      "running migrations\napplying 0001...\n" +
+      "Traceback (most recent call last):\n" +
+      '  File "manage.py", line 22, in <module>...\n' +
+      "KeyError: 'DATABASE_URL'"
+    );
+  });
+
+  it("cuts kept lines to maxChars", () => {
+    const result = truncateToolContent(`ok\nok\nok\nError: ${"x".repeat(300)}`);
+    expect(result).toBe(`ok\nok...\nError: ${"x".repeat(113)}...`);
+  });
+
+  it("truncates the text blocks of array-shaped results", () => {
+    const image = { type: "image", source: { type: "base64", media_type: "image/png", data: "AAAA" } };
+    const { result, wasTruncated } = truncateToolResultContent([
+      { type: "text", text: "a\nb\nc\nd" },
+      image,
+      { type: "text", text: "short" },
+    ]);
+
+    expect(wasTruncated).toBe(true);
+    expect(result).toEqual([{ type: "text", text: "a\nb..." }, image, { type: "text", text: "short" }]);
+  });
+
+  it("leaves array-shaped results alone when nothing is cut", () => {
+    const content = [{ type: "text", text: "short" }];
+    expect(truncateToolResultContent(content)).toEqual({ result: content, wasTruncated: false });
+  });
+
+  it("applies the strategy from removal options to tool results", () => {
+    const entries: SessionEntry[] = [
+      { type: "user", uuid: "u1", message: { role: "user", content: "Run the tests" } },
+      {
+        type: "assistant",
+        uuid: "a1",
+        message: { role: "assistant", content: [{ type: "tool_use", id: "t1", name: "Bash", input: { command: "npm test" } }] },
+      },
+      {
+        type: "user",
+        uuid: "r1",
+        message: { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: [{ type: "text", text: testOutput }] }] },
+      },
+      { type: "user", uuid: "u2", message: { role: "user", content: "Fix it" } },
+    ];
+
+    const result = applyRemovals(entries, {
+      toolRemoval: 50,
+      toolHandlingMode: "truncate",
+      thinkingRemoval: 0,
+      truncation: { ...headTail, keepPatterns: [] },
+    });
+
+    expect(result.toolCallsTruncated).toBe(1);
+    expect((result.entries[2].message!.content as any[])[0].content).toEqual([
+      { type: "text", text: "> vitest run\n[... 55 lines elided ...]\n Test Files  1 failed | 50 passed (51)" },
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  claudeToCopilotSession,
+  copilotToClaudeEntries,
+  sessionConvertService,
+} from "../../src/services/session-convert.js";
+import { copilotCloneService } from "../../src/services/copilot-clone.js";
+import { ClaudeToCopilotRequestSchema, CopilotToClaudeRequestSchema } from "../../src/schemas/convert.js";
+import { identifyTurns } from "../../src/services/session-clone.js";
+import type { ContentBlock, SessionEntry } from "../../src/types.js";
+import type { CopilotSession } from "../../src/sources/copilot-types.js";
+
+const FIXTURES = join(process.cwd(), "test/fixtures/copilot-sessions/workspaceStorage");
+const WORKSPACE = "xyz987uvw654rst321";
+const COPILOT_SESSION_ID = "66666666-6666-6666-6666-666666666666";
+const CLAUDE_SESSION_ID = "5ab0a9e0-0000-4000-8000-000000000008";
+
+const copilotFixture = (): CopilotSession =>
+  JSON.parse(readFileSync(join(FIXTURES, WORKSPACE, "chatSessions", `${COPILOT_SESSION_ID}.json`), "utf-8")) as CopilotSession;
+
+const claudeEntries: SessionEntry[] = [
+  { type: "user", uuid: "u1", parentUuid: null, sessionId: CLAUDE_SESSION_ID, timestamp: "2025-01-01T10:00:00.000Z", message: { role: "user", content: "Fix the failing test" } },
+  {
+    type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: CLAUDE_SESSION_ID,
+    message: {
+      role: "assistant",
+      content: [
+        { type: "thinking", thinking: "Let me look" },
+        { type: "text", text: "Running the tests." },
+        { type: "tool_use", id: "toolu_1", name: "Bash", input: { command: "npm test" } },
+      ],
+    },
+  },
+  {
+    type: "user", uuid: "r1", parentUuid: "a1", sessionId: CLAUDE_SESSION_ID,
+    message: { role: "user", content: [{ type: "tool_result", tool_use_id: "toolu_1", content: [{ type: "text", text: "1 failed" }] }] },
+  },
+  { type: "assistant", uuid: "a2", parentUuid: "r1", sessionId: CLAUDE_SESSION_ID, message: { role: "assistant", content: [{ type: "text", text: "Fixed it." }] } },
+];
+
+describe("copilotToClaudeEntries", () => {
+  it("maps prompts, tool call rounds, results and markdown", () => {
+    const entries = copilotToClaudeEntries(copilotFixture(), "new-session", "/Users/test/projectbeta");
+
+    expect(entries.slice(0, 4).map((e) => e.type)).toEqual(["user", "assistant", "user", "assistant"]);
+    expect(entries[0].message!.content).toBe("Run npm test to check if all tests pass");
+    expect(entries[0].timestamp).toBe(new Date(1733800000000).toISOString());
+    expect(entries[1].timestamp).toBe(new Date(1733800005000).toISOString());
+    expect(entries[1].message!.content).toEqual([
+      { type: "text", text: "I'll run the test suite for you." },
+      { type: "tool_use", id: "toolu_001", name: "run_in_terminal", input: { command: "npm test" } },
+    ]);
+    const result = (entries[2].message!.content as ContentBlock[])[0];
+    expect(result).toMatchObject({ type: "tool_result", tool_use_id: "toolu_001" });
+    expect(result.content).toContain("42 passed");
+    expect((entries[3].message!.content as ContentBlock[])[0].text).toContain("All tests passed successfully!");
+  });
+
+  it("chains entries into one conversation under the given session and cwd", () => {
+    const entries = copilotToClaudeEntries(copilotFixture(), "new-session", "/Users/test/projectbeta");
+
+    expect(entries[0].parentUuid).toBeNull();
+    entries.slice(1).forEach((entry, i) => expect(entry.parentUuid).toBe(entries[i].uuid));
+    expect(entries.every((e) => e.sessionId === "new-session" && e.cwd === "/Users/test/projectbeta")).toBe(true);
+    expect(identifyTurns(entries)).toHaveLength(2);
+  });
+});
+
+describe("claudeToCopilotSession", () => {
+  it("groups a turn into tool call rounds with their results", () => {
+    const session = claudeToCopilotSession(claudeEntries, "copilot-id", "From Claude Code: Fix the failing test");
+
+    expect(session).toMatchObject({ version: 3, sessionId: "copilot-id", customTitle: "From Claude Code: Fix the failing test" });
+    expect(session.requests).toHaveLength(1);
+    const [request] = session.requests;
+    expect(request.message.text).toBe("Fix the failing test");
+    expect(request.timestamp).toBe(Date.parse("2025-01-01T10:00:00.000Z"));
+    expect(request.result!.metadata!.toolCallRounds).toEqual([
+      { response: "Running the tests.", toolCalls: [{ name: "Bash", arguments: '{"command":"npm test"}', id: "toolu_1" }], toolInputRetry: 0, id: "round_1" },
+      { response: "Fixed it.", toolCalls: [], toolInputRetry: 0, id: "round_2" },
+    ]);
+    expect(request.result!.metadata!.toolCallResults).toEqual({ toolu_1: { content: [{ value: "1 failed" }] } });
+    expect(request.response.map((item) => item.kind ?? item.value)).toEqual(["Running the tests.", "toolInvocationSerialized", "Fixed it."]);
+    expect(JSON.stringify(session)).not.toContain("Let me look");
+  });
+
+  it("survives a round trip back to Claude", () => {
+    const entries = copilotToClaudeEntries(claudeToCopilotSession(claudeEntries, "copilot-id", "t"), "back", "/repo");
+
+    expect(entries.map((e) => e.message!.content)).toEqual([
+      "Fix the failing test",
+      [
+        { type: "text", text: "Running the tests." },
+        { type: "tool_use", id: "toolu_1", name: "Bash", input: { command: "npm test" } },
+      ],
+      [{ type: "tool_result", tool_use_id: "toolu_1", content: "1 failed" }],
+      [{ type: "text", text: "Fixed it." }],
+    ]);
+  });
+});
+
+describe("convert request schemas", () => {
+  it("reject session IDs and workspace hashes that could leave their folders", () => {
+    expect(ClaudeToCopilotRequestSchema.safeParse({ sessionId: "../../etc/passwd", workspaceHash: WORKSPACE }).success).toBe(false);
+    for (const workspaceHash of ["../other", "a/b", "a\\b", "stable:.."]) {
+      expect(CopilotToClaudeRequestSchema.safeParse({ sessionId: COPILOT_SESSION_ID, workspaceHash }).success).toBe(false);
+    }
+    expect(CopilotToClaudeRequestSchema.safeParse({ sessionId: COPILOT_SESSION_ID, workspaceHash: `insiders:${WORKSPACE}` }).success).toBe(true);
+  });
+});
+
+describe("SessionConvertService", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "convert-"));
+    process.env.CLAUDE_DIR = dir;
+    process.env.VSCODE_STORAGE_PATH = FIXTURES;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.CLAUDE_DIR;
+    delete process.env.VSCODE_STORAGE_PATH;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("writes a Copilot session as a Claude session in the workspace's project folder", async () => {
+    const result = await sessionConvertService.copilotToClaude({ sessionId: COPILOT_SESSION_ID, workspaceHash: WORKSPACE });
+
+    expect(result).toMatchObject({
+      sourceSessionId: COPILOT_SESSION_ID,
+      projectPath: "/Users/test/projectbeta",
+      outputPath: join(dir, "projects", "-Users-test-projectbeta", `${result.sessionId}.jsonl`),
+      stats: { turns: 2, toolCalls: 2 },
+      command: `cd /Users/test/projectbeta && claude --resume ${result.sessionId}`,
+    });
+    const lines = readFileSync(result.outputPath, "utf-8").trim().split("\n");
+    expect(JSON.parse(lines[0])).toMatchObject({ type: "user", sessionId: result.sessionId });
+  });
+
+  it("writes to the folder Claude Code resumes from and quotes the path in the command", async () => {
+    const result = await sessionConvertService.copilotToClaude({
+      sessionId: COPILOT_SESSION_ID,
+      workspaceHash: WORKSPACE,
+      projectPath: "/Users/test/.worktrees/my_project v2",
+    });
+
+    expect(result.outputPath).toBe(
+      join(dir, "projects", "-Users-test--worktrees-my-project-v2", `${result.sessionId}.jsonl`)
+    );
+    expect(readFileSync(result.outputPath, "utf-8")).toContain(result.sessionId);
+    expect(result.command).toBe(`cd '/Users/test/.worktrees/my_project v2' && claude --resume ${result.sessionId}`);
+  });
+
+  it("writes a Claude session through the Copilot session writer", async () => {
+    const projectDir = join(dir, "projects", "-repo");
+    mkdirSync(projectDir, { recursive: true });
+    writeFileSync(join(projectDir, `${CLAUDE_SESSION_ID}.jsonl`), claudeEntries.map((e) => JSON.stringify(e)).join("\n") + "\n");
+    const writeSession = vi
+      .spyOn(copilotCloneService, "writeSession")
+      .mockResolvedValue({ sessionPath: "/ws/chatSessions/x.json", backupPath: "/ws/state.vscdb.bak" });
+
+    const result = await sessionConvertService.claudeToCopilot({ sessionId: CLAUDE_SESSION_ID, workspaceHash: WORKSPACE });
+
+    const [session, workspaceHash] = writeSession.mock.calls[0];
+    expect(workspaceHash).toBe(WORKSPACE);
+    expect(session.customTitle).toBe("From Claude Code: Fix the failing test");
+    expect(result).toEqual({
+      sessionId: session.sessionId,
+      sourceSessionId: CLAUDE_SESSION_ID,
+      workspaceHash: WORKSPACE,
+      sessionPath: "/ws/chatSessions/x.json",
+      backupPath: "/ws/state.vscdb.bak",
+      stats: { turns: 1, toolCalls: 1 },
+    });
+  });
+});
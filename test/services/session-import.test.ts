@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, mkdir, rm, writeFile, readFile } from "fs/promises";
+import { sessionImportService } from "../../src/services/session-import.js";
+import { findSessionFile } from "../../src/services/session-clone.js";
+import { getSessionTurns } from "../../src/services/session-turns.js";
+import { ClaudeSessionSource } from "../../src/sources/claude-source.js";
+import { CopilotSessionSource } from "../../src/sources/copilot-source.js";
+import { ImportError } from "../../src/errors.js";
+import { createTarGz, createZip } from "../helpers/archive-helpers.js";
+
+const CLAUDE_ID = "1f000000-0000-4000-8000-000000000001";
+const COPILOT_ID = "1f000000-0000-4000-8000-000000000002";
+
+const claudeSession = [
+  { type: "user", uuid: "u1", parentUuid: null, sessionId: CLAUDE_ID, cwd: "/Users/teammate/api", message: { role: "user", content: "Why did the deploy fail?" } },
+  { type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: CLAUDE_ID, message: { role: "assistant", content: [{ type: "text", text: "The migration timed out." }] } },
+].map((e) => JSON.stringify(e)).join("\n") + "\n";
+
+const copilotSession = JSON.stringify({
+  version: 3,
+  sessionId: COPILOT_ID,
+  creationDate: 1767225600000,
+  lastMessageDate: 1767225600000,
+  isImported: false,
+  requests: [],
+  requesterUsername: "teammate",
+  responderUsername: "GitHub Copilot",
+});
+
+describe("SessionImportService", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "session-import-"));
+    await mkdir(join(root, "claude", "projects"), { recursive: true });
+    process.env.CLAUDE_DIR = join(root, "claude");
+    process.env.IMPORT_DIR = join(root, "imports");
+    process.env.VSCODE_STORAGE_PATH = join(root, "workspaceStorage");
+  });
+
+  afterEach(async () => {
+    delete process.env.CLAUDE_DIR;
+    delete process.env.IMPORT_DIR;
+    delete process.env.VSCODE_STORAGE_PATH;
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("imports a Claude session where the turns and clone endpoints find it", async () => {
+    const { imported } = await sessionImportService.import(`${CLAUDE_ID}.jsonl`, Buffer.from(claudeSession));
+
+    expect(imported).toEqual([{
+      source: "claude",
+      sessionId: CLAUDE_ID,
+      folder: "imports:-Users-teammate-api",
+      projectPath: "/Users/teammate/api",
+      file: `${CLAUDE_ID}.jsonl`,
+      renamed: false,
+      url: `/session-detail?id=${CLAUDE_ID}&source=claude`,
+    }]);
+    expect(await findSessionFile(CLAUDE_ID)).toBe(
+      join(root, "imports", "claude", "projects", "-Users-teammate-api", `${CLAUDE_ID}.jsonl`)
+    );
+    expect((await getSessionTurns(CLAUDE_ID)).totalTurns).toBe(1);
+
+    const sessions = await new ClaudeSessionSource().listSessions("imports:-Users-teammate-api");
+    expect(sessions.map((s) => [s.sessionId, s.root])).toEqual([[CLAUDE_ID, "imports"]]);
+  });
+
+  it("gives a session a new ID when its own is taken", async () => {
+    const projectDir = join(root, "claude", "projects", "-Users-me-api");
+    await mkdir(projectDir, { recursive: true });
+    await writeFile(join(projectDir, `${CLAUDE_ID}.jsonl`), claudeSession);
+
+    const { imported: [session] } = await sessionImportService.import("post-mortem.jsonl", Buffer.from(claudeSession));
+    expect(session.renamed).toBe(true);
+    expect(session.sessionId).not.toBe(CLAUDE_ID);
+
+    const content = await readFile(await findSessionFile(session.sessionId), "utf-8");
+    expect(content).toContain(`"sessionId":"${session.sessionId}"`);
+  });
+
+  it("imports Copilot sessions into the imports install", async () => {
+    const { imported: [session] } = await sessionImportService.import("chat.json", Buffer.from(copilotSession));
+    expect(session).toMatchObject({ source: "copilot", sessionId: COPILOT_ID, folder: "imports:imported" });
+    expect(session.url).toBe(`/session-detail?id=${COPILOT_ID}&source=copilot&workspace=imports%3Aimported`);
+
+    const loaded = await new CopilotSessionSource().loadSession(COPILOT_ID, session.folder);
+    expect(loaded.isImported).toBe(true);
+  });
+
+  it("imports every session in a .tar.gz or .zip and reports the rest", async () => {
+    const files = {
+      [`export/${CLAUDE_ID}.jsonl`]: claudeSession,
+      [`export/${COPILOT_ID}.json`]: copilotSession,
+      "export/notes.txt": "see slack thread",
+      "__MACOSX/export/._chat.json": "junk",
+    };
+
+    const fromTar = await sessionImportService.import("export.tar.gz", createTarGz(files));
+    expect(fromTar.imported.map((s) => s.sessionId)).toEqual([CLAUDE_ID, COPILOT_ID]);
+    expect(fromTar.skipped).toEqual([
+      { file: "export/notes.txt", reason: "Unsupported file type, expected .jsonl, .json, .zip or .tar.gz" },
+    ]);
+
+    const fromZip = await sessionImportService.import("export.zip", createZip(files));
+    expect(fromZip.imported.every((s) => s.renamed)).toBe(true);
+  });
+
+  it("rejects uploads without sessions", async () => {
+    await expect(sessionImportService.import("bad.json", Buffer.from('{"hello":1}'))).rejects.toThrow(ImportError);
+    await expect(sessionImportService.import("empty.zip", createZip({ "a.txt": "x" }))).rejects.toThrow(
+      "No sessions found in empty.zip"
+    );
+  });
+});
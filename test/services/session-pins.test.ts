@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { sessionPinService } from "../../src/services/session-pins.js";
+import { getSessionPins, getSessionTurns, setSessionPins } from "../../src/services/session-turns.js";
+import { cloneSessionV2 } from "../../src/services/session-clone.js";
+import type { CloneRequestV2 } from "../../src/schemas/clone-v2.js";
+
+const SESSION_ID = "5ab0a9e0-0000-4000-8000-000000000003";
+
+describe("SessionPinService", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "pins-"));
+    process.env.PINS_PATH = join(dir, "nested", "session-pins.json");
+  });
+
+  afterEach(() => {
+    delete process.env.PINS_PATH;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns no pins before any are saved", async () => {
+    expect(await sessionPinService.getPins(SESSION_ID)).toEqual([]);
+  });
+
+  it("saves pins sorted and without duplicates", async () => {
+    expect(await sessionPinService.setPins(SESSION_ID, [7, 2, 7])).toEqual({ sessionId: SESSION_ID, pinnedTurns: [2, 7] });
+    expect(await sessionPinService.getPins(SESSION_ID)).toEqual([2, 7]);
+    expect(await sessionPinService.getPins("other-session")).toEqual([]);
+  });
+
+  it("drops the session when its pins are cleared", async () => {
+    await sessionPinService.setPins(SESSION_ID, [1]);
+    await sessionPinService.setPins("other-session", [0]);
+    await sessionPinService.setPins(SESSION_ID, []);
+
+    expect(JSON.parse(readFileSync(process.env.PINS_PATH!, "utf-8"))).toEqual({ "other-session": [0] });
+  });
+
+  it("reads a corrupted pins file as no pins and replaces it on the next save", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await sessionPinService.setPins(SESSION_ID, [1]);
+    writeFileSync(process.env.PINS_PATH!, '{"5ab0a9e0-');
+
+    expect(await sessionPinService.getPins(SESSION_ID)).toEqual([]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("unreadable pins file"));
+
+    await sessionPinService.setPins(SESSION_ID, [4]);
+    expect(JSON.parse(readFileSync(process.env.PINS_PATH!, "utf-8"))).toEqual({ [SESSION_ID]: [4] });
+    warn.mockRestore();
+  });
+
+  it("keeps every update when sessions are pinned at the same time", async () => {
+    await Promise.all([
+      sessionPinService.setPins(SESSION_ID, [1]),
+      sessionPinService.setPins("other-session", [2]),
+      sessionPinService.setPins("third-session", [3]),
+    ]);
+
+    expect(JSON.parse(readFileSync(process.env.PINS_PATH!, "utf-8"))).toEqual({
+      [SESSION_ID]: [1],
+      "other-session": [2],
+      "third-session": [3],
+    });
+    expect(readdirSync(join(dir, "nested"))).toEqual(["session-pins.json"]);
+  });
+});
+
+describe("branch pins", () => {
+  const BRANCHED_ID = "5ab0a9e0-0000-4000-8000-000000000009";
+  let dir: string;
+
+  // Branch A was abandoned by a rewind and comes first in the file, so
+  // branch B's second turn is turn 2 of the whole file
+  const toolTurn = (prefix: string, prompt: string) => [
+    { type: "user", uuid: `${prefix}-u`, parentUuid: "a1", sessionId: BRANCHED_ID, message: { role: "user", content: prompt } },
+    { type: "assistant", uuid: `${prefix}-a`, parentUuid: `${prefix}-u`, sessionId: BRANCHED_ID, message: { role: "assistant", content: [{ type: "tool_use", id: `tool-${prefix}`, name: "Bash", input: { command: "ls" } }] } },
+    { type: "user", uuid: `${prefix}-r`, parentUuid: `${prefix}-a`, sessionId: BRANCHED_ID, message: { role: "user", content: [{ type: "tool_result", tool_use_id: `tool-${prefix}`, content: "ok" }] } },
+  ];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "branch-pins-"));
+    process.env.CLAUDE_DIR = dir;
+    process.env.PINS_PATH = join(dir, "session-pins.json");
+    const projectDir = join(dir, "projects", "-repo");
+    mkdirSync(projectDir, { recursive: true });
+    const entries = [
+      { type: "user", uuid: "u1", parentUuid: null, sessionId: BRANCHED_ID, message: { role: "user", content: "Start" } },
+      { type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: BRANCHED_ID, message: { role: "assistant", content: [{ type: "text", text: "Started." }] } },
+      ...toolTurn("old", "Try approach A"),
+      ...toolTurn("new", "Try approach B"),
+    ];
+    writeFileSync(join(projectDir, `${BRANCHED_ID}.jsonl`), entries.map((e) => JSON.stringify(e)).join("\n") + "\n");
+  });
+
+  afterEach(() => {
+    delete process.env.CLAUDE_DIR;
+    delete process.env.PINS_PATH;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("numbers pins like the turns of the branch shown", async () => {
+    const { turns } = await getSessionTurns(BRANCHED_ID, "new-r");
+    expect(turns[1].content.userPrompt).toBe("Try approach B");
+
+    expect(await setSessionPins(BRANCHED_ID, [1], "new-r")).toEqual({ sessionId: BRANCHED_ID, pinnedTurns: [1] });
+    expect(await sessionPinService.getPins(BRANCHED_ID)).toEqual([2]);
+    expect(await getSessionPins(BRANCHED_ID, "new-r")).toEqual({ sessionId: BRANCHED_ID, pinnedTurns: [1] });
+    expect(await getSessionPins(BRANCHED_ID, "old-r")).toEqual({ sessionId: BRANCHED_ID, pinnedTurns: [] });
+  });
+
+  it("keeps pins of other branches when a branch's pins are replaced", async () => {
+    await setSessionPins(BRANCHED_ID, [1], "new-r");
+    await setSessionPins(BRANCHED_ID, [1], "old-r");
+    await setSessionPins(BRANCHED_ID, [], "old-r");
+
+    expect(await sessionPinService.getPins(BRANCHED_ID)).toEqual([2]);
+  });
+
+  it("protects the turn pinned in the branch view when that branch is cloned", async () => {
+    await setSessionPins(BRANCHED_ID, [1], "new-r");
+
+    const result = await cloneSessionV2({
+      sessionId: BRANCHED_ID,
+      toolRemoval: 100,
+      thinkingRemoval: 0,
+      leafUuid: "new-r",
+    } as CloneRequestV2);
+
+    const written = readFileSync(result.outputPath, "utf-8");
+    expect(result.stats.pinnedTurns).toBe(1);
+    expect(written).toContain("tool-new");
+    expect(written).not.toContain("tool-old");
+    const cloneId = result.outputPath.split("/").pop()!.replace(".jsonl", "");
+    expect(await sessionPinService.getPins(cloneId)).toEqual([1]);
+  });
+});
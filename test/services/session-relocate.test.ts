@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { sessionRelocateService } from "../../src/services/session-relocate.js";
+import { RelocateRequestSchema } from "../../src/schemas/relocate.js";
+import { RelocateError, SessionExistsError, SessionNotFoundError } from "../../src/errors.js";
+import type { SessionEntry } from "../../src/types.js";
+
+const SESSION_ID = "5ab0a9e0-0000-4000-8000-000000000007";
+
+const entries: SessionEntry[] = [
+  { type: "user", uuid: "u1", parentUuid: null, sessionId: SESSION_ID, cwd: "/work/repo", message: { role: "user", content: "Fix the parser" } },
+  {
+    type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: SESSION_ID, cwd: "/work/repo/src",
+    message: {
+      role: "assistant",
+      content: [
+        { type: "tool_use", id: "t1", name: "Read", input: { file_path: "/work/repo/src/parser.ts" } },
+        { type: "tool_use", id: "t2", name: "Bash", input: { command: "cd /work/repo && ls /work/repo-old" } },
+      ],
+    },
+  },
+  { type: "user", uuid: "r1", parentUuid: "a1", sessionId: SESSION_ID, cwd: "/tmp", message: { role: "user", content: "Thanks" } },
+];
+
+const readEntries = (filePath: string): SessionEntry[] =>
+  readFileSync(filePath, "utf-8").trim().split("\n").map((line) => JSON.parse(line) as SessionEntry);
+
+describe("SessionRelocateService", () => {
+  let dir: string;
+  let sourcePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "relocate-"));
+    process.env.CLAUDE_DIR = dir;
+    const projectDir = join(dir, "projects", "-work-repo");
+    mkdirSync(join(projectDir, SESSION_ID, "subagents"), { recursive: true });
+    sourcePath = join(projectDir, `${SESSION_ID}.jsonl`);
+    writeFileSync(sourcePath, entries.map((e) => JSON.stringify(e)).join("\n") + "\n");
+    writeFileSync(
+      join(projectDir, SESSION_ID, "subagents", "agent-abc.jsonl"),
+      JSON.stringify({ type: "user", sessionId: SESSION_ID, cwd: "/work/repo", isSidechain: true }) + "\n"
+    );
+  });
+
+  afterEach(() => {
+    delete process.env.CLAUDE_DIR;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const relocate = (body: Record<string, unknown>) =>
+    sessionRelocateService.relocate(SESSION_ID, RelocateRequestSchema.parse(body));
+
+  it("moves the session into the target project folder and rewrites cwd", async () => {
+    const result = await relocate({ targetPath: "/work/repo-wt/" });
+
+    const targetPath = join(dir, "projects", "-work-repo-wt", `${SESSION_ID}.jsonl`);
+    expect(result).toMatchObject({
+      sessionId: SESSION_ID,
+      mode: "move",
+      fromPath: "/work/repo",
+      projectPath: "/work/repo-wt",
+      folder: "-work-repo-wt",
+      path: targetPath,
+      entriesUpdated: 3,
+      toolPathsRewritten: 0,
+      subagentsRelocated: 1,
+      command: `cd /work/repo-wt && claude --resume ${SESSION_ID}`,
+    });
+    expect(existsSync(sourcePath)).toBe(false);
+    expect(readEntries(targetPath).map((e) => e.cwd)).toEqual(["/work/repo-wt", "/work/repo-wt/src", "/work/repo-wt"]);
+    expect(readFileSync(targetPath, "utf-8")).toContain('"file_path":"/work/repo/src/parser.ts"');
+
+    const agentPath = join(dir, "projects", "-work-repo-wt", SESSION_ID, "subagents", "agent-abc.jsonl");
+    expect(readEntries(agentPath)[0].cwd).toBe("/work/repo-wt");
+  });
+
+  it("rewrites absolute paths in tool inputs when asked", async () => {
+    const result = await relocate({ targetPath: "/work/repo-wt", rewriteToolPaths: true });
+
+    const content = readEntries(result.path)[1].message!.content as Array<{ input: Record<string, string> }>;
+    expect(content[0].input.file_path).toBe("/work/repo-wt/src/parser.ts");
+    // A sibling path that only starts with the old project path is left alone
+    expect(content[1].input.command).toBe("cd /work/repo-wt && ls /work/repo-old");
+    expect(result.toolPathsRewritten).toBe(2);
+  });
+
+  it("copies the session under a new ID and keeps the original", async () => {
+    const result = await relocate({ targetPath: "/work/repo-wt", mode: "copy" });
+
+    expect(result.sessionId).not.toBe(SESSION_ID);
+    expect(result.sourceSessionId).toBe(SESSION_ID);
+    expect(readFileSync(sourcePath, "utf-8")).toContain('"cwd":"/work/repo"');
+    expect(readEntries(result.path).every((e) => e.sessionId === result.sessionId)).toBe(true);
+    expect(existsSync(join(dir, "projects", "-work-repo", SESSION_ID, "subagents", "agent-abc.jsonl"))).toBe(true);
+    expect(existsSync(join(dir, "projects", "-work-repo-wt", result.sessionId, "subagents", "agent-abc.jsonl"))).toBe(true);
+  });
+
+  it("rejects moving a session to the folder it is already in", async () => {
+    await expect(relocate({ targetPath: "/work/repo" })).rejects.toBeInstanceOf(RelocateError);
+  });
+
+  it("refuses to overwrite a session in the target folder", async () => {
+    const targetDir = join(dir, "projects", "-work-repo-wt");
+    mkdirSync(targetDir, { recursive: true });
+    writeFileSync(join(targetDir, `${SESSION_ID}.jsonl`), "{}\n");
+
+    await expect(relocate({ targetPath: "/work/repo-wt" })).rejects.toBeInstanceOf(SessionExistsError);
+    expect(existsSync(sourcePath)).toBe(true);
+  });
+
+  it("throws SessionNotFoundError for an unknown session", async () => {
+    await expect(
+      sessionRelocateService.relocate("5ab0a9e0-0000-4000-8000-0000000000ff", RelocateRequestSchema.parse({ targetPath: "/x" }))
+    ).rejects.toBeInstanceOf(SessionNotFoundError);
+  });
+
+  it("quotes the target path in the resume command", async () => {
+    const result = await relocate({ targetPath: "/work/my repo; rm -rf ~" });
+
+    expect(result.folder).toBe("-work-my-repo--rm--rf--");
+    expect(result.command).toBe(`cd '/work/my repo; rm -rf ~' && claude --resume ${SESSION_ID}`);
+  });
+
+  it("names the target folder the way Claude Code does", async () => {
+    const result = await relocate({ targetPath: "/home/me/.worktrees/my_repo v2" });
+
+    expect(result.folder).toBe("-home-me--worktrees-my-repo-v2");
+    expect(result.path).toBe(join(dir, "projects", "-home-me--worktrees-my-repo-v2", `${SESSION_ID}.jsonl`));
+    expect(existsSync(result.path)).toBe(true);
+  });
+
+  it("requires an absolute target path", () => {
+    expect(RelocateRequestSchema.safeParse({ targetPath: "work/repo" }).success).toBe(false);
+  });
+});
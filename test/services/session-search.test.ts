@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, mkdir, rm, writeFile, unlink } from "fs/promises";
+import { toFtsQuery } from "../../src/lib/search-index.js";
+import { sessionSearchService, claudeSearchDocuments } from "../../src/services/session-search.js";
+import { SearchQuerySchema } from "../../src/schemas/search.js";
+
+const COPILOT_FIXTURES = join(process.cwd(), "test/fixtures/copilot-sessions/workspaceStorage");
+const SESSION_ID = "5ea4c000-0000-4000-8000-000000000001";
+
+const lines = [
+  {
+    type: "user", uuid: "u1", parentUuid: null, timestamp: "2026-03-01T10:00:00.000Z",
+    cwd: "/Users/test/billing-api",
+    message: { role: "user", content: "Why does the nightly job fail?" },
+  },
+  {
+    type: "assistant", uuid: "a1", parentUuid: "u1", timestamp: "2026-03-01T10:00:05.000Z",
+    message: { role: "assistant", content: [{ type: "text", text: "The cron schedule is wrong." }] },
+  },
+  {
+    type: "user", uuid: "u2", parentUuid: "a1", timestamp: "2026-03-02T09:00:00.000Z",
+    message: { role: "user", content: "Let's debug the database migration" },
+  },
+  {
+    type: "assistant", uuid: "a2", parentUuid: "u2", timestamp: "2026-03-02T09:00:05.000Z",
+    message: {
+      role: "assistant",
+      content: [
+        { type: "text", text: "Running the migrations now." },
+        { type: "tool_use", id: "t1", name: "Bash", input: { command: "npm run db:migrate" } },
+      ],
+    },
+  },
+];
+
+describe("toFtsQuery", () => {
+  it("quotes words and keeps phrases together", () => {
+    expect(toFtsQuery('debug "foreign key" migration')).toBe('"debug" "foreign key" "migration"');
+  });
+
+  it("strips FTS5 syntax from the input", () => {
+    expect(toFtsQuery("db:migrate OR (x*)")).toBe('"db migrate" "OR" "x"');
+    expect(toFtsQuery('" ** "')).toBeNull();
+  });
+});
+
+describe("claudeSearchDocuments", () => {
+  it("splits turns into user, assistant and tool documents", () => {
+    const docs = claudeSearchDocuments(lines.map((l) => JSON.stringify(l)).join("\n"));
+    expect(docs.filter((d) => d.turnIndex === 1).map((d) => d.role)).toEqual(["user", "assistant", "tool"]);
+    expect(docs.find((d) => d.role === "tool")?.text).toContain("npm run db:migrate");
+    expect(docs[0].timestamp).toBe(Date.parse("2026-03-01T10:00:00.000Z"));
+  });
+});
+
+describe("SearchQuerySchema", () => {
+  it("extends a bare to date to the end of that day", () => {
+    const query = SearchQuerySchema.parse({ q: "x", from: "2026-10-19", to: "2026-10-19" });
+    expect(query.from).toBe(Date.parse("2026-10-19T00:00:00.000Z"));
+    expect(query.to).toBe(Date.parse("2026-10-19T23:59:59.999Z"));
+    expect(SearchQuerySchema.parse({ q: "x", to: "2026-10-19T12:00:00Z" }).to).toBe(Date.parse("2026-10-19T12:00:00Z"));
+    expect(SearchQuerySchema.safeParse({ q: "x", to: "2026-13-45" }).success).toBe(false);
+  });
+});
+
+describe("SessionSearchService", () => {
+  let root: string;
+  let sessionPath: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "session-search-"));
+    const projectDir = join(root, "projects", "-Users-test-billing-api");
+    await mkdir(projectDir, { recursive: true });
+    sessionPath = join(projectDir, `${SESSION_ID}.jsonl`);
+    await writeFile(sessionPath, lines.map((l) => JSON.stringify(l)).join("\n") + "\n");
+
+    process.env.CLAUDE_DIR = root;
+    process.env.VSCODE_STORAGE_PATH = COPILOT_FIXTURES;
+  });
+
+  afterAll(async () => {
+    delete process.env.CLAUDE_DIR;
+    delete process.env.VSCODE_STORAGE_PATH;
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("finds the matching turn with stemming and deep-links to it", async () => {
+    const { results } = await sessionSearchService.search("migrating database");
+    expect(results[0]).toMatchObject({
+      source: "claude",
+      sessionId: SESSION_ID,
+      folder: "-Users-test-billing-api",
+      projectPath: "/Users/test/billing-api",
+      turnIndex: 1,
+      role: "user",
+      url: `/session-detail?id=${SESSION_ID}&source=claude&turn=2`,
+    });
+    expect(results[0].snippet).toContain("[[database]]");
+  });
+
+  it("searches tool names and inputs", async () => {
+    const { results } = await sessionSearchService.search("bash", { role: "tool" });
+    expect(results.map((r) => [r.sessionId, r.turnIndex])).toEqual([[SESSION_ID, 1]]);
+  });
+
+  it("indexes Copilot sessions with workspace links", async () => {
+    const { results } = await sessionSearchService.search("JWT", { source: "copilot" });
+    expect(results[0]).toMatchObject({
+      sessionId: "11111111-1111-1111-1111-111111111111",
+      projectPath: "/Users/test/projectalpha",
+      turnIndex: 0,
+    });
+    expect(results[0].url).toContain("workspace=abc123def456ghi789");
+  });
+
+  it("filters by project and date range", async () => {
+    const byProject = await sessionSearchService.search("refactor", { project: "/Users/test/billing-api" });
+    expect(byProject.results).toEqual([]);
+
+    const before = await sessionSearchService.search("migration", { to: Date.parse("2026-03-01T23:59:59Z") });
+    expect(before.results).toEqual([]);
+    const after = await sessionSearchService.search("cron", { from: Date.parse("2026-03-01T00:00:00Z") });
+    expect(after.results.map((r) => r.turnIndex)).toEqual([0]);
+  });
+
+  it("drops sessions deleted from disk", async () => {
+    await unlink(sessionPath);
+    const { results } = await sessionSearchService.search("migration");
+    expect(results).toEqual([]);
+  });
+});
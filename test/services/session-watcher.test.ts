@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, mkdir, rm, writeFile, appendFile, copyFile, unlink } from "fs/promises";
+import { SessionWatcher } from "../../src/services/session-watcher.js";
+import type { SessionChangeEvent } from "../../src/services/session-watcher.js";
+import { ClaudeSessionSource } from "../../src/sources/claude-source.js";
+
+const COPILOT_SESSION = join(
+  process.cwd(),
+  "test/fixtures/copilot-sessions/workspaceStorage/abc123def456ghi789/chatSessions/11111111-1111-1111-1111-111111111111.json"
+);
+
+const USER_LINE = JSON.stringify({
+  type: "user",
+  uuid: "u1",
+  parentUuid: null,
+  message: { role: "user", content: "Watch me" },
+}) + "\n";
+
+const ASSISTANT_LINE = JSON.stringify({
+  type: "assistant",
+  uuid: "a1",
+  parentUuid: "u1",
+  message: { role: "assistant", content: [{ type: "text", text: "Watching" }] },
+}) + "\n";
+
+describe("SessionWatcher", () => {
+  let root: string;
+  let projectDir: string;
+  let chatSessionsDir: string;
+  let watcher: SessionWatcher;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "session-watcher-"));
+    projectDir = join(root, "claude", "projects", "-Users-test-live");
+    chatSessionsDir = join(root, "workspaceStorage", "livehash", "chatSessions");
+    await mkdir(projectDir, { recursive: true });
+    await mkdir(chatSessionsDir, { recursive: true });
+    await writeFile(
+      join(root, "workspaceStorage", "livehash", "workspace.json"),
+      JSON.stringify({ folder: "file:///Users/test/live" })
+    );
+
+    process.env.CLAUDE_DIR = join(root, "claude");
+    process.env.VSCODE_STORAGE_PATH = join(root, "workspaceStorage");
+    watcher = new SessionWatcher(60000);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    watcher.stop();
+    delete process.env.CLAUDE_DIR;
+    delete process.env.VSCODE_STORAGE_PATH;
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("records the initial state without emitting", async () => {
+    await writeFile(join(projectDir, "s1.jsonl"), USER_LINE);
+    expect(await watcher.poll()).toEqual([]);
+  });
+
+  it("reports created, appended and deleted Claude sessions", async () => {
+    await watcher.poll();
+    const filePath = join(projectDir, "s1.jsonl");
+
+    await writeFile(filePath, USER_LINE);
+    const [created] = await watcher.poll();
+    expect(created).toMatchObject({ type: "created", source: "claude", sessionId: "s1", folder: "-Users-test-live" });
+    expect(created.session?.firstMessage).toBe("Watch me");
+
+    await appendFile(filePath, ASSISTANT_LINE);
+    const [updated] = await watcher.poll();
+    expect(updated.type).toBe("updated");
+    expect(updated.session?.sizeBytes).toBe(USER_LINE.length + ASSISTANT_LINE.length);
+
+    await unlink(filePath);
+    expect(await watcher.poll()).toEqual([
+      { type: "deleted", source: "claude", sessionId: "s1", folder: "-Users-test-live" },
+    ]);
+  });
+
+  it("summarizes only the changed session", async () => {
+    await writeFile(join(projectDir, "s1.jsonl"), USER_LINE);
+    await writeFile(join(projectDir, "s2.jsonl"), USER_LINE);
+    await watcher.poll();
+    const listSessions = vi.spyOn(ClaudeSessionSource.prototype, "listSessions");
+
+    await appendFile(join(projectDir, "s2.jsonl"), ASSISTANT_LINE);
+    const [updated] = await watcher.poll();
+
+    expect(updated).toMatchObject({ type: "updated", sessionId: "s2" });
+    expect(updated.session).toMatchObject({ sessionId: "s2", turnCount: 1, projectPath: "/Users/test/live" });
+    expect(listSessions).not.toHaveBeenCalled();
+  });
+
+  it("reports Copilot sessions with their workspace folder", async () => {
+    await watcher.poll();
+    await copyFile(COPILOT_SESSION, join(chatSessionsDir, "11111111-1111-1111-1111-111111111111.json"));
+
+    const [created] = await watcher.poll();
+    expect(created).toMatchObject({ type: "created", source: "copilot", folder: "livehash" });
+    expect(created.session?.projectPath).toBe("/Users/test/live");
+  });
+
+  it("notifies subscribers and stops when the last one leaves", async () => {
+    const received: SessionChangeEvent[] = [];
+    const unsubscribe = watcher.subscribe((event) => received.push(event));
+
+    await watcher.poll();
+    await writeFile(join(projectDir, "s2.jsonl"), USER_LINE);
+    await watcher.poll();
+    expect(received.map((e) => e.sessionId)).toEqual(["s2"]);
+
+    unsubscribe();
+    // Stopping forgets the snapshot, so the next scan is a fresh baseline
+    await writeFile(join(projectDir, "s3.jsonl"), USER_LINE);
+    expect(await watcher.poll()).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { identifyTurns, applySubagentHandling } from "../../src/services/session-clone.js";
+import { buildTurnsData } from "../../src/services/session-turns.js";
+import { getSessionSubagents, getSubagentTurns } from "../../src/services/subagents.js";
+import { ClaudeSessionSource } from "../../src/sources/claude-source.js";
+import { SubagentNotFoundError } from "../../src/errors.js";
+import type { SessionEntry } from "../../src/types.js";
+
+const SESSION_ID = "5ab0a9e0-0000-4000-8000-000000000001";
+const FOLDER = "-Users-test-agents";
+
+const entries: SessionEntry[] = [
+  { type: "user", uuid: "u1", parentUuid: null, sessionId: SESSION_ID, message: { role: "user", content: "Find the flaky test" } },
+  {
+    type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: SESSION_ID,
+    message: {
+      role: "assistant",
+      content: [
+        { type: "tool_use", id: "task-1", name: "Task", input: { description: "Search tests", prompt: "List every test that uses timers", subagent_type: "Explore" } },
+      ],
+    },
+  },
+  // Inline subagent transcript, linked to task-1 by its prompt
+  { type: "user", uuid: "s1", parentUuid: null, isSidechain: true, sessionId: SESSION_ID, message: { role: "user", content: "List every test that uses timers" } },
+  { type: "assistant", uuid: "s2", parentUuid: "s1", isSidechain: true, sessionId: SESSION_ID, message: { role: "assistant", content: [{ type: "text", text: "watcher.test.ts and retry.test.ts use fake timers." }] } },
+  {
+    type: "user", uuid: "r1", parentUuid: "a1", sessionId: SESSION_ID,
+    message: { role: "user", content: [{ type: "tool_result", tool_use_id: "task-1", content: "Two tests use timers." }] },
+  },
+  { type: "assistant", uuid: "a2", parentUuid: "r1", sessionId: SESSION_ID, message: { role: "assistant", content: [{ type: "text", text: "Two candidates." }] } },
+  { type: "user", uuid: "u2", parentUuid: "a2", sessionId: SESSION_ID, message: { role: "user", content: "Review the retry logic" } },
+  {
+    type: "assistant", uuid: "a3", parentUuid: "u2", sessionId: SESSION_ID,
+    message: {
+      role: "assistant",
+      content: [
+        { type: "tool_use", id: "task-2", name: "Task", input: { description: "Review retry", prompt: "Review src/retry.ts", subagent_type: "general-purpose" } },
+      ],
+    },
+  },
+  // File-based subagent, linked to task-2 through the recorded agentId
+  {
+    type: "user", uuid: "r2", parentUuid: "a3", sessionId: SESSION_ID,
+    toolUseResult: { agentId: "f00dcafe", status: "completed" },
+    message: { role: "user", content: [{ type: "tool_result", tool_use_id: "task-2", content: "Retry looks fine." }] },
+  },
+];
+
+const agentEntries: SessionEntry[] = [
+  { type: "user", uuid: "f1", parentUuid: null, isSidechain: true, agentId: "f00dcafe", sessionId: SESSION_ID, message: { role: "user", content: "Review src/retry.ts" } },
+  { type: "assistant", uuid: "f2", parentUuid: "f1", isSidechain: true, agentId: "f00dcafe", sessionId: SESSION_ID, message: { role: "assistant", content: [{ type: "text", text: "The backoff doubles each attempt." }] } },
+  { type: "user", uuid: "f3", parentUuid: "f2", isSidechain: true, agentId: "f00dcafe", sessionId: SESSION_ID, message: { role: "user", content: "Check the max attempts too" } },
+  { type: "assistant", uuid: "f4", parentUuid: "f3", isSidechain: true, agentId: "f00dcafe", sessionId: SESSION_ID, message: { role: "assistant", content: [{ type: "text", text: "Capped at five." }] } },
+];
+
+const toJsonl = (lines: SessionEntry[]) => lines.map((l) => JSON.stringify(l)).join("\n") + "\n";
+
+describe("sidechain entries", () => {
+  it("do not start turns", () => {
+    expect(identifyTurns(entries)).toEqual([
+      { startIndex: 0, endIndex: 5 },
+      { startIndex: 6, endIndex: 8 },
+    ]);
+  });
+
+  it("are left out of the parent's tokens and content", () => {
+    const [first] = buildTurnsData(entries);
+    const withoutSidechain = buildTurnsData(entries.filter((e) => e.isSidechain !== true));
+    expect(first.cumulative).toEqual(withoutSidechain[0].cumulative);
+    expect(first.content.assistantResponse).toBe("Two candidates.");
+  });
+});
+
+describe("applySubagentHandling", () => {
+  it("keeps sidechains by default", async () => {
+    const result = await applySubagentHandling(entries, "keep", false);
+    expect(result.entries).toBe(entries);
+    expect(result.entriesRemoved).toBe(0);
+  });
+
+  it("removes inline sidechain entries only", async () => {
+    const result = await applySubagentHandling(entries, "remove", false);
+    expect(result.entriesRemoved).toBe(2);
+    expect(result.entries.map((e) => e.uuid)).toEqual(["u1", "a1", "r1", "a2", "u2", "a3", "r2"]);
+  });
+});
+
+describe("subagent transcripts", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "subagents-"));
+    const projectDir = join(root, "projects", FOLDER);
+    await mkdir(projectDir, { recursive: true });
+    await writeFile(join(projectDir, `${SESSION_ID}.jsonl`), toJsonl(entries));
+    await writeFile(join(projectDir, "agent-f00dcafe.jsonl"), toJsonl(agentEntries));
+    process.env.CLAUDE_DIR = root;
+  });
+
+  afterAll(async () => {
+    delete process.env.CLAUDE_DIR;
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("links inline and file transcripts to their Task calls", async () => {
+    const { subagents } = await getSessionSubagents(SESSION_ID);
+    expect(subagents).toMatchObject([
+      { agentId: "s1", toolUseId: "task-1", turnIndex: 0, description: "Search tests", subagentType: "Explore", location: "inline", totalTurns: 1 },
+      { agentId: "f00dcafe", toolUseId: "task-2", turnIndex: 1, description: "Review retry", location: "file", totalTurns: 2 },
+    ]);
+    expect(subagents[0].tokens.total).toBeGreaterThan(0);
+    expect(subagents[0].tokens.user).toBeGreaterThan(0);
+  });
+
+  it("returns the turns of one subagent", async () => {
+    const response = await getSubagentTurns(SESSION_ID, "f00dcafe");
+    expect(response.totalTurns).toBe(2);
+    expect(response.turns[1].content.userPrompt).toBe("Check the max attempts too");
+    expect(response.turns[1].cumulative).toEqual(response.subagent.tokens);
+  });
+
+  it("rejects unknown agents", async () => {
+    await expect(getSubagentTurns(SESSION_ID, "missing")).rejects.toBeInstanceOf(SubagentNotFoundError);
+  });
+
+  it("does not list agent files as sessions", async () => {
+    const sessions = await new ClaudeSessionSource().listSessions(FOLDER);
+    expect(sessions.map((s) => s.sessionId)).toEqual([SESSION_ID]);
+  });
+});
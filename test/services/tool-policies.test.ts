@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { applyRemovals, resolveToolPolicy } from "../../src/services/session-clone.js";
+import type { RemovalOptions, SessionEntry } from "../../src/types.js";
+
+const longOutput = Array.from({ length: 20 }, (_, i) => `line ${i} of a long tool output`).join("\n");
+
+function toolTurn(n: number, tools: string[]): SessionEntry[] {
+  return [
+    { type: "user", uuid: `u${n}`, parentUuid: null, message: { role: "user", content: `Prompt ${n}` } },
+    {
+      type: "assistant", uuid: `a${n}`, parentUuid: `u${n}`,
+      message: {
+        role: "assistant",
+        content: tools.map((name) => ({ type: "tool_use", id: `${name}-${n}`, name, input: { arg: "x".repeat(400) } })),
+      },
+    },
+    {
+      type: "user", uuid: `r${n}`, parentUuid: `a${n}`,
+      message: {
+        role: "user",
+        content: tools.map((name) => ({ type: "tool_result", tool_use_id: `${name}-${n}`, content: longOutput })),
+      },
+    },
+  ];
+}
+
+const tools = ["Read", "Edit", "Bash", "mcp__github__create_issue", "WebFetch"];
+const entries = [...toolTurn(0, tools), ...toolTurn(1, tools)];
+
+const base: RemovalOptions = { toolRemoval: 0, toolHandlingMode: "remove", thinkingRemoval: 0 };
+
+function blocks(result: SessionEntry[], type: string): any[] {
+  return result.flatMap((e) => (Array.isArray(e.message?.content) ? e.message!.content : []))
+    .filter((b) => b.type === type);
+}
+
+describe("resolveToolPolicy", () => {
+  const options: RemovalOptions = {
+    ...base,
+    toolPolicies: {
+      Read: { mode: "remove", threshold: 100 },
+      "mcp__*": { mode: "truncate", threshold: 50 },
+      "mcp__github__*": { mode: "keep", threshold: 100 },
+    },
+  };
+
+  it("prefers an exact name, then the longest pattern", () => {
+    expect(resolveToolPolicy("Read", options).mode).toBe("remove");
+    expect(resolveToolPolicy("mcp__github__create_issue", options).mode).toBe("keep");
+    expect(resolveToolPolicy("mcp__slack__post", options).mode).toBe("truncate");
+  });
+
+  it("falls back to the global settings", () => {
+    expect(resolveToolPolicy("Grep", { ...options, toolRemoval: 75, toolHandlingMode: "truncate" }))
+      .toEqual({ mode: "truncate", threshold: 75 });
+  });
+});
+
+describe("applyRemovals with tool policies", () => {
+  it("applies each tool's own mode", () => {
+    const result = applyRemovals(entries, {
+      ...base,
+      toolRemoval: 100,
+      toolPolicies: {
+        Read: { mode: "remove", threshold: 100 },
+        Edit: { mode: "keep", threshold: 100 },
+        Bash: { mode: "truncate", threshold: 100 },
+        WebFetch: { mode: "summarize", threshold: 100 },
+      },
+    });
+
+    const uses = blocks(result.entries, "tool_use");
+    const results = blocks(result.entries, "tool_result");
+    expect(uses.map((b) => b.name)).not.toContain("Read");
+    // Unlisted MCP tool follows the global 100% removal
+    expect(uses.map((b) => b.name)).not.toContain("mcp__github__create_issue");
+    expect(results.find((b) => b.tool_use_id === "Edit-0").content).toBe(longOutput);
+    expect(results.find((b) => b.tool_use_id === "Bash-0").content.length).toBeLessThan(longOutput.length);
+    expect(results.find((b) => b.tool_use_id === "WebFetch-0").content).toBe(longOutput);
+
+    expect(result.toolCallsRemoved).toBe(4);
+    expect(result.removedBlockIds).toEqual(["Read-0", "mcp__github__create_issue-0", "Read-1", "mcp__github__create_issue-1"]);
+    expect(result.toolUseIdsToSummarize).toEqual(["WebFetch-0", "WebFetch-1"]);
+  });
+
+  it("limits each policy to its threshold of oldest turns", () => {
+    const result = applyRemovals(entries, {
+      ...base,
+      toolPolicies: { Read: { mode: "remove", threshold: 50 } },
+    });
+
+    expect(result.removedBlockIds).toEqual(["Read-0"]);
+    expect(blocks(result.entries, "tool_result").map((b) => b.tool_use_id)).toContain("Read-1");
+  });
+
+  it("keeps results of kept tools when the global mode truncates", () => {
+    const result = applyRemovals(entries, {
+      ...base,
+      toolRemoval: 100,
+      toolHandlingMode: "truncate",
+      toolPolicies: { Edit: { mode: "keep", threshold: 100 } },
+    });
+
+    const results = blocks(result.entries, "tool_result");
+    expect(results.find((b) => b.tool_use_id === "Edit-1").content).toBe(longOutput);
+    expect(results.find((b) => b.tool_use_id === "Read-1").content.length).toBeLessThan(longOutput.length);
+  });
+});
+
+describe("applyRemovals with pinned turns", () => {
+  it("leaves pinned turns out of tool removal and policies", () => {
+    const result = applyRemovals(entries, {
+      ...base,
+      toolRemoval: 100,
+      toolPolicies: { Edit: { mode: "truncate", threshold: 100 } },
+      pinnedTurns: [0],
+    });
+
+    const results = blocks(result.entries, "tool_result");
+    expect(results.filter((b) => b.tool_use_id.endsWith("-0"))).toHaveLength(tools.length);
+    expect(results.find((b) => b.tool_use_id === "Edit-0").content).toBe(longOutput);
+    expect(results.find((b) => b.tool_use_id === "Edit-1").content.length).toBeLessThan(longOutput.length);
+    expect(result.removedBlockIds.every((id) => id.endsWith("-1"))).toBe(true);
+  });
+});
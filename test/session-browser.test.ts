@@ -2,6 +2,7 @@ import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import path from "path";
 import {
   ClaudeSessionSource,
+  claudeProjectFolder,
   decodeFolderName,
   encodeFolderPath,
   truncateMessage,
@@ -36,6 +37,12 @@ describe("Session Browser", () => {
       });
     });
 
+    describe("claudeProjectFolder", () => {
+      it("replaces every character that is not a letter or digit", () => {
+        expect(claudeProjectFolder("/home/me/.worktrees/my_repo v2")).toBe("-home-me--worktrees-my-repo-v2");
+      });
+    });
+
     describe("truncateMessage", () => {
       it("returns short messages unchanged", () => {
         expect(truncateMessage("short message", 100)).toBe("short message");
@@ -64,7 +64,7 @@ describe("classifyBlock", () => {
 describe("calculateCumulativeTokens", () => {
   it("returns zero counts for empty entries", () => {
     const result = calculateCumulativeTokens([], [], 0);
-    expect(result).toEqual({ user: 0, assistant: 0, thinking: 0, tool: 0, total: 0 });
+    expect(result).toEqual({ user: 0, assistant: 0, thinking: 0, tool: 0, image: 0, total: 0 });
   });
 
   it("counts user message tokens", () => {
@@ -130,6 +130,35 @@ describe("calculateCumulativeTokens", () => {
     expect(result.tool).toBeGreaterThan(0);
   });
 
+  it("counts images by size, including images in tool results", () => {
+    const png = Buffer.alloc(24);
+    png.writeUInt32BE(0x89504e47, 0);
+    png.writeUInt32BE(750, 16);
+    png.writeUInt32BE(100, 20);
+    const image = { type: "image", source: { type: "base64", media_type: "image/png", data: png.toString("base64") } };
+    const entries: SessionEntry[] = [
+      { type: "user", message: { role: "user", content: [{ type: "text", text: "what is this" }, image] } },
+      {
+        type: "assistant",
+        message: { role: "assistant", content: [{ type: "tool_use", id: "1", name: "screenshot", input: {} }] },
+      },
+      {
+        type: "user",
+        message: {
+          role: "user",
+          content: [{ type: "tool_result", tool_use_id: "1", content: [{ type: "text", text: "captured" }, image] }],
+        },
+      },
+    ];
+    const turns: Turn[] = [{ startIndex: 0, endIndex: 2 }];
+    const result = calculateCumulativeTokens(entries, turns, 0);
+    expect(result.image).toBe(200);
+    // The image's base64 data is not counted as tool text
+    const withoutImage = JSON.parse(JSON.stringify(entries).replaceAll(`,${JSON.stringify(image)}`, ""));
+    expect(result.tool).toBe(calculateCumulativeTokens(withoutImage, turns, 0).tool);
+    expect(result.total).toBe(result.user + result.assistant + result.thinking + result.tool + result.image);
+  });
+
   it("accumulates tokens across multiple turns", () => {
     const entries: SessionEntry[] = [
       { type: "user", message: { role: "user", content: "first message" } },
@@ -6,6 +6,8 @@ export default defineConfig({
     environment: "node",
     include: ["test/**/*.test.ts", "test/**/*.test.js"],
     environmentMatchGlobs: [["test/js/ui/**", "jsdom"]],
+    // Keep the session metadata index out of fixture directories
+    env: { SESSION_INDEX_PATH: ":memory:" },
   },
 });
 